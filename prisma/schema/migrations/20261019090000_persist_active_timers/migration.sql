@@ -0,0 +1,3 @@
+-- CreateIndex
+-- A user may hold at most one running timer (open time entry).
+CREATE UNIQUE INDEX "time_entries_userId_open_key" ON "time_entries"("userId") WHERE "endTime" IS NULL;
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "time_entries" ADD COLUMN     "clientId" TEXT;
+
+-- AlterTable
+ALTER TABLE "IdlePeriod" ADD COLUMN     "clientId" TEXT;
+
+-- AlterTable
+ALTER TABLE "AppActivity" ADD COLUMN     "clientId" TEXT;
+
+-- AlterTable
+ALTER TABLE "screenshots" ADD COLUMN     "clientId" TEXT,
+ALTER COLUMN "url" DROP NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "time_entries_userId_clientId_key" ON "time_entries"("userId", "clientId");
+
+-- CreateIndex
+CREATE INDEX "time_entries_userId_updatedAt_idx" ON "time_entries"("userId", "updatedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IdlePeriod_timeEntryId_clientId_key" ON "IdlePeriod"("timeEntryId", "clientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AppActivity_timeEntryId_clientId_key" ON "AppActivity"("timeEntryId", "clientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "screenshots_timeEntryId_clientId_key" ON "screenshots"("timeEntryId", "clientId");
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "OverlapPolicy" AS ENUM ('REJECT', 'AUTO_TRIM', 'ALLOW_AND_FLAG');
+
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "overlapPolicy" "OverlapPolicy" NOT NULL DEFAULT 'REJECT';
+
+-- AlterTable
+ALTER TABLE "time_entries" ADD COLUMN     "hasOverlap" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "time_entries_hasOverlap_idx" ON "time_entries"("hasOverlap");
@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "IdlePolicy" AS ENUM ('KEEP', 'DISCARD', 'ASK');
+
+-- CreateEnum
+CREATE TYPE "IdleStatus" AS ENUM ('PENDING', 'KEPT', 'DISCARDED');
+
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "idlePolicy" "IdlePolicy" NOT NULL DEFAULT 'KEEP',
+ADD COLUMN     "idleThresholdMinutes" INTEGER NOT NULL DEFAULT 5;
+
+-- AlterTable
+ALTER TABLE "time_entries" ADD COLUMN     "idleSeconds" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "IdlePeriod" ADD COLUMN     "resolvedAt" TIMESTAMP(3),
+ADD COLUMN     "status" "IdleStatus" NOT NULL DEFAULT 'KEPT';
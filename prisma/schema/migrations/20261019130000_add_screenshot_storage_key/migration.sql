@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "screenshots" ADD COLUMN     "storageKey" TEXT;
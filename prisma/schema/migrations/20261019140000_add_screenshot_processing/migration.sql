@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "blurScreenshots" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "screenshots" ADD COLUMN     "thumbnailKeys" JSONB;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "screenshotRetentionDays" INTEGER;
+
+-- CreateTable
+CREATE TABLE "screenshot_purge_logs" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "retentionDays" INTEGER NOT NULL,
+    "cutoff" TIMESTAMP(3) NOT NULL,
+    "deletedCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedLocked" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "screenshot_purge_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "screenshot_purge_logs_organizationId_finishedAt_idx" ON "screenshot_purge_logs"("organizationId", "finishedAt");
+
+-- CreateIndex
+CREATE INDEX "screenshots_takenAt_idx" ON "screenshots"("takenAt");
+
+-- AddForeignKey
+ALTER TABLE "screenshot_purge_logs" ADD CONSTRAINT "screenshot_purge_logs_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "PayrollRunStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "payroll_runs" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "status" "PayrollRunStatus" NOT NULL DEFAULT 'PENDING',
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "notes" TEXT,
+    "totalHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalGross" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalNet" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "employeeCount" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "payroll_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payroll_run_items" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "userName" TEXT NOT NULL,
+    "hourlyRate" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL,
+    "totalSeconds" INTEGER NOT NULL,
+    "totalHours" DOUBLE PRECISION NOT NULL,
+    "grossPay" DOUBLE PRECISION NOT NULL,
+    "netPay" DOUBLE PRECISION NOT NULL,
+    "timeEntriesCount" INTEGER NOT NULL,
+    "timeEntryIds" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payroll_run_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payroll_runs_organizationId_createdAt_idx" ON "payroll_runs"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "payroll_runs_status_idx" ON "payroll_runs"("status");
+
+-- CreateIndex
+CREATE INDEX "payroll_run_items_userId_idx" ON "payroll_run_items"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payroll_run_items_runId_userId_key" ON "payroll_run_items"("runId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "payroll_runs" ADD CONSTRAINT "payroll_runs_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_runs" ADD CONSTRAINT "payroll_runs_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_run_items" ADD CONSTRAINT "payroll_run_items_runId_fkey" FOREIGN KEY ("runId") REFERENCES "payroll_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_run_items" ADD CONSTRAINT "payroll_run_items_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "doubleTimeDailyThreshold" DOUBLE PRECISION,
+ADD COLUMN     "doubleTimeMultiplier" DOUBLE PRECISION NOT NULL DEFAULT 2,
+ADD COLUMN     "holidayMultiplier" DOUBLE PRECISION NOT NULL DEFAULT 1,
+ADD COLUMN     "overtimeDailyThreshold" DOUBLE PRECISION,
+ADD COLUMN     "overtimeMultiplier" DOUBLE PRECISION NOT NULL DEFAULT 1.5,
+ADD COLUMN     "overtimeWeeklyThreshold" DOUBLE PRECISION,
+ADD COLUMN     "weekendMultiplier" DOUBLE PRECISION NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "payroll_run_items" ADD COLUMN     "doubleTimeHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "doubleTimePay" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "overtimeHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "overtimePay" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "regularHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "regularPay" DOUBLE PRECISION NOT NULL DEFAULT 0;
@@ -0,0 +1,12 @@
+-- DropIndex
+DROP INDEX "organization_members_organizationId_userId_key";
+
+-- CreateIndex
+CREATE INDEX "organization_members_organizationId_userId_valid_from_idx" ON "organization_members"("organizationId", "userId", "valid_from");
+
+-- CreateIndex
+-- Строки истории ставок (is_current = false) не участвуют в уникальности
+CREATE UNIQUE INDEX "organization_members_current_key" ON "organization_members"("organizationId", "userId") WHERE "is_current";
+
+-- AlterTable
+ALTER TABLE "payroll_run_items" ADD COLUMN     "rates" JSONB;
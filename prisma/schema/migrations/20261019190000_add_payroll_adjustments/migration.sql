@@ -0,0 +1,72 @@
+-- CreateEnum
+CREATE TYPE "PayrollDeductionType" AS ENUM ('PERCENTAGE', 'FIXED');
+
+-- CreateEnum
+CREATE TYPE "PayrollAdjustmentType" AS ENUM ('BONUS', 'DEDUCTION', 'ADJUSTMENT');
+
+-- AlterTable
+ALTER TABLE "payroll_runs" ADD COLUMN     "totalAdjustments" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "totalBonus" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "totalDeductions" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "payroll_run_items" ADD COLUMN     "adjustments" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "bonus" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "deductions" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "recurringDeductions" JSONB;
+
+-- CreateTable
+CREATE TABLE "payroll_deductions" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "PayrollDeductionType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endDate" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payroll_deductions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payroll_adjustments" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "PayrollAdjustmentType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payroll_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payroll_deductions_organizationId_userId_idx" ON "payroll_deductions"("organizationId", "userId");
+
+-- CreateIndex
+CREATE INDEX "payroll_adjustments_runId_userId_idx" ON "payroll_adjustments"("runId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "payroll_deductions" ADD CONSTRAINT "payroll_deductions_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_deductions" ADD CONSTRAINT "payroll_deductions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_deductions" ADD CONSTRAINT "payroll_deductions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_adjustments" ADD CONSTRAINT "payroll_adjustments_runId_fkey" FOREIGN KEY ("runId") REFERENCES "payroll_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_adjustments" ADD CONSTRAINT "payroll_adjustments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_adjustments" ADD CONSTRAINT "payroll_adjustments_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
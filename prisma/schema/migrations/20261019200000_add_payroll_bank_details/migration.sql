@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "payrollBic" TEXT,
+ADD COLUMN     "payrollIban" TEXT;
+
+-- AlterTable
+ALTER TABLE "organization_members" ADD COLUMN     "payoutBic" TEXT,
+ADD COLUMN     "payoutIban" TEXT;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "PayrollApprovalStatus" AS ENUM ('DRAFT', 'APPROVED', 'PAID');
+
+-- CreateEnum
+CREATE TYPE "PayrollPaymentStatus" AS ENUM ('PENDING', 'PAID', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "payrollSecondApproval" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "payroll_runs" ADD COLUMN     "approvalStatus" "PayrollApprovalStatus" NOT NULL DEFAULT 'DRAFT',
+ADD COLUMN     "approvedAt" TIMESTAMP(3),
+ADD COLUMN     "approvedById" TEXT,
+ADD COLUMN     "lockedPeriodId" TEXT,
+ADD COLUMN     "paidAt" TIMESTAMP(3),
+ADD COLUMN     "secondApprovedAt" TIMESTAMP(3),
+ADD COLUMN     "secondApprovedById" TEXT;
+
+-- AlterTable
+ALTER TABLE "payroll_run_items" ADD COLUMN     "paidAt" TIMESTAMP(3),
+ADD COLUMN     "paymentReference" TEXT,
+ADD COLUMN     "paymentStatus" "PayrollPaymentStatus" NOT NULL DEFAULT 'PENDING';
+
+-- AddForeignKey
+ALTER TABLE "payroll_runs" ADD CONSTRAINT "payroll_runs_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_runs" ADD CONSTRAINT "payroll_runs_secondApprovedById_fkey" FOREIGN KEY ("secondApprovedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_runs" ADD CONSTRAINT "payroll_runs_lockedPeriodId_fkey" FOREIGN KEY ("lockedPeriodId") REFERENCES "LockedPeriod"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,79 @@
+-- CreateEnum
+CREATE TYPE "ApproverRole" AS ENUM ('PROJECT_MANAGER', 'ORG_MANAGER', 'ORG_ADMIN', 'ORG_OWNER');
+
+-- CreateTable
+CREATE TABLE "approval_chains" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "approval_chains_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "approval_chain_steps" (
+    "id" TEXT NOT NULL,
+    "chainId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "approverRole" "ApproverRole",
+    "approverId" TEXT,
+
+    CONSTRAINT "approval_chain_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "time_entry_approvals" (
+    "id" TEXT NOT NULL,
+    "timeEntryId" TEXT NOT NULL,
+    "chainId" TEXT,
+    "position" INTEGER NOT NULL,
+    "approverId" TEXT NOT NULL,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "time_entry_approvals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "approval_chains_projectId_key" ON "approval_chains"("projectId");
+
+-- CreateIndex
+CREATE INDEX "approval_chains_organizationId_idx" ON "approval_chains"("organizationId");
+
+-- Цепочка организации по умолчанию — не больше одной (Prisma не описывает
+-- частичные уникальные индексы)
+CREATE UNIQUE INDEX "approval_chains_organizationId_default_key" ON "approval_chains"("organizationId") WHERE "projectId" IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "approval_chain_steps_chainId_position_key" ON "approval_chain_steps"("chainId", "position");
+
+-- CreateIndex
+CREATE INDEX "time_entry_approvals_timeEntryId_revokedAt_idx" ON "time_entry_approvals"("timeEntryId", "revokedAt");
+
+-- AddForeignKey
+ALTER TABLE "approval_chains" ADD CONSTRAINT "approval_chains_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_chains" ADD CONSTRAINT "approval_chains_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_chains" ADD CONSTRAINT "approval_chains_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_chain_steps" ADD CONSTRAINT "approval_chain_steps_chainId_fkey" FOREIGN KEY ("chainId") REFERENCES "approval_chains"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_chain_steps" ADD CONSTRAINT "approval_chain_steps_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_entry_approvals" ADD CONSTRAINT "time_entry_approvals_timeEntryId_fkey" FOREIGN KEY ("timeEntryId") REFERENCES "time_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_entry_approvals" ADD CONSTRAINT "time_entry_approvals_chainId_fkey" FOREIGN KEY ("chainId") REFERENCES "approval_chains"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_entry_approvals" ADD CONSTRAINT "time_entry_approvals_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
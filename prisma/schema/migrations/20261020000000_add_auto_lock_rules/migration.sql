@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "AutoLockFrequency" AS ENUM ('WEEKLY', 'MONTHLY');
+
+-- CreateTable
+CREATE TABLE "auto_lock_rules" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "frequency" "AutoLockFrequency" NOT NULL DEFAULT 'WEEKLY',
+    "dayOfWeek" INTEGER,
+    "dayOfMonth" INTEGER,
+    "runTime" TEXT NOT NULL,
+    "warnMinutes" INTEGER NOT NULL DEFAULT 1440,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "nextRunAt" TIMESTAMP(3) NOT NULL,
+    "warnAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "auto_lock_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auto_lock_rules_organizationId_idx" ON "auto_lock_rules"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "auto_lock_rules_isActive_nextRunAt_idx" ON "auto_lock_rules"("isActive", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "auto_lock_rules_isActive_warnAt_idx" ON "auto_lock_rules"("isActive", "warnAt");
+
+-- AddForeignKey
+ALTER TABLE "auto_lock_rules" ADD CONSTRAINT "auto_lock_rules_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "auto_lock_rules" ADD CONSTRAINT "auto_lock_rules_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
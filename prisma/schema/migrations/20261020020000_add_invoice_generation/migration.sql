@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "InvoiceGroupBy" AS ENUM ('PROJECT', 'TASK', 'MEMBER');
+
+-- AlterTable
+ALTER TABLE "client_invoices" ADD COLUMN     "organizationId" TEXT,
+ADD COLUMN     "periodStart" TIMESTAMP(3),
+ADD COLUMN     "periodEnd" TIMESTAMP(3),
+ADD COLUMN     "groupBy" "InvoiceGroupBy",
+ADD COLUMN     "notes" TEXT,
+ADD COLUMN     "createdById" TEXT,
+ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Организация существующих счетов берется из клиента
+UPDATE "client_invoices" AS i
+SET "organizationId" = c."organizationId"
+FROM "clients" AS c
+WHERE c."id" = i."clientId";
+
+ALTER TABLE "client_invoices" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "invoice_line_items" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "projectId" TEXT,
+ADD COLUMN     "taskId" TEXT,
+ADD COLUMN     "userId" TEXT;
+
+-- AlterTable
+ALTER TABLE "time_entries" ADD COLUMN     "invoiceId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "client_invoices_organizationId_status_idx" ON "client_invoices"("organizationId", "status");
+
+-- CreateIndex
+CREATE INDEX "invoice_line_items_invoiceId_idx" ON "invoice_line_items"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "time_entries_invoiceId_idx" ON "time_entries"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "client_invoices" ADD CONSTRAINT "client_invoices_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "client_invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- DropIndex
+DROP INDEX "client_invoices_invoiceNumber_key";
+
+-- AlterTable
+ALTER TABLE "client_invoices" ADD COLUMN     "amountPaid" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "sentAt" TIMESTAMP(3),
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "invoice_payments" (
+    "id" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "paidAt" TIMESTAMP(3) NOT NULL,
+    "method" TEXT,
+    "reference" TEXT,
+    "note" TEXT,
+    "invoiceId" TEXT NOT NULL,
+    "recordedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoice_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_sequences" (
+    "id" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL DEFAULT 'INV-',
+    "padding" INTEGER NOT NULL DEFAULT 4,
+    "yearlyReset" BOOLEAN NOT NULL DEFAULT true,
+    "nextNumber" INTEGER NOT NULL DEFAULT 1,
+    "currentYear" INTEGER,
+    "organizationId" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invoice_sequences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "client_invoices_organizationId_invoiceNumber_key" ON "client_invoices"("organizationId", "invoiceNumber");
+
+-- CreateIndex
+CREATE INDEX "invoice_payments_invoiceId_idx" ON "invoice_payments"("invoiceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_sequences_organizationId_key" ON "invoice_sequences"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "invoice_payments" ADD CONSTRAINT "invoice_payments_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "client_invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_sequences" ADD CONSTRAINT "invoice_sequences_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
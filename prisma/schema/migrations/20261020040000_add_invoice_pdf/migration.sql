@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "billingAddress" TEXT;
+
+-- AlterTable
+ALTER TABLE "client_invoices" ADD COLUMN     "pdfStorageKey" TEXT;
@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN     "taxExempt" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "client_invoices" ADD COLUMN     "subtotal" DOUBLE PRECISION,
+ADD COLUMN     "discountPercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "discountAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "taxRateId" TEXT,
+ADD COLUMN     "taxName" TEXT,
+ADD COLUMN     "taxPercentage" DOUBLE PRECISION,
+ADD COLUMN     "taxInclusive" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "taxAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "total" DOUBLE PRECISION;
+
+-- У существующих счетов нет налога и скидки: прежняя сумма является и подытогом, и итогом
+UPDATE "client_invoices" SET "subtotal" = "amount", "total" = "amount";
+
+ALTER TABLE "client_invoices" ALTER COLUMN "subtotal" SET NOT NULL,
+ALTER COLUMN "total" SET NOT NULL,
+DROP COLUMN "amount";
+
+-- AlterTable
+ALTER TABLE "invoice_line_items" ADD COLUMN     "discountPercent" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "tax_rates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "percentage" DOUBLE PRECISION NOT NULL,
+    "inclusive" BOOLEAN NOT NULL DEFAULT false,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "organizationId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tax_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tax_rates_organizationId_name_key" ON "tax_rates"("organizationId", "name");
+
+-- AddForeignKey
+ALTER TABLE "client_invoices" ADD CONSTRAINT "client_invoices_taxRateId_fkey" FOREIGN KEY ("taxRateId") REFERENCES "tax_rates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_rates" ADD CONSTRAINT "tax_rates_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- Строки истории и запланированных ставок не должны давать доступ к организации
+UPDATE "organization_members" SET "status" = 'INACTIVE' WHERE "is_current" = false;
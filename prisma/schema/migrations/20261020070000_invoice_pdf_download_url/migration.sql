@@ -0,0 +1,2 @@
+-- Ссылка на PDF ведет на скачивание через API: адрес в хранилище без подписи недоступен
+UPDATE "client_invoices" SET "pdfUrl" = '/api/v1/invoices/' || "id" || '/pdf' WHERE "pdfStorageKey" IS NOT NULL;
@@ -1,15 +1,20 @@
 import { Module } from "@nestjs/common";
-import { ConfigModule } from "@nestjs/config";
+import { ConfigModule, ConfigType } from "@nestjs/config";
 import { ThrottlerModule, ThrottlerGuard } from "@nestjs/throttler";
 import { APP_GUARD } from "@nestjs/core";
 import { LoggerModule } from "nestjs-pino";
+import { BullModule } from "@nestjs/bullmq";
 import { ConfigService } from "@nestjs/config";
 import { AppController } from "./app.controller";
 import { AppService } from "./app.service";
+import bullConfig from "./config/bull.config";
 import { PrismaModule } from "./prisma/prisma.module";
+import { AuditModule } from "./audit/audit.module";
 import { AuthModule } from "./auth/auth.module";
 import { UsersModule } from "./users/users.module";
 import { ProjectsModule } from "./projects/projects.module";
+import { ClientsModule } from "./clients/clients.module";
+import { InvoicesModule } from "./invoices/invoices.module";
 // import { TasksModule } from "./tasks/tasks.module";
 import { TimeEntriesModule } from "./time-entries/time-entries.module";
 // import { DashboardModule } from "./dashboard/dashboard.module";
@@ -105,11 +110,21 @@ import { InviteLinkModule } from './invite-link/invite-link.module';
         ];
       },
     }),
+    BullModule.forRootAsync({
+      imports: [ConfigModule.forFeature(bullConfig)],
+      inject: [bullConfig.KEY],
+      useFactory: (config: ConfigType<typeof bullConfig>) => ({
+        connection: config.redis,
+      }),
+    }),
     PrismaModule,
+    AuditModule,
     AuthModule,
     OrganizationsModule,
     UsersModule,
     ProjectsModule,
+    ClientsModule,
+    InvoicesModule,
     // TasksModule,
     TimeEntriesModule,
     PayrollModule,
@@ -0,0 +1,41 @@
+// audit/audit-actions.ts
+
+export const AuditAction = {
+  ORGANIZATION_UPDATED: "organization.updated",
+  MEMBER_ADDED: "member.added",
+  MEMBER_UPDATED: "member.updated",
+  MEMBER_ROLE_CHANGED: "member.role_changed",
+  MEMBER_RATE_CHANGED: "member.rate_changed",
+  MEMBER_RATE_SCHEDULED: "member.rate_scheduled",
+  MEMBER_RATE_CANCELLED: "member.rate_cancelled",
+  MEMBER_REMOVED: "member.removed",
+  CLIENT_CREATED: "client.created",
+  CLIENT_UPDATED: "client.updated",
+  CLIENT_DELETED: "client.deleted",
+  INVOICE_GENERATED: "invoice.generated",
+  INVOICE_UPDATED: "invoice.updated",
+  INVOICE_DELETED: "invoice.deleted",
+  INVOICE_SENT: "invoice.sent",
+  INVOICE_CANCELLED: "invoice.cancelled",
+  INVOICE_PAYMENT_RECORDED: "invoice.payment_recorded",
+  INVOICE_PAYMENT_REMOVED: "invoice.payment_removed",
+  INVOICE_SEQUENCE_UPDATED: "invoice.sequence_updated",
+  TAX_RATE_CREATED: "tax_rate.created",
+  TAX_RATE_UPDATED: "tax_rate.updated",
+  TAX_RATE_DELETED: "tax_rate.deleted",
+  PROJECT_UPDATED: "project.updated",
+  PROJECT_DELETED: "project.deleted",
+  INVITATION_REVOKED: "invitation.revoked",
+  PERIOD_LOCKED: "period.locked",
+  PERIOD_UNLOCKED: "period.unlocked",
+  PAYROLL_RUN_STARTED: "payroll.run_started",
+  PAYROLL_RUN_APPROVED: "payroll.run_approved",
+  PAYROLL_RUN_PAID: "payroll.run_paid",
+  PAYROLL_PAYMENT_UPDATED: "payroll.payment_updated",
+  PAYROLL_DEDUCTION_CREATED: "payroll.deduction_created",
+  PAYROLL_DEDUCTION_DEACTIVATED: "payroll.deduction_deactivated",
+  PAYROLL_ADJUSTMENT_ADDED: "payroll.adjustment_added",
+  PAYROLL_ADJUSTMENT_REMOVED: "payroll.adjustment_removed",
+} as const;
+
+export type AuditActionName = (typeof AuditAction)[keyof typeof AuditAction];
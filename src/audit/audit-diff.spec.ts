@@ -0,0 +1,46 @@
+import { diffValues, splitDiff } from "./audit-diff";
+
+describe("audit diff", () => {
+  it("keeps only changed fields", () => {
+    expect(
+      diffValues(
+        { name: "Acme", timezone: "UTC", currency: "USD" },
+        { name: "Acme", timezone: "Europe/Berlin", currency: undefined },
+      ),
+    ).toEqual({
+      before: { timezone: "UTC", currency: "USD" },
+      after: { timezone: "Europe/Berlin", currency: null },
+    });
+  });
+
+  it("compares dates and limits fields", () => {
+    const day = new Date("2026-10-19T00:00:00Z");
+
+    expect(
+      diffValues(
+        { effectiveFrom: day, updatedAt: day },
+        { effectiveFrom: new Date(day), updatedAt: new Date() },
+        ["effectiveFrom"],
+      ),
+    ).toBeNull();
+  });
+
+  it("splits a diff into groups", () => {
+    const [role, other] = splitDiff(
+      {
+        before: { role: "USER", weeklyLimit: 40 },
+        after: { role: "MANAGER", weeklyLimit: 30 },
+      },
+      [["role"]],
+    );
+
+    expect(role).toEqual({
+      before: { role: "USER" },
+      after: { role: "MANAGER" },
+    });
+    expect(other).toEqual({
+      before: { weeklyLimit: 40 },
+      after: { weeklyLimit: 30 },
+    });
+  });
+});
@@ -0,0 +1,56 @@
+// audit/audit-diff.ts
+
+export type AuditValues = Record<string, unknown>;
+
+export interface AuditDiff {
+  before: AuditValues;
+  after: AuditValues;
+}
+
+/**
+ * Значения в виде, пригодном для Json-колонки (Date → ISO-строка)
+ */
+export function toAuditValues(values: AuditValues): AuditValues {
+  return JSON.parse(JSON.stringify(values)) as AuditValues;
+}
+
+/**
+ * Поля, значения которых различаются; null — изменений нет.
+ * fields ограничивает сравнение, иначе берутся ключи after
+ */
+export function diffValues(
+  before: AuditValues,
+  after: AuditValues,
+  fields: string[] = Object.keys(after),
+): AuditDiff | null {
+  const oldValues = toAuditValues(before);
+  const newValues = toAuditValues(after);
+  const diff: AuditDiff = { before: {}, after: {} };
+
+  for (const field of fields) {
+    const oldValue = oldValues[field] ?? null;
+    const newValue = newValues[field] ?? null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      diff.before[field] = oldValue;
+      diff.after[field] = newValue;
+    }
+  }
+
+  return Object.keys(diff.after).length > 0 ? diff : null;
+}
+
+/**
+ * Разделить изменения на части по спискам полей (остальные — в последнюю)
+ */
+export function splitDiff(diff: AuditDiff, groups: string[][]): AuditDiff[] {
+  const parts = [...groups, []].map(() => ({ before: {}, after: {} }));
+
+  for (const field of Object.keys(diff.after)) {
+    let index = groups.findIndex((group) => group.includes(field));
+    if (index === -1) index = groups.length;
+    parts[index].before[field] = diff.before[field];
+    parts[index].after[field] = diff.after[field];
+  }
+
+  return parts;
+}
@@ -0,0 +1,127 @@
+// audit/audit.service.ts
+import { Injectable, Logger } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { AuditActionName } from "./audit-actions";
+import { AuditValues, diffValues, toAuditValues } from "./audit-diff";
+import { ClientInfo } from "./decorators/client-info.decorator";
+import { AuditLogFilterDto, AuditLogResponseDto } from "./dto/audit-log.dto";
+
+export interface AuditEventInput {
+  organizationId: string;
+  // null — системное действие
+  actorId: string | null;
+  action: AuditActionName;
+  entityType: string;
+  entityId?: string;
+  before?: AuditValues | null;
+  after?: AuditValues | null;
+  client?: ClientInfo;
+}
+
+/**
+ * Журнал действий организации. Ошибка записи не прерывает само действие
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==================== ЗАПИСЬ ====================
+
+  async record(event: AuditEventInput): Promise<void> {
+    try {
+      await this.prisma.auditEvent.create({
+        data: {
+          organizationId: event.organizationId,
+          actorId: event.actorId,
+          action: event.action,
+          entityType: event.entityType,
+          entityId: event.entityId,
+          before: this.toJson(event.before),
+          after: this.toJson(event.after),
+          ipAddress: event.client?.ipAddress,
+          userAgent: event.client?.userAgent,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record audit event ${event.action} for ${event.entityType} ${event.entityId ?? ""}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Записать изменение сущности: сохраняются только изменившиеся поля,
+   * без изменений событие не пишется
+   */
+  async recordChange(
+    event: Omit<AuditEventInput, "before" | "after"> & {
+      before: AuditValues;
+      after: AuditValues;
+      fields?: string[];
+    },
+  ): Promise<void> {
+    const { fields, ...rest } = event;
+    const diff = diffValues(event.before, event.after, fields);
+    if (!diff) return;
+
+    await this.record({ ...rest, ...diff });
+  }
+
+  // ==================== ЧТЕНИЕ ====================
+
+  /**
+   * Журнал организации, новые события первыми. Права проверяет вызывающий
+   */
+  async getEvents(
+    organizationId: string,
+    filter: AuditLogFilterDto,
+  ): Promise<AuditLogResponseDto> {
+    const limit = filter.limit ?? 50;
+    const offset = filter.offset ?? 0;
+
+    const where: Prisma.AuditEventWhereInput = {
+      organizationId,
+      ...(filter.action && { action: filter.action }),
+      ...(filter.entityType && { entityType: filter.entityType }),
+      ...(filter.entityId && { entityId: filter.entityId }),
+      ...(filter.actorId && { actorId: filter.actorId }),
+      ...((filter.from || filter.to) && {
+        createdAt: {
+          ...(filter.from && { gte: filter.from }),
+          ...(filter.to && { lte: filter.to }),
+        },
+      }),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.auditEvent.findMany({
+        where,
+        include: {
+          actor: {
+            select: { id: true, firstName: true, lastName: true, email: true },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.auditEvent.count({ where }),
+    ]);
+
+    return { items, total, limit, offset };
+  }
+
+  // ==================== ПРИВАТНЫЕ МЕТОДЫ ====================
+
+  private toJson(
+    values?: AuditValues | null,
+  ): Prisma.InputJsonValue | undefined {
+    return values
+      ? (toAuditValues(values) as Prisma.InputJsonValue)
+      : undefined;
+  }
+}
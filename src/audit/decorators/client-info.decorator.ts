@@ -0,0 +1,22 @@
+// audit/decorators/client-info.decorator.ts
+import { createParamDecorator, ExecutionContext } from "@nestjs/common";
+import { Request } from "express";
+
+export interface ClientInfo {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * IP-адрес и User-Agent запроса для журнала действий
+ */
+export const GetClientInfo = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): ClientInfo => {
+    const request = ctx.switchToHttp().getRequest<Request>();
+
+    return {
+      ipAddress: request.ip,
+      userAgent: request.headers["user-agent"],
+    };
+  },
+);
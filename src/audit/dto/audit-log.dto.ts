@@ -0,0 +1,143 @@
+// audit/dto/audit-log.dto.ts
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+  IsDate,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { AuditAction } from "../audit-actions";
+
+export const AUDIT_LOG_MAX_LIMIT = 200;
+
+export class AuditLogFilterDto {
+  @ApiPropertyOptional({ enum: Object.values(AuditAction) })
+  @IsOptional()
+  @IsIn(Object.values(AuditAction))
+  action?: string;
+
+  @ApiPropertyOptional({ example: "OrganizationMember" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  entityType?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  entityId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  actorId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  from?: Date;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  to?: Date;
+
+  @ApiPropertyOptional({ default: 50, maximum: AUDIT_LOG_MAX_LIMIT })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(AUDIT_LOG_MAX_LIMIT)
+  limit?: number = 50;
+
+  @ApiPropertyOptional({ default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  offset?: number = 0;
+}
+
+export class AuditEventResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: "null for scheduled system actions",
+  })
+  actorId: string | null;
+
+  @ApiPropertyOptional({
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      firstName: { type: "string" },
+      lastName: { type: "string" },
+      email: { type: "string" },
+    },
+  })
+  actor?: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  } | null;
+
+  @ApiProperty()
+  action: string;
+
+  @ApiProperty()
+  entityType: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  entityId: string | null;
+
+  @ApiPropertyOptional({
+    type: "object",
+    additionalProperties: true,
+    nullable: true,
+    description: "Changed fields before the action",
+  })
+  before: unknown;
+
+  @ApiPropertyOptional({
+    type: "object",
+    additionalProperties: true,
+    nullable: true,
+    description: "Changed fields after the action",
+  })
+  after: unknown;
+
+  @ApiPropertyOptional({ nullable: true })
+  ipAddress: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  userAgent: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class AuditLogResponseDto {
+  @ApiProperty({ type: [AuditEventResponseDto] })
+  items: AuditEventResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  offset: number;
+}
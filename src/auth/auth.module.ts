@@ -40,6 +40,6 @@ import { UsersModule } from "../users/users.module";
   ],
   providers: [AuthService, JwtStrategy],
   controllers: [AuthController],
-  exports: [AuthService],
+  exports: [AuthService, JwtModule],
 })
 export class AuthModule {}
@@ -0,0 +1,162 @@
+// clients/clients.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from "@nestjs/swagger";
+import { ClientsService } from "./clients.service";
+import { JwtAuthGuard } from "@/auth/guards/jwt-auth.guard";
+import { GetUser } from "@/auth/decorators/get-user.decorator";
+import {
+  ClientInfo,
+  GetClientInfo,
+} from "@/audit/decorators/client-info.decorator";
+import {
+  ClientFilterDto,
+  ClientListResponseDto,
+  ClientProjectsFilterDto,
+  ClientProjectsResponseDto,
+  ClientResponseDto,
+  CreateClientDto,
+} from "./dto/create-client.dto";
+import { UpdateClientDto } from "./dto/update-client.dto";
+
+@ApiTags("clients")
+@ApiBearerAuth()
+@Controller("clients")
+@UseGuards(JwtAuthGuard)
+export class ClientsController {
+  constructor(private readonly clientsService: ClientsService) {}
+
+  @Post()
+  @ApiOperation({ summary: "Создать клиента" })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: "Клиент создан",
+    type: ClientResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: "Клиент с таким именем уже существует",
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: "Недостаточно прав",
+  })
+  @HttpCode(HttpStatus.CREATED)
+  async createClient(
+    @GetUser("id") userId: string,
+    @Body() dto: CreateClientDto,
+    @GetClientInfo() clientInfo: ClientInfo,
+  ): Promise<ClientResponseDto> {
+    return this.clientsService.createClient(dto, userId, clientInfo);
+  }
+
+  @Get()
+  @ApiOperation({ summary: "Список клиентов организации с поиском" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Список клиентов",
+    type: ClientListResponseDto,
+  })
+  async getClients(
+    @GetUser("id") userId: string,
+    @Query() filter: ClientFilterDto,
+  ): Promise<ClientListResponseDto> {
+    return this.clientsService.getClients(filter, userId);
+  }
+
+  @Get(":id")
+  @ApiOperation({ summary: "Получить клиента по ID" })
+  @ApiParam({ name: "id", description: "ID клиента", format: "uuid" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Клиент",
+    type: ClientResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Клиент не найден",
+  })
+  async getClientById(
+    @Param("id", ParseUUIDPipe) clientId: string,
+    @GetUser("id") userId: string,
+  ): Promise<ClientResponseDto> {
+    return this.clientsService.getClientById(clientId, userId);
+  }
+
+  @Get(":id/projects")
+  @ApiOperation({
+    summary: "Проекты клиента с учтенными и оплачиваемыми часами",
+  })
+  @ApiParam({ name: "id", description: "ID клиента", format: "uuid" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Проекты клиента",
+    type: ClientProjectsResponseDto,
+  })
+  async getClientProjects(
+    @Param("id", ParseUUIDPipe) clientId: string,
+    @Query() filter: ClientProjectsFilterDto,
+    @GetUser("id") userId: string,
+  ): Promise<ClientProjectsResponseDto> {
+    return this.clientsService.getClientProjects(clientId, filter, userId);
+  }
+
+  @Put(":id")
+  @ApiOperation({ summary: "Обновить клиента" })
+  @ApiParam({ name: "id", description: "ID клиента", format: "uuid" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Клиент обновлен",
+    type: ClientResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: "Недостаточно прав",
+  })
+  async updateClient(
+    @Param("id", ParseUUIDPipe) clientId: string,
+    @Body() dto: UpdateClientDto,
+    @GetUser("id") userId: string,
+    @GetClientInfo() clientInfo: ClientInfo,
+  ): Promise<ClientResponseDto> {
+    return this.clientsService.updateClient(clientId, dto, userId, clientInfo);
+  }
+
+  @Delete(":id")
+  @ApiOperation({ summary: "Удалить клиента" })
+  @ApiParam({ name: "id", description: "ID клиента", format: "uuid" })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: "Клиент удален, проекты отвязаны",
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: "У клиента есть счета",
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteClient(
+    @Param("id", ParseUUIDPipe) clientId: string,
+    @GetUser("id") userId: string,
+    @GetClientInfo() clientInfo: ClientInfo,
+  ): Promise<void> {
+    await this.clientsService.deleteClient(clientId, userId, clientInfo);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { ClientsService } from "./clients.service";
+import { ClientsController } from "./clients.controller";
+import { PrismaModule } from "../prisma/prisma.module";
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [ClientsController],
+  providers: [ClientsService],
+  exports: [ClientsService],
+})
+export class ClientsModule {}
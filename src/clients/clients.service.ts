@@ -0,0 +1,435 @@
+// clients/clients.service.ts
+import { Injectable, Logger } from "@nestjs/common";
+import { Client, MemberRole, MemberStatus, Prisma } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import {
+  ClientFilterDto,
+  ClientListResponseDto,
+  ClientProjectsFilterDto,
+  ClientProjectsResponseDto,
+  ClientResponseDto,
+  CreateClientDto,
+} from "./dto/create-client.dto";
+import { UpdateClientDto } from "./dto/update-client.dto";
+import {
+  DuplicateEntityException,
+  EntityNotFoundException,
+  InvalidOperationException,
+  PermissionDeniedException,
+} from "../exceptions/business.exception";
+import { AuditService } from "../audit/audit.service";
+import { AuditAction } from "../audit/audit-actions";
+import { ClientInfo } from "../audit/decorators/client-info.decorator";
+
+type ClientWithCount = Client & { _count: { projects: number } };
+
+const clientInclude = {
+  _count: { select: { projects: true } },
+} as const;
+
+// Поля клиента, изменения которых попадают в журнал
+const auditedFields = [
+  "name",
+  "email",
+  "company",
+  "billingAddress",
+  "currency",
+  "hourlyRate",
+  "taxExempt",
+];
+
+/**
+ * Клиенты организации: справочник, ставка и валюта по умолчанию,
+ * учтенные часы по проектам клиента
+ */
+@Injectable()
+export class ClientsService {
+  private readonly logger = new Logger(ClientsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  // ==================== CRUD ====================
+
+  async createClient(
+    dto: CreateClientDto,
+    userId: string,
+    clientInfo?: ClientInfo,
+  ): Promise<ClientResponseDto> {
+    await this.validateManageAccess(dto.organizationId, userId);
+    await this.validateNameUnique(dto.name, dto.organizationId);
+
+    // Без явной валюты клиент получает валюту организации
+    const currency =
+      dto.currency ?? (await this.getOrgCurrency(dto.organizationId));
+
+    const client = await this.prisma.client.create({
+      data: {
+        organizationId: dto.organizationId,
+        name: dto.name,
+        email: dto.email,
+        company: dto.company,
+        billingAddress: dto.billingAddress,
+        currency,
+        hourlyRate: dto.hourlyRate,
+        taxExempt: dto.taxExempt,
+      },
+      include: clientInclude,
+    });
+
+    await this.auditService.record({
+      organizationId: client.organizationId,
+      actorId: userId,
+      action: AuditAction.CLIENT_CREATED,
+      entityType: "Client",
+      entityId: client.id,
+      after: this.pickAudited(client),
+      client: clientInfo,
+    });
+
+    this.logger.log(
+      `Client ${client.id} created in organization ${dto.organizationId} by ${userId}`,
+    );
+
+    return this.mapToResponse(client);
+  }
+
+  /**
+   * Список клиентов с поиском по имени, компании и email
+   */
+  async getClients(
+    filter: ClientFilterDto,
+    userId: string,
+  ): Promise<ClientListResponseDto> {
+    await this.validateMemberAccess(filter.organizationId, userId);
+
+    const limit = filter.limit ?? 50;
+    const offset = filter.offset ?? 0;
+    const search = filter.search?.trim();
+
+    const where: Prisma.ClientWhereInput = {
+      organizationId: filter.organizationId,
+      ...(search && {
+        OR: [
+          { name: { contains: search, mode: "insensitive" } },
+          { company: { contains: search, mode: "insensitive" } },
+          { email: { contains: search, mode: "insensitive" } },
+        ],
+      }),
+    };
+
+    const [clients, total] = await Promise.all([
+      this.prisma.client.findMany({
+        where,
+        include: clientInclude,
+        orderBy: { name: "asc" },
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.client.count({ where }),
+    ]);
+
+    return {
+      items: clients.map((client) => this.mapToResponse(client)),
+      total,
+      limit,
+      offset,
+    };
+  }
+
+  async getClientById(
+    clientId: string,
+    userId: string,
+  ): Promise<ClientResponseDto> {
+    const client = await this.findClient(clientId);
+    await this.validateMemberAccess(client.organizationId, userId);
+
+    return this.mapToResponse(client);
+  }
+
+  async updateClient(
+    clientId: string,
+    dto: UpdateClientDto,
+    userId: string,
+    clientInfo?: ClientInfo,
+  ): Promise<ClientResponseDto> {
+    const client = await this.findClient(clientId);
+    await this.validateManageAccess(client.organizationId, userId);
+
+    if (dto.name && dto.name !== client.name) {
+      await this.validateNameUnique(dto.name, client.organizationId, clientId);
+    }
+
+    const updated = await this.prisma.client.update({
+      where: { id: clientId },
+      data: {
+        name: dto.name,
+        email: dto.email,
+        company: dto.company,
+        billingAddress: dto.billingAddress,
+        currency: dto.currency,
+        hourlyRate: dto.hourlyRate,
+        taxExempt: dto.taxExempt,
+      },
+      include: clientInclude,
+    });
+
+    await this.auditService.recordChange({
+      organizationId: client.organizationId,
+      actorId: userId,
+      action: AuditAction.CLIENT_UPDATED,
+      entityType: "Client",
+      entityId: clientId,
+      before: client,
+      after: updated,
+      fields: auditedFields,
+      client: clientInfo,
+    });
+
+    return this.mapToResponse(updated);
+  }
+
+  /**
+   * Удалить клиента. Проекты отвязываются, клиента со счетами удалить нельзя
+   */
+  async deleteClient(
+    clientId: string,
+    userId: string,
+    clientInfo?: ClientInfo,
+  ): Promise<void> {
+    const client = await this.findClient(clientId);
+    await this.validateManageAccess(client.organizationId, userId, [
+      MemberRole.ADMIN,
+    ]);
+
+    const invoiceCount = await this.prisma.clientInvoice.count({
+      where: { clientId },
+    });
+    if (invoiceCount > 0) {
+      throw new InvalidOperationException(
+        "Cannot delete a client that has invoices",
+      );
+    }
+
+    await this.prisma.client.delete({ where: { id: clientId } });
+
+    await this.auditService.record({
+      organizationId: client.organizationId,
+      actorId: userId,
+      action: AuditAction.CLIENT_DELETED,
+      entityType: "Client",
+      entityId: clientId,
+      before: this.pickAudited(client),
+      client: clientInfo,
+    });
+
+    this.logger.log(`Client ${clientId} deleted by ${userId}`);
+  }
+
+  // ==================== ПРОЕКТЫ КЛИЕНТА ====================
+
+  /**
+   * Проекты клиента с учтенными и оплачиваемыми часами.
+   * Учитываются только завершенные записи; оплачиваемые — записи
+   * с флагом billable в оплачиваемых проектах
+   */
+  async getClientProjects(
+    clientId: string,
+    filter: ClientProjectsFilterDto,
+    userId: string,
+  ): Promise<ClientProjectsResponseDto> {
+    const client = await this.findClient(clientId);
+    await this.validateMemberAccess(client.organizationId, userId);
+
+    const projects = await this.prisma.project.findMany({
+      where: { clientId },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        billable: true,
+        hourlyRate: true,
+      },
+      orderBy: { name: "asc" },
+    });
+
+    const startTime: Prisma.DateTimeFilter = {
+      ...(filter.from && { gte: filter.from }),
+      ...(filter.to && { lte: filter.to }),
+    };
+
+    const totals =
+      projects.length > 0
+        ? await this.prisma.timeEntry.groupBy({
+            by: ["projectId", "billable"],
+            where: {
+              projectId: { in: projects.map((p) => p.id) },
+              endTime: { not: null },
+              ...((filter.from || filter.to) && { startTime }),
+            },
+            _sum: { duration: true },
+          })
+        : [];
+
+    let trackedSeconds = 0;
+    let billableSeconds = 0;
+
+    const items = projects.map((project) => {
+      let tracked = 0;
+      let billable = 0;
+
+      for (const row of totals) {
+        if (row.projectId !== project.id) continue;
+        const seconds = row._sum.duration ?? 0;
+        tracked += seconds;
+        if (row.billable && project.billable) {
+          billable += seconds;
+        }
+      }
+
+      trackedSeconds += tracked;
+      billableSeconds += billable;
+
+      return {
+        ...project,
+        trackedSeconds: tracked,
+        trackedHours: this.toHours(tracked),
+        billableSeconds: billable,
+        billableHours: this.toHours(billable),
+      };
+    });
+
+    return {
+      clientId,
+      projects: items,
+      trackedHours: this.toHours(trackedSeconds),
+      billableHours: this.toHours(billableSeconds),
+    };
+  }
+
+  // ==================== ПРИВАТНЫЕ МЕТОДЫ ====================
+
+  private async findClient(clientId: string): Promise<ClientWithCount> {
+    const client = await this.prisma.client.findUnique({
+      where: { id: clientId },
+      include: clientInclude,
+    });
+    if (!client) {
+      throw new EntityNotFoundException("Client", clientId);
+    }
+    return client;
+  }
+
+  private async getOrgCurrency(organizationId: string): Promise<string> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { currency: true },
+    });
+    return organization?.currency ?? "USD";
+  }
+
+  private async validateNameUnique(
+    name: string,
+    organizationId: string,
+    excludeId?: string,
+  ): Promise<void> {
+    const existing = await this.prisma.client.findFirst({
+      where: {
+        organizationId,
+        name: { equals: name, mode: "insensitive" },
+        ...(excludeId && { NOT: { id: excludeId } }),
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new DuplicateEntityException("Client", "name", name);
+    }
+  }
+
+  /**
+   * Просматривать клиентов могут активные участники организации
+   */
+  private async validateMemberAccess(
+    organizationId: string,
+    userId: string,
+  ): Promise<void> {
+    const member = await this.prisma.organizationMember.findFirst({
+      where: { organizationId, userId, is_current: true },
+      select: { status: true },
+    });
+
+    if (!member || member.status !== MemberStatus.ACTIVE) {
+      throw new PermissionDeniedException(
+        "You do not have access to this organization or your membership is not active",
+      );
+    }
+  }
+
+  /**
+   * Управлять клиентами могут владелец и указанные роли
+   */
+  private async validateManageAccess(
+    organizationId: string,
+    userId: string,
+    roles: MemberRole[] = [MemberRole.ADMIN, MemberRole.MANAGER],
+  ): Promise<void> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { ownerId: true },
+    });
+    if (!organization) {
+      throw new EntityNotFoundException("Organization", organizationId);
+    }
+    if (organization.ownerId === userId) return;
+
+    const member = await this.prisma.organizationMember.findFirst({
+      where: { organizationId, userId, is_current: true },
+      select: { role: true, status: true },
+    });
+    if (
+      !member ||
+      member.status !== MemberStatus.ACTIVE ||
+      !roles.includes(member.role)
+    ) {
+      throw new PermissionDeniedException(
+        "You are not allowed to manage clients",
+      );
+    }
+  }
+
+  private toHours(seconds: number): number {
+    return Math.round((seconds / 3600) * 100) / 100;
+  }
+
+  private pickAudited(client: Client) {
+    return {
+      name: client.name,
+      email: client.email,
+      company: client.company,
+      billingAddress: client.billingAddress,
+      currency: client.currency,
+      hourlyRate: client.hourlyRate,
+      taxExempt: client.taxExempt,
+    };
+  }
+
+  private mapToResponse(client: ClientWithCount): ClientResponseDto {
+    return {
+      id: client.id,
+      organizationId: client.organizationId,
+      name: client.name,
+      email: client.email,
+      company: client.company,
+      billingAddress: client.billingAddress,
+      currency: client.currency,
+      hourlyRate: client.hourlyRate,
+      taxExempt: client.taxExempt,
+      projectCount: client._count.projects,
+      createdAt: client.createdAt,
+      updatedAt: client.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,223 @@
+// clients/dto/create-client.dto.ts
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  IsBoolean,
+  IsDate,
+  IsEmail,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { ProjectStatus } from "@prisma/client";
+
+// ==================== CREATE CLIENT ====================
+export class CreateClientDto {
+  @ApiProperty({ description: "Organization ID" })
+  @IsUUID("4", { message: "Organization ID must be a valid UUID" })
+  @IsNotEmpty({ message: "Organization ID is required" })
+  organizationId: string;
+
+  @ApiProperty({ description: "Client name", example: "Acme Corp" })
+  @IsString()
+  @IsNotEmpty({ message: "Client name is required" })
+  @MinLength(2, { message: "Client name must be at least 2 characters" })
+  @MaxLength(100, { message: "Client name cannot exceed 100 characters" })
+  name: string;
+
+  @ApiPropertyOptional({ example: "billing@acme.com" })
+  @IsOptional()
+  @IsEmail({}, { message: "Email must be a valid email address" })
+  email?: string;
+
+  @ApiPropertyOptional({ example: "Acme Corporation Ltd." })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200, { message: "Company cannot exceed 200 characters" })
+  company?: string;
+
+  @ApiPropertyOptional({ example: "1 Main St, Springfield" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: "Billing address cannot exceed 500 characters" })
+  billingAddress?: string;
+
+  @ApiPropertyOptional({
+    description: "Currency of the client's invoices",
+    example: "USD",
+    default: "USD",
+  })
+  @IsOptional()
+  @Matches(/^[A-Z]{3}$/, {
+    message: "Currency must be a 3-letter ISO code",
+  })
+  currency?: string;
+
+  @ApiPropertyOptional({
+    description: "Default hourly rate for the client's projects",
+    example: 120,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: "Hourly rate must be a number" })
+  @Min(0, { message: "Hourly rate cannot be negative" })
+  hourlyRate?: number;
+
+  @ApiPropertyOptional({
+    description: "Invoices of the client carry no tax",
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: "Tax exempt must be a boolean" })
+  taxExempt?: boolean;
+}
+
+// ==================== FILTERS ====================
+export class ClientFilterDto {
+  @ApiProperty({ description: "Organization ID" })
+  @IsUUID("4", { message: "Organization ID must be a valid UUID" })
+  organizationId: string;
+
+  @ApiPropertyOptional({
+    description: "Search by name, company or email",
+    example: "acme",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+
+  @ApiPropertyOptional({ default: 50, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+
+  @ApiPropertyOptional({ default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number = 0;
+}
+
+export class ClientProjectsFilterDto {
+  @ApiPropertyOptional({ description: "Count time from this date" })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @ApiPropertyOptional({ description: "Count time up to this date" })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+}
+
+// ==================== RESPONSES ====================
+export class ClientResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiProperty({ example: "Acme Corp" })
+  name: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  email: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  company: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  billingAddress: string | null;
+
+  @ApiProperty({ example: "USD" })
+  currency: string;
+
+  @ApiPropertyOptional({ nullable: true, example: 120 })
+  hourlyRate: number | null;
+
+  @ApiProperty()
+  taxExempt: boolean;
+
+  @ApiProperty({ example: 3 })
+  projectCount: number;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class ClientListResponseDto {
+  @ApiProperty({ type: [ClientResponseDto] })
+  items: ClientResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  offset: number;
+}
+
+export class ClientProjectHoursDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: "Website Redesign" })
+  name: string;
+
+  @ApiProperty({ enum: ProjectStatus })
+  status: ProjectStatus;
+
+  @ApiProperty()
+  billable: boolean;
+
+  @ApiPropertyOptional({ nullable: true })
+  hourlyRate: number | null;
+
+  @ApiProperty({ description: "Seconds of completed entries" })
+  trackedSeconds: number;
+
+  @ApiProperty()
+  trackedHours: number;
+
+  @ApiProperty({
+    description: "Seconds of billable entries on billable projects",
+  })
+  billableSeconds: number;
+
+  @ApiProperty()
+  billableHours: number;
+}
+
+export class ClientProjectsResponseDto {
+  @ApiProperty()
+  clientId: string;
+
+  @ApiProperty({ type: [ClientProjectHoursDto] })
+  projects: ClientProjectHoursDto[];
+
+  @ApiProperty()
+  trackedHours: number;
+
+  @ApiProperty()
+  billableHours: number;
+}
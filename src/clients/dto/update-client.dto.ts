@@ -0,0 +1,61 @@
+// clients/dto/update-client.dto.ts
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  IsBoolean,
+  IsEmail,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+  MinLength,
+} from "class-validator";
+
+// ==================== UPDATE CLIENT ====================
+export class UpdateClientDto {
+  @ApiPropertyOptional({ example: "Acme Corp" })
+  @IsOptional()
+  @IsString()
+  @MinLength(2, { message: "Client name must be at least 2 characters" })
+  @MaxLength(100, { message: "Client name cannot exceed 100 characters" })
+  name?: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  @IsOptional()
+  @IsEmail({}, { message: "Email must be a valid email address" })
+  email?: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200, { message: "Company cannot exceed 200 characters" })
+  company?: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: "Billing address cannot exceed 500 characters" })
+  billingAddress?: string | null;
+
+  @ApiPropertyOptional({ example: "EUR" })
+  @IsOptional()
+  @Matches(/^[A-Z]{3}$/, {
+    message: "Currency must be a 3-letter ISO code",
+  })
+  currency?: string;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: "null removes the default rate",
+  })
+  @IsOptional()
+  @IsNumber({}, { message: "Hourly rate must be a number" })
+  @Min(0, { message: "Hourly rate cannot be negative" })
+  hourlyRate?: number | null;
+
+  @ApiPropertyOptional({ description: "Invoices of the client carry no tax" })
+  @IsOptional()
+  @IsBoolean({ message: "Tax exempt must be a boolean" })
+  taxExempt?: boolean;
+}
@@ -0,0 +1,23 @@
+import { currencyDigits, formatMoney, money } from "./currency";
+
+describe("currencyDigits", () => {
+  it("uses the ISO 4217 minor units", () => {
+    expect(currencyDigits("EUR")).toBe(2);
+    expect(currencyDigits("JPY")).toBe(0);
+    expect(currencyDigits("not-a-currency")).toBe(2);
+  });
+});
+
+describe("money", () => {
+  it("rounds to the minor unit of the currency", () => {
+    expect(money(1.005, "EUR")).toBe(1.01);
+    expect(money(1234.5, "JPY")).toBe(1235);
+  });
+});
+
+describe("formatMoney", () => {
+  it("formats amounts with the currency code", () => {
+    expect(formatMoney(1234.5, "EUR")).toBe("1,234.50 EUR");
+    expect(formatMoney(1234.5, "JPY")).toBe("1,235 JPY");
+  });
+});
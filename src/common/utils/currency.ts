@@ -0,0 +1,38 @@
+// common/utils/currency.ts
+
+/**
+ * Количество знаков после запятой для валюты (JPY — 0, USD — 2)
+ */
+export function currencyDigits(currency: string): number {
+  try {
+    return (
+      new Intl.NumberFormat("en", {
+        style: "currency",
+        currency,
+      }).resolvedOptions().maximumFractionDigits ?? 2
+    );
+  } catch {
+    // Неизвестный код валюты в настройках организации
+    return 2;
+  }
+}
+
+/**
+ * Сумма, округленная до минимальной единицы валюты
+ */
+export function money(amount: number, currency: string): number {
+  const factor = 10 ** currencyDigits(currency);
+  return Math.round((amount + Number.EPSILON) * factor) / factor;
+}
+
+/**
+ * Сумма для документов: "1,234.50 EUR"
+ */
+export function formatMoney(amount: number, currency: string): string {
+  const digits = currencyDigits(currency);
+  const formatted = new Intl.NumberFormat("en-US", {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(money(amount, currency));
+  return `${formatted} ${currency}`;
+}
@@ -0,0 +1,50 @@
+import {
+  addDaysToDateKey,
+  getDateKeyWeekday,
+  localTimeToDate,
+  startOfLocalDay,
+  toLocalDateKey,
+} from "./timezone";
+
+describe("timezone utils", () => {
+  it("returns the local calendar date", () => {
+    const instant = new Date("2026-10-23T22:30:00Z");
+
+    expect(toLocalDateKey(instant, "UTC")).toBe("2026-10-23");
+    expect(toLocalDateKey(instant, "Europe/Moscow")).toBe("2026-10-24");
+    expect(toLocalDateKey(instant, "Not/AZone")).toBe("2026-10-23");
+  });
+
+  it("finds the start of a local day", () => {
+    expect(startOfLocalDay("2026-10-19", "Europe/Moscow").toISOString()).toBe(
+      "2026-10-18T21:00:00.000Z",
+    );
+    expect(
+      startOfLocalDay("2026-10-19", "America/New_York").toISOString(),
+    ).toBe("2026-10-19T04:00:00.000Z");
+  });
+
+  it("handles daylight saving transitions", () => {
+    // В Берлине 25.10.2026 переход на зимнее время
+    expect(startOfLocalDay("2026-10-25", "Europe/Berlin").toISOString()).toBe(
+      "2026-10-24T22:00:00.000Z",
+    );
+    expect(startOfLocalDay("2026-10-26", "Europe/Berlin").toISOString()).toBe(
+      "2026-10-25T23:00:00.000Z",
+    );
+  });
+
+  it("converts a local time of day", () => {
+    expect(
+      localTimeToDate("2026-10-20", "09:00", "Europe/Berlin").toISOString(),
+    ).toBe("2026-10-20T07:00:00.000Z");
+    expect(
+      localTimeToDate("2026-10-27", "09:00", "Europe/Berlin").toISOString(),
+    ).toBe("2026-10-27T08:00:00.000Z");
+  });
+
+  it("shifts date keys and reads weekdays", () => {
+    expect(addDaysToDateKey("2026-10-26", 7)).toBe("2026-11-02");
+    expect(getDateKeyWeekday("2026-10-19")).toBe(1);
+  });
+});
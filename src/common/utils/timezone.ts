@@ -0,0 +1,93 @@
+// common/utils/timezone.ts
+
+/**
+ * Календарная дата момента времени в часовом поясе: "YYYY-MM-DD".
+ * Неизвестный часовой пояс считается UTC
+ */
+export function toLocalDateKey(date: Date, timezone: string): string {
+  // en-CA дает формат YYYY-MM-DD
+  return createFormatter(timezone, {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+/**
+ * Момент начала локального дня dateKey ("YYYY-MM-DD") в часовом поясе
+ */
+export function startOfLocalDay(dateKey: string, timezone: string): Date {
+  return localTimeToDate(dateKey, "00:00", timezone);
+}
+
+/**
+ * Момент локального времени time ("HH:mm") дня dateKey в часовом поясе
+ */
+export function localTimeToDate(
+  dateKey: string,
+  time: string,
+  timezone: string,
+): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const utcTime = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Смещение берется дважды: на переходе на летнее время первое может не совпасть
+  let result = utcTime - getOffset(new Date(utcTime), timezone);
+  result = utcTime - getOffset(new Date(result), timezone);
+  return new Date(result);
+}
+
+/**
+ * Сдвиг даты "YYYY-MM-DD" на указанное число дней
+ */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * День недели даты "YYYY-MM-DD": 0 — воскресенье, 1 — понедельник
+ */
+export function getDateKeyWeekday(dateKey: string): number {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+// Смещение часового пояса относительно UTC в миллисекундах
+function getOffset(date: Date, timezone: string): number {
+  const parts = createFormatter(timezone, {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    value("year"),
+    value("month") - 1,
+    value("day"),
+    value("hour"),
+    value("minute"),
+    value("second"),
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function createFormatter(
+  timezone: string,
+  options: Intl.DateTimeFormatOptions,
+): Intl.DateTimeFormat {
+  try {
+    return new Intl.DateTimeFormat("en-CA", { ...options, timeZone: timezone });
+  } catch {
+    return new Intl.DateTimeFormat("en-CA", { ...options, timeZone: "UTC" });
+  }
+}
@@ -0,0 +1,20 @@
+import { registerAs } from "@nestjs/config";
+
+export default registerAs("storage", () => ({
+  driver: process.env.S3_ENABLED === "true" ? "s3" : "local",
+  signedUrlTtl: parseInt(process.env.STORAGE_SIGNED_URL_TTL || "900", 10),
+  local: {
+    root: process.env.STORAGE_LOCAL_ROOT || "uploads",
+    publicBaseUrl: process.env.STORAGE_PUBLIC_BASE_URL || "",
+    signingSecret:
+      process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || "secret",
+  },
+  s3: {
+    bucket: process.env.S3_BUCKET || "hubnity-screenshots",
+    region: process.env.S3_REGION || "us-east-1",
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+    publicBaseUrl: process.env.S3_PUBLIC_BASE_URL || undefined,
+  },
+}));
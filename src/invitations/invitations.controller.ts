@@ -13,6 +13,10 @@ import { InvitationsService } from "./invitations.service";
 import { SendInvitationDto } from "@/invitations/dto/send-invitation.dto";
 import { JwtAuthGuard } from "@/auth/guards/jwt-auth.guard";
 import { GetUser } from "@/auth/decorators/get-user.decorator";
+import {
+  ClientInfo,
+  GetClientInfo,
+} from "@/audit/decorators/client-info.decorator";
 import {
   ApiBearerAuth,
   ApiOperation,
@@ -79,8 +83,13 @@ export class InvitationsController {
   async revokeInvitation(
     @Param("id", ParseUUIDPipe) id: string,
     @GetUser("id") currentUserId: string,
+    @GetClientInfo() client: ClientInfo,
   ) {
-    return await this.invitationsService.revokeInvitation(id, currentUserId);
+    return await this.invitationsService.revokeInvitation(
+      id,
+      currentUserId,
+      client,
+    );
   }
 
   @Get("organization/:organizationId")
@@ -8,10 +8,16 @@ import { PrismaService } from "@/prisma/prisma.service";
 import { SendInvitationDto } from "@/invitations/dto/send-invitation.dto";
 import { MemberRole, MemberStatus } from "@prisma/client";
 import { randomBytes } from "crypto";
+import { AuditService } from "@/audit/audit.service";
+import { AuditAction } from "@/audit/audit-actions";
+import { ClientInfo } from "@/audit/decorators/client-info.decorator";
 
 @Injectable()
 export class InvitationsService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
 
   private normalizeEmail(email: string): string {
     return email.trim().toLowerCase();
@@ -29,12 +35,11 @@ export class InvitationsService {
     organizationId: string,
     currentUserId: string,
   ) {
-    const member = await this.prisma.organizationMember.findUnique({
+    const member = await this.prisma.organizationMember.findFirst({
       where: {
-        organizationId_userId: {
-          organizationId,
-          userId: currentUserId,
-        },
+        organizationId,
+        userId: currentUserId,
+        is_current: true,
       },
       select: { role: true, status: true },
     });
@@ -97,12 +102,11 @@ export class InvitationsService {
     });
 
     if (existingUser) {
-      const isMember = await this.prisma.organizationMember.findUnique({
+      const isMember = await this.prisma.organizationMember.findFirst({
         where: {
-          organizationId_userId: {
-            organizationId,
-            userId: existingUser.id,
-          },
+          organizationId,
+          userId: existingUser.id,
+          is_current: true,
         },
         select: { id: true },
       });
@@ -169,6 +173,7 @@ export class InvitationsService {
       where: {
         userId: currentUserId,
         organizationId: invitation.organizationId,
+        is_current: true,
       },
     });
     if (alreadyMember) {
@@ -199,12 +204,18 @@ export class InvitationsService {
     return updatedInvitation;
   }
 
-  async revokeInvitation(invitationId: string, currentUserId: string) {
+  async revokeInvitation(
+    invitationId: string,
+    currentUserId: string,
+    client?: ClientInfo,
+  ) {
     const invitation = await this.prisma.invitation.findUnique({
       where: { id: invitationId },
       select: {
         id: true,
         organizationId: true,
+        email: true,
+        role: true,
         acceptedAt: true,
       },
     });
@@ -218,7 +229,21 @@ export class InvitationsService {
       currentUserId,
     );
 
-    return this.prisma.invitation.delete({ where: { id: invitationId } });
+    const deleted = await this.prisma.invitation.delete({
+      where: { id: invitationId },
+    });
+
+    await this.auditService.record({
+      organizationId: invitation.organizationId,
+      actorId: currentUserId,
+      action: AuditAction.INVITATION_REVOKED,
+      entityType: "Invitation",
+      entityId: invitationId,
+      before: { email: invitation.email, role: invitation.role },
+      client,
+    });
+
+    return deleted;
   }
 
   async getOrganizationInvitations(
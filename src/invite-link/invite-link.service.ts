@@ -25,12 +25,11 @@ export class InviteLinkService {
     organizationId: string,
     currentUserId: string,
   ) {
-    const member = await this.prisma.organizationMember.findUnique({
+    const member = await this.prisma.organizationMember.findFirst({
       where: {
-        organizationId_userId: {
-          organizationId,
-          userId: currentUserId,
-        },
+        organizationId,
+        userId: currentUserId,
+        is_current: true,
       },
       select: { role: true, status: true },
     });
@@ -126,12 +125,11 @@ export class InviteLinkService {
     if (link.maxUses !== null && link.useCount >= link.maxUses)
       throw new ConflictException("Invite link has reached its usage limit");
 
-    const alreadyMember = await this.prisma.organizationMember.findUnique({
+    const alreadyMember = await this.prisma.organizationMember.findFirst({
       where: {
-        organizationId_userId: {
-          organizationId: link.organizationId,
-          userId: currentUserId,
-        },
+        organizationId: link.organizationId,
+        userId: currentUserId,
+        is_current: true,
       },
     });
     if (alreadyMember) throw new ConflictException("Already a member");
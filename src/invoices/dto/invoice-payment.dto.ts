@@ -0,0 +1,68 @@
+// invoices/dto/invoice-payment.dto.ts
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+  IsDate,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from "class-validator";
+
+export class RecordInvoicePaymentDto {
+  @ApiProperty({ example: 500, description: "Paid amount, up to the balance" })
+  @IsNumber({ maxDecimalPlaces: 3 }, { message: "Amount must be a number" })
+  @Min(0.01, { message: "Amount must be positive" })
+  amount: number;
+
+  @ApiPropertyOptional({ description: "Payment date, defaults to now" })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  paidAt?: Date;
+
+  @ApiPropertyOptional({ example: "bank_transfer" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  method?: string;
+
+  @ApiPropertyOptional({ example: "TRX-2026-10-0042" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  reference?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class InvoicePaymentDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty()
+  paidAt: Date;
+
+  @ApiPropertyOptional({ nullable: true })
+  method: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  reference: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  note: string | null;
+
+  @ApiProperty()
+  recordedById: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
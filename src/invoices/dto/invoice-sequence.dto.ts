@@ -0,0 +1,65 @@
+// invoices/dto/invoice-sequence.dto.ts
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  Matches,
+  Max,
+  Min,
+} from "class-validator";
+
+export class UpdateInvoiceSequenceDto {
+  @ApiPropertyOptional({ example: "INV-" })
+  @IsOptional()
+  @Matches(/^[A-Za-z0-9\-_/.]{0,20}$/, {
+    message:
+      "Prefix may contain up to 20 letters, digits and the characters - _ / .",
+  })
+  prefix?: string;
+
+  @ApiPropertyOptional({ example: 4, description: "Digits of the number" })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  padding?: number;
+
+  @ApiPropertyOptional({
+    description: "Restart numbering every year; the year becomes part of it",
+  })
+  @IsOptional()
+  @IsBoolean()
+  yearlyReset?: boolean;
+
+  @ApiPropertyOptional({
+    description: "Number given to the next sent invoice",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  nextNumber?: number;
+}
+
+export class InvoiceSequenceResponseDto {
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiProperty({ example: "INV-" })
+  prefix: string;
+
+  @ApiProperty({ example: 4 })
+  padding: number;
+
+  @ApiProperty()
+  yearlyReset: boolean;
+
+  @ApiProperty({ example: 1 })
+  nextNumber: number;
+
+  @ApiProperty({
+    example: "INV-2026-0001",
+    description: "Number the next sent invoice will get",
+  })
+  preview: string;
+}
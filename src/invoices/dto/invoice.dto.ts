@@ -0,0 +1,320 @@
+// invoices/dto/invoice.dto.ts
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { InvoiceGroupBy, InvoiceStatus } from "@prisma/client";
+import { Type } from "class-transformer";
+import {
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { InvoicePaymentDto } from "./invoice-payment.dto";
+
+export class GenerateInvoiceDto {
+  @ApiProperty({ description: "Client to invoice" })
+  @IsUUID("4", { message: "Client ID must be a valid UUID" })
+  clientId: string;
+
+  @ApiProperty({ description: "Start of the billed period" })
+  @Type(() => Date)
+  @IsDate()
+  startDate: Date;
+
+  @ApiProperty({ description: "End of the billed period (inclusive)" })
+  @Type(() => Date)
+  @IsDate()
+  endDate: Date;
+
+  @ApiPropertyOptional({
+    enum: InvoiceGroupBy,
+    default: InvoiceGroupBy.PROJECT,
+    description: "How time entries are grouped into invoice lines",
+  })
+  @IsOptional()
+  @IsEnum(InvoiceGroupBy)
+  groupBy?: InvoiceGroupBy;
+
+  @ApiPropertyOptional({
+    default: 30,
+    description: "Payment term in days from the issue date",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  dueInDays?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Tax rate of the organization; defaults to its default rate. Not allowed for tax-exempt clients",
+  })
+  @IsOptional()
+  @IsUUID("4", { message: "Tax rate ID must be a valid UUID" })
+  taxRateId?: string;
+
+  @ApiPropertyOptional({
+    default: 0,
+    description: "Discount on the whole invoice, percent",
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  discountPercent?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+}
+
+export class UpdateInvoiceLineDto {
+  @ApiProperty()
+  @IsUUID("4", { message: "Line ID must be a valid UUID" })
+  id: string;
+
+  @ApiProperty({ description: "Discount on the line, percent", example: 10 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  discountPercent: number;
+}
+
+export class UpdateInvoiceDto {
+  @ApiPropertyOptional({ description: "Payment due date" })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  dueDate?: Date;
+
+  @ApiPropertyOptional({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string | null;
+
+  @ApiPropertyOptional({
+    description: "Discount on the whole invoice, percent",
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  discountPercent?: number;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: "Tax rate of the organization; null removes the tax",
+  })
+  @IsOptional()
+  @IsUUID("4", { message: "Tax rate ID must be a valid UUID" })
+  taxRateId?: string | null;
+
+  @ApiPropertyOptional({
+    type: [UpdateInvoiceLineDto],
+    description: "Line discounts; lines not listed keep theirs",
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => UpdateInvoiceLineDto)
+  lines?: UpdateInvoiceLineDto[];
+}
+
+export class InvoiceFilterDto {
+  @ApiProperty()
+  @IsUUID("4", { message: "Organization ID must be a valid UUID" })
+  organizationId: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID("4", { message: "Client ID must be a valid UUID" })
+  clientId?: string;
+
+  @ApiPropertyOptional({ enum: InvoiceStatus })
+  @IsOptional()
+  @IsEnum(InvoiceStatus)
+  status?: InvoiceStatus;
+
+  @ApiPropertyOptional({ default: 50, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+
+  @ApiPropertyOptional({ default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number = 0;
+}
+
+export class InvoiceLineItemDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  position: number;
+
+  @ApiProperty({ example: "Website Redesign" })
+  description: string;
+
+  @ApiProperty({ description: "Hours", example: 12.5 })
+  quantity: number;
+
+  @ApiProperty({ description: "Hourly rate", example: 100 })
+  unitPrice: number;
+
+  @ApiProperty({ description: "Discount on the line, percent", example: 0 })
+  discountPercent: number;
+
+  @ApiProperty({ description: "Amount after the line discount", example: 1250 })
+  amount: number;
+
+  @ApiPropertyOptional({ nullable: true })
+  projectId: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  taskId: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  userId: string | null;
+
+  @ApiProperty({ type: [String] })
+  timeEntryIds: string[];
+}
+
+export class InvoiceResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: "DRAFT-3F2A9C1B7E40" })
+  invoiceNumber: string;
+
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiProperty()
+  clientId: string;
+
+  @ApiPropertyOptional({
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      name: { type: "string" },
+      company: { type: "string", nullable: true },
+    },
+  })
+  client?: { id: string; name: string; company: string | null };
+
+  @ApiProperty({ enum: InvoiceStatus })
+  status: InvoiceStatus;
+
+  @ApiProperty({ example: "USD" })
+  currency: string;
+
+  @ApiProperty({ description: "Sum of the lines after line discounts" })
+  subtotal: number;
+
+  @ApiProperty({ description: "Discount on the whole invoice, percent" })
+  discountPercent: number;
+
+  @ApiProperty()
+  discountAmount: number;
+
+  @ApiPropertyOptional({ nullable: true })
+  taxRateId: string | null;
+
+  @ApiPropertyOptional({ nullable: true, example: "VAT" })
+  taxName: string | null;
+
+  @ApiPropertyOptional({ nullable: true, example: 19 })
+  taxPercentage: number | null;
+
+  @ApiProperty({ description: "Tax is included in the prices" })
+  taxInclusive: boolean;
+
+  @ApiProperty()
+  taxAmount: number;
+
+  @ApiProperty({ description: "Amount payable" })
+  total: number;
+
+  @ApiProperty()
+  amountPaid: number;
+
+  @ApiProperty()
+  balanceDue: number;
+
+  @ApiProperty()
+  issuedAt: Date;
+
+  @ApiProperty()
+  dueDate: Date;
+
+  @ApiPropertyOptional({ nullable: true })
+  paidAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  sentAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  cancelledAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  periodStart: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  periodEnd: Date | null;
+
+  @ApiPropertyOptional({ enum: InvoiceGroupBy, nullable: true })
+  groupBy: InvoiceGroupBy | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  notes: string | null;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: "Authenticated download link of the rendered PDF",
+    example: "/api/v1/invoices/123e4567-e89b-12d3-a456-426614174000/pdf",
+  })
+  pdfUrl: string | null;
+
+  @ApiPropertyOptional({ type: [InvoiceLineItemDto] })
+  lineItems?: InvoiceLineItemDto[];
+
+  @ApiPropertyOptional({ type: [InvoicePaymentDto] })
+  payments?: InvoicePaymentDto[];
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class InvoiceListResponseDto {
+  @ApiProperty({ type: [InvoiceResponseDto] })
+  items: InvoiceResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  offset: number;
+}
@@ -0,0 +1,94 @@
+// invoices/dto/tax-rate.dto.ts
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+
+export class CreateTaxRateDto {
+  @ApiProperty({ example: "VAT" })
+  @IsString()
+  @IsNotEmpty({ message: "Tax rate name is required" })
+  @MaxLength(50, { message: "Tax rate name cannot exceed 50 characters" })
+  name: string;
+
+  @ApiProperty({ example: 19 })
+  @IsNumber({ maxDecimalPlaces: 3 }, { message: "Percentage must be a number" })
+  @Min(0)
+  @Max(100)
+  percentage: number;
+
+  @ApiPropertyOptional({
+    default: false,
+    description: "Tax is included in the prices instead of added on top",
+  })
+  @IsOptional()
+  @IsBoolean()
+  inclusive?: boolean;
+
+  @ApiPropertyOptional({
+    default: false,
+    description: "Applied to newly generated invoices",
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
+
+export class UpdateTaxRateDto {
+  @ApiPropertyOptional({ example: "VAT" })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty({ message: "Tax rate name is required" })
+  @MaxLength(50, { message: "Tax rate name cannot exceed 50 characters" })
+  name?: string;
+
+  @ApiPropertyOptional({ example: 19 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 3 }, { message: "Percentage must be a number" })
+  @Min(0)
+  @Max(100)
+  percentage?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  inclusive?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
+
+export class TaxRateResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiProperty({ example: "VAT" })
+  name: string;
+
+  @ApiProperty({ example: 19 })
+  percentage: number;
+
+  @ApiProperty()
+  inclusive: boolean;
+
+  @ApiProperty()
+  isDefault: boolean;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
@@ -0,0 +1,59 @@
+import { InvoiceStatus } from "@prisma/client";
+import {
+  formatInvoiceNumber,
+  getBalanceDue,
+  getSettledStatus,
+} from "./invoice-lifecycle";
+
+describe("invoice lifecycle", () => {
+  it("formats numbers with the year only for yearly sequences", () => {
+    expect(
+      formatInvoiceNumber(
+        { prefix: "INV-", padding: 4, yearlyReset: true },
+        2026,
+        7,
+      ),
+    ).toBe("INV-2026-0007");
+    expect(
+      formatInvoiceNumber(
+        { prefix: "AC", padding: 6, yearlyReset: false },
+        2026,
+        1234,
+      ),
+    ).toBe("AC001234");
+    expect(
+      formatInvoiceNumber(
+        { prefix: "", padding: 2, yearlyReset: false },
+        2026,
+        123,
+      ),
+    ).toBe("123");
+  });
+
+  it("settles the status from payments and the due date", () => {
+    const due = new Date("2026-11-01T00:00:00Z");
+    const before = new Date("2026-10-20T00:00:00Z");
+    const after = new Date("2026-11-02T00:00:00Z");
+
+    expect(getSettledStatus(100, 0, "EUR", due, before)).toBe(
+      InvoiceStatus.SENT,
+    );
+    expect(getSettledStatus(100, 40, "EUR", due, after)).toBe(
+      InvoiceStatus.OVERDUE,
+    );
+    expect(getSettledStatus(100, 100, "EUR", due, after)).toBe(
+      InvoiceStatus.PAID,
+    );
+    // Ошибки округления не оставляют счет неоплаченным
+    expect(getSettledStatus(0.3, 0.1 + 0.2, "EUR", due, before)).toBe(
+      InvoiceStatus.PAID,
+    );
+  });
+
+  it("computes the balance due in minor units of the currency", () => {
+    expect(getBalanceDue(100, 33.33, "EUR")).toBe(66.67);
+    expect(getBalanceDue(100, 120, "EUR")).toBe(0);
+    expect(getBalanceDue(1000, 333, "JPY")).toBe(667);
+    expect(getBalanceDue(10, 3.333, "KWD")).toBe(6.667);
+  });
+});
@@ -0,0 +1,59 @@
+// invoices/invoice-lifecycle.ts
+import { InvoiceStatus } from "@prisma/client";
+import { currencyDigits } from "../common/utils/currency";
+
+export interface InvoiceNumberFormat {
+  prefix: string;
+  padding: number;
+  yearlyReset: boolean;
+}
+
+/**
+ * Номер счета: {prefix}{год-}{номер}. Год входит в номер только при
+ * ежегодном сбросе, иначе номера разных лет совпали бы
+ */
+export function formatInvoiceNumber(
+  format: InvoiceNumberFormat,
+  year: number,
+  number: number,
+): string {
+  const sequence = String(number).padStart(format.padding, "0");
+  return format.yearlyReset
+    ? `${format.prefix}${year}-${sequence}`
+    : `${format.prefix}${sequence}`;
+}
+
+/**
+ * Статус выставленного счета по сумме оплат и сроку:
+ * оплачен полностью — PAID, срок прошел — OVERDUE, иначе SENT
+ */
+export function getSettledStatus(
+  total: number,
+  amountPaid: number,
+  currency: string,
+  dueDate: Date,
+  now: Date,
+): InvoiceStatus {
+  if (toMinorUnits(amountPaid, currency) >= toMinorUnits(total, currency)) {
+    return InvoiceStatus.PAID;
+  }
+  return dueDate < now ? InvoiceStatus.OVERDUE : InvoiceStatus.SENT;
+}
+
+/**
+ * Остаток к оплате, не меньше нуля; считается в минимальных единицах валюты
+ */
+export function getBalanceDue(
+  total: number,
+  amountPaid: number,
+  currency: string,
+): number {
+  const factor = 10 ** currencyDigits(currency);
+  const minorUnits =
+    toMinorUnits(total, currency) - toMinorUnits(amountPaid, currency);
+  return Math.max(0, minorUnits) / factor;
+}
+
+function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** currencyDigits(currency));
+}
@@ -0,0 +1,108 @@
+import { InvoiceGroupBy } from "@prisma/client";
+import {
+  BillableEntry,
+  buildInvoiceLines,
+  isOrganizationCurrencyRate,
+  resolveBillingRate,
+} from "./invoice-lines.builder";
+
+describe("invoice lines", () => {
+  const entry = (overrides: Partial<BillableEntry>): BillableEntry => ({
+    id: "e1",
+    userId: "u1",
+    projectId: "p1",
+    taskId: null,
+    duration: 3600,
+    rate: 100,
+    projectName: "Website",
+    taskName: null,
+    memberName: "Ann Lee",
+    ...overrides,
+  });
+
+  it("resolves the rate from member, then project, then client", () => {
+    expect(resolveBillingRate(80, 100, 120)).toBe(80);
+    expect(resolveBillingRate(0, 100, 120)).toBe(100);
+    expect(resolveBillingRate(null, null, 120)).toBe(120);
+    expect(resolveBillingRate(null, 0, 120)).toBe(0);
+    expect(resolveBillingRate(null, null, null)).toBeNull();
+  });
+
+  it("tells whether the rate is in the organization currency", () => {
+    expect(isOrganizationCurrencyRate(80, null)).toBe(true);
+    expect(isOrganizationCurrencyRate(0, 100)).toBe(true);
+    expect(isOrganizationCurrencyRate(null, 0)).toBe(true);
+    expect(isOrganizationCurrencyRate(0, null)).toBe(false);
+    expect(isOrganizationCurrencyRate(null, null)).toBe(false);
+  });
+
+  it("groups entries by project and splits lines by rate", () => {
+    const lines = buildInvoiceLines(
+      [
+        entry({ id: "e1", duration: 5400 }),
+        entry({ id: "e2", userId: "u2", duration: 1800 }),
+        entry({ id: "e3", userId: "u3", rate: 150, duration: 3600 }),
+        entry({ id: "e4", projectId: "p2", projectName: "App" }),
+      ],
+      InvoiceGroupBy.PROJECT,
+    );
+
+    expect(lines).toEqual([
+      expect.objectContaining({
+        position: 1,
+        description: "App",
+        quantity: 1,
+        amount: 100,
+        timeEntryIds: ["e4"],
+      }),
+      expect.objectContaining({
+        position: 2,
+        description: "Website",
+        quantity: 2,
+        unitPrice: 100,
+        amount: 200,
+        projectId: "p1",
+        userId: null,
+        timeEntryIds: ["e1", "e2"],
+      }),
+      expect.objectContaining({
+        position: 3,
+        description: "Website",
+        unitPrice: 150,
+        amount: 150,
+        timeEntryIds: ["e3"],
+      }),
+    ]);
+  });
+
+  it("groups entries by task and by member", () => {
+    const entries = [
+      entry({ id: "e1", taskId: "t1", taskName: "Design" }),
+      entry({ id: "e2", userId: "u2", memberName: "Bob Stone" }),
+    ];
+
+    const byTask = buildInvoiceLines(entries, InvoiceGroupBy.TASK);
+    expect(byTask.map((l) => [l.description, l.taskId])).toEqual([
+      ["Website — Design", "t1"],
+      ["Website — No task", null],
+    ]);
+
+    const byMember = buildInvoiceLines(entries, InvoiceGroupBy.MEMBER);
+    expect(byMember.map((l) => [l.description, l.userId, l.projectId])).toEqual(
+      [
+        ["Ann Lee", "u1", null],
+        ["Bob Stone", "u2", null],
+      ],
+    );
+  });
+
+  it("rounds hours and amounts to cents", () => {
+    const [line] = buildInvoiceLines(
+      [entry({ duration: 1000, rate: 99.99 })],
+      InvoiceGroupBy.PROJECT,
+    );
+
+    expect(line.quantity).toBe(0.28);
+    expect(line.amount).toBe(28);
+  });
+});
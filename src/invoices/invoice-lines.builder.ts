@@ -0,0 +1,134 @@
+// invoices/invoice-lines.builder.ts
+import { InvoiceGroupBy } from "@prisma/client";
+
+export interface BillableEntry {
+  id: string;
+  userId: string;
+  projectId: string;
+  taskId: string | null;
+  // Секунды
+  duration: number;
+  // Ставка в час, уже разрешенная через resolveBillingRate
+  rate: number;
+  projectName: string;
+  taskName: string | null;
+  memberName: string;
+}
+
+export interface InvoiceLineDraft {
+  position: number;
+  description: string;
+  // Часы
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  projectId: string | null;
+  taskId: string | null;
+  userId: string | null;
+  timeEntryIds: string[];
+}
+
+/**
+ * Ставка записи: участник → проект → клиент. Ставка участника 0
+ * считается незаданной; null — ставка не найдена нигде
+ */
+export function resolveBillingRate(
+  memberRate: number | null,
+  projectRate: number | null,
+  clientRate: number | null,
+): number | null {
+  if (memberRate !== null && memberRate > 0) return memberRate;
+  return projectRate ?? clientRate ?? null;
+}
+
+/**
+ * Ставки участников и проектов заданы в валюте организации, ставка
+ * клиента — в валюте клиента. true — resolveBillingRate берет ставку
+ * в валюте организации
+ */
+export function isOrganizationCurrencyRate(
+  memberRate: number | null,
+  projectRate: number | null,
+): boolean {
+  return (memberRate !== null && memberRate > 0) || projectRate !== null;
+}
+
+/**
+ * Строки счета из записей времени. Записи группируются по проекту,
+ * задаче или участнику; записи группы с разными ставками попадают
+ * в разные строки, чтобы сумма строки была равна часам × ставке
+ */
+export function buildInvoiceLines(
+  entries: BillableEntry[],
+  groupBy: InvoiceGroupBy,
+): InvoiceLineDraft[] {
+  const groups = new Map<
+    string,
+    Omit<InvoiceLineDraft, "position" | "quantity" | "amount"> & {
+      seconds: number;
+    }
+  >();
+
+  for (const entry of entries) {
+    const key = `${groupKey(entry, groupBy)}|${entry.rate}`;
+    let group = groups.get(key);
+
+    if (!group) {
+      group = {
+        description: describe(entry, groupBy),
+        unitPrice: entry.rate,
+        projectId: groupBy === InvoiceGroupBy.MEMBER ? null : entry.projectId,
+        taskId: groupBy === InvoiceGroupBy.TASK ? entry.taskId : null,
+        userId: groupBy === InvoiceGroupBy.MEMBER ? entry.userId : null,
+        timeEntryIds: [],
+        seconds: 0,
+      };
+      groups.set(key, group);
+    }
+
+    group.seconds += entry.duration;
+    group.timeEntryIds.push(entry.id);
+  }
+
+  return Array.from(groups.values())
+    .sort(
+      (a, b) =>
+        a.description.localeCompare(b.description) || a.unitPrice - b.unitPrice,
+    )
+    .map(({ seconds, ...group }, index) => {
+      const quantity = roundTo(seconds / 3600, 2);
+      return {
+        ...group,
+        position: index + 1,
+        quantity,
+        amount: roundTo(quantity * group.unitPrice, 2),
+      };
+    });
+}
+
+function groupKey(entry: BillableEntry, groupBy: InvoiceGroupBy): string {
+  switch (groupBy) {
+    case InvoiceGroupBy.TASK:
+      return `${entry.projectId}:${entry.taskId ?? ""}`;
+    case InvoiceGroupBy.MEMBER:
+      return entry.userId;
+    default:
+      return entry.projectId;
+  }
+}
+
+function describe(entry: BillableEntry, groupBy: InvoiceGroupBy): string {
+  switch (groupBy) {
+    case InvoiceGroupBy.TASK:
+      return `${entry.projectName} — ${entry.taskName ?? "No task"}`;
+    case InvoiceGroupBy.MEMBER:
+      return entry.memberName;
+    default:
+      return entry.projectName;
+  }
+}
+
+function roundTo(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,166 @@
+// invoices/invoice-pdf.service.ts
+import { randomUUID } from "crypto";
+import { Injectable, Logger } from "@nestjs/common";
+import { InvoiceStatus } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { StorageService } from "../storage/storage.service";
+import { toLocalDateKey } from "../common/utils/timezone";
+import { renderInvoicePdf } from "./invoice.renderer";
+import { EntityNotFoundException } from "../exceptions/business.exception";
+
+// Хранилище отдает файлы только по подписанным ссылкам, поэтому клиенты
+// скачивают PDF через API с проверкой доступа
+const INVOICES_ROUTE = "/api/v1/invoices";
+
+export interface InvoicePdfFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * PDF счетов: отрисовка и хранение через общий слой хранилища
+ */
+@Injectable()
+export class InvoicePdfService {
+  private readonly logger = new Logger(InvoicePdfService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storageService: StorageService,
+  ) {}
+
+  /**
+   * Перерисовать PDF счета и сохранить ссылку на него. Ошибка не прерывает
+   * изменение счета: PDF будет отрисован заново при скачивании
+   */
+  async refresh(invoiceId: string): Promise<void> {
+    try {
+      const { content, previousKey } = await this.renderInvoice(invoiceId);
+
+      const stored = await this.storageService.upload(
+        `invoices/${invoiceId}/${randomUUID()}.pdf`,
+        content,
+        "application/pdf",
+      );
+      await this.prisma.clientInvoice.update({
+        where: { id: invoiceId },
+        data: {
+          pdfUrl: `${INVOICES_ROUTE}/${invoiceId}/pdf`,
+          pdfStorageKey: stored.key,
+        },
+      });
+
+      if (previousKey) await this.remove(previousKey);
+    } catch (error) {
+      this.logger.error(
+        `Failed to render PDF for invoice ${invoiceId}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Сохраненный PDF счета; если его нет, он отрисовывается заново
+   */
+  async getFile(invoiceId: string): Promise<InvoicePdfFile> {
+    const invoice = await this.prisma.clientInvoice.findUnique({
+      where: { id: invoiceId },
+      select: { invoiceNumber: true, pdfStorageKey: true },
+    });
+    if (!invoice) {
+      throw new EntityNotFoundException("Invoice", invoiceId);
+    }
+
+    let content: Buffer | null = null;
+    if (invoice.pdfStorageKey) {
+      try {
+        content = await this.storageService.read(invoice.pdfStorageKey);
+      } catch (error) {
+        this.logger.warn(
+          `Stored PDF of invoice ${invoiceId} is unavailable: ${error.message}`,
+        );
+      }
+    }
+
+    return {
+      filename: `${invoice.invoiceNumber}.pdf`,
+      contentType: "application/pdf",
+      content: content ?? (await this.renderInvoice(invoiceId)).content,
+    };
+  }
+
+  /**
+   * Удалить файл PDF из хранилища (после удаления черновика)
+   */
+  async remove(storageKey: string): Promise<void> {
+    try {
+      await this.storageService.delete(storageKey);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to delete invoice PDF ${storageKey}: ${error.message}`,
+      );
+    }
+  }
+
+  private async renderInvoice(
+    invoiceId: string,
+  ): Promise<{ content: Buffer; previousKey: string | null }> {
+    const invoice = await this.prisma.clientInvoice.findUnique({
+      where: { id: invoiceId },
+      include: {
+        organization: {
+          select: { name: true, billingAddress: true, timezone: true },
+        },
+        client: {
+          select: {
+            name: true,
+            company: true,
+            email: true,
+            billingAddress: true,
+            taxExempt: true,
+          },
+        },
+        lineItems: { orderBy: { position: "asc" } },
+      },
+    });
+    if (!invoice) {
+      throw new EntityNotFoundException("Invoice", invoiceId);
+    }
+
+    const date = (value: Date) =>
+      toLocalDateKey(value, invoice.organization.timezone);
+
+    const content = await renderInvoicePdf({
+      organization: invoice.organization,
+      client: invoice.client,
+      invoiceNumber: invoice.invoiceNumber,
+      currency: invoice.currency,
+      issuedAt: date(invoice.issuedAt),
+      dueDate: date(invoice.dueDate),
+      period:
+        invoice.periodStart && invoice.periodEnd
+          ? { start: date(invoice.periodStart), end: date(invoice.periodEnd) }
+          : null,
+      lines: invoice.lineItems,
+      subtotal: invoice.subtotal,
+      discount: invoice.discountAmount
+        ? { percent: invoice.discountPercent, amount: invoice.discountAmount }
+        : null,
+      tax:
+        invoice.taxName && invoice.taxPercentage !== null
+          ? {
+              name: invoice.taxName,
+              percentage: invoice.taxPercentage,
+              inclusive: invoice.taxInclusive,
+              amount: invoice.taxAmount,
+            }
+          : null,
+      total: invoice.total,
+      notes: invoice.notes,
+      draft: invoice.status === InvoiceStatus.DRAFT,
+    });
+
+    return { content, previousKey: invoice.pdfStorageKey };
+  }
+}
@@ -0,0 +1,62 @@
+import { calculateInvoiceTotals } from "./invoice-totals";
+
+describe("calculateInvoiceTotals", () => {
+  it("applies line and invoice discounts before exclusive tax", () => {
+    expect(
+      calculateInvoiceTotals({
+        currency: "EUR",
+        lines: [
+          { quantity: 10, unitPrice: 100, discountPercent: 0 },
+          { quantity: 3, unitPrice: 80, discountPercent: 10 },
+        ],
+        discountPercent: 5,
+        tax: { percentage: 19, inclusive: false },
+      }),
+    ).toEqual({
+      lineAmounts: [1000, 216],
+      subtotal: 1216,
+      discountAmount: 60.8,
+      taxAmount: 219.49,
+      total: 1374.69,
+    });
+  });
+
+  it("extracts inclusive tax from the total", () => {
+    expect(
+      calculateInvoiceTotals({
+        currency: "EUR",
+        lines: [{ quantity: 1, unitPrice: 1190, discountPercent: 0 }],
+        discountPercent: 0,
+        tax: { percentage: 19, inclusive: true },
+      }),
+    ).toMatchObject({ subtotal: 1190, taxAmount: 190, total: 1190 });
+  });
+
+  it("rounds to the minor unit of the currency", () => {
+    expect(
+      calculateInvoiceTotals({
+        currency: "JPY",
+        lines: [{ quantity: 1.5, unitPrice: 3333, discountPercent: 0 }],
+        discountPercent: 0,
+        tax: { percentage: 10, inclusive: false },
+      }),
+    ).toMatchObject({ subtotal: 5000, taxAmount: 500, total: 5500 });
+  });
+
+  it("charges no tax without tax terms", () => {
+    expect(
+      calculateInvoiceTotals({
+        currency: "USD",
+        lines: [{ quantity: 2, unitPrice: 99.99, discountPercent: 0 }],
+        discountPercent: 10,
+        tax: null,
+      }),
+    ).toEqual({
+      lineAmounts: [199.98],
+      subtotal: 199.98,
+      discountAmount: 20,
+      taxAmount: 0,
+      total: 179.98,
+    });
+  });
+});
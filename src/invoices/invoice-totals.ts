@@ -0,0 +1,70 @@
+// invoices/invoice-totals.ts
+import { money } from "../common/utils/currency";
+
+export interface InvoiceTaxTerms {
+  percentage: number;
+  // Налог уже включен в цены
+  inclusive: boolean;
+}
+
+export interface InvoiceTotalsInput {
+  currency: string;
+  lines: { quantity: number; unitPrice: number; discountPercent: number }[];
+  // Скидка на весь счет, %
+  discountPercent: number;
+  // null — без налога (ставка не выбрана или клиент освобожден)
+  tax: InvoiceTaxTerms | null;
+}
+
+export interface InvoiceTotals {
+  // Суммы строк после скидок по строкам, в порядке строк
+  lineAmounts: number[];
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  total: number;
+}
+
+/**
+ * Суммы счета. Каждая величина округляется до минимальной единицы валюты
+ * (центы, иены, филсы), итог складывается из уже округленных частей.
+ * Налог считается со суммы после скидки на счет: включенный в цены
+ * выделяется из нее, начисляемый сверху прибавляется
+ */
+export function calculateInvoiceTotals(
+  input: InvoiceTotalsInput,
+): InvoiceTotals {
+  const round = (value: number) => money(value, input.currency);
+
+  const lineAmounts = input.lines.map((line) =>
+    round(line.quantity * line.unitPrice * (1 - line.discountPercent / 100)),
+  );
+  const subtotal = round(lineAmounts.reduce((sum, amount) => sum + amount, 0));
+  const discountAmount = round((subtotal * input.discountPercent) / 100);
+  const taxable = round(subtotal - discountAmount);
+
+  if (!input.tax || input.tax.percentage === 0) {
+    return {
+      lineAmounts,
+      subtotal,
+      discountAmount,
+      taxAmount: 0,
+      total: taxable,
+    };
+  }
+
+  const { percentage, inclusive } = input.tax;
+  if (inclusive) {
+    const taxAmount = round((taxable * percentage) / (100 + percentage));
+    return { lineAmounts, subtotal, discountAmount, taxAmount, total: taxable };
+  }
+
+  const taxAmount = round((taxable * percentage) / 100);
+  return {
+    lineAmounts,
+    subtotal,
+    discountAmount,
+    taxAmount,
+    total: round(taxable + taxAmount),
+  };
+}
@@ -0,0 +1,48 @@
+import { renderInvoicePdf } from "./invoice.renderer";
+
+describe("renderInvoicePdf", () => {
+  it("renders a PDF document for an invoice", async () => {
+    const pdf = await renderInvoicePdf({
+      organization: {
+        name: "Acme Inc.",
+        billingAddress: "1 Main St\n10115 Berlin\nGermany",
+      },
+      client: {
+        name: "Jane Doe",
+        company: "Globex GmbH",
+        email: "billing@globex.example",
+        billingAddress: "Hauptstr. 5\n80331 Munich\nGermany",
+        taxExempt: false,
+      },
+      invoiceNumber: "INV-2026-0007",
+      currency: "EUR",
+      issuedAt: "2026-11-01",
+      dueDate: "2026-12-01",
+      period: { start: "2026-10-01", end: "2026-10-31" },
+      lines: [
+        {
+          description: "Website Redesign",
+          quantity: 12.5,
+          unitPrice: 100,
+          discountPercent: 0,
+          amount: 1250,
+        },
+        {
+          description: "Support",
+          quantity: 3,
+          unitPrice: 80,
+          discountPercent: 10,
+          amount: 216,
+        },
+      ],
+      subtotal: 1466,
+      discount: { percent: 5, amount: 73.3 },
+      tax: { name: "VAT", percentage: 19, inclusive: false, amount: 264.61 },
+      total: 1657.31,
+      notes: "Thank you for your business",
+    });
+
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(pdf.length).toBeGreaterThan(1000);
+  });
+});
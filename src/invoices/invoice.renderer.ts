@@ -0,0 +1,167 @@
+// invoices/invoice.renderer.ts
+import PDFDocument from "pdfkit";
+import { formatMoney } from "../common/utils/currency";
+
+export interface InvoicePdfData {
+  organization: { name: string; billingAddress: string | null };
+  client: {
+    name: string;
+    company: string | null;
+    email: string | null;
+    billingAddress: string | null;
+    taxExempt?: boolean;
+  };
+  invoiceNumber: string;
+  currency: string;
+  // Даты в часовом поясе организации: "YYYY-MM-DD"
+  issuedAt: string;
+  dueDate: string;
+  period: { start: string; end: string } | null;
+  lines: {
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    discountPercent: number;
+    amount: number;
+  }[];
+  subtotal: number;
+  discount: { percent: number; amount: number } | null;
+  tax: {
+    name: string;
+    percentage: number;
+    inclusive: boolean;
+    amount: number;
+  } | null;
+  total: number;
+  notes: string | null;
+  draft?: boolean;
+}
+
+const PAGE_MARGIN = 50;
+// Колонки таблицы строк: описание, часы, ставка, сумма
+const COLUMNS = [245, 70, 90, 90];
+
+/**
+ * Счет клиенту в PDF
+ */
+export function renderInvoicePdf(data: InvoicePdfData): Promise<Buffer> {
+  const money = (amount: number) => formatMoney(amount, data.currency);
+
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: PAGE_MARGIN,
+    info: {
+      Title: `Invoice ${data.invoiceNumber}`,
+      Author: data.organization.name,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const result = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  // Шапка: отправитель
+  doc.font("Helvetica-Bold").fontSize(18).text(data.organization.name);
+  doc.font("Helvetica").fontSize(10);
+  if (data.organization.billingAddress) {
+    doc.text(data.organization.billingAddress);
+  }
+  doc.moveDown();
+
+  doc.font("Helvetica-Bold").fontSize(14);
+  doc.text(data.draft ? "Invoice (draft)" : "Invoice");
+  doc.font("Helvetica").fontSize(10);
+  doc.text(`Number: ${data.invoiceNumber}`);
+  doc.text(`Issued: ${data.issuedAt}`);
+  doc.text(`Due: ${data.dueDate}`);
+  if (data.period) {
+    doc.text(`Period: ${data.period.start} - ${data.period.end}`);
+  }
+  doc.moveDown();
+
+  // Получатель
+  doc.font("Helvetica-Bold").text("Bill to");
+  doc.font("Helvetica");
+  doc.text(data.client.company ?? data.client.name);
+  if (data.client.company) doc.text(`Attn: ${data.client.name}`);
+  if (data.client.billingAddress) doc.text(data.client.billingAddress);
+  if (data.client.email) doc.text(data.client.email);
+  doc.moveDown();
+
+  // Строки счета
+  tableRow(doc, ["Description", "Hours", "Rate", "Amount"], true);
+  for (const line of data.lines) {
+    const discount = line.discountPercent
+      ? ` (${line.discountPercent}% discount)`
+      : "";
+    tableRow(doc, [
+      `${line.description}${discount}`,
+      line.quantity.toFixed(2),
+      money(line.unitPrice),
+      money(line.amount),
+    ]);
+  }
+  doc.moveDown();
+
+  // Итоги: скидка на счет и налог
+  tableRow(doc, ["Subtotal", "", "", money(data.subtotal)]);
+  if (data.discount) {
+    tableRow(doc, [
+      `Discount ${data.discount.percent}%`,
+      "",
+      "",
+      money(-data.discount.amount),
+    ]);
+  }
+  if (data.tax) {
+    const label = `${data.tax.name} ${data.tax.percentage}%`;
+    tableRow(doc, [
+      data.tax.inclusive ? `Includes ${label}` : label,
+      "",
+      "",
+      money(data.tax.amount),
+    ]);
+  }
+
+  doc.font("Helvetica-Bold").fontSize(12);
+  tableRow(doc, ["Total", "", "", money(data.total)]);
+  doc.font("Helvetica").fontSize(10);
+  doc.moveDown();
+
+  if (data.client.taxExempt) {
+    doc.text("The client is exempt from tax.");
+  }
+  doc.text(`Please pay ${money(data.total)} by ${data.dueDate}.`);
+  if (data.notes) {
+    doc.moveDown();
+    doc.text(data.notes);
+  }
+
+  doc.end();
+  return result;
+}
+
+function tableRow(doc: PDFKit.PDFDocument, cells: string[], bold = false) {
+  const y = doc.y;
+  let x = PAGE_MARGIN;
+  let height = 0;
+
+  if (bold) doc.font("Helvetica-Bold");
+  cells.forEach((cell, index) => {
+    const options = {
+      width: COLUMNS[index],
+      align: index === 0 ? ("left" as const) : ("right" as const),
+    };
+    doc.text(cell, x, y, options);
+    height = Math.max(height, doc.heightOfString(cell, options));
+    x += COLUMNS[index];
+  });
+  if (bold) doc.font("Helvetica");
+
+  // Следующая строка — под самой высокой ячейкой
+  doc.x = PAGE_MARGIN;
+  doc.y = y + height + 2;
+}
@@ -0,0 +1,298 @@
+// invoices/invoices.controller.ts
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Put,
+  Query,
+  Res,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiProduces,
+  ApiResponse,
+  ApiTags,
+} from "@nestjs/swagger";
+import { Response } from "express";
+import { InvoicesService } from "./invoices.service";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { GetUser } from "../auth/decorators/get-user.decorator";
+import {
+  ClientInfo,
+  GetClientInfo,
+} from "../audit/decorators/client-info.decorator";
+import {
+  GenerateInvoiceDto,
+  InvoiceFilterDto,
+  InvoiceListResponseDto,
+  InvoiceResponseDto,
+  UpdateInvoiceDto,
+} from "./dto/invoice.dto";
+import { RecordInvoicePaymentDto } from "./dto/invoice-payment.dto";
+import {
+  InvoiceSequenceResponseDto,
+  UpdateInvoiceSequenceDto,
+} from "./dto/invoice-sequence.dto";
+import {
+  CreateTaxRateDto,
+  TaxRateResponseDto,
+  UpdateTaxRateDto,
+} from "./dto/tax-rate.dto";
+
+@ApiTags("invoices")
+@ApiBearerAuth()
+@Controller("invoices")
+@UseGuards(JwtAuthGuard)
+export class InvoicesController {
+  constructor(private readonly invoicesService: InvoicesService) {}
+
+  @Post("generate")
+  @ApiOperation({
+    summary: "Generate a draft invoice from approved billable time",
+  })
+  @ApiResponse({
+    status: 201,
+    description: "Draft invoice created, time entries marked invoiced",
+    type: InvoiceResponseDto,
+  })
+  async generateInvoice(
+    @GetUser("id") userId: string,
+    @Body() dto: GenerateInvoiceDto,
+    @GetClientInfo() clientInfo: ClientInfo,
+  ): Promise<InvoiceResponseDto> {
+    return this.invoicesService.generateInvoice(dto, userId, clientInfo);
+  }
+
+  @Get()
+  @ApiOperation({ summary: "List invoices of an organization" })
+  @ApiResponse({
+    status: 200,
+    description: "Invoices",
+    type: InvoiceListResponseDto,
+  })
+  async getInvoices(
+    @GetUser("id") userId: string,
+    @Query() filter: InvoiceFilterDto,
+  ): Promise<InvoiceListResponseDto> {
+    return this.invoicesService.getInvoices(filter, userId);
+  }
+
+  @Get("organizations/:orgId/sequence")
+  @ApiOperation({ summary: "Get the invoice numbering sequence" })
+  @ApiResponse({ status: 200, type: InvoiceSequenceResponseDto })
+  async getSequence(
+    @GetUser("id") userId: string,
+    @Param("orgId", ParseUUIDPipe) organizationId: string,
+  ): Promise<InvoiceSequenceResponseDto> {
+    return this.invoicesService.getSequence(organizationId, userId);
+  }
+
+  @Put("organizations/:orgId/sequence")
+  @ApiOperation({
+    summary: "Configure invoice numbering: prefix, padding and yearly reset",
+  })
+  @ApiResponse({ status: 200, type: InvoiceSequenceResponseDto })
+  async updateSequence(
+    @GetUser("id") userId: string,
+    @Param("orgId", ParseUUIDPipe) organizationId: string,
+    @Body() dto: UpdateInvoiceSequenceDto,
+    @GetClientInfo() clientInfo: ClientInfo,
+  ): Promise<InvoiceSequenceResponseDto> {
+    return this.invoicesService.updateSequence(
+      organizationId,
+      userId,
+      dto,
+      clientInfo,
+    );
+  }
+
+  @Get("organizations/:orgId/tax-rates")
+  @ApiOperation({ summary: "List tax rates of an organization" })
+  @ApiResponse({ status: 200, type: [TaxRateResponseDto] })
+  async getTaxRates(
+    @GetUser("id") userId: string,
+    @Param("orgId", ParseUUIDPipe) organizationId: string,
+  ): Promise<TaxRateResponseDto[]> {
+    return this.invoicesService.getTaxRates(organizationId, userId);
+  }
+
+  @Post("organizations/:orgId/tax-rates")
+  @ApiOperation({ summary: "Create a tax rate, e.g. VAT" })
+  @ApiResponse({ status: 201, type: TaxRateResponseDto })
+  async createTaxRate(
+    @GetUser("id") userId: string,
+    @Param("orgId", ParseUUIDPipe) organizationId: string,
+    @Body() dto: CreateTaxRateDto,
+    @GetClientInfo() clientInfo: ClientInfo,
+  ): Promise<TaxRateResponseDto> {
+    return this.invoicesService.createTaxRate(
+      organizationId,
+      userId,
+      dto,
+      clientInfo,
+    );
+  }
+
+  @Put("tax-rates/:taxRateId")
+  @ApiOperation({
+    summary: "Update a tax rate; existing invoices keep their tax",
+  })
+  @ApiResponse({ status: 200, type: TaxRateResponseDto })
+  async updateTaxRate(
+    @GetUser("id") userId: string,
+    @Param("taxRateId", ParseUUIDPipe) taxRateId: string,
+    @Body() dto: UpdateTaxRateDto,
+    @GetClientInfo() clientInfo: ClientInfo,
+  ): Promise<TaxRateResponseDto> {
+    return this.invoicesService.updateTaxRate(
+      taxRateId,
+      userId,
+      dto,
+      clientInfo,
+    );
+  }
+
+  @Delete("tax-rates/:taxRateId")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: "Delete a tax rate" })
+  @ApiResponse({ status: 204, description: "Tax rate deleted" })
+  async deleteTaxRate(
+    @GetUser("id") userId: string,
+    @Param("taxRateId", ParseUUIDPipe) taxRateId: string,
+    @GetClientInfo() clientInfo: ClientInfo,
+  ): Promise<void> {
+    await this.invoicesService.deleteTaxRate(taxRateId, userId, clientInfo);
+  }
+
+  @Get(":id")
+  @ApiOperation({ summary: "Get an invoice with its line items" })
+  @ApiResponse({ status: 200, type: InvoiceResponseDto })
+  async getInvoice(
+    @GetUser("id") userId: string,
+    @Param("id", ParseUUIDPipe) invoiceId: string,
+  ): Promise<InvoiceResponseDto> {
+    return this.invoicesService.getInvoice(invoiceId, userId);
+  }
+
+  @Get(":id/pdf")
+  @ApiOperation({ summary: "Download an invoice as PDF" })
+  @ApiProduces("application/pdf")
+  @ApiResponse({ status: 200, description: "PDF invoice" })
+  async getInvoicePdf(
+    @GetUser("id") userId: string,
+    @Param("id", ParseUUIDPipe) invoiceId: string,
+    @Res() res: Response,
+  ) {
+    const file = await this.invoicesService.getInvoicePdf(invoiceId, userId);
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${file.filename}"`,
+    );
+    res.send(file.content);
+  }
+
+  @Patch(":id")
+  @ApiOperation({
+    summary:
+      "Edit a draft invoice: due date, notes, discounts and tax; its PDF is rendered again",
+  })
+  @ApiResponse({ status: 200, type: InvoiceResponseDto })
+  async updateDraft(
+    @GetUser("id") userId: string,
+    @Param("id", ParseUUIDPipe) invoiceId: string,
+    @Body() dto: UpdateInvoiceDto,
+    @GetClientInfo() clientInfo: ClientInfo,
+  ): Promise<InvoiceResponseDto> {
+    return this.invoicesService.updateDraft(invoiceId, userId, dto, clientInfo);
+  }
+
+  @Delete(":id")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: "Delete a draft invoice and release its time entries",
+  })
+  @ApiResponse({ status: 204, description: "Draft invoice deleted" })
+  async deleteDraft(
+    @GetUser("id") userId: string,
+    @Param("id", ParseUUIDPipe) invoiceId: string,
+    @GetClientInfo() clientInfo: ClientInfo,
+  ): Promise<void> {
+    await this.invoicesService.deleteDraft(invoiceId, userId, clientInfo);
+  }
+
+  @Post(":id/send")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Send a draft invoice and assign its final number",
+  })
+  @ApiResponse({ status: 200, type: InvoiceResponseDto })
+  async sendInvoice(
+    @GetUser("id") userId: string,
+    @Param("id", ParseUUIDPipe) invoiceId: string,
+    @GetClientInfo() clientInfo: ClientInfo,
+  ): Promise<InvoiceResponseDto> {
+    return this.invoicesService.sendInvoice(invoiceId, userId, clientInfo);
+  }
+
+  @Post(":id/cancel")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Cancel an unpaid invoice and release its time entries",
+  })
+  @ApiResponse({ status: 200, type: InvoiceResponseDto })
+  async cancelInvoice(
+    @GetUser("id") userId: string,
+    @Param("id", ParseUUIDPipe) invoiceId: string,
+    @GetClientInfo() clientInfo: ClientInfo,
+  ): Promise<InvoiceResponseDto> {
+    return this.invoicesService.cancelInvoice(invoiceId, userId, clientInfo);
+  }
+
+  @Post(":id/payments")
+  @ApiOperation({ summary: "Record a partial or full payment" })
+  @ApiResponse({
+    status: 201,
+    description: "Payment recorded, status updated",
+    type: InvoiceResponseDto,
+  })
+  async recordPayment(
+    @GetUser("id") userId: string,
+    @Param("id", ParseUUIDPipe) invoiceId: string,
+    @Body() dto: RecordInvoicePaymentDto,
+    @GetClientInfo() clientInfo: ClientInfo,
+  ): Promise<InvoiceResponseDto> {
+    return this.invoicesService.recordPayment(
+      invoiceId,
+      userId,
+      dto,
+      clientInfo,
+    );
+  }
+
+  @Delete(":id/payments/:paymentId")
+  @ApiOperation({ summary: "Remove a recorded payment" })
+  @ApiResponse({ status: 200, type: InvoiceResponseDto })
+  async removePayment(
+    @GetUser("id") userId: string,
+    @Param("id", ParseUUIDPipe) invoiceId: string,
+    @Param("paymentId", ParseUUIDPipe) paymentId: string,
+    @GetClientInfo() clientInfo: ClientInfo,
+  ): Promise<InvoiceResponseDto> {
+    return this.invoicesService.removePayment(
+      invoiceId,
+      paymentId,
+      userId,
+      clientInfo,
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from "@nestjs/common";
+import { OrganizationsModule } from "../organizations/organizations.module";
+import { StorageModule } from "../storage/storage.module";
+import { InvoicesController } from "./invoices.controller";
+import { InvoicesService } from "./invoices.service";
+import { InvoicePdfService } from "./invoice-pdf.service";
+
+@Module({
+  imports: [OrganizationsModule, StorageModule],
+  controllers: [InvoicesController],
+  providers: [InvoicesService, InvoicePdfService],
+  exports: [InvoicesService],
+})
+export class InvoicesModule {}
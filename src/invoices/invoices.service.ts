@@ -0,0 +1,1347 @@
+// invoices/invoices.service.ts
+import { randomUUID } from "crypto";
+import { Injectable, Logger } from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import {
+  Client,
+  ClientInvoice,
+  InvoiceGroupBy,
+  InvoiceLineItem,
+  InvoicePayment,
+  InvoiceSequence,
+  InvoiceStatus,
+  MemberRole,
+  MemberStatus,
+  Prisma,
+  TaxRate,
+} from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { MemberRatesService } from "../organizations/member-rates.service";
+import { AuditService } from "../audit/audit.service";
+import { InvoicePdfFile, InvoicePdfService } from "./invoice-pdf.service";
+import { AuditAction } from "../audit/audit-actions";
+import { ClientInfo } from "../audit/decorators/client-info.decorator";
+import { toLocalDateKey } from "../common/utils/timezone";
+import { money } from "../common/utils/currency";
+import {
+  GenerateInvoiceDto,
+  InvoiceFilterDto,
+  InvoiceListResponseDto,
+  InvoiceResponseDto,
+  UpdateInvoiceDto,
+} from "./dto/invoice.dto";
+import {
+  InvoicePaymentDto,
+  RecordInvoicePaymentDto,
+} from "./dto/invoice-payment.dto";
+import {
+  InvoiceSequenceResponseDto,
+  UpdateInvoiceSequenceDto,
+} from "./dto/invoice-sequence.dto";
+import {
+  CreateTaxRateDto,
+  TaxRateResponseDto,
+  UpdateTaxRateDto,
+} from "./dto/tax-rate.dto";
+import {
+  BillableEntry,
+  buildInvoiceLines,
+  isOrganizationCurrencyRate,
+  resolveBillingRate,
+} from "./invoice-lines.builder";
+import {
+  formatInvoiceNumber,
+  getBalanceDue,
+  getSettledStatus,
+} from "./invoice-lifecycle";
+import { InvoiceTaxTerms, calculateInvoiceTotals } from "./invoice-totals";
+import {
+  DuplicateEntityException,
+  EntityNotFoundException,
+  InvalidOperationException,
+  PermissionDeniedException,
+  ValidationException,
+} from "../exceptions/business.exception";
+
+type InvoiceWithDetails = ClientInvoice & {
+  client?: { id: string; name: string; company: string | null };
+  lineItems?: InvoiceLineItem[];
+  payments?: InvoicePayment[];
+};
+
+const invoiceInclude = {
+  client: { select: { id: true, name: true, company: true } },
+  lineItems: { orderBy: { position: "asc" } },
+  payments: { orderBy: { paidAt: "asc" } },
+} as const;
+
+const DEFAULT_DUE_IN_DAYS = 30;
+
+/**
+ * Счета клиентам, собранные из утвержденного оплачиваемого времени
+ */
+@Injectable()
+export class InvoicesService {
+  private readonly logger = new Logger(InvoicesService.name);
+  private overdueRunning = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly memberRatesService: MemberRatesService,
+    private readonly auditService: AuditService,
+    private readonly invoicePdfService: InvoicePdfService,
+  ) {}
+
+  // ==================== ФОРМИРОВАНИЕ ====================
+
+  /**
+   * Собрать черновик счета клиенту за период. В счет попадают
+   * утвержденные оплачиваемые записи оплачиваемых проектов клиента,
+   * еще не выставленные в другой счет; записи помечаются счетом
+   */
+  async generateInvoice(
+    dto: GenerateInvoiceDto,
+    userId: string,
+    clientInfo?: ClientInfo,
+  ): Promise<InvoiceResponseDto> {
+    const client = await this.prisma.client.findUnique({
+      where: { id: dto.clientId },
+      include: { organization: { select: { currency: true } } },
+    });
+    if (!client) {
+      throw new EntityNotFoundException("Client", dto.clientId);
+    }
+
+    await this.validateBillingAccess(client.organizationId, userId);
+
+    if (dto.endDate < dto.startDate) {
+      throw new ValidationException("End date must be after start date");
+    }
+
+    const entries = await this.prisma.timeEntry.findMany({
+      where: {
+        project: { clientId: client.id, billable: true },
+        billable: true,
+        approved: true,
+        invoiceId: null,
+        endTime: { not: null },
+        startTime: { gte: dto.startDate, lte: dto.endDate },
+      },
+      include: {
+        project: { select: { name: true, hourlyRate: true } },
+        task: { select: { name: true } },
+        user: { select: { firstName: true, lastName: true } },
+      },
+      orderBy: { startTime: "asc" },
+    });
+
+    if (entries.length === 0) {
+      throw new ValidationException(
+        "No approved billable time to invoice for this period",
+      );
+    }
+
+    const rateAt = await this.memberRatesService.getRateLookup(
+      client.organizationId,
+      [...new Set(entries.map((entry) => entry.userId))],
+    );
+
+    const billable: BillableEntry[] = entries.map((entry) => {
+      const memberRate = rateAt(entry.userId, entry.startTime);
+      const rate = resolveBillingRate(
+        memberRate,
+        entry.project.hourlyRate,
+        client.hourlyRate,
+      );
+      if (rate === null) {
+        throw new ValidationException(
+          `No billing rate for project "${entry.project.name}": set a member, project or client rate`,
+        );
+      }
+      // Курсы не пересчитываются: ставка в чужой валюте исказит сумму
+      if (
+        client.currency !== client.organization.currency &&
+        isOrganizationCurrencyRate(memberRate, entry.project.hourlyRate)
+      ) {
+        throw new ValidationException(
+          `Time on project "${entry.project.name}" is billed at a member or project rate in ${client.organization.currency}, but the client is invoiced in ${client.currency}`,
+        );
+      }
+
+      return {
+        id: entry.id,
+        userId: entry.userId,
+        projectId: entry.projectId,
+        taskId: entry.taskId,
+        duration: entry.duration ?? 0,
+        rate,
+        projectName: entry.project.name,
+        taskName: entry.task?.name ?? null,
+        memberName: `${entry.user.firstName} ${entry.user.lastName}`,
+      };
+    });
+
+    const groupBy = dto.groupBy ?? InvoiceGroupBy.PROJECT;
+    const lines = buildInvoiceLines(billable, groupBy);
+
+    const taxRate = await this.resolveTaxRate(client, dto.taxRateId);
+    const discountPercent = dto.discountPercent ?? 0;
+    const totals = calculateInvoiceTotals({
+      currency: client.currency,
+      lines: lines.map((line) => ({ ...line, discountPercent: 0 })),
+      discountPercent,
+      tax: taxRate,
+    });
+
+    const issuedAt = new Date();
+    const dueDate = new Date(issuedAt);
+    dueDate.setDate(dueDate.getDate() + (dto.dueInDays ?? DEFAULT_DUE_IN_DAYS));
+
+    const entryIds = billable.map((entry) => entry.id);
+    const invoiceId = randomUUID();
+
+    const invoice = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.clientInvoice.create({
+        data: {
+          id: invoiceId,
+          // Окончательный номер присваивается при выставлении
+          invoiceNumber: this.getDraftNumber(invoiceId),
+          organizationId: client.organizationId,
+          clientId: client.id,
+          currency: client.currency,
+          subtotal: totals.subtotal,
+          discountPercent,
+          discountAmount: totals.discountAmount,
+          ...this.getTaxSnapshot(taxRate),
+          taxAmount: totals.taxAmount,
+          total: totals.total,
+          issuedAt,
+          dueDate,
+          periodStart: dto.startDate,
+          periodEnd: dto.endDate,
+          groupBy,
+          notes: dto.notes,
+          createdById: userId,
+          lineItems: {
+            create: lines.map((line, index) => ({
+              position: line.position,
+              description: line.description,
+              quantity: line.quantity,
+              unitPrice: line.unitPrice,
+              amount: totals.lineAmounts[index],
+              projectId: line.projectId,
+              taskId: line.taskId,
+              userId: line.userId,
+              timeEntryIds: line.timeEntryIds,
+            })),
+          },
+        },
+        include: invoiceInclude,
+      });
+
+      const marked = await tx.timeEntry.updateMany({
+        where: { id: { in: entryIds }, invoiceId: null },
+        data: { invoiceId },
+      });
+      if (marked.count !== entryIds.length) {
+        throw new InvalidOperationException(
+          "Some time entries were invoiced concurrently, generate the invoice again",
+        );
+      }
+
+      return created;
+    });
+
+    await this.auditService.record({
+      organizationId: client.organizationId,
+      actorId: userId,
+      action: AuditAction.INVOICE_GENERATED,
+      entityType: "ClientInvoice",
+      entityId: invoice.id,
+      after: {
+        clientId: client.id,
+        subtotal: totals.subtotal,
+        discountAmount: totals.discountAmount,
+        taxName: taxRate?.name ?? null,
+        taxAmount: totals.taxAmount,
+        total: totals.total,
+        currency: invoice.currency,
+        periodStart: dto.startDate,
+        periodEnd: dto.endDate,
+        groupBy,
+        timeEntries: entryIds.length,
+      },
+      client: clientInfo,
+    });
+
+    this.logger.log(
+      `Invoice ${invoice.id} generated for client ${client.id}: ${lines.length} line(s), ${entryIds.length} time entries`,
+    );
+
+    await this.invoicePdfService.refresh(invoice.id);
+
+    return this.mapToResponse(await this.findInvoice(invoice.id));
+  }
+
+  // ==================== ПРОСМОТР ====================
+
+  async getInvoices(
+    filter: InvoiceFilterDto,
+    userId: string,
+  ): Promise<InvoiceListResponseDto> {
+    await this.validateBillingAccess(filter.organizationId, userId);
+
+    const limit = filter.limit ?? 50;
+    const offset = filter.offset ?? 0;
+
+    const where: Prisma.ClientInvoiceWhereInput = {
+      organizationId: filter.organizationId,
+      ...(filter.clientId && { clientId: filter.clientId }),
+      ...(filter.status && { status: filter.status }),
+    };
+
+    const [invoices, total] = await Promise.all([
+      this.prisma.clientInvoice.findMany({
+        where,
+        include: { client: invoiceInclude.client },
+        orderBy: { issuedAt: "desc" },
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.clientInvoice.count({ where }),
+    ]);
+
+    return {
+      items: invoices.map((invoice) => this.mapToResponse(invoice)),
+      total,
+      limit,
+      offset,
+    };
+  }
+
+  async getInvoice(
+    invoiceId: string,
+    userId: string,
+  ): Promise<InvoiceResponseDto> {
+    const invoice = await this.findInvoice(invoiceId);
+    await this.validateBillingAccess(invoice.organizationId, userId);
+
+    return this.mapToResponse(invoice);
+  }
+
+  /**
+   * PDF счета для скачивания
+   */
+  async getInvoicePdf(
+    invoiceId: string,
+    userId: string,
+  ): Promise<InvoicePdfFile> {
+    const invoice = await this.findInvoice(invoiceId);
+    await this.validateBillingAccess(invoice.organizationId, userId);
+
+    return this.invoicePdfService.getFile(invoiceId);
+  }
+
+  /**
+   * Изменить черновик: срок, заметки, скидки и налог. Суммы
+   * пересчитываются, PDF перерисовывается
+   */
+  async updateDraft(
+    invoiceId: string,
+    userId: string,
+    dto: UpdateInvoiceDto,
+    clientInfo?: ClientInfo,
+  ): Promise<InvoiceResponseDto> {
+    const invoice = await this.findInvoice(invoiceId);
+    await this.validateBillingAccess(invoice.organizationId, userId);
+
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw new InvalidOperationException("Only a draft invoice can be edited");
+    }
+    if (dto.dueDate && dto.dueDate < invoice.issuedAt) {
+      throw new ValidationException("Due date cannot be before the issue date");
+    }
+
+    const lineDiscounts = new Map(
+      invoice.lineItems.map((line) => [line.id, line.discountPercent]),
+    );
+    for (const line of dto.lines ?? []) {
+      if (!lineDiscounts.has(line.id)) {
+        throw new EntityNotFoundException("Invoice line", line.id);
+      }
+      lineDiscounts.set(line.id, line.discountPercent);
+    }
+
+    // Без taxRateId в запросе остается налог, зафиксированный в счете
+    let tax: InvoiceTaxTerms | null = invoice.taxPercentage
+      ? { percentage: invoice.taxPercentage, inclusive: invoice.taxInclusive }
+      : null;
+    let taxSnapshot = {};
+    if (dto.taxRateId !== undefined) {
+      const client = await this.prisma.client.findUniqueOrThrow({
+        where: { id: invoice.clientId },
+      });
+      const taxRate = dto.taxRateId
+        ? await this.resolveTaxRate(client, dto.taxRateId)
+        : null;
+      tax = taxRate;
+      taxSnapshot = this.getTaxSnapshot(taxRate);
+    }
+
+    const discountPercent = dto.discountPercent ?? invoice.discountPercent;
+    const totals = calculateInvoiceTotals({
+      currency: invoice.currency,
+      lines: invoice.lineItems.map((line) => ({
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        discountPercent: lineDiscounts.get(line.id) ?? 0,
+      })),
+      discountPercent,
+      tax,
+    });
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      for (const [index, line] of invoice.lineItems.entries()) {
+        const lineDiscount = lineDiscounts.get(line.id) ?? 0;
+        const amount = totals.lineAmounts[index];
+        if (lineDiscount !== line.discountPercent || amount !== line.amount) {
+          await tx.invoiceLineItem.update({
+            where: { id: line.id },
+            data: { discountPercent: lineDiscount, amount },
+          });
+        }
+      }
+
+      // Условие на статус защищает от правки счета, выставленного параллельно
+      const changed = await tx.clientInvoice.updateMany({
+        where: { id: invoiceId, status: InvoiceStatus.DRAFT },
+        data: {
+          dueDate: dto.dueDate,
+          notes: dto.notes,
+          subtotal: totals.subtotal,
+          discountPercent,
+          discountAmount: totals.discountAmount,
+          ...taxSnapshot,
+          taxAmount: totals.taxAmount,
+          total: totals.total,
+        },
+      });
+      if (changed.count === 0) {
+        throw new InvalidOperationException(
+          "Only a draft invoice can be edited",
+        );
+      }
+
+      return tx.clientInvoice.findUniqueOrThrow({ where: { id: invoiceId } });
+    });
+
+    await this.auditService.recordChange({
+      organizationId: invoice.organizationId,
+      actorId: userId,
+      action: AuditAction.INVOICE_UPDATED,
+      entityType: "ClientInvoice",
+      entityId: invoiceId,
+      before: invoice,
+      after: updated,
+      fields: [
+        "dueDate",
+        "notes",
+        "subtotal",
+        "discountPercent",
+        "discountAmount",
+        "taxRateId",
+        "taxName",
+        "taxPercentage",
+        "taxInclusive",
+        "taxAmount",
+        "total",
+      ],
+      client: clientInfo,
+    });
+
+    await this.invoicePdfService.refresh(invoiceId);
+
+    return this.mapToResponse(await this.findInvoice(invoiceId));
+  }
+
+  /**
+   * Удалить черновик; его записи времени снова доступны для выставления
+   */
+  async deleteDraft(
+    invoiceId: string,
+    userId: string,
+    clientInfo?: ClientInfo,
+  ): Promise<void> {
+    const invoice = await this.findInvoice(invoiceId);
+    await this.validateBillingAccess(invoice.organizationId, userId);
+
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw new InvalidOperationException(
+        "Only a draft invoice can be deleted",
+      );
+    }
+
+    // Связь записей с удаленным счетом обнуляется внешним ключом (SET NULL)
+    await this.prisma.clientInvoice.delete({ where: { id: invoiceId } });
+
+    await this.auditService.record({
+      organizationId: invoice.organizationId,
+      actorId: userId,
+      action: AuditAction.INVOICE_DELETED,
+      entityType: "ClientInvoice",
+      entityId: invoiceId,
+      before: {
+        invoiceNumber: invoice.invoiceNumber,
+        clientId: invoice.clientId,
+        total: invoice.total,
+        currency: invoice.currency,
+      },
+      client: clientInfo,
+    });
+
+    if (invoice.pdfStorageKey) {
+      await this.invoicePdfService.remove(invoice.pdfStorageKey);
+    }
+
+    this.logger.log(`Draft invoice ${invoiceId} deleted by ${userId}`);
+  }
+
+  // ==================== ЖИЗНЕННЫЙ ЦИКЛ ====================
+
+  /**
+   * Выставить черновик: присвоить номер из последовательности организации.
+   * Дата выставления — сейчас, срок оплаты сдвигается на тот же срок
+   */
+  async sendInvoice(
+    invoiceId: string,
+    userId: string,
+    clientInfo?: ClientInfo,
+  ): Promise<InvoiceResponseDto> {
+    const invoice = await this.findInvoice(invoiceId);
+    await this.validateBillingAccess(invoice.organizationId, userId);
+
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw new InvalidOperationException("Only a draft invoice can be sent");
+    }
+
+    const timezone = await this.getOrgTimezone(invoice.organizationId);
+    const now = new Date();
+    const dueDate = new Date(
+      now.getTime() + (invoice.dueDate.getTime() - invoice.issuedAt.getTime()),
+    );
+
+    let invoiceNumber: string;
+    try {
+      invoiceNumber = await this.prisma.$transaction(async (tx) => {
+        const number = await this.allocateNumber(
+          tx,
+          invoice.organizationId,
+          timezone,
+          now,
+        );
+
+        // Условие на статус защищает от повторной отправки параллельным запросом
+        const updated = await tx.clientInvoice.updateMany({
+          where: { id: invoiceId, status: InvoiceStatus.DRAFT },
+          data: {
+            invoiceNumber: number,
+            status: InvoiceStatus.SENT,
+            issuedAt: now,
+            sentAt: now,
+            dueDate,
+          },
+        });
+        if (updated.count === 0) {
+          throw new InvalidOperationException("Invoice was already sent");
+        }
+
+        return number;
+      });
+    } catch (error) {
+      if (error.code === "P2002") {
+        throw new InvalidOperationException(
+          "The next invoice number is already used, adjust the numbering sequence",
+        );
+      }
+      throw error;
+    }
+
+    await this.auditService.record({
+      organizationId: invoice.organizationId,
+      actorId: userId,
+      action: AuditAction.INVOICE_SENT,
+      entityType: "ClientInvoice",
+      entityId: invoiceId,
+      before: {
+        status: invoice.status,
+        invoiceNumber: invoice.invoiceNumber,
+      },
+      after: { status: InvoiceStatus.SENT, invoiceNumber, dueDate },
+      client: clientInfo,
+    });
+
+    this.logger.log(`Invoice ${invoiceId} sent as ${invoiceNumber}`);
+
+    // Номер и даты изменились — PDF больше не черновик
+    await this.invoicePdfService.refresh(invoiceId);
+
+    return this.mapToResponse(await this.findInvoice(invoiceId));
+  }
+
+  /**
+   * Отменить неоплаченный счет; его записи времени снова можно выставить
+   */
+  async cancelInvoice(
+    invoiceId: string,
+    userId: string,
+    clientInfo?: ClientInfo,
+  ): Promise<InvoiceResponseDto> {
+    const invoice = await this.findInvoice(invoiceId);
+    await this.validateBillingAccess(invoice.organizationId, userId);
+
+    const cancellable: InvoiceStatus[] = [
+      InvoiceStatus.DRAFT,
+      InvoiceStatus.SENT,
+      InvoiceStatus.OVERDUE,
+    ];
+    if (!cancellable.includes(invoice.status)) {
+      throw new InvalidOperationException(
+        `Invoice in status ${invoice.status} cannot be cancelled`,
+      );
+    }
+    if (invoice.amountPaid > 0) {
+      throw new InvalidOperationException(
+        "Remove the recorded payments before cancelling the invoice",
+      );
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      // Условие защищает от отмены счета, который параллельно оплатили
+      const updated = await tx.clientInvoice.updateMany({
+        where: { id: invoiceId, status: { in: cancellable }, amountPaid: 0 },
+        data: { status: InvoiceStatus.CANCELLED, cancelledAt: new Date() },
+      });
+      if (updated.count === 0) {
+        throw new InvalidOperationException(
+          "Invoice was updated concurrently, try again",
+        );
+      }
+
+      await tx.timeEntry.updateMany({
+        where: { invoiceId },
+        data: { invoiceId: null },
+      });
+    });
+
+    await this.auditService.record({
+      organizationId: invoice.organizationId,
+      actorId: userId,
+      action: AuditAction.INVOICE_CANCELLED,
+      entityType: "ClientInvoice",
+      entityId: invoiceId,
+      before: { status: invoice.status },
+      after: { status: InvoiceStatus.CANCELLED },
+      client: clientInfo,
+    });
+
+    return this.mapToResponse(await this.findInvoice(invoiceId));
+  }
+
+  // ==================== ОПЛАТЫ ====================
+
+  /**
+   * Зарегистрировать частичную или полную оплату выставленного счета
+   */
+  async recordPayment(
+    invoiceId: string,
+    userId: string,
+    dto: RecordInvoicePaymentDto,
+    clientInfo?: ClientInfo,
+  ): Promise<InvoiceResponseDto> {
+    const invoice = await this.findInvoice(invoiceId);
+    await this.validateBillingAccess(invoice.organizationId, userId);
+
+    const payable: InvoiceStatus[] = [
+      InvoiceStatus.SENT,
+      InvoiceStatus.OVERDUE,
+    ];
+    if (!payable.includes(invoice.status)) {
+      throw new InvalidOperationException(
+        `Payments cannot be recorded for an invoice in status ${invoice.status}`,
+      );
+    }
+
+    if (money(dto.amount, invoice.currency) !== dto.amount) {
+      throw new ValidationException(
+        `Payment amount has more decimals than ${invoice.currency} allows`,
+      );
+    }
+
+    const balanceDue = getBalanceDue(
+      invoice.total,
+      invoice.amountPaid,
+      invoice.currency,
+    );
+    if (dto.amount > balanceDue) {
+      throw new ValidationException(
+        `Payment exceeds the balance due of ${balanceDue} ${invoice.currency}`,
+      );
+    }
+
+    const now = new Date();
+    const paidAt = dto.paidAt ?? now;
+    if (paidAt > now) {
+      throw new ValidationException("Payment date cannot be in the future");
+    }
+
+    const amountPaid = money(invoice.amountPaid + dto.amount, invoice.currency);
+    const status = getSettledStatus(
+      invoice.total,
+      amountPaid,
+      invoice.currency,
+      invoice.dueDate,
+      now,
+    );
+
+    const payment = await this.prisma.$transaction(async (tx) => {
+      // Сумма оплат в условии защищает от одновременной регистрации двух оплат
+      const updated = await tx.clientInvoice.updateMany({
+        where: { id: invoiceId, amountPaid: invoice.amountPaid },
+        data: {
+          amountPaid,
+          status,
+          paidAt:
+            status === InvoiceStatus.PAID
+              ? this.latestDate(invoice.payments ?? [], paidAt)
+              : null,
+        },
+      });
+      if (updated.count === 0) {
+        throw new InvalidOperationException(
+          "Invoice was updated concurrently, try again",
+        );
+      }
+
+      return tx.invoicePayment.create({
+        data: {
+          invoiceId,
+          amount: dto.amount,
+          paidAt,
+          method: dto.method,
+          reference: dto.reference,
+          note: dto.note,
+          recordedById: userId,
+        },
+      });
+    });
+
+    await this.auditService.record({
+      organizationId: invoice.organizationId,
+      actorId: userId,
+      action: AuditAction.INVOICE_PAYMENT_RECORDED,
+      entityType: "ClientInvoice",
+      entityId: invoiceId,
+      before: { status: invoice.status, amountPaid: invoice.amountPaid },
+      after: {
+        status,
+        amountPaid,
+        paymentId: payment.id,
+        amount: payment.amount,
+        paidAt,
+      },
+      client: clientInfo,
+    });
+
+    this.logger.log(
+      `Payment of ${dto.amount} ${invoice.currency} recorded for invoice ${invoiceId}, status ${status}`,
+    );
+
+    return this.mapToResponse(await this.findInvoice(invoiceId));
+  }
+
+  /**
+   * Удалить ошибочно зарегистрированную оплату; статус пересчитывается
+   */
+  async removePayment(
+    invoiceId: string,
+    paymentId: string,
+    userId: string,
+    clientInfo?: ClientInfo,
+  ): Promise<InvoiceResponseDto> {
+    const invoice = await this.findInvoice(invoiceId);
+    await this.validateBillingAccess(invoice.organizationId, userId);
+
+    const payment = invoice.payments.find((p) => p.id === paymentId);
+    if (!payment) {
+      throw new EntityNotFoundException("Invoice payment", paymentId);
+    }
+
+    const amountPaid = money(
+      invoice.amountPaid - payment.amount,
+      invoice.currency,
+    );
+    const status = getSettledStatus(
+      invoice.total,
+      amountPaid,
+      invoice.currency,
+      invoice.dueDate,
+      new Date(),
+    );
+    const remaining = invoice.payments.filter((p) => p.id !== paymentId);
+
+    await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.clientInvoice.updateMany({
+        where: { id: invoiceId, amountPaid: invoice.amountPaid },
+        data: {
+          amountPaid,
+          status,
+          paidAt:
+            status === InvoiceStatus.PAID ? this.latestDate(remaining) : null,
+        },
+      });
+      if (updated.count === 0) {
+        throw new InvalidOperationException(
+          "Invoice was updated concurrently, try again",
+        );
+      }
+
+      await tx.invoicePayment.delete({ where: { id: paymentId } });
+    });
+
+    await this.auditService.record({
+      organizationId: invoice.organizationId,
+      actorId: userId,
+      action: AuditAction.INVOICE_PAYMENT_REMOVED,
+      entityType: "ClientInvoice",
+      entityId: invoiceId,
+      before: {
+        status: invoice.status,
+        amountPaid: invoice.amountPaid,
+        paymentId,
+        amount: payment.amount,
+        paidAt: payment.paidAt,
+      },
+      after: { status, amountPaid },
+      client: clientInfo,
+    });
+
+    return this.mapToResponse(await this.findInvoice(invoiceId));
+  }
+
+  // ==================== НУМЕРАЦИЯ ====================
+
+  async getSequence(
+    organizationId: string,
+    userId: string,
+  ): Promise<InvoiceSequenceResponseDto> {
+    await this.validateBillingAccess(organizationId, userId);
+
+    const sequence = await this.prisma.invoiceSequence.upsert({
+      where: { organizationId },
+      create: { organizationId },
+      update: {},
+    });
+
+    return this.mapToSequenceResponse(
+      sequence,
+      await this.getOrgTimezone(organizationId),
+    );
+  }
+
+  /**
+   * Настроить нумерацию. Номер, уже занятый другим счетом, обнаружится
+   * при выставлении по уникальности номера в организации
+   */
+  async updateSequence(
+    organizationId: string,
+    userId: string,
+    dto: UpdateInvoiceSequenceDto,
+    clientInfo?: ClientInfo,
+  ): Promise<InvoiceSequenceResponseDto> {
+    await this.validateBillingAccess(organizationId, userId);
+
+    const timezone = await this.getOrgTimezone(organizationId);
+    const before = await this.prisma.invoiceSequence.findUnique({
+      where: { organizationId },
+    });
+
+    const data = {
+      prefix: dto.prefix,
+      padding: dto.padding,
+      yearlyReset: dto.yearlyReset,
+      nextNumber: dto.nextNumber,
+      // Явно заданный номер относится к текущему году
+      ...(dto.nextNumber !== undefined && {
+        currentYear: this.getYear(new Date(), timezone),
+      }),
+    };
+
+    const sequence = await this.prisma.invoiceSequence.upsert({
+      where: { organizationId },
+      create: { organizationId, ...data },
+      update: data,
+    });
+
+    await this.auditService.recordChange({
+      organizationId,
+      actorId: userId,
+      action: AuditAction.INVOICE_SEQUENCE_UPDATED,
+      entityType: "InvoiceSequence",
+      entityId: sequence.id,
+      before: before ?? {},
+      after: sequence,
+      fields: ["prefix", "padding", "yearlyReset", "nextNumber"],
+      client: clientInfo,
+    });
+
+    return this.mapToSequenceResponse(sequence, timezone);
+  }
+
+  // ==================== НАЛОГОВЫЕ СТАВКИ ====================
+
+  async getTaxRates(
+    organizationId: string,
+    userId: string,
+  ): Promise<TaxRateResponseDto[]> {
+    await this.validateBillingAccess(organizationId, userId);
+
+    const taxRates = await this.prisma.taxRate.findMany({
+      where: { organizationId },
+      orderBy: { name: "asc" },
+    });
+
+    return taxRates.map((taxRate) => this.mapToTaxRate(taxRate));
+  }
+
+  async createTaxRate(
+    organizationId: string,
+    userId: string,
+    dto: CreateTaxRateDto,
+    clientInfo?: ClientInfo,
+  ): Promise<TaxRateResponseDto> {
+    await this.validateBillingAccess(organizationId, userId);
+    await this.validateTaxRateNameUnique(dto.name, organizationId);
+
+    const taxRate = await this.prisma.$transaction(async (tx) => {
+      if (dto.isDefault) {
+        await tx.taxRate.updateMany({
+          where: { organizationId, isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+
+      return tx.taxRate.create({
+        data: {
+          organizationId,
+          name: dto.name,
+          percentage: dto.percentage,
+          inclusive: dto.inclusive,
+          isDefault: dto.isDefault,
+        },
+      });
+    });
+
+    await this.auditService.record({
+      organizationId,
+      actorId: userId,
+      action: AuditAction.TAX_RATE_CREATED,
+      entityType: "TaxRate",
+      entityId: taxRate.id,
+      after: this.pickTaxRateAudited(taxRate),
+      client: clientInfo,
+    });
+
+    return this.mapToTaxRate(taxRate);
+  }
+
+  /**
+   * Изменить ставку. Уже собранные счета хранят копию налога и не меняются
+   */
+  async updateTaxRate(
+    taxRateId: string,
+    userId: string,
+    dto: UpdateTaxRateDto,
+    clientInfo?: ClientInfo,
+  ): Promise<TaxRateResponseDto> {
+    const before = await this.findTaxRate(taxRateId);
+    await this.validateBillingAccess(before.organizationId, userId);
+
+    if (dto.name !== undefined) {
+      await this.validateTaxRateNameUnique(
+        dto.name,
+        before.organizationId,
+        taxRateId,
+      );
+    }
+
+    const taxRate = await this.prisma.$transaction(async (tx) => {
+      if (dto.isDefault) {
+        await tx.taxRate.updateMany({
+          where: {
+            organizationId: before.organizationId,
+            isDefault: true,
+            NOT: { id: taxRateId },
+          },
+          data: { isDefault: false },
+        });
+      }
+
+      return tx.taxRate.update({
+        where: { id: taxRateId },
+        data: {
+          name: dto.name,
+          percentage: dto.percentage,
+          inclusive: dto.inclusive,
+          isDefault: dto.isDefault,
+        },
+      });
+    });
+
+    await this.auditService.recordChange({
+      organizationId: before.organizationId,
+      actorId: userId,
+      action: AuditAction.TAX_RATE_UPDATED,
+      entityType: "TaxRate",
+      entityId: taxRateId,
+      before: this.pickTaxRateAudited(before),
+      after: this.pickTaxRateAudited(taxRate),
+      client: clientInfo,
+    });
+
+    return this.mapToTaxRate(taxRate);
+  }
+
+  async deleteTaxRate(
+    taxRateId: string,
+    userId: string,
+    clientInfo?: ClientInfo,
+  ): Promise<void> {
+    const taxRate = await this.findTaxRate(taxRateId);
+    await this.validateBillingAccess(taxRate.organizationId, userId);
+
+    // Счета со ставкой сохраняют копию налога, ссылка обнуляется (SET NULL)
+    await this.prisma.taxRate.delete({ where: { id: taxRateId } });
+
+    await this.auditService.record({
+      organizationId: taxRate.organizationId,
+      actorId: userId,
+      action: AuditAction.TAX_RATE_DELETED,
+      entityType: "TaxRate",
+      entityId: taxRateId,
+      before: this.pickTaxRateAudited(taxRate),
+      client: clientInfo,
+    });
+  }
+
+  // ==================== ПЛАНИРОВЩИК ====================
+
+  @Cron(CronExpression.EVERY_DAY_AT_1AM, { name: "invoice-overdue" })
+  async handleOverdueCron() {
+    // Предыдущий запуск еще не закончился
+    if (this.overdueRunning) return;
+
+    this.overdueRunning = true;
+    try {
+      await this.markOverdueInvoices(new Date());
+    } catch (error) {
+      this.logger.error(
+        `Failed to mark overdue invoices: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.overdueRunning = false;
+    }
+  }
+
+  /**
+   * Перевести выставленные счета с прошедшим сроком оплаты в OVERDUE
+   */
+  async markOverdueInvoices(now: Date): Promise<number> {
+    const { count } = await this.prisma.clientInvoice.updateMany({
+      where: { status: InvoiceStatus.SENT, dueDate: { lt: now } },
+      data: { status: InvoiceStatus.OVERDUE },
+    });
+
+    if (count > 0) {
+      this.logger.log(`${count} invoice(s) marked overdue`);
+    }
+
+    return count;
+  }
+
+  // ==================== ПРИВАТНЫЕ МЕТОДЫ ====================
+
+  private async findInvoice(invoiceId: string) {
+    const invoice = await this.prisma.clientInvoice.findUnique({
+      where: { id: invoiceId },
+      include: invoiceInclude,
+    });
+    if (!invoice) {
+      throw new EntityNotFoundException("Invoice", invoiceId);
+    }
+    return invoice;
+  }
+
+  /**
+   * Следующий номер последовательности; при ежегодном сбросе
+   * первый номер нового года — 1
+   */
+  private async allocateNumber(
+    tx: Prisma.TransactionClient,
+    organizationId: string,
+    timezone: string,
+    at: Date,
+  ): Promise<string> {
+    const year = this.getYear(at, timezone);
+
+    await tx.invoiceSequence.upsert({
+      where: { organizationId },
+      create: { organizationId, currentYear: year },
+      update: {},
+    });
+    await tx.invoiceSequence.updateMany({
+      where: {
+        organizationId,
+        yearlyReset: true,
+        OR: [{ currentYear: null }, { currentYear: { not: year } }],
+      },
+      data: { nextNumber: 1, currentYear: year },
+    });
+
+    // Инкремент блокирует строку до конца транзакции
+    const sequence = await tx.invoiceSequence.update({
+      where: { organizationId },
+      data: { nextNumber: { increment: 1 }, currentYear: year },
+    });
+
+    return formatInvoiceNumber(sequence, year, sequence.nextNumber - 1);
+  }
+
+  private async findTaxRate(taxRateId: string): Promise<TaxRate> {
+    const taxRate = await this.prisma.taxRate.findUnique({
+      where: { id: taxRateId },
+    });
+    if (!taxRate) {
+      throw new EntityNotFoundException("Tax rate", taxRateId);
+    }
+    return taxRate;
+  }
+
+  /**
+   * Ставка налога счета: указанная явно или ставка организации по умолчанию.
+   * Клиент, освобожденный от налога, ставки не получает
+   */
+  private async resolveTaxRate(
+    client: Client,
+    taxRateId?: string,
+  ): Promise<TaxRate | null> {
+    if (client.taxExempt) {
+      if (taxRateId) {
+        throw new ValidationException(`Client "${client.name}" is tax exempt`);
+      }
+      return null;
+    }
+
+    if (!taxRateId) {
+      return this.prisma.taxRate.findFirst({
+        where: { organizationId: client.organizationId, isDefault: true },
+      });
+    }
+
+    const taxRate = await this.prisma.taxRate.findFirst({
+      where: { id: taxRateId, organizationId: client.organizationId },
+    });
+    if (!taxRate) {
+      throw new EntityNotFoundException("Tax rate", taxRateId);
+    }
+    return taxRate;
+  }
+
+  private getTaxSnapshot(taxRate: TaxRate | null) {
+    return {
+      taxRateId: taxRate?.id ?? null,
+      taxName: taxRate?.name ?? null,
+      taxPercentage: taxRate?.percentage ?? null,
+      taxInclusive: taxRate?.inclusive ?? false,
+    };
+  }
+
+  private async validateTaxRateNameUnique(
+    name: string,
+    organizationId: string,
+    excludeId?: string,
+  ): Promise<void> {
+    const existing = await this.prisma.taxRate.findFirst({
+      where: {
+        organizationId,
+        name: { equals: name, mode: "insensitive" },
+        ...(excludeId && { NOT: { id: excludeId } }),
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new DuplicateEntityException("Tax rate", "name", name);
+    }
+  }
+
+  private async getOrgTimezone(organizationId: string): Promise<string> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { timezone: true },
+    });
+    return organization?.timezone ?? "UTC";
+  }
+
+  private getYear(date: Date, timezone: string): number {
+    return Number(toLocalDateKey(date, timezone).slice(0, 4));
+  }
+
+  private latestDate(payments: InvoicePayment[], extra?: Date): Date | null {
+    const dates = payments.map((p) => p.paidAt);
+    if (extra) dates.push(extra);
+    if (dates.length === 0) return null;
+    return new Date(Math.max(...dates.map((d) => d.getTime())));
+  }
+
+  private getDraftNumber(invoiceId: string): string {
+    return `DRAFT-${invoiceId.replace(/-/g, "").slice(0, 12).toUpperCase()}`;
+  }
+
+  /**
+   * Счета ведут владелец и администраторы организации
+   */
+  private async validateBillingAccess(
+    organizationId: string,
+    userId: string,
+  ): Promise<void> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { ownerId: true },
+    });
+    if (!organization) {
+      throw new EntityNotFoundException("Organization", organizationId);
+    }
+    if (organization.ownerId === userId) return;
+
+    const member = await this.prisma.organizationMember.findFirst({
+      where: { organizationId, userId, is_current: true },
+      select: { role: true, status: true },
+    });
+    if (
+      member?.status !== MemberStatus.ACTIVE ||
+      member.role !== MemberRole.ADMIN
+    ) {
+      throw new PermissionDeniedException(
+        "Only owner or admin can manage invoices",
+      );
+    }
+  }
+
+  private mapToResponse(invoice: InvoiceWithDetails): InvoiceResponseDto {
+    return {
+      id: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      organizationId: invoice.organizationId,
+      clientId: invoice.clientId,
+      client: invoice.client,
+      status: invoice.status,
+      currency: invoice.currency,
+      subtotal: invoice.subtotal,
+      discountPercent: invoice.discountPercent,
+      discountAmount: invoice.discountAmount,
+      taxRateId: invoice.taxRateId,
+      taxName: invoice.taxName,
+      taxPercentage: invoice.taxPercentage,
+      taxInclusive: invoice.taxInclusive,
+      taxAmount: invoice.taxAmount,
+      total: invoice.total,
+      amountPaid: invoice.amountPaid,
+      balanceDue:
+        invoice.status === InvoiceStatus.CANCELLED
+          ? 0
+          : getBalanceDue(invoice.total, invoice.amountPaid, invoice.currency),
+      issuedAt: invoice.issuedAt,
+      dueDate: invoice.dueDate,
+      paidAt: invoice.paidAt,
+      sentAt: invoice.sentAt,
+      cancelledAt: invoice.cancelledAt,
+      periodStart: invoice.periodStart,
+      periodEnd: invoice.periodEnd,
+      groupBy: invoice.groupBy,
+      notes: invoice.notes,
+      pdfUrl: invoice.pdfUrl,
+      lineItems: invoice.lineItems?.map((line) => ({
+        id: line.id,
+        position: line.position,
+        description: line.description,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        discountPercent: line.discountPercent,
+        amount: line.amount,
+        projectId: line.projectId,
+        taskId: line.taskId,
+        userId: line.userId,
+        timeEntryIds: (line.timeEntryIds as string[] | null) ?? [],
+      })),
+      payments: invoice.payments?.map((payment) => this.mapToPayment(payment)),
+      createdAt: invoice.createdAt,
+      updatedAt: invoice.updatedAt,
+    };
+  }
+
+  private mapToPayment(payment: InvoicePayment): InvoicePaymentDto {
+    return {
+      id: payment.id,
+      amount: payment.amount,
+      paidAt: payment.paidAt,
+      method: payment.method,
+      reference: payment.reference,
+      note: payment.note,
+      recordedById: payment.recordedById,
+      createdAt: payment.createdAt,
+    };
+  }
+
+  private pickTaxRateAudited(taxRate: TaxRate) {
+    return {
+      name: taxRate.name,
+      percentage: taxRate.percentage,
+      inclusive: taxRate.inclusive,
+      isDefault: taxRate.isDefault,
+    };
+  }
+
+  private mapToTaxRate(taxRate: TaxRate): TaxRateResponseDto {
+    return {
+      id: taxRate.id,
+      organizationId: taxRate.organizationId,
+      name: taxRate.name,
+      percentage: taxRate.percentage,
+      inclusive: taxRate.inclusive,
+      isDefault: taxRate.isDefault,
+      createdAt: taxRate.createdAt,
+      updatedAt: taxRate.updatedAt,
+    };
+  }
+
+  private mapToSequenceResponse(
+    sequence: InvoiceSequence,
+    timezone: string,
+  ): InvoiceSequenceResponseDto {
+    const year = this.getYear(new Date(), timezone);
+    const nextNumber =
+      sequence.yearlyReset && sequence.currentYear !== year
+        ? 1
+        : sequence.nextNumber;
+
+    return {
+      organizationId: sequence.organizationId,
+      prefix: sequence.prefix,
+      padding: sequence.padding,
+      yearlyReset: sequence.yearlyReset,
+      nextNumber,
+      preview: formatInvoiceNumber(sequence, year, nextNumber),
+    };
+  }
+}
@@ -3,7 +3,6 @@ import { ValidationPipe } from "@nestjs/common";
 import { AppModule } from "./app.module";
 import * as express from "express";
 import helmet from "helmet";
-import { join } from "path";
 // import { initSentry } from "./sentry/sentry.config";
 import { DocumentBuilder, SwaggerModule } from "@nestjs/swagger";
 import { BusinessExceptionFilter } from "./filters/business-exception.filter";
@@ -18,8 +17,6 @@ async function bootstrap() {
     bodyParser: false,
   });
 
-  app.use("/uploads", express.static(join(process.cwd(), "uploads")));
-
   app.use(
     helmet({
       contentSecurityPolicy: false,
@@ -0,0 +1,42 @@
+// ==================== MEMBER RATE DTOs ====================
+
+import { ApiProperty } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { IsDate, IsNotEmpty, IsNumber, Min } from "class-validator";
+
+export class ScheduleRateChangeDto {
+  @ApiProperty({ description: "New hourly rate", example: 35 })
+  @IsNumber({}, { message: "Hourly rate must be a number" })
+  @Min(0, { message: "Hourly rate cannot be negative" })
+  hourlyRate: number;
+
+  @ApiProperty({
+    description:
+      "Date and time the new rate takes effect (must be in the future)",
+    example: "2026-11-01T00:00:00.000Z",
+  })
+  @Type(() => Date)
+  @IsDate({ message: "Effective date must be a valid date" })
+  @IsNotEmpty({ message: "Effective date is required" })
+  effectiveFrom: Date;
+}
+
+export class MemberRateResponseDto {
+  @ApiProperty({ example: "123e4567-e89b-12d3-a456-426614174000" })
+  id: string;
+
+  @ApiProperty({ example: 30, nullable: true })
+  hourlyRate: number | null;
+
+  @ApiProperty({ example: "2026-01-01T00:00:00.000Z" })
+  validFrom: Date;
+
+  @ApiProperty({ example: null, nullable: true })
+  validTo: Date | null;
+
+  @ApiProperty({ description: "Rate of the current membership row" })
+  isCurrent: boolean;
+
+  @ApiProperty({ description: "Future rate change that is not applied yet" })
+  isScheduled: boolean;
+}
@@ -9,10 +9,16 @@ import {
   IsOptional,
   IsObject,
   IsNumber,
+  IsString,
+  Matches,
   Max,
   Min,
 } from "class-validator";
 
+// IBAN и BIC принимаются без пробелов, в верхнем регистре
+export const IBAN_PATTERN = /^[A-Z]{2}[0-9]{2}[A-Z0-9]{11,30}$/;
+export const BIC_PATTERN = /^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+
 export class AddOrganizationMemberDto {
   @ApiProperty({
     description: "User ID to add",
@@ -95,6 +101,26 @@ export class UpdateOrganizationMemberDto {
   @IsOptional()
   @IsObject({ message: "Settings must be an object" })
   settings?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description: "IBAN salary transfers are sent to",
+    example: "DE75512108001245126199",
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString({ message: "IBAN must be a string" })
+  @Matches(IBAN_PATTERN, { message: "IBAN is not valid" })
+  payoutIban?: string | null;
+
+  @ApiPropertyOptional({
+    description: "BIC of the payout account",
+    example: "SOGEDEFFXXX",
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString({ message: "BIC must be a string" })
+  @Matches(BIC_PATTERN, { message: "BIC is not valid" })
+  payoutBic?: string | null;
 }
 
 export class OrganizationMemberResponseDto {
@@ -171,6 +197,20 @@ export class OrganizationMemberResponseDto {
   };
 }
 
+export class MemberBankDetailsResponseDto {
+  @ApiProperty({ example: "123e4567-e89b-12d3-a456-426614174000" })
+  memberId: string;
+
+  @ApiProperty({ example: "123e4567-e89b-12d3-a456-426614174000" })
+  userId: string;
+
+  @ApiPropertyOptional({ example: "DE75512108001245126199", nullable: true })
+  payoutIban: string | null;
+
+  @ApiPropertyOptional({ example: "SOGEDEFFXXX", nullable: true })
+  payoutBic: string | null;
+}
+
 export class MemberFilterDto {
   @ApiPropertyOptional({ enum: MemberRole, example: MemberRole.ADMIN })
   @IsOptional()
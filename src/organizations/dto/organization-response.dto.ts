@@ -1,5 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
-import { TeamSize } from "@prisma/client";
+import { IdlePolicy, OverlapPolicy, TeamSize } from "@prisma/client";
 
 export class OrganizationGoalItemDto {
   @ApiProperty()
@@ -34,6 +34,54 @@ export class OrganizationResponseDto {
   @ApiProperty({ example: "USD" })
   currency: string;
 
+  @ApiPropertyOptional({ nullable: true })
+  billingAddress: string | null;
+
+  @ApiProperty({ enum: OverlapPolicy, example: OverlapPolicy.REJECT })
+  overlapPolicy: OverlapPolicy;
+
+  @ApiProperty({ enum: IdlePolicy, example: IdlePolicy.KEEP })
+  idlePolicy: IdlePolicy;
+
+  @ApiProperty({ example: 5 })
+  idleThresholdMinutes: number;
+
+  @ApiProperty({ example: false })
+  blurScreenshots: boolean;
+
+  @ApiPropertyOptional({ example: 90, nullable: true })
+  screenshotRetentionDays: number | null;
+
+  @ApiPropertyOptional({ example: 40, nullable: true })
+  overtimeWeeklyThreshold: number | null;
+
+  @ApiPropertyOptional({ example: 8, nullable: true })
+  overtimeDailyThreshold: number | null;
+
+  @ApiProperty({ example: 1.5 })
+  overtimeMultiplier: number;
+
+  @ApiPropertyOptional({ example: 12, nullable: true })
+  doubleTimeDailyThreshold: number | null;
+
+  @ApiProperty({ example: 2 })
+  doubleTimeMultiplier: number;
+
+  @ApiProperty({ example: 1 })
+  weekendMultiplier: number;
+
+  @ApiProperty({ example: 1 })
+  holidayMultiplier: number;
+
+  @ApiPropertyOptional({ example: "DE89370400440532013000", nullable: true })
+  payrollIban: string | null;
+
+  @ApiPropertyOptional({ example: "COBADEFFXXX", nullable: true })
+  payrollBic: string | null;
+
+  @ApiProperty({ example: false })
+  payrollSecondApproval: boolean;
+
   @ApiProperty({ example: "2024-01-01T00:00:00.000Z" })
   createdAt: Date;
 
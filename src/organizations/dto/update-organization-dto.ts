@@ -1,11 +1,20 @@
 import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IdlePolicy, OverlapPolicy } from "@prisma/client";
 import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
   IsObject,
   IsOptional,
   IsString,
+  Matches,
+  Max,
   MaxLength,
+  Min,
   MinLength,
 } from "class-validator";
+import { BIC_PATTERN, IBAN_PATTERN } from "./organization-member.dto";
 
 export class UpdateOrganizationDto {
   @ApiPropertyOptional({
@@ -37,4 +46,158 @@ export class UpdateOrganizationDto {
   @MinLength(3, { message: "Currency code must be 3 characters" })
   @MaxLength(3, { message: "Currency code must be 3 characters" })
   currency?: string;
+
+  @ApiPropertyOptional({
+    description: "Address printed on client invoices",
+    example: "1 Main St, 10115 Berlin, Germany",
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString({ message: "Billing address must be a string" })
+  @MaxLength(500, { message: "Billing address cannot exceed 500 characters" })
+  billingAddress?: string | null;
+
+  @ApiPropertyOptional({
+    description: "How overlapping time entries are handled",
+    enum: OverlapPolicy,
+  })
+  @IsOptional()
+  @IsEnum(OverlapPolicy, { message: "Invalid overlap policy" })
+  overlapPolicy?: OverlapPolicy;
+
+  @ApiPropertyOptional({
+    description: "What happens to idle time above the threshold",
+    enum: IdlePolicy,
+  })
+  @IsOptional()
+  @IsEnum(IdlePolicy, { message: "Invalid idle policy" })
+  idlePolicy?: IdlePolicy;
+
+  @ApiPropertyOptional({
+    description: "Inactivity in minutes before time counts as idle",
+    example: 5,
+  })
+  @IsOptional()
+  @IsInt({ message: "Idle threshold must be an integer" })
+  @Min(1, { message: "Idle threshold must be at least 1 minute" })
+  @Max(120, { message: "Idle threshold cannot exceed 120 minutes" })
+  idleThresholdMinutes?: number;
+
+  @ApiPropertyOptional({
+    description: "Blur all screenshots on the server (privacy mode)",
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: "blurScreenshots must be a boolean" })
+  blurScreenshots?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      "Days to keep screenshots before they are purged; null keeps them forever",
+    example: 90,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt({ message: "Retention period must be an integer" })
+  @Min(1, { message: "Retention period must be at least 1 day" })
+  @Max(3650, { message: "Retention period cannot exceed 3650 days" })
+  screenshotRetentionDays?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      "Weekly hours after which overtime starts; null disables the weekly rule",
+    example: 40,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: "Weekly overtime threshold must be a number" })
+  @Min(0, { message: "Weekly overtime threshold cannot be negative" })
+  @Max(168, { message: "Weekly overtime threshold cannot exceed 168 hours" })
+  overtimeWeeklyThreshold?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      "Daily hours after which overtime starts; null disables the daily rule",
+    example: 8,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: "Daily overtime threshold must be a number" })
+  @Min(0, { message: "Daily overtime threshold cannot be negative" })
+  @Max(24, { message: "Daily overtime threshold cannot exceed 24 hours" })
+  overtimeDailyThreshold?: number | null;
+
+  @ApiPropertyOptional({ description: "Overtime pay multiplier", example: 1.5 })
+  @IsOptional()
+  @IsNumber({}, { message: "Overtime multiplier must be a number" })
+  @Min(1, { message: "Overtime multiplier must be at least 1" })
+  overtimeMultiplier?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Daily hours after which double time starts; null disables double time",
+    example: 12,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: "Double time threshold must be a number" })
+  @Min(0, { message: "Double time threshold cannot be negative" })
+  @Max(24, { message: "Double time threshold cannot exceed 24 hours" })
+  doubleTimeDailyThreshold?: number | null;
+
+  @ApiPropertyOptional({
+    description: "Double time pay multiplier",
+    example: 2,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: "Double time multiplier must be a number" })
+  @Min(1, { message: "Double time multiplier must be at least 1" })
+  doubleTimeMultiplier?: number;
+
+  @ApiPropertyOptional({
+    description: "Pay multiplier for hours worked on Saturday and Sunday",
+    example: 1.5,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: "Weekend multiplier must be a number" })
+  @Min(1, { message: "Weekend multiplier must be at least 1" })
+  weekendMultiplier?: number;
+
+  @ApiPropertyOptional({
+    description: "Pay multiplier for hours worked on organization holidays",
+    example: 2,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: "Holiday multiplier must be a number" })
+  @Min(1, { message: "Holiday multiplier must be at least 1" })
+  holidayMultiplier?: number;
+
+  @ApiPropertyOptional({
+    description: "IBAN the payroll bank batch is paid from",
+    example: "DE89370400440532013000",
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString({ message: "IBAN must be a string" })
+  @Matches(IBAN_PATTERN, { message: "IBAN is not valid" })
+  payrollIban?: string | null;
+
+  @ApiPropertyOptional({
+    description: "BIC of the payroll account",
+    example: "COBADEFFXXX",
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString({ message: "BIC must be a string" })
+  @Matches(BIC_PATTERN, { message: "BIC is not valid" })
+  payrollBic?: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      "Require a second, different approver before a payroll run is final",
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: "payrollSecondApproval must be a boolean" })
+  payrollSecondApproval?: boolean;
 }
@@ -0,0 +1,195 @@
+import { Logger } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { MemberRole, MemberStatus, OrganizationMember } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { MemberRatesService } from "./member-rates.service";
+
+describe("MemberRatesService", () => {
+  let service: MemberRatesService;
+
+  const mockTx = {
+    organizationMember: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+
+  const mockPrismaService = {
+    organizationMember: {
+      findMany: jest.fn(),
+    },
+    $transaction: jest.fn((fn: (tx: typeof mockTx) => Promise<unknown>) =>
+      fn(mockTx),
+    ),
+  };
+
+  const member = (overrides: Partial<OrganizationMember> = {}) =>
+    ({
+      id: "member-1",
+      role: MemberRole.USER,
+      status: MemberStatus.ACTIVE,
+      hourlyRate: 50,
+      weeklyLimit: null,
+      joinedAt: null,
+      invitedAt: null,
+      settings: null,
+      payoutIban: null,
+      payoutBic: null,
+      organizationId: "org-1",
+      userId: "user-1",
+      invitedById: "owner-1",
+      valid_from: new Date("2026-01-01T00:00:00Z"),
+      valid_to: null,
+      is_current: true,
+      createdAt: new Date("2026-01-01T00:00:00Z"),
+      ...overrides,
+    }) as OrganizationMember;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MemberRatesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<MemberRatesService>(MemberRatesService);
+
+    jest.clearAllMocks();
+  });
+
+  describe("getRateLookup", () => {
+    it("returns the rate in effect at the entry date", async () => {
+      mockPrismaService.organizationMember.findMany.mockResolvedValueOnce([
+        {
+          userId: "user-1",
+          hourlyRate: 50,
+          valid_from: new Date("2026-01-01T00:00:00Z"),
+        },
+        {
+          userId: "user-1",
+          hourlyRate: 60,
+          valid_from: new Date("2026-06-01T00:00:00Z"),
+        },
+        {
+          userId: "user-2",
+          hourlyRate: null,
+          valid_from: new Date("2026-01-01T00:00:00Z"),
+        },
+      ]);
+
+      const rateAt = await service.getRateLookup("org-1", ["user-1", "user-2"]);
+
+      // Запись раньше первой версии берет самую раннюю ставку
+      expect(rateAt("user-1", new Date("2025-12-01T00:00:00Z"))).toBe(50);
+      expect(rateAt("user-1", new Date("2026-05-31T23:59:59Z"))).toBe(50);
+      expect(rateAt("user-1", new Date("2026-06-01T00:00:00Z"))).toBe(60);
+      expect(rateAt("user-1", new Date("2026-10-01T00:00:00Z"))).toBe(60);
+      expect(rateAt("user-2", new Date("2026-10-01T00:00:00Z"))).toBe(0);
+      expect(rateAt("unknown", new Date("2026-10-01T00:00:00Z"))).toBe(0);
+    });
+  });
+
+  describe("changeRate", () => {
+    it("closes the previous rate in an inactive history row", async () => {
+      const current = member();
+      const effectiveFrom = new Date("2026-07-01T00:00:00Z");
+      mockTx.organizationMember.update.mockResolvedValueOnce(
+        member({ hourlyRate: 70, valid_from: effectiveFrom }),
+      );
+
+      const updated = await service.changeRate(
+        mockTx as never,
+        current,
+        70,
+        effectiveFrom,
+      );
+
+      expect(mockTx.organizationMember.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: "user-1",
+          hourlyRate: 50,
+          valid_from: current.valid_from,
+          valid_to: effectiveFrom,
+          is_current: false,
+          status: MemberStatus.INACTIVE,
+        }),
+      });
+      expect(mockTx.organizationMember.update).toHaveBeenCalledWith({
+        where: { id: "member-1" },
+        data: { hourlyRate: 70, valid_from: effectiveFrom },
+      });
+      expect(updated.hourlyRate).toBe(70);
+    });
+  });
+
+  describe("applyScheduledRates", () => {
+    const now = new Date("2026-07-01T12:00:00Z");
+
+    it("applies due rates to current members and drops the scheduled rows", async () => {
+      const scheduled = member({
+        id: "scheduled-1",
+        hourlyRate: 80,
+        valid_from: new Date("2026-07-01T00:00:00Z"),
+        is_current: false,
+        status: MemberStatus.INACTIVE,
+      });
+      mockPrismaService.organizationMember.findMany.mockResolvedValueOnce([
+        scheduled,
+      ]);
+      mockTx.organizationMember.findFirst.mockResolvedValueOnce(member());
+
+      const applied = await service.applyScheduledRates(now);
+
+      expect(applied).toBe(1);
+      expect(
+        mockPrismaService.organizationMember.findMany,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            is_current: false,
+            valid_to: null,
+            valid_from: { lte: now },
+          },
+        }),
+      );
+      expect(mockTx.organizationMember.update).toHaveBeenCalledWith({
+        where: { id: "member-1" },
+        data: { hourlyRate: 80, valid_from: scheduled.valid_from },
+      });
+      expect(mockTx.organizationMember.delete).toHaveBeenCalledWith({
+        where: { id: "scheduled-1" },
+      });
+    });
+
+    it("discards the rate of a removed member", async () => {
+      mockPrismaService.organizationMember.findMany.mockResolvedValueOnce([
+        member({ id: "scheduled-1", is_current: false }),
+      ]);
+      mockTx.organizationMember.findFirst.mockResolvedValueOnce(null);
+
+      const applied = await service.applyScheduledRates(now);
+
+      expect(applied).toBe(0);
+      expect(mockTx.organizationMember.update).not.toHaveBeenCalled();
+      expect(mockTx.organizationMember.delete).toHaveBeenCalledWith({
+        where: { id: "scheduled-1" },
+      });
+    });
+
+    it("logs cron failures instead of throwing", async () => {
+      const logError = jest
+        .spyOn(Logger.prototype, "error")
+        .mockImplementation(() => undefined);
+      mockPrismaService.organizationMember.findMany.mockRejectedValueOnce(
+        new Error("database is down"),
+      );
+
+      await expect(service.handleScheduledRatesCron()).resolves.toBeUndefined();
+      expect(logError).toHaveBeenCalled();
+      logError.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,231 @@
+// organizations/member-rates.service.ts
+import { Injectable, Logger } from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { MemberStatus, OrganizationMember, Prisma } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+
+/**
+ * Ставка участника на момент времени: (userId, дата) -> ставка в час
+ */
+export type MemberRateLookup = (userId: string, at: Date) => number;
+
+/**
+ * История ставок участников (SCD Type 2 по OrganizationMember).
+ *
+ * Текущая строка (is_current = true) сохраняет свой id, а прежняя ставка
+ * копируется в закрытую строку с valid_to. Запланированная ставка — строка
+ * с is_current = false и пустым valid_to, пока она не применена.
+ * Строки истории и плана неактивны (INACTIVE), поэтому проверки доступа
+ * по status = ACTIVE их не находят даже без условия is_current.
+ */
+@Injectable()
+export class MemberRatesService {
+  private readonly logger = new Logger(MemberRatesService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Сменить ставку текущей строки участника с указанной даты
+   */
+  async changeRate(
+    tx: Prisma.TransactionClient,
+    member: OrganizationMember,
+    hourlyRate: number,
+    effectiveFrom: Date,
+  ): Promise<OrganizationMember> {
+    await tx.organizationMember.create({
+      data: {
+        ...this.copyMemberFields(member),
+        hourlyRate: member.hourlyRate,
+        valid_from: member.valid_from,
+        valid_to: effectiveFrom,
+        is_current: false,
+      },
+    });
+
+    return tx.organizationMember.update({
+      where: { id: member.id },
+      data: { hourlyRate, valid_from: effectiveFrom },
+    });
+  }
+
+  /**
+   * Запланировать ставку на будущее; повторный вызов на ту же дату заменяет ставку
+   */
+  async scheduleRateChange(
+    member: OrganizationMember,
+    hourlyRate: number,
+    effectiveFrom: Date,
+  ): Promise<OrganizationMember> {
+    const existing = await this.prisma.organizationMember.findFirst({
+      where: {
+        ...this.scheduledWhere(member.organizationId, member.userId),
+        valid_from: effectiveFrom,
+      },
+    });
+
+    if (existing) {
+      return this.prisma.organizationMember.update({
+        where: { id: existing.id },
+        data: { hourlyRate },
+      });
+    }
+
+    return this.prisma.organizationMember.create({
+      data: {
+        ...this.copyMemberFields(member),
+        hourlyRate,
+        valid_from: effectiveFrom,
+        valid_to: null,
+        is_current: false,
+      },
+    });
+  }
+
+  async getRateHistory(
+    organizationId: string,
+    userId: string,
+  ): Promise<OrganizationMember[]> {
+    return this.prisma.organizationMember.findMany({
+      where: { organizationId, userId },
+      orderBy: { valid_from: "desc" },
+    });
+  }
+
+  async findScheduledRate(
+    organizationId: string,
+    userId: string,
+    rateId: string,
+  ): Promise<OrganizationMember | null> {
+    return this.prisma.organizationMember.findFirst({
+      where: { id: rateId, ...this.scheduledWhere(organizationId, userId) },
+    });
+  }
+
+  async cancelScheduledRates(organizationId: string, userId: string) {
+    await this.prisma.organizationMember.deleteMany({
+      where: this.scheduledWhere(organizationId, userId),
+    });
+  }
+
+  isScheduled(row: OrganizationMember): boolean {
+    return !row.is_current && row.valid_to === null;
+  }
+
+  /**
+   * Ставки участников для расчета по датам записей.
+   * Действует версия с наибольшим valid_from <= даты; для записей раньше
+   * первой версии берется самая ранняя ставка.
+   */
+  async getRateLookup(
+    organizationId: string,
+    userIds: string[],
+  ): Promise<MemberRateLookup> {
+    const rows = await this.prisma.organizationMember.findMany({
+      where: { organizationId, userId: { in: userIds } },
+      select: { userId: true, hourlyRate: true, valid_from: true },
+      orderBy: { valid_from: "asc" },
+    });
+
+    const byUser = new Map<string, typeof rows>();
+    for (const row of rows) {
+      const versions = byUser.get(row.userId) ?? [];
+      versions.push(row);
+      byUser.set(row.userId, versions);
+    }
+
+    return (userId: string, at: Date) => {
+      const versions = byUser.get(userId);
+      if (!versions?.length) return 0;
+
+      let rate = versions[0].hourlyRate;
+      for (const version of versions) {
+        if (version.valid_from > at) break;
+        rate = version.hourlyRate;
+      }
+      return rate ?? 0;
+    };
+  }
+
+  // ==================== ПРИМЕНЕНИЕ ЗАПЛАНИРОВАННЫХ СТАВОК ====================
+
+  @Cron(CronExpression.EVERY_HOUR, { name: "member-rates" })
+  async handleScheduledRatesCron() {
+    try {
+      await this.applyScheduledRates();
+    } catch (error) {
+      this.logger.error(
+        `Failed to apply scheduled rates: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Переносит наступившие ставки в текущие строки участников
+   */
+  async applyScheduledRates(now: Date = new Date()): Promise<number> {
+    const due = await this.prisma.organizationMember.findMany({
+      where: { is_current: false, valid_to: null, valid_from: { lte: now } },
+      orderBy: { valid_from: "asc" },
+    });
+
+    let applied = 0;
+    for (const scheduled of due) {
+      await this.prisma.$transaction(async (tx) => {
+        const current = await tx.organizationMember.findFirst({
+          where: {
+            organizationId: scheduled.organizationId,
+            userId: scheduled.userId,
+            is_current: true,
+          },
+        });
+
+        // Участник удален — ставка больше не нужна
+        if (current) {
+          await this.changeRate(
+            tx,
+            current,
+            scheduled.hourlyRate ?? 0,
+            scheduled.valid_from,
+          );
+          applied++;
+        }
+
+        await tx.organizationMember.delete({ where: { id: scheduled.id } });
+      });
+    }
+
+    if (applied > 0) {
+      this.logger.log(`Applied ${applied} scheduled rate change(s)`);
+    }
+
+    return applied;
+  }
+
+  // ==================== ПРИВАТНЫЕ МЕТОДЫ ====================
+
+  private scheduledWhere(
+    organizationId: string,
+    userId: string,
+  ): Prisma.OrganizationMemberWhereInput {
+    return { organizationId, userId, is_current: false, valid_to: null };
+  }
+
+  private copyMemberFields(member: OrganizationMember) {
+    return {
+      organizationId: member.organizationId,
+      userId: member.userId,
+      invitedById: member.invitedById,
+      role: member.role,
+      // Строка истории не дает доступа к организации
+      status: MemberStatus.INACTIVE,
+      weeklyLimit: member.weeklyLimit,
+      payoutIban: member.payoutIban,
+      payoutBic: member.payoutBic,
+      joinedAt: member.joinedAt,
+      invitedAt: member.invitedAt,
+      settings: (member.settings ?? {}) as Prisma.InputJsonValue,
+    };
+  }
+}
@@ -27,6 +27,14 @@ import {
 import { UpdateOrganizationDto } from "./dto/update-organization-dto";
 import { OrganizationResponseDto } from "./dto/organization-response.dto";
 import { GetUser } from "@/auth/decorators/get-user.decorator";
+import {
+  ClientInfo,
+  GetClientInfo,
+} from "@/audit/decorators/client-info.decorator";
+import {
+  AuditLogFilterDto,
+  AuditLogResponseDto,
+} from "@/audit/dto/audit-log.dto";
 import { MemberRole, MemberStatus } from "@prisma/client";
 import {
   HolidayResponseDto,
@@ -36,10 +44,15 @@ import {
 } from "./dto/holiday.dto";
 import {
   AddOrganizationMemberDto,
+  MemberBankDetailsResponseDto,
   MemberFilterDto,
   OrganizationMemberResponseDto,
   UpdateOrganizationMemberDto,
 } from "./dto/organization-member.dto";
+import {
+  MemberRateResponseDto,
+  ScheduleRateChangeDto,
+} from "./dto/member-rate.dto";
 import {
   AddOrganizationGoalsDto,
 } from "./dto/organization-goals.dto";
@@ -162,11 +175,13 @@ export class OrganizationsController {
     @Param("id", ParseUUIDPipe) organizationId: string,
     @Body() dto: UpdateOrganizationDto,
     @GetUser("id") currentUserId: string,
+    @GetClientInfo() client: ClientInfo,
   ): Promise<OrganizationResponseDto> {
     return this.organizationService.updateOrganization(
       organizationId,
       dto,
       currentUserId,
+      client,
     );
   }
 
@@ -237,11 +252,13 @@ export class OrganizationsController {
     @Param("id", ParseUUIDPipe) organizationId: string,
     @Body() addMemberDto: AddOrganizationMemberDto,
     @GetUser("id") currentUserId: string,
+    @GetClientInfo() client: ClientInfo,
   ): Promise<OrganizationMemberResponseDto> {
     return this.organizationService.addMember(
       organizationId,
       addMemberDto,
       currentUserId,
+      client,
     );
   }
 
@@ -455,12 +472,14 @@ export class OrganizationsController {
     @Param("memberId", ParseUUIDPipe) memberId: string,
     @Body() updateMemberDto: UpdateOrganizationMemberDto,
     @GetUser("id") currentUserId: string,
+    @GetClientInfo() client: ClientInfo,
   ): Promise<OrganizationMemberResponseDto> {
     return this.organizationService.updateMember(
       organizationId,
       memberId,
       updateMemberDto,
       currentUserId,
+      client,
     );
   }
 
@@ -499,11 +518,185 @@ export class OrganizationsController {
     @Param("id", ParseUUIDPipe) organizationId: string,
     @Param("memberId", ParseUUIDPipe) memberId: string,
     @GetUser("id") currentUserId: string,
+    @GetClientInfo() client: ClientInfo,
   ): Promise<void> {
     await this.organizationService.removeMember(
       organizationId,
       memberId,
       currentUserId,
+      client,
+    );
+  }
+
+  @Get(":id/members/:memberId/bank-details")
+  @ApiOperation({
+    summary: "Get member payout bank details",
+    description:
+      "Available to the organization owner, admins and the member themselves",
+  })
+  @ApiParam({
+    name: "id",
+    description: "Organization ID",
+    type: "string",
+    format: "uuid",
+  })
+  @ApiParam({
+    name: "memberId",
+    description: "Member ID",
+    type: "string",
+    format: "uuid",
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Bank details retrieved successfully",
+    type: MemberBankDetailsResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Member not found",
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: "Permission denied",
+  })
+  async getMemberBankDetails(
+    @Param("id", ParseUUIDPipe) organizationId: string,
+    @Param("memberId", ParseUUIDPipe) memberId: string,
+    @GetUser("id") currentUserId: string,
+  ): Promise<MemberBankDetailsResponseDto> {
+    return this.organizationService.getMemberBankDetails(
+      organizationId,
+      memberId,
+      currentUserId,
+    );
+  }
+
+  // ==================== MEMBER RATE ENDPOINTS ====================
+
+  @Get(":id/members/:memberId/rates")
+  @ApiOperation({ summary: "Get member hourly rate history" })
+  @ApiParam({
+    name: "id",
+    description: "Organization ID",
+    type: "string",
+    format: "uuid",
+  })
+  @ApiParam({
+    name: "memberId",
+    description: "Member ID",
+    type: "string",
+    format: "uuid",
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Rate history, newest first, including scheduled rates",
+    type: [MemberRateResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Member not found",
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: "Permission denied",
+  })
+  async getMemberRates(
+    @Param("id", ParseUUIDPipe) organizationId: string,
+    @Param("memberId", ParseUUIDPipe) memberId: string,
+    @GetUser("id") currentUserId: string,
+  ): Promise<MemberRateResponseDto[]> {
+    return this.organizationService.getMemberRates(
+      organizationId,
+      memberId,
+      currentUserId,
+    );
+  }
+
+  @Post(":id/members/:memberId/rates")
+  @ApiOperation({ summary: "Schedule a future hourly rate change" })
+  @ApiParam({
+    name: "id",
+    description: "Organization ID",
+    type: "string",
+    format: "uuid",
+  })
+  @ApiParam({
+    name: "memberId",
+    description: "Member ID",
+    type: "string",
+    format: "uuid",
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: "Rate change scheduled",
+    type: MemberRateResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: "Effective date is not in the future",
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: "Permission denied",
+  })
+  async scheduleMemberRate(
+    @Param("id", ParseUUIDPipe) organizationId: string,
+    @Param("memberId", ParseUUIDPipe) memberId: string,
+    @Body() dto: ScheduleRateChangeDto,
+    @GetUser("id") currentUserId: string,
+    @GetClientInfo() client: ClientInfo,
+  ): Promise<MemberRateResponseDto> {
+    return this.organizationService.scheduleMemberRate(
+      organizationId,
+      memberId,
+      dto,
+      currentUserId,
+      client,
+    );
+  }
+
+  @Delete(":id/members/:memberId/rates/:rateId")
+  @ApiOperation({ summary: "Cancel a scheduled hourly rate change" })
+  @ApiParam({
+    name: "id",
+    description: "Organization ID",
+    type: "string",
+    format: "uuid",
+  })
+  @ApiParam({
+    name: "memberId",
+    description: "Member ID",
+    type: "string",
+    format: "uuid",
+  })
+  @ApiParam({
+    name: "rateId",
+    description: "Scheduled rate ID",
+    type: "string",
+    format: "uuid",
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: "Scheduled rate cancelled",
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Scheduled rate not found",
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async cancelScheduledMemberRate(
+    @Param("id", ParseUUIDPipe) organizationId: string,
+    @Param("memberId", ParseUUIDPipe) memberId: string,
+    @Param("rateId", ParseUUIDPipe) rateId: string,
+    @GetUser("id") currentUserId: string,
+    @GetClientInfo() client: ClientInfo,
+  ): Promise<void> {
+    await this.organizationService.cancelScheduledMemberRate(
+      organizationId,
+      memberId,
+      rateId,
+      currentUserId,
+      client,
     );
   }
 
@@ -671,6 +864,37 @@ export class OrganizationsController {
     );
   }
 
+  // ==================== AUDIT LOG ENDPOINTS ====================
+
+  @Get(":id/audit-log")
+  @ApiOperation({ summary: "Get the organization audit log" })
+  @ApiParam({
+    name: "id",
+    description: "Organization ID",
+    type: "string",
+    format: "uuid",
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Audit events, newest first",
+    type: AuditLogResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: "Only owner and admins can view the audit log",
+  })
+  async getAuditLog(
+    @Param("id", ParseUUIDPipe) organizationId: string,
+    @Query() filter: AuditLogFilterDto,
+    @GetUser("id") currentUserId: string,
+  ): Promise<AuditLogResponseDto> {
+    return this.organizationService.getAuditLog(
+      organizationId,
+      filter,
+      currentUserId,
+    );
+  }
+
   // ==================== UTILITY ENDPOINTS ====================
 
   @Get(":id/stats")
@@ -1,10 +1,11 @@
 import { Module } from "@nestjs/common";
 import { OrganizationService } from "./organizations.service";
 import { OrganizationsController } from "./organizations.controller";
+import { MemberRatesService } from "./member-rates.service";
 
 @Module({
-  providers: [OrganizationService],
+  providers: [OrganizationService, MemberRatesService],
   controllers: [OrganizationsController],
-  exports: [OrganizationService],
+  exports: [OrganizationService, MemberRatesService],
 })
 export class OrganizationsModule {}
@@ -1,7 +1,12 @@
 // services/organization.service.ts
 import { Injectable, Logger } from "@nestjs/common";
 import { PrismaService } from "@/prisma/prisma.service";
-import { MemberRole, MemberStatus, Prisma } from "@prisma/client";
+import {
+  MemberRole,
+  MemberStatus,
+  OrganizationMember,
+  Prisma,
+} from "@prisma/client";
 import { randomBytes } from "crypto";
 
 import { CreateOrganizationDto } from "./dto/create-organization-dto";
@@ -11,8 +16,13 @@ import {
   OrganizationMemberResponseDto,
   UpdateOrganizationMemberDto,
   AddOrganizationMemberDto,
+  MemberBankDetailsResponseDto,
 } from "./dto/organization-member.dto";
 import { AddOrganizationGoalsDto } from "./dto/organization-goals.dto";
+import {
+  MemberRateResponseDto,
+  ScheduleRateChangeDto,
+} from "./dto/member-rate.dto";
 import {
   HolidayResponseDto,
   CreateHolidayDto,
@@ -23,7 +33,17 @@ import {
   PermissionDeniedException,
   DuplicateEntityException,
   InvalidOperationException,
+  ValidationException,
 } from "@/exceptions/business.exception";
+import { MemberRatesService } from "./member-rates.service";
+import { AuditService } from "@/audit/audit.service";
+import { AuditAction } from "@/audit/audit-actions";
+import { diffValues, splitDiff } from "@/audit/audit-diff";
+import { ClientInfo } from "@/audit/decorators/client-info.decorator";
+import {
+  AuditLogFilterDto,
+  AuditLogResponseDto,
+} from "@/audit/dto/audit-log.dto";
 
 @Injectable()
 export class OrganizationService {
@@ -52,6 +72,8 @@ export class OrganizationService {
 
   constructor(
     private readonly prisma: PrismaService,
+    private readonly memberRatesService: MemberRatesService,
+    private readonly auditService: AuditService,
     // Здесь можно добавить логгер, кэш, события и т.д.
   ) {}
 
@@ -99,12 +121,11 @@ export class OrganizationService {
     userId: string,
     requiredRoles: MemberRole[] = [],
   ) {
-    const member = await this.prisma.organizationMember.findUnique({
+    const member = await this.prisma.organizationMember.findFirst({
       where: {
-        organizationId_userId: {
-          organizationId,
-          userId,
-        },
+        organizationId,
+        userId,
+        is_current: true,
       },
     });
 
@@ -166,6 +187,22 @@ export class OrganizationService {
     }
   }
 
+  /**
+   * Находит текущую строку участника по id
+   * @throws EntityNotFoundException если участник не найден или удален
+   */
+  private async findCurrentMember(organizationId: string, memberId: string) {
+    const member = await this.prisma.organizationMember.findFirst({
+      where: { id: memberId, organizationId, is_current: true },
+    });
+
+    if (!member) {
+      throw new EntityNotFoundException("Member", memberId);
+    }
+
+    return member;
+  }
+
   /**
    * Проверяет, что пользователь еще не является членом организации
    */
@@ -173,12 +210,11 @@ export class OrganizationService {
     organizationId: string,
     userId: string,
   ): Promise<void> {
-    const existing = await this.prisma.organizationMember.findUnique({
+    const existing = await this.prisma.organizationMember.findFirst({
       where: {
-        organizationId_userId: {
-          organizationId,
-          userId,
-        },
+        organizationId,
+        userId,
+        is_current: true,
       },
     });
 
@@ -415,6 +451,7 @@ export class OrganizationService {
           where: { id: org.id },
           include: {
             members: {
+              where: { is_current: true },
               include: this.memberInclude,
             },
             goals: true,
@@ -422,7 +459,7 @@ export class OrganizationService {
               select: {
                 projects: true,
                 clients: true,
-                members: true,
+                members: { where: { is_current: true } },
               },
             },
           },
@@ -459,12 +496,13 @@ export class OrganizationService {
           some: {
             userId,
             status: MemberStatus.ACTIVE,
+            is_current: true,
           },
         },
       },
       include: {
         members: {
-          where: { status: MemberStatus.ACTIVE },
+          where: { status: MemberStatus.ACTIVE, is_current: true },
           include: this.memberInclude,
           take: 5, // Ограничиваем количество возвращаемых участников
         },
@@ -476,7 +514,7 @@ export class OrganizationService {
             projects: true,
             clients: true,
             members: {
-              where: { status: MemberStatus.ACTIVE },
+              where: { status: MemberStatus.ACTIVE, is_current: true },
             },
           },
         },
@@ -511,7 +549,7 @@ export class OrganizationService {
     organizationId: string,
   ): Promise<boolean> {
     return !!(await this.prisma.organizationMember.findFirst({
-      where: { userId, organizationId },
+      where: { userId, organizationId, is_current: true },
     }));
   }
 
@@ -534,6 +572,7 @@ export class OrganizationService {
       where: { id: organizationId },
       include: {
         members: {
+          where: { is_current: true },
           include: this.memberInclude,
           orderBy: [{ role: "asc" }, { user: { firstName: "asc" } }],
         },
@@ -567,7 +606,7 @@ export class OrganizationService {
           select: {
             projects: true,
             clients: true,
-            members: true,
+            members: { where: { is_current: true } },
             invites: true,
           },
         },
@@ -588,13 +627,14 @@ export class OrganizationService {
     organizationId: string,
     dto: UpdateOrganizationDto,
     userId: string,
+    client?: ClientInfo,
   ): Promise<OrganizationResponseDto> {
     this.logger.log(
       `Updating organization ${organizationId} by user ${userId}`,
     );
 
     // 1. Проверяем, что организация существует
-    await this.validateOrganizationExists(organizationId);
+    const existing = await this.validateOrganizationExists(organizationId);
 
     // 2. Проверяем права (только OWNER или ADMIN)
     const member = await this.validateMemberAccess(organizationId, userId, [
@@ -608,16 +648,34 @@ export class OrganizationService {
     }
 
     // 4. Обновляем организацию
+    const data = {
+      name: dto.name,
+      settings: dto.settings,
+      timezone: dto.timezone,
+      currency: dto.currency,
+      billingAddress: dto.billingAddress,
+      overlapPolicy: dto.overlapPolicy,
+      idlePolicy: dto.idlePolicy,
+      idleThresholdMinutes: dto.idleThresholdMinutes,
+      blurScreenshots: dto.blurScreenshots,
+      screenshotRetentionDays: dto.screenshotRetentionDays,
+      overtimeWeeklyThreshold: dto.overtimeWeeklyThreshold,
+      overtimeDailyThreshold: dto.overtimeDailyThreshold,
+      overtimeMultiplier: dto.overtimeMultiplier,
+      doubleTimeDailyThreshold: dto.doubleTimeDailyThreshold,
+      doubleTimeMultiplier: dto.doubleTimeMultiplier,
+      weekendMultiplier: dto.weekendMultiplier,
+      holidayMultiplier: dto.holidayMultiplier,
+      payrollIban: dto.payrollIban,
+      payrollBic: dto.payrollBic,
+      payrollSecondApproval: dto.payrollSecondApproval,
+    };
     const updated = await this.prisma.organization.update({
       where: { id: organizationId },
-      data: {
-        name: dto.name,
-        settings: dto.settings,
-        timezone: dto.timezone,
-        currency: dto.currency,
-      },
+      data,
       include: {
         members: {
+          where: { is_current: true },
           include: this.memberInclude,
           take: 5,
         },
@@ -625,12 +683,24 @@ export class OrganizationService {
           select: {
             projects: true,
             clients: true,
-            members: true,
+            members: { where: { is_current: true } },
           },
         },
       },
     });
 
+    await this.auditService.recordChange({
+      organizationId,
+      actorId: userId,
+      action: AuditAction.ORGANIZATION_UPDATED,
+      entityType: "Organization",
+      entityId: organizationId,
+      before: existing,
+      after: updated,
+      fields: Object.keys(data),
+      client,
+    });
+
     return this.mapToOrganizationResponse(updated);
   }
 
@@ -671,6 +741,7 @@ export class OrganizationService {
     organizationId: string,
     dto: AddOrganizationMemberDto,
     currentUserId: string,
+    client?: ClientInfo,
   ): Promise<OrganizationMemberResponseDto> {
     this.logger.log(
       `Adding member ${dto.userId} to organization ${organizationId}`,
@@ -720,6 +791,22 @@ export class OrganizationService {
       include: this.memberInclude,
     });
 
+    await this.auditService.record({
+      organizationId,
+      actorId: currentUserId,
+      action: AuditAction.MEMBER_ADDED,
+      entityType: "OrganizationMember",
+      entityId: member.id,
+      after: {
+        userId: member.userId,
+        role: member.role,
+        status: member.status,
+        hourlyRate: member.hourlyRate,
+        weeklyLimit: member.weeklyLimit,
+      },
+      client,
+    });
+
     return this.mapToMemberResponse(member);
   }
 
@@ -855,6 +942,7 @@ export class OrganizationService {
     memberId: string,
     dto: UpdateOrganizationMemberDto,
     currentUserId: string,
+    client?: ClientInfo,
   ): Promise<OrganizationMemberResponseDto> {
     this.logger.log(
       `Updating member ${memberId} in organization ${organizationId}`,
@@ -866,17 +954,20 @@ export class OrganizationService {
       include: { organization: { select: { ownerId: true } } },
     });
 
-    if (!member || member.organizationId !== organizationId) {
+    if (
+      !member ||
+      member.organizationId !== organizationId ||
+      !member.is_current
+    ) {
       throw new EntityNotFoundException("Member", memberId);
     }
 
     // 2. Проверяем права
-    const currentMember = await this.prisma.organizationMember.findUnique({
+    const currentMember = await this.prisma.organizationMember.findFirst({
       where: {
-        organizationId_userId: {
-          organizationId,
-          userId: currentUserId,
-        },
+        organizationId,
+        userId: currentUserId,
+        is_current: true,
       },
     });
 
@@ -897,13 +988,49 @@ export class OrganizationService {
       throw new InvalidOperationException("Cannot change owner role");
     }
 
-    // 4. Обновляем
-    const updated = await this.prisma.organizationMember.update({
-      where: { id: memberId },
-      data: dto,
-      include: this.memberInclude,
+    // 4. Обновляем; смена ставки сохраняет прежнюю в истории
+    const { hourlyRate, ...data } = dto;
+    const updated = await this.prisma.$transaction(async (tx) => {
+      if (hourlyRate !== undefined && hourlyRate !== member.hourlyRate) {
+        await this.memberRatesService.changeRate(
+          tx,
+          member,
+          hourlyRate,
+          new Date(),
+        );
+      }
+
+      return tx.organizationMember.update({
+        where: { id: memberId },
+        data,
+        include: this.memberInclude,
+      });
     });
 
+    // Смена роли и ставки пишутся отдельными событиями
+    const diff = diffValues(member, updated, Object.keys(dto));
+    if (diff) {
+      const actions = [
+        AuditAction.MEMBER_ROLE_CHANGED,
+        AuditAction.MEMBER_RATE_CHANGED,
+        AuditAction.MEMBER_UPDATED,
+      ];
+      const parts = splitDiff(diff, [["role"], ["hourlyRate"]]);
+      for (const [index, part] of parts.entries()) {
+        if (Object.keys(part.after).length === 0) continue;
+        await this.auditService.record({
+          organizationId,
+          actorId: currentUserId,
+          action: actions[index],
+          entityType: "OrganizationMember",
+          entityId: updated.id,
+          before: { userId: member.userId, ...part.before },
+          after: { userId: member.userId, ...part.after },
+          client,
+        });
+      }
+    }
+
     return this.mapToMemberResponse(updated);
   }
 
@@ -914,6 +1041,7 @@ export class OrganizationService {
     organizationId: string,
     memberId: string,
     currentUserId: string,
+    client?: ClientInfo,
   ): Promise<void> {
     this.logger.log(
       `Removing member ${memberId} from organization ${organizationId}`,
@@ -925,7 +1053,11 @@ export class OrganizationService {
       include: { organization: { select: { ownerId: true } } },
     });
 
-    if (!member || member.organizationId !== organizationId) {
+    if (
+      !member ||
+      member.organizationId !== organizationId ||
+      !member.is_current
+    ) {
       throw new EntityNotFoundException("Member", memberId);
     }
 
@@ -935,12 +1067,11 @@ export class OrganizationService {
     }
 
     // 3. Проверяем права
-    const currentMember = await this.prisma.organizationMember.findUnique({
+    const currentMember = await this.prisma.organizationMember.findFirst({
       where: {
-        organizationId_userId: {
-          organizationId,
-          userId: currentUserId,
-        },
+        organizationId,
+        userId: currentUserId,
+        is_current: true,
       },
     });
 
@@ -961,6 +1092,189 @@ export class OrganizationService {
         status: MemberStatus.INACTIVE,
       },
     });
+    await this.memberRatesService.cancelScheduledRates(
+      organizationId,
+      member.userId,
+    );
+
+    await this.auditService.record({
+      organizationId,
+      actorId: currentUserId,
+      action: AuditAction.MEMBER_REMOVED,
+      entityType: "OrganizationMember",
+      entityId: memberId,
+      before: {
+        userId: member.userId,
+        role: member.role,
+        status: member.status,
+        hourlyRate: member.hourlyRate,
+      },
+      client,
+    });
+  }
+
+  // ==================== MEMBER RATES ====================
+
+  /**
+   * История ставок участника, включая запланированные
+   */
+  async getMemberRates(
+    organizationId: string,
+    memberId: string,
+    currentUserId: string,
+  ): Promise<MemberRateResponseDto[]> {
+    const member = await this.findCurrentMember(organizationId, memberId);
+
+    if (member.userId !== currentUserId) {
+      await this.validateMemberAccess(organizationId, currentUserId, [
+        MemberRole.OWNER,
+        MemberRole.ADMIN,
+      ]);
+    }
+
+    const rows = await this.memberRatesService.getRateHistory(
+      organizationId,
+      member.userId,
+    );
+
+    return rows.map((row) => this.mapToMemberRateResponse(row));
+  }
+
+  /**
+   * Реквизиты для выплат участника: только владельцу, администраторам
+   * и самому участнику
+   */
+  async getMemberBankDetails(
+    organizationId: string,
+    memberId: string,
+    currentUserId: string,
+  ): Promise<MemberBankDetailsResponseDto> {
+    const member = await this.findCurrentMember(organizationId, memberId);
+
+    if (member.userId !== currentUserId) {
+      await this.validateMemberAccess(organizationId, currentUserId, [
+        MemberRole.OWNER,
+        MemberRole.ADMIN,
+      ]);
+    }
+
+    return {
+      memberId: member.id,
+      userId: member.userId,
+      payoutIban: member.payoutIban,
+      payoutBic: member.payoutBic,
+    };
+  }
+
+  /**
+   * Запланировать смену ставки участника с будущей даты
+   */
+  async scheduleMemberRate(
+    organizationId: string,
+    memberId: string,
+    dto: ScheduleRateChangeDto,
+    currentUserId: string,
+    client?: ClientInfo,
+  ): Promise<MemberRateResponseDto> {
+    this.logger.log(
+      `Scheduling rate change for member ${memberId} from ${dto.effectiveFrom.toISOString()}`,
+    );
+
+    await this.validateMemberAccess(organizationId, currentUserId, [
+      MemberRole.OWNER,
+      MemberRole.ADMIN,
+    ]);
+    const member = await this.findCurrentMember(organizationId, memberId);
+
+    if (dto.effectiveFrom <= new Date()) {
+      throw new ValidationException(
+        "Effective date of a scheduled rate must be in the future",
+      );
+    }
+
+    const scheduled = await this.memberRatesService.scheduleRateChange(
+      member,
+      dto.hourlyRate,
+      dto.effectiveFrom,
+    );
+
+    await this.auditService.record({
+      organizationId,
+      actorId: currentUserId,
+      action: AuditAction.MEMBER_RATE_SCHEDULED,
+      entityType: "OrganizationMember",
+      entityId: member.id,
+      before: { userId: member.userId, hourlyRate: member.hourlyRate },
+      after: {
+        userId: member.userId,
+        hourlyRate: scheduled.hourlyRate,
+        effectiveFrom: dto.effectiveFrom,
+      },
+      client,
+    });
+
+    return this.mapToMemberRateResponse(scheduled);
+  }
+
+  /**
+   * Отменить запланированную ставку
+   */
+  async cancelScheduledMemberRate(
+    organizationId: string,
+    memberId: string,
+    rateId: string,
+    currentUserId: string,
+    client?: ClientInfo,
+  ): Promise<void> {
+    await this.validateMemberAccess(organizationId, currentUserId, [
+      MemberRole.OWNER,
+      MemberRole.ADMIN,
+    ]);
+    const member = await this.findCurrentMember(organizationId, memberId);
+
+    const scheduled = await this.memberRatesService.findScheduledRate(
+      organizationId,
+      member.userId,
+      rateId,
+    );
+    if (!scheduled) {
+      throw new EntityNotFoundException("Scheduled rate", rateId);
+    }
+
+    await this.prisma.organizationMember.delete({ where: { id: rateId } });
+
+    await this.auditService.record({
+      organizationId,
+      actorId: currentUserId,
+      action: AuditAction.MEMBER_RATE_CANCELLED,
+      entityType: "OrganizationMember",
+      entityId: member.id,
+      before: {
+        userId: member.userId,
+        hourlyRate: scheduled.hourlyRate,
+        effectiveFrom: scheduled.valid_from,
+      },
+      client,
+    });
+  }
+
+  // ==================== AUDIT LOG ====================
+
+  /**
+   * Журнал действий организации (только OWNER и ADMIN)
+   */
+  async getAuditLog(
+    organizationId: string,
+    filter: AuditLogFilterDto,
+    currentUserId: string,
+  ): Promise<AuditLogResponseDto> {
+    await this.validateOrganizationExists(organizationId);
+    await this.validateMemberAccess(organizationId, currentUserId, [
+      MemberRole.OWNER,
+      MemberRole.ADMIN,
+    ]);
+
+    return this.auditService.getEvents(organizationId, filter);
   }
 
   // ==================== HOLIDAY MANAGEMENT ====================
@@ -1109,12 +1423,11 @@ export class OrganizationService {
     role: MemberRole,
   ): Promise<boolean> {
     try {
-      const member = await this.prisma.organizationMember.findUnique({
+      const member = await this.prisma.organizationMember.findFirst({
         where: {
-          organizationId_userId: {
-            organizationId,
-            userId,
-          },
+          organizationId,
+          userId,
+          is_current: true,
         },
         select: { role: true, status: true },
       });
@@ -1187,6 +1500,22 @@ export class OrganizationService {
       settings: org.settings,
       timezone: org.timezone,
       currency: org.currency,
+      billingAddress: org.billingAddress,
+      overlapPolicy: org.overlapPolicy,
+      idlePolicy: org.idlePolicy,
+      idleThresholdMinutes: org.idleThresholdMinutes,
+      blurScreenshots: org.blurScreenshots,
+      screenshotRetentionDays: org.screenshotRetentionDays,
+      overtimeWeeklyThreshold: org.overtimeWeeklyThreshold,
+      overtimeDailyThreshold: org.overtimeDailyThreshold,
+      overtimeMultiplier: org.overtimeMultiplier,
+      doubleTimeDailyThreshold: org.doubleTimeDailyThreshold,
+      doubleTimeMultiplier: org.doubleTimeMultiplier,
+      weekendMultiplier: org.weekendMultiplier,
+      holidayMultiplier: org.holidayMultiplier,
+      payrollIban: org.payrollIban,
+      payrollBic: org.payrollBic,
+      payrollSecondApproval: org.payrollSecondApproval,
       createdAt: org.createdAt,
       updatedAt: org.updatedAt,
       membersCount: org._count?.members ?? org.members?.length,
@@ -1224,6 +1553,19 @@ export class OrganizationService {
     };
   }
 
+  private mapToMemberRateResponse(
+    member: OrganizationMember,
+  ): MemberRateResponseDto {
+    return {
+      id: member.id,
+      hourlyRate: member.hourlyRate,
+      validFrom: member.valid_from,
+      validTo: member.valid_to,
+      isCurrent: member.is_current,
+      isScheduled: this.memberRatesService.isScheduled(member),
+    };
+  }
+
   private mapToHolidayResponse(holiday: any): HolidayResponseDto {
     return {
       id: holiday.id,
@@ -0,0 +1,166 @@
+// payroll/dto/payroll-adjustment.dto.ts
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { PayrollAdjustmentType, PayrollDeductionType } from "@prisma/client";
+import {
+  IsDate,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from "class-validator";
+import { Type } from "class-transformer";
+
+export class CreatePayrollDeductionDto {
+  @ApiProperty()
+  @IsUUID()
+  organizationId: string;
+
+  @ApiProperty()
+  @IsUUID()
+  userId: string;
+
+  @ApiProperty({ enum: PayrollDeductionType })
+  @IsEnum(PayrollDeductionType)
+  type: PayrollDeductionType;
+
+  @ApiProperty({
+    description: "Percent of gross pay or fixed amount per payroll run",
+    example: 10,
+  })
+  @IsNumber()
+  amount: number;
+
+  @ApiProperty({ example: "Pension contribution" })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  startDate?: Date;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  endDate?: Date;
+}
+
+export class PayrollDeductionFilterDto {
+  @ApiProperty()
+  @IsUUID()
+  organizationId: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+}
+
+export class PayrollDeductionResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty({ enum: PayrollDeductionType })
+  type: PayrollDeductionType;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty()
+  reason: string;
+
+  @ApiProperty()
+  startDate: Date;
+
+  @ApiPropertyOptional()
+  endDate: Date | null;
+
+  @ApiProperty()
+  isActive: boolean;
+
+  @ApiProperty()
+  createdById: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class CreatePayrollAdjustmentDto {
+  @ApiProperty()
+  @IsUUID()
+  userId: string;
+
+  @ApiProperty({ enum: PayrollAdjustmentType })
+  @IsEnum(PayrollAdjustmentType)
+  type: PayrollAdjustmentType;
+
+  @ApiProperty({
+    description:
+      "Positive amount for bonuses and deductions; adjustments may be negative",
+    example: 150,
+  })
+  @IsNumber()
+  amount: number;
+
+  @ApiProperty({ example: "Quarterly performance bonus" })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class PayrollAdjustmentResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty({ enum: PayrollAdjustmentType })
+  type: PayrollAdjustmentType;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty()
+  reason: string;
+
+  @ApiProperty()
+  createdById: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class RecurringDeductionLineDto {
+  @ApiProperty()
+  deductionId: string;
+
+  @ApiProperty({ enum: PayrollDeductionType })
+  type: PayrollDeductionType;
+
+  @ApiProperty({ description: "Configured percent or fixed amount" })
+  rate: number;
+
+  @ApiProperty({ description: "Deducted amount" })
+  amount: number;
+
+  @ApiProperty()
+  reason: string;
+
+  @ApiProperty()
+  createdById: string;
+}
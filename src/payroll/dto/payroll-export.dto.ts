@@ -0,0 +1,21 @@
+// payroll/dto/payroll-export.dto.ts
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsDate, IsOptional } from "class-validator";
+import { Type } from "class-transformer";
+
+export enum PayrollExportFormat {
+  CSV = "csv",
+  XLSX = "xlsx",
+  PAIN001 = "pain001",
+}
+
+export class PayrollExportQueryDto {
+  @ApiPropertyOptional({
+    description: "Requested execution date of the bank batch (pain001 only)",
+    example: "2026-11-01",
+  })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  executionDate?: Date;
+}
@@ -0,0 +1,32 @@
+// payroll/dto/payroll-payment.dto.ts
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { PayrollPaymentStatus } from "@prisma/client";
+import { IsIn, IsOptional, IsString, MaxLength } from "class-validator";
+
+export class UpdatePayrollPaymentDto {
+  @ApiProperty({
+    enum: [PayrollPaymentStatus.PAID, PayrollPaymentStatus.FAILED],
+  })
+  @IsIn([PayrollPaymentStatus.PAID, PayrollPaymentStatus.FAILED])
+  status: PayrollPaymentStatus;
+
+  @ApiPropertyOptional({
+    description: "Bank transfer reference",
+    example: "TRX-2026-11-0042",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(140)
+  reference?: string;
+}
+
+export class MarkPayrollRunPaidDto {
+  @ApiPropertyOptional({
+    description: "Bank batch reference applied to every paid item",
+    example: "BATCH-2026-11",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(140)
+  reference?: string;
+}
@@ -11,6 +11,11 @@ import {
   Max,
 } from "class-validator";
 import { Type } from "class-transformer";
+import { PayrollPaymentStatus } from "@prisma/client";
+import {
+  PayrollAdjustmentResponseDto,
+  RecurringDeductionLineDto,
+} from "./payroll-adjustment.dto";
 
 export enum PayrollPeriod {
   WEEKLY = "weekly",
@@ -60,6 +65,14 @@ export class PayrollFilterDto {
   month?: number;
 }
 
+export class PayrollRateDto {
+  @ApiProperty()
+  hourlyRate: number;
+
+  @ApiProperty()
+  hours: number;
+}
+
 export class PayrollItemDto {
   @ApiProperty()
   userId: string;
@@ -73,29 +86,77 @@ export class PayrollItemDto {
   @ApiProperty()
   totalHours: number;
 
-  @ApiProperty()
+  @ApiProperty({ description: "Rate in effect at the end of the period" })
   hourlyRate: number;
 
+  @ApiProperty({
+    type: [PayrollRateDto],
+    description: "Hours worked at each rate in effect during the period",
+  })
+  rates: PayrollRateDto[];
+
   @ApiProperty()
   currency: string;
 
+  @ApiProperty()
+  regularHours: number;
+
+  @ApiProperty()
+  overtimeHours: number;
+
+  @ApiProperty()
+  doubleTimeHours: number;
+
+  @ApiProperty()
+  regularPay: number;
+
+  @ApiProperty()
+  overtimePay: number;
+
+  @ApiProperty()
+  doubleTimePay: number;
+
   @ApiProperty()
   grossPay: number;
 
-  @ApiPropertyOptional()
-  bonus?: number;
+  @ApiProperty()
+  bonus: number;
 
-  @ApiPropertyOptional()
-  deductions?: number;
+  @ApiProperty()
+  deductions: number;
+
+  @ApiProperty({ description: "Sum of manual adjustments (may be negative)" })
+  adjustments: number;
 
   @ApiProperty()
   netPay: number;
 
+  @ApiProperty({ type: [RecurringDeductionLineDto] })
+  recurringDeductions: RecurringDeductionLineDto[];
+
+  @ApiPropertyOptional({
+    type: [PayrollAdjustmentResponseDto],
+    description: "Bonuses, deductions and adjustments attached to the run",
+  })
+  runAdjustments?: PayrollAdjustmentResponseDto[];
+
   @ApiProperty()
   timeEntriesCount: number;
 
   @ApiPropertyOptional({ type: [String] })
   timeEntryIds?: string[];
+
+  @ApiPropertyOptional({
+    enum: PayrollPaymentStatus,
+    description: "Payment status of a persisted payroll run item",
+  })
+  paymentStatus?: PayrollPaymentStatus;
+
+  @ApiPropertyOptional({ nullable: true })
+  paidAt?: Date | null;
+
+  @ApiPropertyOptional({ nullable: true, example: "TRX-2026-11-0042" })
+  paymentReference?: string | null;
 }
 
 export class PayrollSummaryDto {
@@ -113,6 +174,9 @@ export class PayrollSummaryDto {
   totals: {
     totalHours: number;
     totalGross: number;
+    totalBonus: number;
+    totalDeductions: number;
+    totalAdjustments: number;
     totalNet: number;
     employeeCount: number;
   };
@@ -123,6 +187,9 @@ export class PayrollSummaryDto {
   @ApiProperty()
   organizationName: string;
 
+  @ApiProperty({ example: "EUR" })
+  currency: string;
+
   @ApiProperty()
   generatedAt: Date;
 }
@@ -184,6 +251,37 @@ export class PayrollRunResponseDto {
     end: Date;
   };
 
+  @ApiProperty({
+    description: "Business sign-off of a completed run",
+    enum: ["draft", "approved", "paid"],
+  })
+  approvalStatus: "draft" | "approved" | "paid";
+
+  @ApiProperty({
+    description: "Whether the organization requires a second approver",
+  })
+  requiresSecondApproval: boolean;
+
+  @ApiPropertyOptional()
+  approvedById?: string;
+
+  @ApiPropertyOptional()
+  approvedAt?: Date;
+
+  @ApiPropertyOptional()
+  secondApprovedById?: string;
+
+  @ApiPropertyOptional()
+  secondApprovedAt?: Date;
+
+  @ApiPropertyOptional()
+  paidAt?: Date;
+
+  @ApiPropertyOptional({
+    description: "Locked period created when the run was approved",
+  })
+  lockedPeriodId?: string;
+
   @ApiPropertyOptional()
   summary?: PayrollSummaryDto;
 
@@ -216,9 +314,15 @@ export class PayrollHistoryDto {
   @ApiProperty()
   totalGross: number;
 
+  @ApiProperty()
+  totalNet: number;
+
   @ApiProperty()
   currency: string;
 
   @ApiProperty()
   status: string;
+
+  @ApiProperty()
+  approvalStatus: string;
 }
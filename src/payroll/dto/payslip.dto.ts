@@ -0,0 +1,38 @@
+// payroll/dto/payslip.dto.ts
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { PayrollPaymentStatus } from "@prisma/client";
+
+export class PayslipDto {
+  @ApiProperty()
+  runId: string;
+
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiProperty()
+  organizationName: string;
+
+  @ApiProperty()
+  periodStart: Date;
+
+  @ApiProperty()
+  periodEnd: Date;
+
+  @ApiProperty({ example: "EUR" })
+  currency: string;
+
+  @ApiProperty()
+  totalHours: number;
+
+  @ApiProperty()
+  grossPay: number;
+
+  @ApiProperty()
+  netPay: number;
+
+  @ApiProperty({ enum: PayrollPaymentStatus })
+  paymentStatus: PayrollPaymentStatus;
+
+  @ApiPropertyOptional({ nullable: true })
+  paidAt: Date | null;
+}
@@ -0,0 +1,48 @@
+import { PayrollAdjustmentType, PayrollDeductionType } from "@prisma/client";
+import {
+  applyRecurringDeductions,
+  calculateNetPay,
+} from "./net-pay.calculator";
+
+describe("net pay calculation", () => {
+  const deduction = (type: PayrollDeductionType, amount: number) => ({
+    id: `${type}-${amount}`,
+    type,
+    amount,
+    reason: "test",
+    createdById: "admin",
+  });
+
+  it("computes percentage deductions from gross pay", () => {
+    const lines = applyRecurringDeductions(2000, [
+      deduction(PayrollDeductionType.PERCENTAGE, 10),
+      deduction(PayrollDeductionType.FIXED, 50),
+    ]);
+
+    expect(lines.map((l) => l.amount)).toEqual([200, 50]);
+    expect(lines[0].rate).toBe(10);
+  });
+
+  it("combines bonuses, adjustments and deductions", () => {
+    const lines = applyRecurringDeductions(1000, [
+      deduction(PayrollDeductionType.PERCENTAGE, 5),
+    ]);
+
+    const result = calculateNetPay(1000, lines, [
+      { type: PayrollAdjustmentType.BONUS, amount: 100 },
+      { type: PayrollAdjustmentType.ADJUSTMENT, amount: -30 },
+      { type: PayrollAdjustmentType.DEDUCTION, amount: 20 },
+    ]);
+
+    expect(result).toEqual({
+      bonus: 100,
+      deductions: 70,
+      adjustments: -30,
+      netPay: 1000,
+    });
+  });
+
+  it("returns gross pay when nothing applies", () => {
+    expect(calculateNetPay(500, [], []).netPay).toBe(500);
+  });
+});
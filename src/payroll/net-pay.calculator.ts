@@ -0,0 +1,73 @@
+// payroll/net-pay.calculator.ts
+import { PayrollAdjustmentType, PayrollDeductionType } from "@prisma/client";
+
+export interface RecurringDeductionLine {
+  deductionId: string;
+  type: PayrollDeductionType;
+  // Процент или фиксированная сумма из настроек удержания
+  rate: number;
+  // Удержанная сумма
+  amount: number;
+  reason: string;
+  createdById: string;
+}
+
+export interface NetPayBreakdown {
+  bonus: number;
+  deductions: number;
+  adjustments: number;
+  netPay: number;
+}
+
+/**
+ * Суммы регулярных удержаний: процент считается от начисленного (grossPay)
+ */
+export function applyRecurringDeductions(
+  grossPay: number,
+  deductions: {
+    id: string;
+    type: PayrollDeductionType;
+    amount: number;
+    reason: string;
+    createdById: string;
+  }[],
+): RecurringDeductionLine[] {
+  return deductions.map((deduction) => ({
+    deductionId: deduction.id,
+    type: deduction.type,
+    rate: deduction.amount,
+    amount:
+      deduction.type === PayrollDeductionType.PERCENTAGE
+        ? (grossPay * deduction.amount) / 100
+        : deduction.amount,
+    reason: deduction.reason,
+    createdById: deduction.createdById,
+  }));
+}
+
+/**
+ * К выплате = начислено + премии ± корректировки − удержания
+ */
+export function calculateNetPay(
+  grossPay: number,
+  recurring: RecurringDeductionLine[],
+  adjustments: { type: PayrollAdjustmentType; amount: number }[],
+): NetPayBreakdown {
+  const sum = (type: PayrollAdjustmentType) =>
+    adjustments
+      .filter((adjustment) => adjustment.type === type)
+      .reduce((total, adjustment) => total + adjustment.amount, 0);
+
+  const bonus = sum(PayrollAdjustmentType.BONUS);
+  const manual = sum(PayrollAdjustmentType.ADJUSTMENT);
+  const deductions =
+    recurring.reduce((total, line) => total + line.amount, 0) +
+    sum(PayrollAdjustmentType.DEDUCTION);
+
+  return {
+    bonus,
+    deductions,
+    adjustments: manual,
+    netPay: grossPay + bonus + manual - deductions,
+  };
+}
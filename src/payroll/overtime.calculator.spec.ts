@@ -0,0 +1,100 @@
+import { calculateOvertime, OvertimeRules } from "./overtime.calculator";
+
+const HOUR = 3600;
+
+const baseRules: OvertimeRules = {
+  weeklyThreshold: null,
+  dailyThreshold: null,
+  overtimeMultiplier: 1.5,
+  doubleTimeDailyThreshold: null,
+  doubleTimeMultiplier: 2,
+  weekendMultiplier: 1,
+  holidayMultiplier: 1,
+  timezone: "UTC",
+};
+
+// 2026-10-19 — понедельник
+const day = (date: number, hour = 9) => new Date(Date.UTC(2026, 9, date, hour));
+
+describe("calculateOvertime", () => {
+  it("pays everything as regular time without rules", () => {
+    const result = calculateOvertime(
+      [{ startTime: day(19), duration: 10 * HOUR, hourlyRate: 20 }],
+      baseRules,
+    );
+
+    expect(result.regularSeconds).toBe(10 * HOUR);
+    expect(result.overtimeSeconds).toBe(0);
+    expect(result.regularPay).toBe(200);
+  });
+
+  it("splits a long day into regular, overtime and double time", () => {
+    const result = calculateOvertime(
+      [{ startTime: day(19, 6), duration: 13 * HOUR, hourlyRate: 10 }],
+      { ...baseRules, dailyThreshold: 8, doubleTimeDailyThreshold: 12 },
+    );
+
+    expect(result.regularSeconds).toBe(8 * HOUR);
+    expect(result.overtimeSeconds).toBe(4 * HOUR);
+    expect(result.doubleTimeSeconds).toBe(1 * HOUR);
+    expect(result.regularPay).toBe(80);
+    expect(result.overtimePay).toBe(60);
+    expect(result.doubleTimePay).toBe(20);
+  });
+
+  it("does not count daily overtime towards the weekly threshold", () => {
+    const entries = [19, 20, 21, 22, 23].map((date) => ({
+      startTime: day(date),
+      duration: 9 * HOUR,
+      hourlyRate: 10,
+    }));
+
+    const result = calculateOvertime(entries, {
+      ...baseRules,
+      dailyThreshold: 8,
+      weeklyThreshold: 40,
+    });
+
+    expect(result.regularSeconds).toBe(40 * HOUR);
+    expect(result.overtimeSeconds).toBe(5 * HOUR);
+  });
+
+  it("applies the weekly threshold per calendar week", () => {
+    const entries = [19, 20, 21, 22, 23, 26].map((date) => ({
+      startTime: day(date),
+      duration: 9 * HOUR,
+      hourlyRate: 10,
+    }));
+
+    const result = calculateOvertime(entries, {
+      ...baseRules,
+      weeklyThreshold: 40,
+    });
+
+    expect(result.overtimeSeconds).toBe(5 * HOUR);
+    expect(result.regularSeconds).toBe(49 * HOUR);
+  });
+
+  it("uses the higher of the overtime and holiday multipliers", () => {
+    const result = calculateOvertime(
+      [{ startTime: day(19), duration: 10 * HOUR, hourlyRate: 10 }],
+      { ...baseRules, dailyThreshold: 8, holidayMultiplier: 2 },
+      [{ date: new Date("2025-10-19T00:00:00Z"), recurring: true }],
+    );
+
+    expect(result.holidaySeconds).toBe(10 * HOUR);
+    expect(result.regularPay).toBe(160);
+    expect(result.overtimePay).toBe(40);
+  });
+
+  it("applies the weekend multiplier in the organization timezone", () => {
+    // Пятница 23:00 UTC — уже суббота в Москве
+    const result = calculateOvertime(
+      [{ startTime: day(23, 23), duration: 2 * HOUR, hourlyRate: 10 }],
+      { ...baseRules, weekendMultiplier: 1.5, timezone: "Europe/Moscow" },
+    );
+
+    expect(result.weekendSeconds).toBe(2 * HOUR);
+    expect(result.regularPay).toBe(30);
+  });
+});
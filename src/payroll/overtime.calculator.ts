@@ -0,0 +1,198 @@
+// payroll/overtime.calculator.ts
+
+export interface OvertimeRules {
+  // Пороги в часах; null — правило не применяется
+  weeklyThreshold: number | null;
+  dailyThreshold: number | null;
+  overtimeMultiplier: number;
+  doubleTimeDailyThreshold: number | null;
+  doubleTimeMultiplier: number;
+  weekendMultiplier: number;
+  holidayMultiplier: number;
+  // Дни и недели считаются в часовом поясе организации
+  timezone: string;
+}
+
+export interface OvertimeHoliday {
+  date: Date;
+  recurring: boolean;
+}
+
+export interface PayableEntry {
+  startTime: Date;
+  // Секунды
+  duration: number;
+  hourlyRate: number;
+}
+
+export interface OvertimeBreakdown {
+  regularSeconds: number;
+  overtimeSeconds: number;
+  doubleTimeSeconds: number;
+  regularPay: number;
+  overtimePay: number;
+  doubleTimePay: number;
+  weekendSeconds: number;
+  holidaySeconds: number;
+}
+
+type Tier = "regular" | "overtime" | "doubleTime";
+
+interface LocalDay {
+  dateKey: string;
+  weekKey: string;
+  isWeekend: boolean;
+}
+
+/**
+ * Разбивает отработанное время на обычные, сверхурочные и двойные часы.
+ *
+ * Записи обрабатываются по порядку начала: сначала заполняется дневной порог,
+ * затем недельный (считаются только обычные часы, чтобы не оплачивать
+ * один час дважды). Выходные и праздники не суммируются с тарифом
+ * сверхурочных: применяется больший из множителей.
+ * Недели начинаются с понедельника и учитываются только в пределах переданных записей.
+ */
+export function calculateOvertime(
+  entries: PayableEntry[],
+  rules: OvertimeRules,
+  holidays: OvertimeHoliday[] = [],
+): OvertimeBreakdown {
+  const result: OvertimeBreakdown = {
+    regularSeconds: 0,
+    overtimeSeconds: 0,
+    doubleTimeSeconds: 0,
+    regularPay: 0,
+    overtimePay: 0,
+    doubleTimePay: 0,
+    weekendSeconds: 0,
+    holidaySeconds: 0,
+  };
+
+  const dailyLimit = toSeconds(rules.dailyThreshold);
+  const weeklyLimit = toSeconds(rules.weeklyThreshold);
+  const doubleTimeLimit = toSeconds(rules.doubleTimeDailyThreshold);
+  const tierMultipliers: Record<Tier, number> = {
+    regular: 1,
+    overtime: rules.overtimeMultiplier,
+    doubleTime: rules.doubleTimeMultiplier,
+  };
+
+  const holidayDates = new Set(
+    holidays.filter((h) => !h.recurring).map((h) => toDateKey(h.date)),
+  );
+  const recurringHolidays = new Set(
+    holidays.filter((h) => h.recurring).map((h) => toDateKey(h.date).slice(5)),
+  );
+
+  const formatter = createDateFormatter(rules.timezone);
+  const workedByDay = new Map<string, number>();
+  const regularByWeek = new Map<string, number>();
+
+  const sorted = [...entries].sort(
+    (a, b) => a.startTime.getTime() - b.startTime.getTime(),
+  );
+
+  for (const entry of sorted) {
+    const day = getLocalDay(entry.startTime, formatter);
+    const isHoliday =
+      holidayDates.has(day.dateKey) ||
+      recurringHolidays.has(day.dateKey.slice(5));
+
+    let dayMultiplier = 1;
+    if (isHoliday) {
+      dayMultiplier = rules.holidayMultiplier;
+      result.holidaySeconds += Math.max(0, entry.duration);
+    } else if (day.isWeekend) {
+      dayMultiplier = rules.weekendMultiplier;
+      result.weekendSeconds += Math.max(0, entry.duration);
+    }
+
+    let remaining = Math.max(0, entry.duration);
+    while (remaining > 0) {
+      const workedToday = workedByDay.get(day.dateKey) ?? 0;
+      const regularThisWeek = regularByWeek.get(day.weekKey) ?? 0;
+
+      let tier: Tier;
+      let chunk = remaining;
+
+      if (doubleTimeLimit !== null && workedToday >= doubleTimeLimit) {
+        tier = "doubleTime";
+      } else {
+        if (doubleTimeLimit !== null) {
+          chunk = Math.min(chunk, doubleTimeLimit - workedToday);
+        }
+
+        if (dailyLimit !== null && workedToday >= dailyLimit) {
+          tier = "overtime";
+        } else if (weeklyLimit !== null && regularThisWeek >= weeklyLimit) {
+          tier = "overtime";
+        } else {
+          tier = "regular";
+          if (dailyLimit !== null) {
+            chunk = Math.min(chunk, dailyLimit - workedToday);
+          }
+          if (weeklyLimit !== null) {
+            chunk = Math.min(chunk, weeklyLimit - regularThisWeek);
+          }
+        }
+      }
+
+      workedByDay.set(day.dateKey, workedToday + chunk);
+      if (tier === "regular") {
+        regularByWeek.set(day.weekKey, regularThisWeek + chunk);
+      }
+
+      const multiplier = Math.max(tierMultipliers[tier], dayMultiplier);
+      const pay = (chunk / 3600) * entry.hourlyRate * multiplier;
+
+      result[`${tier}Seconds`] += chunk;
+      result[`${tier}Pay`] += pay;
+      remaining -= chunk;
+    }
+  }
+
+  return result;
+}
+
+function toSeconds(hours: number | null): number | null {
+  return hours === null ? null : Math.round(hours * 3600);
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function createDateFormatter(timezone: string): Intl.DateTimeFormat {
+  // en-CA дает формат YYYY-MM-DD
+  const options: Intl.DateTimeFormatOptions = {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  };
+
+  try {
+    return new Intl.DateTimeFormat("en-CA", { ...options, timeZone: timezone });
+  } catch {
+    // Неизвестный часовой пояс в настройках организации
+    return new Intl.DateTimeFormat("en-CA", { ...options, timeZone: "UTC" });
+  }
+}
+
+function getLocalDay(date: Date, formatter: Intl.DateTimeFormat): LocalDay {
+  const dateKey = formatter.format(date);
+
+  const [year, month, dayOfMonth] = dateKey.split("-").map(Number);
+  const utcDay = new Date(Date.UTC(year, month - 1, dayOfMonth));
+  const weekday = utcDay.getUTCDay();
+
+  // Понедельник той же недели
+  const monday = new Date(utcDay);
+  monday.setUTCDate(utcDay.getUTCDate() - ((weekday + 6) % 7));
+
+  return {
+    dateKey,
+    weekKey: toDateKey(monday),
+    isWeekend: weekday === 0 || weekday === 6,
+  };
+}
@@ -0,0 +1,118 @@
+import { PayrollItemDto, PayrollSummaryDto } from "./dto/payroll.dto";
+import {
+  BankAccount,
+  buildPain001,
+  buildPayrollCsv,
+} from "./payroll-export.formatters";
+
+const item = (overrides: Partial<PayrollItemDto>): PayrollItemDto => ({
+  userId: "11111111-1111-4111-8111-111111111111",
+  userName: "Anna Smith",
+  totalSeconds: 36000,
+  totalHours: 10,
+  hourlyRate: 20,
+  currency: "EUR",
+  regularHours: 10,
+  overtimeHours: 0,
+  doubleTimeHours: 0,
+  regularPay: 200,
+  overtimePay: 0,
+  doubleTimePay: 0,
+  rates: [{ hourlyRate: 20, hours: 10 }],
+  grossPay: 200,
+  bonus: 0,
+  deductions: 0,
+  adjustments: 0,
+  netPay: 200,
+  recurringDeductions: [],
+  timeEntriesCount: 2,
+  ...overrides,
+});
+
+const summary = (items: PayrollItemDto[]): PayrollSummaryDto => ({
+  period: {
+    start: new Date("2026-10-01T00:00:00Z"),
+    end: new Date("2026-10-31T23:59:59Z"),
+    name: "2026-10-01 - 2026-10-31",
+  },
+  items,
+  totals: {
+    totalHours: items.reduce((sum, i) => sum + i.totalHours, 0),
+    totalGross: items.reduce((sum, i) => sum + i.grossPay, 0),
+    totalBonus: 0,
+    totalDeductions: 0,
+    totalAdjustments: 0,
+    totalNet: items.reduce((sum, i) => sum + i.netPay, 0),
+    employeeCount: items.length,
+  },
+  organizationId: "org-1",
+  organizationName: "Acme & Co",
+  currency: "EUR",
+  generatedAt: new Date("2026-11-01T00:00:00Z"),
+});
+
+describe("buildPayrollCsv", () => {
+  it("writes a row per employee and a totals row", () => {
+    const lines = buildPayrollCsv(summary([item({})]), "EUR")
+      .trim()
+      .split("\r\n");
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toContain("Net Pay,Currency");
+    expect(lines[1]).toContain("Anna Smith");
+    expect(lines[1]).toContain(",200,EUR,2");
+    expect(lines[2]).toMatch(/^Total,/);
+  });
+
+  it("escapes quotes, commas and formula prefixes", () => {
+    const csv = buildPayrollCsv(
+      summary([item({ userName: '=Smith, "A"' })]),
+      "EUR",
+    );
+
+    expect(csv).toContain(`"'=Smith, ""A"""`);
+  });
+
+  it("rounds amounts to the currency precision", () => {
+    const csv = buildPayrollCsv(
+      summary([item({ currency: "JPY", netPay: 1234.56 })]),
+      "JPY",
+    );
+
+    expect(csv).toContain(",1235,JPY,");
+  });
+});
+
+describe("buildPain001", () => {
+  const debtor: BankAccount = {
+    name: "Acme & Co",
+    iban: "DE89370400440532013000",
+    bic: "COBADEFFXXX",
+  };
+
+  it("builds a credit transfer per payable employee", () => {
+    const anna = item({ netPay: 150.5 });
+    const bob = item({
+      userId: "22222222-2222-4222-8222-222222222222",
+      userName: "Bob",
+      netPay: 0,
+    });
+    const creditors = new Map<string, BankAccount>([
+      [anna.userId, { name: "Anna Smith", iban: "DE75512108001245126199" }],
+    ]);
+
+    const xml = buildPain001(summary([anna, bob]), "EUR", debtor, creditors, {
+      messageId: "run1",
+      executionDate: new Date("2026-11-02T00:00:00Z"),
+      createdAt: new Date("2026-11-01T10:00:00Z"),
+    });
+
+    expect(xml).toContain("urn:iso:std:iso:20022:tech:xsd:pain.001.001.03");
+    expect(xml).toContain("<NbOfTxs>1</NbOfTxs>");
+    expect(xml).toContain("<CtrlSum>150.50</CtrlSum>");
+    expect(xml).toContain('<InstdAmt Ccy="EUR">150.50</InstdAmt>');
+    expect(xml).toContain("<ReqdExctnDt>2026-11-02</ReqdExctnDt>");
+    expect(xml).toContain("<Nm>Acme &amp; Co</Nm>");
+    expect(xml).not.toContain("Bob");
+  });
+});
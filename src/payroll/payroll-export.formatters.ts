@@ -0,0 +1,220 @@
+// payroll/payroll-export.formatters.ts
+import { currencyDigits, money } from "../common/utils/currency";
+import { PayrollItemDto, PayrollSummaryDto } from "./dto/payroll.dto";
+
+export interface BankAccount {
+  name: string;
+  iban: string;
+  bic?: string | null;
+}
+
+export interface Pain001Options {
+  // Идентификатор сообщения, не длиннее 35 символов
+  messageId: string;
+  executionDate: Date;
+  createdAt?: Date;
+}
+
+const CSV_COLUMNS: {
+  header: string;
+  value: (item: PayrollItemDto) => unknown;
+}[] = [
+  { header: "Employee", value: (i) => i.userName },
+  { header: "User ID", value: (i) => i.userId },
+  { header: "Total Hours", value: (i) => round(i.totalHours, 2) },
+  { header: "Regular Hours", value: (i) => round(i.regularHours, 2) },
+  { header: "Overtime Hours", value: (i) => round(i.overtimeHours, 2) },
+  { header: "Double Time Hours", value: (i) => round(i.doubleTimeHours, 2) },
+  { header: "Hourly Rate", value: (i) => i.hourlyRate },
+  { header: "Regular Pay", value: (i) => money(i.regularPay, i.currency) },
+  { header: "Overtime Pay", value: (i) => money(i.overtimePay, i.currency) },
+  {
+    header: "Double Time Pay",
+    value: (i) => money(i.doubleTimePay, i.currency),
+  },
+  { header: "Gross Pay", value: (i) => money(i.grossPay, i.currency) },
+  { header: "Bonus", value: (i) => money(i.bonus, i.currency) },
+  { header: "Deductions", value: (i) => money(i.deductions, i.currency) },
+  { header: "Adjustments", value: (i) => money(i.adjustments, i.currency) },
+  { header: "Net Pay", value: (i) => money(i.netPay, i.currency) },
+  { header: "Currency", value: (i) => i.currency },
+  { header: "Time Entries", value: (i) => i.timeEntriesCount },
+];
+
+/**
+ * Детальная выгрузка расчета: строка на сотрудника и итоговая строка
+ */
+export function buildPayrollCsv(
+  summary: PayrollSummaryDto,
+  currency: string,
+): string {
+  const rows: unknown[][] = [CSV_COLUMNS.map((column) => column.header)];
+
+  for (const item of summary.items) {
+    rows.push(CSV_COLUMNS.map((column) => column.value(item)));
+  }
+
+  const { totals } = summary;
+  rows.push([
+    "Total",
+    "",
+    round(totals.totalHours, 2),
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    money(totals.totalGross, currency),
+    money(totals.totalBonus, currency),
+    money(totals.totalDeductions, currency),
+    money(totals.totalAdjustments, currency),
+    money(totals.totalNet, currency),
+    currency,
+    summary.items.reduce((sum, i) => sum + i.timeEntriesCount, 0),
+  ]);
+
+  return rows.map((row) => row.map(toCsvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Пакет переводов ISO 20022 pain.001.001.03 (Customer Credit Transfer).
+ * В пакет попадают сотрудники с положительной суммой к выплате; у каждого
+ * из них должен быть указан счет в creditors.
+ */
+export function buildPain001(
+  summary: PayrollSummaryDto,
+  currency: string,
+  debtor: BankAccount,
+  creditors: Map<string, BankAccount>,
+  options: Pain001Options,
+): string {
+  const payable = summary.items.flatMap((item) => {
+    const amount = money(item.netPay, currency);
+    if (amount <= 0) return [];
+
+    const creditor = creditors.get(item.userId);
+    if (!creditor) {
+      throw new Error(`Bank account is missing for ${item.userName}`);
+    }
+    return [{ item, amount, creditor }];
+  });
+
+  const controlSum = formatAmount(
+    payable.reduce((sum, { amount }) => sum + amount, 0),
+    currency,
+  );
+  const count = payable.length;
+  const createdAt = (options.createdAt ?? new Date())
+    .toISOString()
+    .replace(/\.\d{3}Z$/, "");
+
+  const transactions = payable.map(({ item, amount, creditor }) => {
+    return [
+      "      <CdtTrfTxInf>",
+      "        <PmtId>",
+      `          <EndToEndId>${xml(compactId(item.userId))}</EndToEndId>`,
+      "        </PmtId>",
+      "        <Amt>",
+      `          <InstdAmt Ccy="${xml(currency)}">${formatAmount(amount, currency)}</InstdAmt>`,
+      "        </Amt>",
+      ...(creditor.bic
+        ? [
+            "        <CdtrAgt>",
+            `          <FinInstnId><BIC>${xml(creditor.bic)}</BIC></FinInstnId>`,
+            "        </CdtrAgt>",
+          ]
+        : []),
+      "        <Cdtr>",
+      `          <Nm>${xml(truncate(creditor.name, 70))}</Nm>`,
+      "        </Cdtr>",
+      "        <CdtrAcct>",
+      `          <Id><IBAN>${xml(creditor.iban)}</IBAN></Id>`,
+      "        </CdtrAcct>",
+      "        <RmtInf>",
+      `          <Ustrd>${xml(truncate(`Salary ${summary.period.name}`, 140))}</Ustrd>`,
+      "        </RmtInf>",
+      "      </CdtTrfTxInf>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03">',
+    "  <CstmrCdtTrfInitn>",
+    "    <GrpHdr>",
+    `      <MsgId>${xml(options.messageId)}</MsgId>`,
+    `      <CreDtTm>${createdAt}</CreDtTm>`,
+    `      <NbOfTxs>${count}</NbOfTxs>`,
+    `      <CtrlSum>${controlSum}</CtrlSum>`,
+    "      <InitgPty>",
+    `        <Nm>${xml(truncate(debtor.name, 70))}</Nm>`,
+    "      </InitgPty>",
+    "    </GrpHdr>",
+    "    <PmtInf>",
+    `      <PmtInfId>${xml(options.messageId)}</PmtInfId>`,
+    "      <PmtMtd>TRF</PmtMtd>",
+    `      <NbOfTxs>${count}</NbOfTxs>`,
+    `      <CtrlSum>${controlSum}</CtrlSum>`,
+    "      <PmtTpInf>",
+    "        <CtgyPurp><Cd>SALA</Cd></CtgyPurp>",
+    "      </PmtTpInf>",
+    `      <ReqdExctnDt>${options.executionDate.toISOString().split("T")[0]}</ReqdExctnDt>`,
+    "      <Dbtr>",
+    `        <Nm>${xml(truncate(debtor.name, 70))}</Nm>`,
+    "      </Dbtr>",
+    "      <DbtrAcct>",
+    `        <Id><IBAN>${xml(debtor.iban)}</IBAN></Id>`,
+    "      </DbtrAcct>",
+    "      <DbtrAgt>",
+    debtor.bic
+      ? `        <FinInstnId><BIC>${xml(debtor.bic)}</BIC></FinInstnId>`
+      : "        <FinInstnId><Othr><Id>NOTPROVIDED</Id></Othr></FinInstnId>",
+    "      </DbtrAgt>",
+    "      <ChrgBr>SLEV</ChrgBr>",
+    ...transactions,
+    "    </PmtInf>",
+    "  </CstmrCdtTrfInitn>",
+    "</Document>",
+    "",
+  ].join("\n");
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return amount.toFixed(currencyDigits(currency));
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round((value + Number.EPSILON) * factor) / factor;
+}
+
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return String(value);
+
+  let text = String(value);
+  // Защита от формул при открытии в Excel
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? value.slice(0, length) : value;
+}
+
+function compactId(id: string): string {
+  return id.replace(/-/g, "").slice(0, 35);
+}
@@ -0,0 +1,331 @@
+// payroll/payroll-export.service.ts
+import { Injectable, Logger } from "@nestjs/common";
+import { PayrollAdjustmentType } from "@prisma/client";
+import { Workbook, Worksheet } from "exceljs";
+import { PrismaService } from "../prisma/prisma.service";
+import { PayrollService } from "./payroll.service";
+import { PayrollItemDto, PayrollSummaryDto } from "./dto/payroll.dto";
+import { PayrollExportFormat } from "./dto/payroll-export.dto";
+import {
+  BankAccount,
+  buildPain001,
+  buildPayrollCsv,
+} from "./payroll-export.formatters";
+import { payslipEarnings } from "./payslip.renderer";
+import { currencyDigits, money } from "../common/utils/currency";
+import {
+  InvalidOperationException,
+  ValidationException,
+} from "../exceptions/business.exception";
+
+export interface PayrollExportFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+// Excel не допускает эти символы в названиях листов
+const SHEET_NAME_FORBIDDEN = /[[\]:*?/\\]/g;
+const SHEET_NAME_MAX_LENGTH = 31;
+
+/**
+ * Выгрузки сохраненного расчета зарплаты для бухгалтерии и банка
+ */
+@Injectable()
+export class PayrollExportService {
+  private readonly logger = new Logger(PayrollExportService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly payrollService: PayrollService,
+  ) {}
+
+  async exportRun(
+    userId: string,
+    runId: string,
+    format: PayrollExportFormat,
+    options: { executionDate?: Date } = {},
+  ): Promise<PayrollExportFile> {
+    // Проверка доступа и данные расчета — как в GET runs/:runId
+    const run = await this.payrollService.getPayrollStatus(runId, userId);
+    if (!run.summary) {
+      throw new InvalidOperationException(
+        "Only a completed payroll run can be exported",
+      );
+    }
+
+    if (
+      format === PayrollExportFormat.PAIN001 &&
+      run.approvalStatus === "draft"
+    ) {
+      throw new InvalidOperationException(
+        "Payroll run must be approved before exporting a bank batch",
+      );
+    }
+
+    const summary = run.summary;
+    const basename = `payroll-${summary.period.start.toISOString().split("T")[0]}-${runId.slice(0, 8)}`;
+
+    this.logger.log(`Exporting payroll run ${runId} as ${format}`);
+
+    switch (format) {
+      case PayrollExportFormat.CSV:
+        return {
+          filename: `${basename}.csv`,
+          contentType: "text/csv; charset=utf-8",
+          // BOM, чтобы Excel распознал UTF-8
+          content: Buffer.from(
+            "\uFEFF" + buildPayrollCsv(summary, summary.currency),
+            "utf-8",
+          ),
+        };
+      case PayrollExportFormat.XLSX:
+        return {
+          filename: `${basename}.xlsx`,
+          contentType:
+            "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          content: await this.buildWorkbook(summary),
+        };
+      case PayrollExportFormat.PAIN001:
+        return {
+          filename: `${basename}.pain001.xml`,
+          contentType: "application/xml; charset=utf-8",
+          content: Buffer.from(
+            await this.buildBankBatch(runId, summary, options.executionDate),
+            "utf-8",
+          ),
+        };
+    }
+  }
+
+  // ==================== ПРИВАТНЫЕ МЕТОДЫ ====================
+
+  /**
+   * Книга Excel: лист с итогами и отдельный лист на каждого сотрудника
+   */
+  private async buildWorkbook(summary: PayrollSummaryDto): Promise<Buffer> {
+    const workbook = new Workbook();
+    workbook.created = summary.generatedAt;
+
+    const moneyFormat = this.getMoneyFormat(summary.currency);
+    const overview = workbook.addWorksheet("Summary");
+    overview.columns = [
+      { header: "Employee", key: "userName", width: 28 },
+      { header: "Total Hours", key: "totalHours", width: 12 },
+      { header: "Regular Hours", key: "regularHours", width: 14 },
+      { header: "Overtime Hours", key: "overtimeHours", width: 15 },
+      { header: "Double Time Hours", key: "doubleTimeHours", width: 18 },
+      { header: "Gross Pay", key: "grossPay", width: 14 },
+      { header: "Bonus", key: "bonus", width: 12 },
+      { header: "Deductions", key: "deductions", width: 12 },
+      { header: "Adjustments", key: "adjustments", width: 12 },
+      { header: "Net Pay", key: "netPay", width: 14 },
+    ];
+    overview.getRow(1).font = { bold: true };
+
+    for (const item of summary.items) {
+      overview.addRow(item);
+    }
+    const totalRow = overview.addRow({
+      userName: "Total",
+      totalHours: summary.totals.totalHours,
+      grossPay: summary.totals.totalGross,
+      bonus: summary.totals.totalBonus,
+      deductions: summary.totals.totalDeductions,
+      adjustments: summary.totals.totalAdjustments,
+      netPay: summary.totals.totalNet,
+    });
+    totalRow.font = { bold: true };
+
+    for (const key of [
+      "grossPay",
+      "bonus",
+      "deductions",
+      "adjustments",
+      "netPay",
+    ]) {
+      overview.getColumn(key).numFmt = moneyFormat;
+    }
+    for (const key of [
+      "totalHours",
+      "regularHours",
+      "overtimeHours",
+      "doubleTimeHours",
+    ]) {
+      overview.getColumn(key).numFmt = "0.00";
+    }
+
+    const usedNames = new Set(["Summary"]);
+    for (const item of summary.items) {
+      const sheet = workbook.addWorksheet(this.getSheetName(item, usedNames));
+      this.fillEmployeeSheet(sheet, item, summary, moneyFormat);
+    }
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  private fillEmployeeSheet(
+    sheet: Worksheet,
+    item: PayrollItemDto,
+    summary: PayrollSummaryDto,
+    moneyFormat: string,
+  ) {
+    sheet.columns = [
+      { key: "label", width: 32 },
+      { key: "hours", width: 12 },
+      { key: "rate", width: 14 },
+      { key: "amount", width: 16 },
+    ];
+    sheet.getColumn("hours").numFmt = "0.00";
+    sheet.getColumn("rate").numFmt = moneyFormat;
+    sheet.getColumn("amount").numFmt = moneyFormat;
+
+    sheet.addRow({ label: item.userName }).font = { bold: true, size: 14 };
+    sheet.addRow({ label: `Period: ${summary.period.name}` });
+    sheet.addRow({ label: `Organization: ${summary.organizationName}` });
+    sheet.addRow({ label: `Currency: ${item.currency}` });
+    sheet.addRow({});
+
+    this.addHeaderRow(sheet, ["Earnings", "Hours", "Rate", "Amount"]);
+    for (const row of payslipEarnings(item)) {
+      sheet.addRow({
+        label: row.label,
+        hours: row.hours,
+        rate: row.rate ?? undefined,
+        amount: row.amount,
+      });
+    }
+    sheet.addRow({
+      label: "Gross pay",
+      hours: item.totalHours,
+      amount: item.grossPay,
+    }).font = { bold: true };
+    sheet.addRow({});
+
+    // Разбивка по ставкам только справочная: суммы уже учтены в начислениях
+    if ((item.rates ?? []).length > 1) {
+      this.addHeaderRow(sheet, ["Hourly rates in period", "Hours", "Rate"]);
+      for (const rate of item.rates) {
+        sheet.addRow({
+          label: "Hourly rate",
+          hours: rate.hours,
+          rate: rate.hourlyRate,
+        });
+      }
+      sheet.addRow({});
+    }
+
+    this.addHeaderRow(sheet, ["Bonuses and deductions", "", "", "Amount"]);
+    for (const line of item.recurringDeductions ?? []) {
+      sheet.addRow({
+        label: `Deduction: ${line.reason}`,
+        amount: -line.amount,
+      });
+    }
+    for (const adjustment of item.runAdjustments ?? []) {
+      const sign = adjustment.type === PayrollAdjustmentType.DEDUCTION ? -1 : 1;
+      sheet.addRow({
+        label: `${adjustment.type.toLowerCase()}: ${adjustment.reason}`,
+        amount: sign * adjustment.amount,
+      });
+    }
+    sheet.addRow({});
+
+    sheet.addRow({ label: "Net pay", amount: item.netPay }).font = {
+      bold: true,
+    };
+    sheet.addRow({ label: `Time entries: ${item.timeEntriesCount}` });
+  }
+
+  private addHeaderRow(sheet: Worksheet, headers: string[]) {
+    const row = sheet.addRow(headers);
+    row.font = { bold: true };
+    row.border = { bottom: { style: "thin" } };
+  }
+
+  /**
+   * Уникальное допустимое название листа из имени сотрудника
+   */
+  private getSheetName(item: PayrollItemDto, usedNames: Set<string>): string {
+    const base =
+      item.userName.replace(SHEET_NAME_FORBIDDEN, " ").trim() || item.userId;
+
+    let name = base.slice(0, SHEET_NAME_MAX_LENGTH);
+    for (let i = 2; usedNames.has(name.toLowerCase()); i++) {
+      const suffix = ` (${i})`;
+      name = base.slice(0, SHEET_NAME_MAX_LENGTH - suffix.length) + suffix;
+    }
+
+    usedNames.add(name.toLowerCase());
+    return name;
+  }
+
+  private getMoneyFormat(currency: string): string {
+    const digits = currencyDigits(currency);
+    const fraction = digits > 0 ? `.${"0".repeat(digits)}` : "";
+    return `#,##0${fraction} "${currency}"`;
+  }
+
+  /**
+   * Пакет переводов: счет списания из настроек организации,
+   * счета сотрудников — из их членства в организации
+   */
+  private async buildBankBatch(
+    runId: string,
+    summary: PayrollSummaryDto,
+    executionDate: Date = new Date(),
+  ): Promise<string> {
+    const organization = await this.prisma.organization.findUniqueOrThrow({
+      where: { id: summary.organizationId },
+      select: { name: true, payrollIban: true, payrollBic: true },
+    });
+    if (!organization.payrollIban) {
+      throw new ValidationException(
+        "Organization payroll IBAN is required for a bank transfer batch",
+      );
+    }
+
+    const payable = summary.items.filter(
+      (item) => money(item.netPay, summary.currency) > 0,
+    );
+    const members = await this.prisma.organizationMember.findMany({
+      where: {
+        organizationId: summary.organizationId,
+        userId: { in: payable.map((item) => item.userId) },
+        is_current: true,
+      },
+      select: { userId: true, payoutIban: true, payoutBic: true },
+    });
+
+    const creditors = new Map<string, BankAccount>();
+    for (const item of payable) {
+      const member = members.find((m) => m.userId === item.userId);
+      if (member?.payoutIban) {
+        creditors.set(item.userId, {
+          name: item.userName,
+          iban: member.payoutIban,
+          bic: member.payoutBic,
+        });
+      }
+    }
+
+    const missing = payable.filter((item) => !creditors.has(item.userId));
+    if (missing.length > 0) {
+      throw new ValidationException(
+        `Payout IBAN is missing for: ${missing.map((i) => i.userName).join(", ")}`,
+      );
+    }
+
+    return buildPain001(
+      summary,
+      summary.currency,
+      {
+        name: organization.name,
+        iban: organization.payrollIban,
+        bic: organization.payrollBic,
+      },
+      creditors,
+      { messageId: runId.replace(/-/g, ""), executionDate },
+    );
+  }
+}
@@ -6,16 +6,34 @@ import {
   Query,
   Param,
   UseGuards,
+  ParseUUIDPipe,
+  Delete,
+  Patch,
+  HttpCode,
+  HttpStatus,
+  ParseEnumPipe,
+  Res,
 } from "@nestjs/common";
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiProduces,
 } from "@nestjs/swagger";
+import { Response } from "express";
 import { PayrollService } from "./payroll.service";
+import {
+  PayrollExportFile,
+  PayrollExportService,
+} from "./payroll-export.service";
+import { PayslipService } from "./payslip.service";
 import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
 import { GetUser } from "../auth/decorators/get-user.decorator";
+import {
+  ClientInfo,
+  GetClientInfo,
+} from "../audit/decorators/client-info.decorator";
 import {
   PayrollFilterDto,
   PayrollSummaryDto,
@@ -23,13 +41,33 @@ import {
   PayrollRunResponseDto,
   PayrollHistoryDto,
 } from "./dto/payroll.dto";
+import {
+  CreatePayrollAdjustmentDto,
+  CreatePayrollDeductionDto,
+  PayrollAdjustmentResponseDto,
+  PayrollDeductionFilterDto,
+  PayrollDeductionResponseDto,
+} from "./dto/payroll-adjustment.dto";
+import {
+  MarkPayrollRunPaidDto,
+  UpdatePayrollPaymentDto,
+} from "./dto/payroll-payment.dto";
+import {
+  PayrollExportFormat,
+  PayrollExportQueryDto,
+} from "./dto/payroll-export.dto";
+import { PayslipDto } from "./dto/payslip.dto";
 
 @ApiTags("payroll")
 @ApiBearerAuth()
 @Controller("payroll")
 @UseGuards(JwtAuthGuard)
 export class PayrollController {
-  constructor(private readonly payrollService: PayrollService) {}
+  constructor(
+    private readonly payrollService: PayrollService,
+    private readonly payrollExportService: PayrollExportService,
+    private readonly payslipService: PayslipService,
+  ) {}
 
   @Get("calculate")
   @ApiOperation({ summary: "Calculate payroll for period" })
@@ -55,8 +93,9 @@ export class PayrollController {
   async runPayroll(
     @GetUser("id") userId: string,
     @Body() dto: PayrollRunDto,
+    @GetClientInfo() client: ClientInfo,
   ): Promise<PayrollRunResponseDto> {
-    return this.payrollService.runPayroll(userId, dto);
+    return this.payrollService.runPayroll(userId, dto, client);
   }
 
   @Get("runs/:runId")
@@ -67,9 +106,132 @@ export class PayrollController {
     type: PayrollRunResponseDto,
   })
   async getPayrollStatus(
-    @Param("runId") runId: string,
+    @GetUser("id") userId: string,
+    @Param("runId", ParseUUIDPipe) runId: string,
   ): Promise<PayrollRunResponseDto> {
-    return this.payrollService.getPayrollStatus(runId);
+    return this.payrollService.getPayrollStatus(runId, userId);
+  }
+
+  @Post("runs/:runId/approve")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      "Approve a completed payroll run; the final approval locks its time entries",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Approval recorded",
+    type: PayrollRunResponseDto,
+  })
+  async approvePayrollRun(
+    @GetUser("id") userId: string,
+    @Param("runId", ParseUUIDPipe) runId: string,
+    @GetClientInfo() client: ClientInfo,
+  ): Promise<PayrollRunResponseDto> {
+    return this.payrollService.approvePayrollRun(userId, runId, client);
+  }
+
+  @Patch("runs/:runId/items/:userId/payment")
+  @ApiOperation({ summary: "Record the payment status of an employee" })
+  @ApiResponse({
+    status: 200,
+    description: "Payment status updated",
+    type: PayrollRunResponseDto,
+  })
+  async updateItemPayment(
+    @GetUser("id") userId: string,
+    @Param("runId", ParseUUIDPipe) runId: string,
+    @Param("userId", ParseUUIDPipe) memberId: string,
+    @Body() dto: UpdatePayrollPaymentDto,
+    @GetClientInfo() client: ClientInfo,
+  ): Promise<PayrollRunResponseDto> {
+    return this.payrollService.updateItemPayment(
+      userId,
+      runId,
+      memberId,
+      dto,
+      client,
+    );
+  }
+
+  @Post("runs/:runId/pay")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Mark all pending payments of an approved payroll run as paid",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Pending payments marked paid",
+    type: PayrollRunResponseDto,
+  })
+  async markRunPaid(
+    @GetUser("id") userId: string,
+    @Param("runId", ParseUUIDPipe) runId: string,
+    @Body() dto: MarkPayrollRunPaidDto,
+    @GetClientInfo() client: ClientInfo,
+  ): Promise<PayrollRunResponseDto> {
+    return this.payrollService.markRunPaid(userId, runId, dto, client);
+  }
+
+  @Get("runs/:runId/export/:format")
+  @ApiOperation({
+    summary:
+      "Export a completed payroll run as CSV, XLSX or ISO 20022 pain.001 bank batch",
+  })
+  @ApiProduces(
+    "text/csv",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "application/xml",
+  )
+  @ApiResponse({ status: 200, description: "Export file" })
+  async exportPayrollRun(
+    @GetUser("id") userId: string,
+    @Param("runId", ParseUUIDPipe) runId: string,
+    @Param("format", new ParseEnumPipe(PayrollExportFormat))
+    format: PayrollExportFormat,
+    @Query() query: PayrollExportQueryDto,
+    @Res() res: Response,
+  ) {
+    const file = await this.payrollExportService.exportRun(
+      userId,
+      runId,
+      format,
+      query,
+    );
+    this.sendFile(res, file);
+  }
+
+  @Get("runs/:runId/payslips")
+  @ApiOperation({ summary: "Download all payslips of a payroll run as ZIP" })
+  @ApiProduces("application/zip")
+  @ApiResponse({ status: 200, description: "ZIP archive of PDF payslips" })
+  async getRunPayslips(
+    @GetUser("id") userId: string,
+    @Param("runId", ParseUUIDPipe) runId: string,
+    @Res() res: Response,
+  ) {
+    const file = await this.payslipService.getRunPayslipsZip(userId, runId);
+    this.sendFile(res, file);
+  }
+
+  @Get("me/payslips")
+  @ApiOperation({ summary: "List my payslips from approved payroll runs" })
+  @ApiResponse({ status: 200, description: "Payslips", type: [PayslipDto] })
+  async getMyPayslips(@GetUser("id") userId: string): Promise<PayslipDto[]> {
+    return this.payslipService.getMyPayslips(userId);
+  }
+
+  @Get("me/payslips/:runId")
+  @ApiOperation({ summary: "Download my payslip for a payroll run as PDF" })
+  @ApiProduces("application/pdf")
+  @ApiResponse({ status: 200, description: "PDF payslip" })
+  async getMyPayslip(
+    @GetUser("id") userId: string,
+    @Param("runId", ParseUUIDPipe) runId: string,
+    @Res() res: Response,
+  ) {
+    const file = await this.payslipService.getMyPayslip(userId, runId);
+    this.sendFile(res, file);
   }
 
   @Get("history/:organizationId")
@@ -85,4 +247,93 @@ export class PayrollController {
   ): Promise<PayrollHistoryDto[]> {
     return this.payrollService.getPayrollHistory(userId, organizationId);
   }
+
+  @Post("runs/:runId/adjustments")
+  @ApiOperation({
+    summary: "Add a bonus, deduction or manual adjustment to a payroll run",
+  })
+  @ApiResponse({
+    status: 201,
+    description: "Adjustment added and net pay recalculated",
+    type: PayrollAdjustmentResponseDto,
+  })
+  async addAdjustment(
+    @GetUser("id") userId: string,
+    @Param("runId", ParseUUIDPipe) runId: string,
+    @Body() dto: CreatePayrollAdjustmentDto,
+    @GetClientInfo() client: ClientInfo,
+  ): Promise<PayrollAdjustmentResponseDto> {
+    return this.payrollService.addAdjustment(userId, runId, dto, client);
+  }
+
+  @Delete("runs/:runId/adjustments/:adjustmentId")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: "Remove an adjustment from a payroll run" })
+  @ApiResponse({ status: 204, description: "Adjustment removed" })
+  async removeAdjustment(
+    @GetUser("id") userId: string,
+    @Param("runId", ParseUUIDPipe) runId: string,
+    @Param("adjustmentId", ParseUUIDPipe) adjustmentId: string,
+    @GetClientInfo() client: ClientInfo,
+  ): Promise<void> {
+    await this.payrollService.removeAdjustment(
+      userId,
+      runId,
+      adjustmentId,
+      client,
+    );
+  }
+
+  @Post("deductions")
+  @ApiOperation({ summary: "Create a recurring deduction for a member" })
+  @ApiResponse({
+    status: 201,
+    description: "Deduction created",
+    type: PayrollDeductionResponseDto,
+  })
+  async createDeduction(
+    @GetUser("id") userId: string,
+    @Body() dto: CreatePayrollDeductionDto,
+    @GetClientInfo() client: ClientInfo,
+  ): Promise<PayrollDeductionResponseDto> {
+    return this.payrollService.createDeduction(userId, dto, client);
+  }
+
+  @Get("deductions")
+  @ApiOperation({ summary: "List recurring deductions" })
+  @ApiResponse({
+    status: 200,
+    description: "Recurring deductions",
+    type: [PayrollDeductionResponseDto],
+  })
+  async getDeductions(
+    @GetUser("id") userId: string,
+    @Query() filter: PayrollDeductionFilterDto,
+  ): Promise<PayrollDeductionResponseDto[]> {
+    return this.payrollService.getDeductions(userId, filter);
+  }
+
+  @Delete("deductions/:deductionId")
+  @ApiOperation({ summary: "Deactivate a recurring deduction" })
+  @ApiResponse({
+    status: 200,
+    description: "Deduction deactivated",
+    type: PayrollDeductionResponseDto,
+  })
+  async deactivateDeduction(
+    @GetUser("id") userId: string,
+    @Param("deductionId", ParseUUIDPipe) deductionId: string,
+    @GetClientInfo() client: ClientInfo,
+  ): Promise<PayrollDeductionResponseDto> {
+    return this.payrollService.deactivateDeduction(userId, deductionId, client);
+  }
+
+  private sendFile(res: Response, file: PayrollExportFile) {
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${file.filename}"`,
+    );
+    res.send(file.content);
+  }
 }
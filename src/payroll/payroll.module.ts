@@ -1,10 +1,27 @@
 import { Module } from "@nestjs/common";
+import { BullModule } from "@nestjs/bullmq";
+import { OrganizationsModule } from "../organizations/organizations.module";
+import { TimeEntriesModule } from "../time-entries/time-entries.module";
 import { PayrollController } from "./payroll.controller";
 import { PayrollService } from "./payroll.service";
+import { PayrollExportService } from "./payroll-export.service";
+import { PayslipService } from "./payslip.service";
+import { PayrollProcessor } from "./payroll.processor";
+import { PAYROLL_QUEUE } from "./payroll.queue";
 
 @Module({
+  imports: [
+    BullModule.registerQueue({ name: PAYROLL_QUEUE }),
+    OrganizationsModule,
+    TimeEntriesModule,
+  ],
   controllers: [PayrollController],
-  providers: [PayrollService],
+  providers: [
+    PayrollService,
+    PayrollExportService,
+    PayslipService,
+    PayrollProcessor,
+  ],
   exports: [PayrollService],
 })
 export class PayrollModule {}
@@ -0,0 +1,20 @@
+// payroll/payroll.processor.ts
+import { Logger } from "@nestjs/common";
+import { Processor, WorkerHost } from "@nestjs/bullmq";
+import { Job } from "bullmq";
+import { PayrollService } from "./payroll.service";
+import { PAYROLL_QUEUE, PayrollRunJobData } from "./payroll.queue";
+
+@Processor(PAYROLL_QUEUE)
+export class PayrollProcessor extends WorkerHost {
+  private readonly logger = new Logger(PayrollProcessor.name);
+
+  constructor(private readonly payrollService: PayrollService) {
+    super();
+  }
+
+  async process(job: Job<PayrollRunJobData>): Promise<void> {
+    this.logger.log(`Processing payroll run ${job.data.runId}`);
+    await this.payrollService.executePayrollRun(job.data.runId);
+  }
+}
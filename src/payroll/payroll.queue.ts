@@ -0,0 +1,7 @@
+// payroll/payroll.queue.ts
+export const PAYROLL_QUEUE = "payroll";
+export const PAYROLL_RUN_JOB = "payroll-run";
+
+export interface PayrollRunJobData {
+  runId: string;
+}
@@ -1,4 +1,19 @@
 import { Injectable, Logger } from "@nestjs/common";
+import { InjectQueue } from "@nestjs/bullmq";
+import { Queue } from "bullmq";
+import {
+  Organization,
+  PayrollAdjustment,
+  PayrollAdjustmentType,
+  PayrollApprovalStatus,
+  PayrollDeduction,
+  PayrollDeductionType,
+  PayrollPaymentStatus,
+  PayrollRun,
+  PayrollRunItem,
+  PayrollRunStatus,
+  Prisma,
+} from "@prisma/client";
 import { PrismaService } from "../prisma/prisma.service";
 import {
   PayrollFilterDto,
@@ -8,19 +23,63 @@ import {
   PayrollRunResponseDto,
   PayrollPeriod,
   PayrollHistoryDto,
+  PayrollRateDto,
 } from "./dto/payroll.dto";
+import {
+  CreatePayrollAdjustmentDto,
+  CreatePayrollDeductionDto,
+  PayrollAdjustmentResponseDto,
+  PayrollDeductionFilterDto,
+  PayrollDeductionResponseDto,
+} from "./dto/payroll-adjustment.dto";
+import {
+  MarkPayrollRunPaidDto,
+  UpdatePayrollPaymentDto,
+} from "./dto/payroll-payment.dto";
 import {
   EntityNotFoundException,
   PermissionDeniedException,
   InvalidOperationException,
+  ValidationException,
 } from "../exceptions/business.exception";
+import {
+  MemberRateLookup,
+  MemberRatesService,
+} from "../organizations/member-rates.service";
+import { ApprovalService } from "../time-entries/approval.service";
+import { AuditService } from "../audit/audit.service";
+import { AuditAction } from "../audit/audit-actions";
+import { ClientInfo } from "../audit/decorators/client-info.decorator";
+import { calculateOvertime, OvertimeRules } from "./overtime.calculator";
+import {
+  applyRecurringDeductions,
+  calculateNetPay,
+  RecurringDeductionLine,
+} from "./net-pay.calculator";
+import {
+  PAYROLL_QUEUE,
+  PAYROLL_RUN_JOB,
+  PayrollRunJobData,
+} from "./payroll.queue";
+
+type PayrollRunWithDetails = PayrollRun & {
+  organization: Organization;
+  items: PayrollRunItem[];
+  adjustments: PayrollAdjustment[];
+};
 
 @Injectable()
 export class PayrollService {
   private readonly logger = new Logger(PayrollService.name);
-  private activePayrollRuns: Map<string, PayrollRunResponseDto> = new Map();
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly memberRatesService: MemberRatesService,
+    private readonly approvalService: ApprovalService,
+    private readonly auditService: AuditService,
+    @InjectQueue(PAYROLL_QUEUE)
+    private readonly payrollQueue: Queue<PayrollRunJobData>,
+  ) {}
 
   // ==================== ОСНОВНЫЕ МЕТОДЫ ====================
 
@@ -39,88 +98,179 @@ export class PayrollService {
       filter.organizationId,
     );
 
-    // 3. Получаем всех активных сотрудников организации
-    const members = await this.getActiveMembers(organization.id, filter.userId);
-
-    if (members.length === 0) {
-      throw new InvalidOperationException(
-        "No active members found for payroll calculation",
-      );
-    }
-
-    // 4. Получаем time entries за период
-    const timeEntries = await this.getTimeEntries(
-      members.map((m) => m.userId),
-      period.start,
-      period.end,
-    );
-
-    // 5. Группируем по пользователям и считаем зарплату
-    const items = await this.calculatePayrollItems(members, timeEntries);
-
-    // 6. Считаем итоги
-    const totals = this.calculateTotals(items);
-
-    return {
-      period: {
-        start: period.start,
-        end: period.end,
-        name: this.getPeriodName(period),
-      },
-      items,
-      totals,
-      organizationId: organization.id,
-      organizationName: organization.name,
-      generatedAt: new Date(),
-    };
+    // 3. Считаем по сотрудникам за период
+    return this.buildPayrollSummary(organization, period, filter.userId);
   }
 
   /**
-   * Запустить расчет зарплаты (асинхронно)
+   * Запустить расчет зарплаты (через очередь)
    */
   async runPayroll(
     userId: string,
     dto: PayrollRunDto,
+    client?: ClientInfo,
   ): Promise<PayrollRunResponseDto> {
     this.logger.log(`Running payroll for organization ${dto.organizationId}`);
 
     // 1. Проверяем права
     await this.validatePayrollAccess(userId, dto.organizationId);
+    const organization = await this.getOrganization(userId, dto.organizationId);
 
     // 2. Создаем запись о запуске
-    const runId = `payroll_${Date.now()}_${dto.organizationId}`;
     const period = this.determinePeriod(dto);
+    const run = await this.prisma.payrollRun.create({
+      data: {
+        organizationId: organization.id,
+        createdById: userId,
+        periodStart: period.start,
+        periodEnd: period.end,
+        currency: organization.currency,
+        notes: dto.notes,
+      },
+      include: { organization: true, items: true, adjustments: true },
+    });
 
-    const run: PayrollRunResponseDto = {
-      id: runId,
-      status: "pending",
-      organizationId: dto.organizationId,
-      period: {
-        start: period.start,
-        end: period.end,
+    // 3. Ставим расчет в очередь
+    try {
+      await this.payrollQueue.add(
+        PAYROLL_RUN_JOB,
+        { runId: run.id },
+        { jobId: run.id, removeOnComplete: true, removeOnFail: 100 },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to enqueue payroll run ${run.id}: ${error.message}`,
+        error.stack,
+      );
+      await this.markRunFailed(run.id, "Failed to enqueue payroll run");
+      throw error;
+    }
+
+    await this.auditService.record({
+      organizationId: run.organizationId,
+      actorId: userId,
+      action: AuditAction.PAYROLL_RUN_STARTED,
+      entityType: "PayrollRun",
+      entityId: run.id,
+      after: {
+        periodStart: run.periodStart,
+        periodEnd: run.periodEnd,
+        currency: run.currency,
+        notes: run.notes,
       },
-      createdAt: new Date(),
-    };
+      client,
+    });
 
-    this.activePayrollRuns.set(runId, run);
+    return this.mapToRunResponse(run);
+  }
 
-    // 3. Запускаем асинхронный расчет
-    this.processPayrollRun(runId, userId, dto).catch((error) => {
-      this.logger.error(`Payroll run ${runId} failed: ${error.message}`);
+  /**
+   * Выполнить расчет из очереди и сохранить снимок ставок и записей
+   */
+  async executePayrollRun(runId: string): Promise<void> {
+    const run = await this.prisma.payrollRun.findUnique({
+      where: { id: runId },
+      include: { organization: true, adjustments: true },
     });
+    if (!run) {
+      throw new EntityNotFoundException("Payroll run", runId);
+    }
 
-    return run;
+    // Повторная доставка уже выполненной задачи
+    if (run.status === PayrollRunStatus.COMPLETED) {
+      this.logger.warn(`Payroll run ${runId} is already completed`);
+      return;
+    }
+
+    await this.prisma.payrollRun.update({
+      where: { id: runId },
+      data: {
+        status: PayrollRunStatus.PROCESSING,
+        startedAt: new Date(),
+        error: null,
+      },
+    });
+
+    try {
+      const summary = await this.buildPayrollSummary(
+        run.organization,
+        { start: run.periodStart, end: run.periodEnd },
+        undefined,
+        run.adjustments,
+      );
+
+      await this.prisma.$transaction([
+        this.prisma.payrollRunItem.deleteMany({ where: { runId } }),
+        this.prisma.payrollRunItem.createMany({
+          data: summary.items.map((item) => ({
+            runId,
+            userId: item.userId,
+            userName: item.userName,
+            hourlyRate: item.hourlyRate,
+            currency: item.currency,
+            totalSeconds: item.totalSeconds,
+            totalHours: item.totalHours,
+            regularHours: item.regularHours,
+            overtimeHours: item.overtimeHours,
+            doubleTimeHours: item.doubleTimeHours,
+            regularPay: item.regularPay,
+            overtimePay: item.overtimePay,
+            doubleTimePay: item.doubleTimePay,
+            grossPay: item.grossPay,
+            bonus: item.bonus,
+            deductions: item.deductions,
+            adjustments: item.adjustments,
+            netPay: item.netPay,
+            timeEntriesCount: item.timeEntriesCount,
+            timeEntryIds: item.timeEntryIds ?? [],
+            rates: item.rates as unknown as Prisma.InputJsonValue,
+            recurringDeductions:
+              item.recurringDeductions as unknown as Prisma.InputJsonValue,
+          })),
+        }),
+        this.prisma.payrollRun.update({
+          where: { id: runId },
+          data: {
+            status: PayrollRunStatus.COMPLETED,
+            ...summary.totals,
+            completedAt: new Date(),
+          },
+        }),
+      ]);
+
+      this.logger.log(`Payroll run ${runId} completed successfully`);
+    } catch (error) {
+      this.logger.error(
+        `Payroll run ${runId} failed: ${error.message}`,
+        error.stack,
+      );
+      await this.markRunFailed(runId, error.message);
+      throw error;
+    }
   }
 
   /**
    * Получить статус расчета зарплаты
    */
-  async getPayrollStatus(runId: string): Promise<PayrollRunResponseDto> {
-    const run = this.activePayrollRuns.get(runId);
+  async getPayrollStatus(
+    runId: string,
+    userId: string,
+  ): Promise<PayrollRunResponseDto> {
+    const run = await this.prisma.payrollRun.findUnique({
+      where: { id: runId },
+      include: {
+        organization: true,
+        items: { orderBy: { userName: "asc" } },
+        adjustments: { orderBy: { createdAt: "asc" } },
+      },
+    });
     if (!run) {
       throw new EntityNotFoundException("Payroll run", runId);
     }
-    return run;
+
+    await this.validatePayrollAccess(userId, run.organizationId);
+
+    return this.mapToRunResponse(run);
   }
 
   /**
@@ -134,22 +284,486 @@ export class PayrollService {
 
     await this.validatePayrollAccess(userId, organizationId);
 
-    // TODO: Сохранять историю в БД
-    // Пока возвращаем из active runs
-    const runs = Array.from(this.activePayrollRuns.values())
-      .filter((run) => run.organizationId === organizationId)
-      .map((run) => ({
-        id: run.id,
-        runDate: run.createdAt,
-        period: `${run.period.start.toISOString().split("T")[0]} - ${run.period.end.toISOString().split("T")[0]}`,
-        totalEmployees: run.summary?.totals.employeeCount || 0,
-        totalHours: run.summary?.totals.totalHours || 0,
-        totalGross: run.summary?.totals.totalGross || 0,
-        currency: "USD", // TODO: из организации
-        status: run.status,
-      }));
+    const runs = await this.prisma.payrollRun.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return runs.map((run) => ({
+      id: run.id,
+      runDate: run.createdAt,
+      period: this.getPeriodName({
+        start: run.periodStart,
+        end: run.periodEnd,
+      }),
+      totalEmployees: run.employeeCount,
+      totalHours: run.totalHours,
+      totalGross: run.totalGross,
+      totalNet: run.totalNet,
+      currency: run.currency,
+      status: run.status.toLowerCase(),
+      approvalStatus: run.approvalStatus.toLowerCase(),
+    }));
+  }
+
+  /**
+   * Утвержденный расчет только с позицией сотрудника — для его расчетного листка
+   */
+  async getEmployeeRun(
+    userId: string,
+    runId: string,
+  ): Promise<PayrollRunResponseDto> {
+    const run = await this.prisma.payrollRun.findFirst({
+      where: {
+        id: runId,
+        approvalStatus: {
+          in: [PayrollApprovalStatus.APPROVED, PayrollApprovalStatus.PAID],
+        },
+      },
+      include: {
+        organization: true,
+        items: { where: { userId } },
+        adjustments: { where: { userId }, orderBy: { createdAt: "asc" } },
+      },
+    });
+    if (!run || run.items.length === 0) {
+      throw new EntityNotFoundException("Payslip", runId);
+    }
+
+    return this.mapToRunResponse(run);
+  }
 
-    return runs;
+  // ==================== УДЕРЖАНИЯ И КОРРЕКТИРОВКИ ====================
+
+  /**
+   * Создать регулярное удержание участника
+   */
+  async createDeduction(
+    userId: string,
+    dto: CreatePayrollDeductionDto,
+    client?: ClientInfo,
+  ): Promise<PayrollDeductionResponseDto> {
+    await this.validatePayrollAccess(userId, dto.organizationId);
+
+    const member = await this.prisma.organizationMember.findFirst({
+      where: {
+        organizationId: dto.organizationId,
+        userId: dto.userId,
+        is_current: true,
+      },
+      select: { id: true },
+    });
+    if (!member) {
+      throw new EntityNotFoundException("Member", dto.userId);
+    }
+
+    if (dto.amount <= 0) {
+      throw new ValidationException("Deduction amount must be positive");
+    }
+    if (dto.type === PayrollDeductionType.PERCENTAGE && dto.amount > 100) {
+      throw new ValidationException("Deduction percentage cannot exceed 100");
+    }
+    if (dto.startDate && dto.endDate && dto.endDate < dto.startDate) {
+      throw new ValidationException("End date must be after start date");
+    }
+
+    const deduction = await this.prisma.payrollDeduction.create({
+      data: {
+        organizationId: dto.organizationId,
+        userId: dto.userId,
+        type: dto.type,
+        amount: dto.amount,
+        reason: dto.reason,
+        startDate: dto.startDate,
+        endDate: dto.endDate,
+        createdById: userId,
+      },
+    });
+
+    await this.auditService.record({
+      organizationId: deduction.organizationId,
+      actorId: userId,
+      action: AuditAction.PAYROLL_DEDUCTION_CREATED,
+      entityType: "PayrollDeduction",
+      entityId: deduction.id,
+      after: {
+        userId: deduction.userId,
+        type: deduction.type,
+        amount: deduction.amount,
+        reason: deduction.reason,
+        startDate: deduction.startDate,
+        endDate: deduction.endDate,
+      },
+      client,
+    });
+
+    this.logger.log(
+      `Deduction ${deduction.id} created for user ${dto.userId} by ${userId}`,
+    );
+
+    return this.mapToDeductionResponse(deduction);
+  }
+
+  async getDeductions(
+    userId: string,
+    filter: PayrollDeductionFilterDto,
+  ): Promise<PayrollDeductionResponseDto[]> {
+    await this.validatePayrollAccess(userId, filter.organizationId);
+
+    const deductions = await this.prisma.payrollDeduction.findMany({
+      where: {
+        organizationId: filter.organizationId,
+        ...(filter.userId && { userId: filter.userId }),
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return deductions.map((d) => this.mapToDeductionResponse(d));
+  }
+
+  /**
+   * Отключить регулярное удержание (запись остается для уже выполненных расчетов)
+   */
+  async deactivateDeduction(
+    userId: string,
+    deductionId: string,
+    client?: ClientInfo,
+  ): Promise<PayrollDeductionResponseDto> {
+    const deduction = await this.prisma.payrollDeduction.findUnique({
+      where: { id: deductionId },
+    });
+    if (!deduction) {
+      throw new EntityNotFoundException("Payroll deduction", deductionId);
+    }
+
+    await this.validatePayrollAccess(userId, deduction.organizationId);
+
+    const updated = await this.prisma.payrollDeduction.update({
+      where: { id: deductionId },
+      data: { isActive: false, endDate: deduction.endDate ?? new Date() },
+    });
+
+    await this.auditService.recordChange({
+      organizationId: deduction.organizationId,
+      actorId: userId,
+      action: AuditAction.PAYROLL_DEDUCTION_DEACTIVATED,
+      entityType: "PayrollDeduction",
+      entityId: deductionId,
+      before: deduction,
+      after: updated,
+      fields: ["isActive", "endDate"],
+      client,
+    });
+
+    return this.mapToDeductionResponse(updated);
+  }
+
+  /**
+   * Добавить премию, удержание или корректировку в выполненный расчет
+   */
+  async addAdjustment(
+    userId: string,
+    runId: string,
+    dto: CreatePayrollAdjustmentDto,
+    client?: ClientInfo,
+  ): Promise<PayrollAdjustmentResponseDto> {
+    const run = await this.getAdjustableRun(userId, runId);
+
+    if (dto.type !== PayrollAdjustmentType.ADJUSTMENT && dto.amount <= 0) {
+      throw new ValidationException(
+        "Bonus and deduction amounts must be positive",
+      );
+    }
+    if (dto.amount === 0) {
+      throw new ValidationException("Adjustment amount cannot be zero");
+    }
+
+    const item = await this.prisma.payrollRunItem.findUnique({
+      where: { runId_userId: { runId: run.id, userId: dto.userId } },
+      select: { id: true },
+    });
+    if (!item) {
+      throw new EntityNotFoundException("Payroll run item", dto.userId);
+    }
+
+    const adjustment = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.payrollAdjustment.create({
+        data: {
+          runId: run.id,
+          userId: dto.userId,
+          type: dto.type,
+          amount: dto.amount,
+          reason: dto.reason,
+          createdById: userId,
+        },
+      });
+      await this.recalculateNetPay(tx, run.id, dto.userId);
+      return created;
+    });
+
+    await this.auditService.record({
+      organizationId: run.organizationId,
+      actorId: userId,
+      action: AuditAction.PAYROLL_ADJUSTMENT_ADDED,
+      entityType: "PayrollAdjustment",
+      entityId: adjustment.id,
+      after: {
+        runId: run.id,
+        userId: adjustment.userId,
+        type: adjustment.type,
+        amount: adjustment.amount,
+        reason: adjustment.reason,
+      },
+      client,
+    });
+
+    this.logger.log(
+      `${dto.type} of ${dto.amount} added to payroll run ${runId} for user ${dto.userId} by ${userId}`,
+    );
+
+    return this.mapToAdjustmentResponse(adjustment);
+  }
+
+  async removeAdjustment(
+    userId: string,
+    runId: string,
+    adjustmentId: string,
+    client?: ClientInfo,
+  ): Promise<void> {
+    const run = await this.getAdjustableRun(userId, runId);
+
+    const adjustment = await this.prisma.payrollAdjustment.findFirst({
+      where: { id: adjustmentId, runId: run.id },
+    });
+    if (!adjustment) {
+      throw new EntityNotFoundException("Payroll adjustment", adjustmentId);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.payrollAdjustment.delete({ where: { id: adjustmentId } });
+      await this.recalculateNetPay(tx, run.id, adjustment.userId);
+    });
+
+    await this.auditService.record({
+      organizationId: run.organizationId,
+      actorId: userId,
+      action: AuditAction.PAYROLL_ADJUSTMENT_REMOVED,
+      entityType: "PayrollAdjustment",
+      entityId: adjustmentId,
+      before: {
+        runId: run.id,
+        userId: adjustment.userId,
+        type: adjustment.type,
+        amount: adjustment.amount,
+        reason: adjustment.reason,
+      },
+      client,
+    });
+  }
+
+  // ==================== УТВЕРЖДЕНИЕ И ВЫПЛАТА ====================
+
+  /**
+   * Утвердить расчет. Если в организации требуется второе утверждение,
+   * первый голос только фиксируется. Окончательное утверждение блокирует
+   * записи времени за период через LockedPeriod
+   */
+  async approvePayrollRun(
+    userId: string,
+    runId: string,
+    client?: ClientInfo,
+  ): Promise<PayrollRunResponseDto> {
+    const run = await this.prisma.payrollRun.findUnique({
+      where: { id: runId },
+      include: { organization: true },
+    });
+    if (!run) {
+      throw new EntityNotFoundException("Payroll run", runId);
+    }
+
+    await this.validatePayrollAccess(userId, run.organizationId);
+
+    if (run.status !== PayrollRunStatus.COMPLETED) {
+      throw new InvalidOperationException(
+        "Only a completed payroll run can be approved",
+      );
+    }
+    if (run.approvalStatus !== PayrollApprovalStatus.DRAFT) {
+      throw new InvalidOperationException("Payroll run is already approved");
+    }
+
+    const requiresSecondApproval = run.organization.payrollSecondApproval;
+    const now = new Date();
+
+    if (requiresSecondApproval && !run.approvedById) {
+      await this.prisma.payrollRun.update({
+        where: { id: runId },
+        data: { approvedById: userId, approvedAt: now },
+      });
+
+      await this.auditService.record({
+        organizationId: run.organizationId,
+        actorId: userId,
+        action: AuditAction.PAYROLL_RUN_APPROVED,
+        entityType: "PayrollRun",
+        entityId: runId,
+        before: { approvalStatus: run.approvalStatus },
+        after: { approvalStatus: run.approvalStatus, firstApproval: true },
+        client,
+      });
+
+      this.logger.log(
+        `Payroll run ${runId} approved by ${userId}, awaiting second approval`,
+      );
+      return this.getPayrollStatus(runId, userId);
+    }
+
+    if (requiresSecondApproval && run.approvedById === userId) {
+      throw new InvalidOperationException(
+        "The second approval must come from a different user",
+      );
+    }
+
+    const lockedPeriod = await this.approvalService.lockPeriod(
+      run.organizationId,
+      userId,
+      {
+        startDate: run.periodStart,
+        endDate: run.periodEnd,
+        reason: `Payroll run ${runId}`,
+      },
+      client,
+    );
+
+    await this.prisma.payrollRun.update({
+      where: { id: runId },
+      data: {
+        approvalStatus: PayrollApprovalStatus.APPROVED,
+        lockedPeriodId: lockedPeriod.id,
+        ...(run.approvedById && run.approvedById !== userId
+          ? { secondApprovedById: userId, secondApprovedAt: now }
+          : { approvedById: userId, approvedAt: now }),
+      },
+    });
+
+    await this.auditService.record({
+      organizationId: run.organizationId,
+      actorId: userId,
+      action: AuditAction.PAYROLL_RUN_APPROVED,
+      entityType: "PayrollRun",
+      entityId: runId,
+      before: { approvalStatus: run.approvalStatus },
+      after: {
+        approvalStatus: PayrollApprovalStatus.APPROVED,
+        lockedPeriodId: lockedPeriod.id,
+      },
+      client,
+    });
+
+    this.logger.log(
+      `Payroll run ${runId} approved by ${userId}, period locked (${lockedPeriod.id})`,
+    );
+
+    return this.getPayrollStatus(runId, userId);
+  }
+
+  /**
+   * Отметить выплату сотруднику по утвержденному расчету
+   */
+  async updateItemPayment(
+    userId: string,
+    runId: string,
+    memberId: string,
+    dto: UpdatePayrollPaymentDto,
+    client?: ClientInfo,
+  ): Promise<PayrollRunResponseDto> {
+    const run = await this.getPayableRun(userId, runId);
+
+    const item = await this.prisma.payrollRunItem.findUnique({
+      where: { runId_userId: { runId: run.id, userId: memberId } },
+      select: {
+        id: true,
+        paymentStatus: true,
+        paidAt: true,
+        paymentReference: true,
+      },
+    });
+    if (!item) {
+      throw new EntityNotFoundException("Payroll run item", memberId);
+    }
+
+    const paid = dto.status === PayrollPaymentStatus.PAID;
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const result = await tx.payrollRunItem.update({
+        where: { id: item.id },
+        data: {
+          paymentStatus: dto.status,
+          paidAt: paid ? new Date() : null,
+          paymentReference: dto.reference ?? null,
+        },
+      });
+      await this.completeRunIfPaid(tx, run.id);
+      return result;
+    });
+
+    await this.auditService.recordChange({
+      organizationId: run.organizationId,
+      actorId: userId,
+      action: AuditAction.PAYROLL_PAYMENT_UPDATED,
+      entityType: "PayrollRunItem",
+      entityId: item.id,
+      before: { runId: run.id, userId: memberId, ...item },
+      after: { runId: run.id, userId: memberId, ...updated },
+      fields: ["paymentStatus", "paidAt", "paymentReference"],
+      client,
+    });
+
+    this.logger.log(
+      `Payroll run ${runId} payment for user ${memberId} marked ${dto.status} by ${userId}`,
+    );
+
+    return this.getPayrollStatus(runId, userId);
+  }
+
+  /**
+   * Отметить выплаченными все ожидающие выплаты по расчету.
+   * Неудачные переводы нужно подтверждать по одному
+   */
+  async markRunPaid(
+    userId: string,
+    runId: string,
+    dto: MarkPayrollRunPaidDto,
+    client?: ClientInfo,
+  ): Promise<PayrollRunResponseDto> {
+    const run = await this.getPayableRun(userId, runId);
+
+    const { count } = await this.prisma.$transaction(async (tx) => {
+      const result = await tx.payrollRunItem.updateMany({
+        where: { runId: run.id, paymentStatus: PayrollPaymentStatus.PENDING },
+        data: {
+          paymentStatus: PayrollPaymentStatus.PAID,
+          paidAt: new Date(),
+          paymentReference: dto.reference,
+        },
+      });
+      await this.completeRunIfPaid(tx, run.id);
+      return result;
+    });
+
+    await this.auditService.record({
+      organizationId: run.organizationId,
+      actorId: userId,
+      action: AuditAction.PAYROLL_RUN_PAID,
+      entityType: "PayrollRun",
+      entityId: run.id,
+      after: { paidItems: count, paymentReference: dto.reference },
+      client,
+    });
+
+    this.logger.log(`Pending payments of payroll run ${runId} marked paid`);
+
+    return this.getPayrollStatus(runId, userId);
   }
 
   // ==================== ПРИВАТНЫЕ МЕТОДЫ ====================
@@ -209,6 +823,83 @@ export class PayrollService {
     return `${startStr} - ${endStr}`;
   }
 
+  private async buildPayrollSummary(
+    organization: Organization,
+    period: { start: Date; end: Date },
+    specificUserId?: string,
+    adjustments: PayrollAdjustment[] = [],
+  ): Promise<PayrollSummaryDto> {
+    // 1. Получаем всех активных сотрудников организации
+    const members = await this.getActiveMembers(
+      organization.id,
+      specificUserId,
+    );
+
+    if (members.length === 0) {
+      throw new InvalidOperationException(
+        "No active members found for payroll calculation",
+      );
+    }
+
+    // 2. Получаем time entries за период
+    const timeEntries = await this.getTimeEntries(
+      members.map((m) => m.userId),
+      period.start,
+      period.end,
+    );
+
+    const holidays = await this.prisma.holiday.findMany({
+      where: { organizationId: organization.id },
+      select: { date: true, recurring: true },
+    });
+
+    // Ставки по датам записей, а не текущая ставка участника
+    const rateAt = await this.memberRatesService.getRateLookup(
+      organization.id,
+      members.map((m) => m.userId),
+    );
+
+    // Регулярные удержания, действующие в периоде
+    const deductions = await this.prisma.payrollDeduction.findMany({
+      where: {
+        organizationId: organization.id,
+        userId: { in: members.map((m) => m.userId) },
+        isActive: true,
+        startDate: { lte: period.end },
+        OR: [{ endDate: null }, { endDate: { gte: period.start } }],
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    // 3. Группируем по пользователям и считаем зарплату
+    const items = await this.calculatePayrollItems(members, timeEntries, {
+      rules: this.getOvertimeRules(organization),
+      holidays,
+      currency: organization.currency,
+      rateAt,
+      periodEnd: period.end,
+      deductions,
+      adjustments,
+    });
+
+    // 4. Считаем итоги
+    const totals = this.calculateTotals(items);
+
+    return {
+      period: {
+        start: period.start,
+        end: period.end,
+        name: this.getPeriodName(period),
+      },
+      items,
+      totals,
+      organizationId: organization.id,
+      organizationName: organization.name,
+      currency: organization.currency,
+      generatedAt: new Date(),
+    };
+  }
+
   private async getOrganization(userId: string, organizationId?: string) {
     if (organizationId) {
       const org = await this.prisma.organization.findUnique({
@@ -226,6 +917,7 @@ export class PayrollService {
         userId,
         role: { in: ["OWNER", "ADMIN"] },
         status: "ACTIVE",
+        is_current: true,
       },
       include: {
         organization: true,
@@ -287,6 +979,7 @@ export class PayrollService {
       select: {
         id: true,
         userId: true,
+        startTime: true,
         duration: true,
       },
     });
@@ -294,10 +987,33 @@ export class PayrollService {
     return entries;
   }
 
+  private getOvertimeRules(organization: Organization): OvertimeRules {
+    return {
+      weeklyThreshold: organization.overtimeWeeklyThreshold,
+      dailyThreshold: organization.overtimeDailyThreshold,
+      overtimeMultiplier: organization.overtimeMultiplier,
+      doubleTimeDailyThreshold: organization.doubleTimeDailyThreshold,
+      doubleTimeMultiplier: organization.doubleTimeMultiplier,
+      weekendMultiplier: organization.weekendMultiplier,
+      holidayMultiplier: organization.holidayMultiplier,
+      timezone: organization.timezone,
+    };
+  }
+
   private async calculatePayrollItems(
     members: any[],
     timeEntries: any[],
+    options: {
+      rules: OvertimeRules;
+      holidays: { date: Date; recurring: boolean }[];
+      currency: string;
+      rateAt: MemberRateLookup;
+      periodEnd: Date;
+      deductions: PayrollDeduction[];
+      adjustments: PayrollAdjustment[];
+    },
   ): Promise<PayrollItemDto[]> {
+    const { rules, holidays, currency, rateAt, periodEnd } = options;
     const items: PayrollItemDto[] = [];
 
     for (const member of members) {
@@ -307,8 +1023,24 @@ export class PayrollService {
         0,
       );
       const totalHours = totalSeconds / 3600;
-      const hourlyRate = member.hourlyRate || 0;
-      const grossPay = totalHours * hourlyRate;
+      const hourlyRate = rateAt(member.userId, periodEnd);
+
+      const payableEntries = userEntries.map((e) => ({
+        startTime: e.startTime,
+        duration: e.duration || 0,
+        hourlyRate: rateAt(member.userId, e.startTime),
+      }));
+      const breakdown = calculateOvertime(payableEntries, rules, holidays);
+      const grossPay =
+        breakdown.regularPay + breakdown.overtimePay + breakdown.doubleTimePay;
+
+      const recurringDeductions = applyRecurringDeductions(
+        grossPay,
+        options.deductions.filter((d) => d.userId === member.userId),
+      );
+      const runAdjustments = options.adjustments.filter(
+        (a) => a.userId === member.userId,
+      );
 
       items.push({
         userId: member.user.id,
@@ -316,9 +1048,20 @@ export class PayrollService {
         totalSeconds,
         totalHours,
         hourlyRate,
-        currency: "USD", // TODO: из организации
+        currency,
+        regularHours: breakdown.regularSeconds / 3600,
+        overtimeHours: breakdown.overtimeSeconds / 3600,
+        doubleTimeHours: breakdown.doubleTimeSeconds / 3600,
+        regularPay: breakdown.regularPay,
+        overtimePay: breakdown.overtimePay,
+        doubleTimePay: breakdown.doubleTimePay,
+        rates: this.groupHoursByRate(payableEntries),
         grossPay,
-        netPay: grossPay, // Пока без вычетов
+        ...calculateNetPay(grossPay, recurringDeductions, runAdjustments),
+        recurringDeductions,
+        runAdjustments: runAdjustments.map((a) =>
+          this.mapToAdjustmentResponse(a),
+        ),
         timeEntriesCount: userEntries.length,
         timeEntryIds: userEntries.map((e) => e.id),
       });
@@ -327,22 +1070,41 @@ export class PayrollService {
     return items;
   }
 
+  private groupHoursByRate(
+    entries: { duration: number; hourlyRate: number }[],
+  ): PayrollRateDto[] {
+    const secondsByRate = new Map<number, number>();
+    for (const entry of entries) {
+      secondsByRate.set(
+        entry.hourlyRate,
+        (secondsByRate.get(entry.hourlyRate) ?? 0) + entry.duration,
+      );
+    }
+
+    return Array.from(secondsByRate, ([hourlyRate, seconds]) => ({
+      hourlyRate,
+      hours: seconds / 3600,
+    }));
+  }
+
   private calculateTotals(items: PayrollItemDto[]) {
     return {
       totalHours: items.reduce((sum, i) => sum + i.totalHours, 0),
       totalGross: items.reduce((sum, i) => sum + i.grossPay, 0),
+      totalBonus: items.reduce((sum, i) => sum + i.bonus, 0),
+      totalDeductions: items.reduce((sum, i) => sum + i.deductions, 0),
+      totalAdjustments: items.reduce((sum, i) => sum + i.adjustments, 0),
       totalNet: items.reduce((sum, i) => sum + i.netPay, 0),
       employeeCount: items.length,
     };
   }
 
   private async validatePayrollAccess(userId: string, organizationId: string) {
-    const member = await this.prisma.organizationMember.findUnique({
+    const member = await this.prisma.organizationMember.findFirst({
       where: {
-        organizationId_userId: {
-          organizationId,
-          userId,
-        },
+        organizationId,
+        userId,
+        is_current: true,
       },
     });
 
@@ -360,39 +1122,229 @@ export class PayrollService {
     }
   }
 
-  private async processPayrollRun(
+  private async markRunFailed(runId: string, message: string) {
+    await this.prisma.payrollRun.update({
+      where: { id: runId },
+      data: {
+        status: PayrollRunStatus.FAILED,
+        error: message,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Расчет, в который еще можно вносить корректировки
+   */
+  private async getAdjustableRun(userId: string, runId: string) {
+    const run = await this.prisma.payrollRun.findUnique({
+      where: { id: runId },
+    });
+    if (!run) {
+      throw new EntityNotFoundException("Payroll run", runId);
+    }
+
+    await this.validatePayrollAccess(userId, run.organizationId);
+
+    if (run.status !== PayrollRunStatus.COMPLETED) {
+      throw new InvalidOperationException(
+        "Adjustments can only be changed on a completed payroll run",
+      );
+    }
+    if (run.approvalStatus !== PayrollApprovalStatus.DRAFT) {
+      throw new InvalidOperationException(
+        "Adjustments cannot be changed after the payroll run is approved",
+      );
+    }
+
+    return run;
+  }
+
+  /**
+   * Утвержденный расчет, по которому отмечаются выплаты
+   */
+  private async getPayableRun(userId: string, runId: string) {
+    const run = await this.prisma.payrollRun.findUnique({
+      where: { id: runId },
+    });
+    if (!run) {
+      throw new EntityNotFoundException("Payroll run", runId);
+    }
+
+    await this.validatePayrollAccess(userId, run.organizationId);
+
+    if (run.approvalStatus !== PayrollApprovalStatus.APPROVED) {
+      throw new InvalidOperationException(
+        run.approvalStatus === PayrollApprovalStatus.PAID
+          ? "Payroll run is already paid"
+          : "Payroll run must be approved before payments are recorded",
+      );
+    }
+
+    return run;
+  }
+
+  /**
+   * Расчет считается выплаченным, когда выплачены все позиции с суммой к выплате
+   */
+  private async completeRunIfPaid(tx: Prisma.TransactionClient, runId: string) {
+    const unpaid = await tx.payrollRunItem.count({
+      where: {
+        runId,
+        netPay: { gt: 0 },
+        paymentStatus: { not: PayrollPaymentStatus.PAID },
+      },
+    });
+    if (unpaid > 0) return;
+
+    await tx.payrollRun.update({
+      where: { id: runId },
+      data: { approvalStatus: PayrollApprovalStatus.PAID, paidAt: new Date() },
+    });
+  }
+
+  /**
+   * Пересчитать выплату участника и итоги расчета после изменения корректировок
+   */
+  private async recalculateNetPay(
+    tx: Prisma.TransactionClient,
     runId: string,
     userId: string,
-    dto: PayrollRunDto,
   ) {
-    // Обновляем статус на processing
-    const run = this.activePayrollRuns.get(runId);
-    if (run) {
-      run.status = "processing";
-      this.activePayrollRuns.set(runId, run);
-    }
+    const item = await tx.payrollRunItem.findUniqueOrThrow({
+      where: { runId_userId: { runId, userId } },
+    });
+    const adjustments = await tx.payrollAdjustment.findMany({
+      where: { runId, userId },
+    });
 
-    try {
-      // Рассчитываем payroll
-      const summary = await this.calculatePayroll(userId, dto);
-
-      // Обновляем результат
-      if (run) {
-        run.status = "completed";
-        run.summary = summary;
-        run.completedAt = new Date();
-        this.activePayrollRuns.set(runId, run);
-      }
+    const net = calculateNetPay(
+      item.grossPay,
+      (item.recurringDeductions as unknown as RecurringDeductionLine[]) ?? [],
+      adjustments,
+    );
+    await tx.payrollRunItem.update({ where: { id: item.id }, data: net });
 
-      // TODO: Сохранить в БД историю
-      this.logger.log(`Payroll run ${runId} completed successfully`);
-    } catch (error) {
-      if (run) {
-        run.status = "failed";
-        run.error = error.message;
-        this.activePayrollRuns.set(runId, run);
-      }
-      this.logger.error(`Payroll run ${runId} failed: ${error.message}`);
-    }
+    const { _sum } = await tx.payrollRunItem.aggregate({
+      where: { runId },
+      _sum: { bonus: true, deductions: true, adjustments: true, netPay: true },
+    });
+    await tx.payrollRun.update({
+      where: { id: runId },
+      data: {
+        totalBonus: _sum.bonus ?? 0,
+        totalDeductions: _sum.deductions ?? 0,
+        totalAdjustments: _sum.adjustments ?? 0,
+        totalNet: _sum.netPay ?? 0,
+        // Суммы изменились — первое утверждение нужно получить заново
+        approvedById: null,
+        approvedAt: null,
+      },
+    });
+  }
+
+  private mapToDeductionResponse(
+    deduction: PayrollDeduction,
+  ): PayrollDeductionResponseDto {
+    return {
+      id: deduction.id,
+      organizationId: deduction.organizationId,
+      userId: deduction.userId,
+      type: deduction.type,
+      amount: deduction.amount,
+      reason: deduction.reason,
+      startDate: deduction.startDate,
+      endDate: deduction.endDate,
+      isActive: deduction.isActive,
+      createdById: deduction.createdById,
+      createdAt: deduction.createdAt,
+    };
+  }
+
+  private mapToAdjustmentResponse(
+    adjustment: PayrollAdjustment,
+  ): PayrollAdjustmentResponseDto {
+    return {
+      id: adjustment.id,
+      userId: adjustment.userId,
+      type: adjustment.type,
+      amount: adjustment.amount,
+      reason: adjustment.reason,
+      createdById: adjustment.createdById,
+      createdAt: adjustment.createdAt,
+    };
+  }
+
+  private mapToRunResponse(run: PayrollRunWithDetails): PayrollRunResponseDto {
+    const period = { start: run.periodStart, end: run.periodEnd };
+
+    return {
+      id: run.id,
+      status: run.status.toLowerCase() as PayrollRunResponseDto["status"],
+      organizationId: run.organizationId,
+      period,
+      approvalStatus:
+        run.approvalStatus.toLowerCase() as PayrollRunResponseDto["approvalStatus"],
+      requiresSecondApproval: run.organization.payrollSecondApproval,
+      approvedById: run.approvedById ?? undefined,
+      approvedAt: run.approvedAt ?? undefined,
+      secondApprovedById: run.secondApprovedById ?? undefined,
+      secondApprovedAt: run.secondApprovedAt ?? undefined,
+      paidAt: run.paidAt ?? undefined,
+      lockedPeriodId: run.lockedPeriodId ?? undefined,
+      summary:
+        run.status === PayrollRunStatus.COMPLETED
+          ? {
+              period: { ...period, name: this.getPeriodName(period) },
+              items: run.items.map((item) => ({
+                userId: item.userId,
+                userName: item.userName,
+                totalSeconds: item.totalSeconds,
+                totalHours: item.totalHours,
+                hourlyRate: item.hourlyRate,
+                currency: item.currency,
+                regularHours: item.regularHours,
+                overtimeHours: item.overtimeHours,
+                doubleTimeHours: item.doubleTimeHours,
+                regularPay: item.regularPay,
+                overtimePay: item.overtimePay,
+                doubleTimePay: item.doubleTimePay,
+                grossPay: item.grossPay,
+                bonus: item.bonus,
+                deductions: item.deductions,
+                adjustments: item.adjustments,
+                netPay: item.netPay,
+                recurringDeductions:
+                  (item.recurringDeductions as unknown as RecurringDeductionLine[]) ??
+                  [],
+                runAdjustments: run.adjustments
+                  .filter((a) => a.userId === item.userId)
+                  .map((a) => this.mapToAdjustmentResponse(a)),
+                timeEntriesCount: item.timeEntriesCount,
+                timeEntryIds: item.timeEntryIds,
+                rates: (item.rates as unknown as PayrollRateDto[]) ?? [],
+                paymentStatus: item.paymentStatus,
+                paidAt: item.paidAt,
+                paymentReference: item.paymentReference,
+              })),
+              totals: {
+                totalHours: run.totalHours,
+                totalGross: run.totalGross,
+                totalBonus: run.totalBonus,
+                totalDeductions: run.totalDeductions,
+                totalAdjustments: run.totalAdjustments,
+                totalNet: run.totalNet,
+                employeeCount: run.employeeCount,
+              },
+              organizationId: run.organizationId,
+              organizationName: run.organization.name,
+              currency: run.currency,
+              generatedAt: run.completedAt ?? run.createdAt,
+            }
+          : undefined,
+      createdAt: run.createdAt,
+      completedAt: run.completedAt ?? undefined,
+      error: run.error ?? undefined,
+    };
   }
 }
@@ -0,0 +1,85 @@
+import { PayrollAdjustmentType, PayrollDeductionType } from "@prisma/client";
+import { payslipEarnings, renderPayslipPdf } from "./payslip.renderer";
+import { PayrollItemDto } from "./dto/payroll.dto";
+
+describe("renderPayslipPdf", () => {
+  it("renders a PDF document for a payroll item", async () => {
+    const pdf = await renderPayslipPdf({
+      organizationName: "Acme Inc.",
+      period: {
+        start: new Date("2026-10-01T00:00:00Z"),
+        end: new Date("2026-10-31T23:59:59Z"),
+        name: "2026-10-01 - 2026-10-31",
+      },
+      item: {
+        userId: "11111111-1111-4111-8111-111111111111",
+        userName: "Anna Smith",
+        totalSeconds: 45 * 3600,
+        totalHours: 45,
+        hourlyRate: 20,
+        currency: "EUR",
+        regularHours: 40,
+        overtimeHours: 5,
+        doubleTimeHours: 0,
+        regularPay: 800,
+        overtimePay: 150,
+        doubleTimePay: 0,
+        rates: [{ hourlyRate: 20, hours: 45 }],
+        grossPay: 950,
+        bonus: 100,
+        deductions: 95,
+        adjustments: 0,
+        netPay: 955,
+        recurringDeductions: [
+          {
+            deductionId: "d1",
+            type: PayrollDeductionType.PERCENTAGE,
+            rate: 10,
+            amount: 95,
+            reason: "Pension",
+            createdById: "u1",
+          },
+        ],
+        runAdjustments: [
+          {
+            id: "a1",
+            userId: "11111111-1111-4111-8111-111111111111",
+            type: PayrollAdjustmentType.BONUS,
+            amount: 100,
+            reason: "Quarterly bonus",
+            createdById: "u1",
+            createdAt: new Date("2026-11-01T00:00:00Z"),
+          },
+        ],
+        timeEntriesCount: 12,
+      },
+    });
+
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(pdf.length).toBeGreaterThan(1000);
+  });
+
+  it("lists earnings once so that the rows add up to gross pay", () => {
+    const item = {
+      regularHours: 40,
+      overtimeHours: 5,
+      doubleTimeHours: 0,
+      regularPay: 800,
+      overtimePay: 150,
+      doubleTimePay: 0,
+      rates: [
+        { hourlyRate: 20, hours: 30 },
+        { hourlyRate: 20, hours: 15 },
+      ],
+      grossPay: 950,
+    } as PayrollItemDto;
+
+    const rows = payslipEarnings(item);
+
+    expect(rows).toEqual([
+      { label: "Regular time", hours: 40, rate: 20, amount: 800 },
+      { label: "Overtime", hours: 5, rate: 30, amount: 150 },
+    ]);
+    expect(rows.reduce((sum, row) => sum + row.amount, 0)).toBe(item.grossPay);
+  });
+});
@@ -0,0 +1,165 @@
+// payroll/payslip.renderer.ts
+import PDFDocument from "pdfkit";
+import { PayrollAdjustmentType } from "@prisma/client";
+import { PayrollItemDto } from "./dto/payroll.dto";
+import { formatMoney } from "../common/utils/currency";
+
+export interface PayslipData {
+  organizationName: string;
+  period: { start: Date; end: Date; name: string };
+  item: PayrollItemDto;
+  generatedAt?: Date;
+}
+
+export interface PayslipEarningsRow {
+  label: string;
+  hours: number;
+  // Средняя ставка за час в строке; null — нет часов
+  rate: number | null;
+  amount: number;
+}
+
+const PAGE_MARGIN = 50;
+// Колонки таблиц: описание, часы, ставка, сумма
+const COLUMNS = [230, 80, 90, 95];
+
+/**
+ * Расчетный листок сотрудника за период в PDF
+ */
+export function renderPayslipPdf(data: PayslipData): Promise<Buffer> {
+  const { item } = data;
+  const currency = item.currency;
+  const money = (amount: number) => formatMoney(amount, currency);
+  const hours = (value: number) => value.toFixed(2);
+
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: PAGE_MARGIN,
+    info: {
+      Title: `Payslip ${item.userName} ${data.period.name}`,
+      Author: data.organizationName,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const result = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  // Шапка
+  doc.font("Helvetica-Bold").fontSize(18).text(data.organizationName);
+  doc.moveDown(0.3);
+  doc.font("Helvetica").fontSize(12).text("Payslip");
+  doc.moveDown();
+
+  doc.fontSize(10);
+  doc.text(`Employee: ${item.userName}`);
+  doc.text(`Period: ${data.period.name}`);
+  doc.text(`Currency: ${currency}`);
+  doc.text(
+    `Issued: ${(data.generatedAt ?? new Date()).toISOString().split("T")[0]}`,
+  );
+  doc.moveDown();
+
+  // Начисления
+  tableRow(doc, ["Earnings", "Hours", "Rate", "Amount"], true);
+  for (const row of payslipEarnings(item)) {
+    tableRow(doc, [
+      row.label,
+      hours(row.hours),
+      row.rate === null ? "" : money(row.rate),
+      money(row.amount),
+    ]);
+  }
+  tableRow(
+    doc,
+    ["Gross pay", hours(item.totalHours), "", money(item.grossPay)],
+    true,
+  );
+  if ((item.rates ?? []).length > 1) {
+    const rates = item.rates
+      .map((r) => `${money(r.hourlyRate)} x ${hours(r.hours)} h`)
+      .join(", ");
+    doc.moveDown(0.3);
+    doc.text(`Hourly rates in period: ${rates}`);
+  }
+  doc.moveDown();
+
+  // Премии и удержания
+  tableRow(doc, ["Bonuses and deductions", "", "", "Amount"], true);
+  for (const line of item.recurringDeductions ?? []) {
+    tableRow(doc, [line.reason, "", "", money(-line.amount)]);
+  }
+  for (const adjustment of item.runAdjustments ?? []) {
+    const sign = adjustment.type === PayrollAdjustmentType.DEDUCTION ? -1 : 1;
+    tableRow(doc, [adjustment.reason, "", "", money(sign * adjustment.amount)]);
+  }
+  tableRow(doc, ["Total bonuses", "", "", money(item.bonus)]);
+  tableRow(doc, ["Total deductions", "", "", money(-item.deductions)]);
+  if (item.adjustments !== 0) {
+    tableRow(doc, ["Total adjustments", "", "", money(item.adjustments)]);
+  }
+  doc.moveDown();
+
+  doc.font("Helvetica-Bold").fontSize(12);
+  tableRow(doc, ["Net pay", "", "", money(item.netPay)]);
+  doc.font("Helvetica").fontSize(10);
+
+  if (item.paymentStatus) {
+    doc.moveDown();
+    const paidAt = item.paidAt
+      ? ` on ${item.paidAt.toISOString().split("T")[0]}`
+      : "";
+    doc.text(`Payment status: ${item.paymentStatus.toLowerCase()}${paidAt}`);
+  }
+
+  doc.end();
+  return result;
+}
+
+/**
+ * Строки начислений: обычное время и переработки, в сумме дают Gross pay.
+ * Ставка в строке — средняя за час, при смене ставки в периоде ставки
+ * перечисляются под таблицей
+ */
+export function payslipEarnings(item: PayrollItemDto): PayslipEarningsRow[] {
+  const row = (label: string, hours: number, amount: number) => ({
+    label,
+    hours,
+    rate: hours > 0 ? amount / hours : null,
+    amount,
+  });
+
+  const rows = [row("Regular time", item.regularHours, item.regularPay)];
+  if (item.overtimeHours > 0) {
+    rows.push(row("Overtime", item.overtimeHours, item.overtimePay));
+  }
+  if (item.doubleTimeHours > 0) {
+    rows.push(row("Double time", item.doubleTimeHours, item.doubleTimePay));
+  }
+  return rows;
+}
+
+function tableRow(doc: PDFKit.PDFDocument, cells: string[], bold = false) {
+  const y = doc.y;
+  let x = PAGE_MARGIN;
+  let height = 0;
+
+  if (bold) doc.font("Helvetica-Bold");
+  cells.forEach((cell, index) => {
+    const options = {
+      width: COLUMNS[index],
+      align: index === 0 ? ("left" as const) : ("right" as const),
+    };
+    doc.text(cell, x, y, options);
+    height = Math.max(height, doc.heightOfString(cell, options));
+    x += COLUMNS[index];
+  });
+  if (bold) doc.font("Helvetica");
+
+  // Следующая строка — под самой высокой ячейкой
+  doc.x = PAGE_MARGIN;
+  doc.y = y + height + 2;
+}
@@ -0,0 +1,148 @@
+// payroll/payslip.service.ts
+import { Injectable, Logger } from "@nestjs/common";
+import { PayrollApprovalStatus } from "@prisma/client";
+import JSZip from "jszip";
+import { PrismaService } from "../prisma/prisma.service";
+import { PayrollService } from "./payroll.service";
+import { PayrollExportFile } from "./payroll-export.service";
+import { PayrollItemDto, PayrollSummaryDto } from "./dto/payroll.dto";
+import { PayslipDto } from "./dto/payslip.dto";
+import { renderPayslipPdf } from "./payslip.renderer";
+import { InvalidOperationException } from "../exceptions/business.exception";
+
+/**
+ * Расчетные листки сотрудников по сохраненным расчетам
+ */
+@Injectable()
+export class PayslipService {
+  private readonly logger = new Logger(PayslipService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly payrollService: PayrollService,
+  ) {}
+
+  /**
+   * Листки текущего пользователя; черновики расчетов не показываются
+   */
+  async getMyPayslips(userId: string): Promise<PayslipDto[]> {
+    const items = await this.prisma.payrollRunItem.findMany({
+      where: {
+        userId,
+        run: {
+          approvalStatus: {
+            in: [PayrollApprovalStatus.APPROVED, PayrollApprovalStatus.PAID],
+          },
+        },
+      },
+      include: {
+        run: {
+          include: { organization: { select: { name: true } } },
+        },
+      },
+      orderBy: { run: { periodStart: "desc" } },
+    });
+
+    return items.map((item) => ({
+      runId: item.runId,
+      organizationId: item.run.organizationId,
+      organizationName: item.run.organization.name,
+      periodStart: item.run.periodStart,
+      periodEnd: item.run.periodEnd,
+      currency: item.currency,
+      totalHours: item.totalHours,
+      grossPay: item.grossPay,
+      netPay: item.netPay,
+      paymentStatus: item.paymentStatus,
+      paidAt: item.paidAt,
+    }));
+  }
+
+  async getMyPayslip(
+    userId: string,
+    runId: string,
+  ): Promise<PayrollExportFile> {
+    const run = await this.payrollService.getEmployeeRun(userId, runId);
+    const summary = this.requireSummary(run.summary);
+
+    return {
+      filename: this.getFilename(summary, summary.items[0]),
+      contentType: "application/pdf",
+      content: await this.render(summary, summary.items[0]),
+    };
+  }
+
+  /**
+   * Все листки расчета одним архивом (для владельца и админов)
+   */
+  async getRunPayslipsZip(
+    userId: string,
+    runId: string,
+  ): Promise<PayrollExportFile> {
+    const run = await this.payrollService.getPayrollStatus(runId, userId);
+    const summary = this.requireSummary(run.summary);
+
+    const zip = new JSZip();
+    const usedNames = new Set<string>();
+    for (const item of summary.items) {
+      let filename = this.getFilename(summary, item);
+      if (usedNames.has(filename)) {
+        filename = filename.replace(
+          /\.pdf$/,
+          `-${item.userId.slice(0, 8)}.pdf`,
+        );
+      }
+      usedNames.add(filename);
+
+      zip.file(filename, await this.render(summary, item));
+    }
+
+    this.logger.log(
+      `Generated ${summary.items.length} payslip(s) for payroll run ${runId}`,
+    );
+
+    return {
+      filename: `payslips-${this.formatDate(summary.period.start)}-${runId.slice(0, 8)}.zip`,
+      contentType: "application/zip",
+      content: await zip.generateAsync({
+        type: "nodebuffer",
+        compression: "DEFLATE",
+      }),
+    };
+  }
+
+  // ==================== ПРИВАТНЫЕ МЕТОДЫ ====================
+
+  private requireSummary(summary?: PayrollSummaryDto): PayrollSummaryDto {
+    if (!summary) {
+      throw new InvalidOperationException(
+        "Payslips are available only for a completed payroll run",
+      );
+    }
+    return summary;
+  }
+
+  private render(summary: PayrollSummaryDto, item: PayrollItemDto) {
+    return renderPayslipPdf({
+      organizationName: summary.organizationName,
+      period: summary.period,
+      item,
+      generatedAt: summary.generatedAt,
+    });
+  }
+
+  private getFilename(summary: PayrollSummaryDto, item: PayrollItemDto) {
+    const name =
+      item.userName
+        .normalize("NFKD")
+        .replace(/[^\w]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .toLowerCase() || item.userId;
+
+    return `payslip-${this.formatDate(summary.period.start)}-${name}.pdf`;
+  }
+
+  private formatDate(date: Date) {
+    return date.toISOString().split("T")[0];
+  }
+}
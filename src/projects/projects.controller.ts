@@ -23,6 +23,10 @@ import {
 } from "@nestjs/swagger";
 import { JwtAuthGuard } from "@/auth/guards/jwt-auth.guard";
 import { GetUser } from "@/auth/decorators/get-user.decorator";
+import {
+  ClientInfo,
+  GetClientInfo,
+} from "@/audit/decorators/client-info.decorator";
 import { MemberRole, ProjectStatus } from "@prisma/client";
 import {
   CreateProjectDto,
@@ -169,8 +173,9 @@ export class ProjectsController {
     @Param("id", ParseUUIDPipe) projectId: string,
     @Body() dto: UpdateProjectDto,
     @GetUser("id") userId: string,
+    @GetClientInfo() client: ClientInfo,
   ): Promise<ProjectResponseDto> {
-    return this.projectsService.updateProject(projectId, dto, userId);
+    return this.projectsService.updateProject(projectId, dto, userId, client);
   }
 
   @Delete(":id")
@@ -197,8 +202,9 @@ export class ProjectsController {
   async deleteProject(
     @Param("id", ParseUUIDPipe) projectId: string,
     @GetUser("id") userId: string,
+    @GetClientInfo() client: ClientInfo,
   ): Promise<void> {
-    await this.projectsService.deleteProject(projectId, userId);
+    await this.projectsService.deleteProject(projectId, userId, client);
   }
 
   @Post(":id/members")
@@ -28,6 +28,9 @@ import {
   PermissionDeniedException,
   DuplicateEntityException,
 } from "../exceptions/business.exception";
+import { AuditService } from "../audit/audit.service";
+import { AuditAction } from "../audit/audit-actions";
+import { ClientInfo } from "../audit/decorators/client-info.decorator";
 
 @Injectable()
 export class ProjectsService {
@@ -86,7 +89,10 @@ export class ProjectsService {
     assignee: { select: this.userSelect },
   };
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
 
   // ==================== ПРИВАТНЫЕ МЕТОДЫ ВАЛИДАЦИИ ====================
 
@@ -273,12 +279,11 @@ export class ProjectsService {
 
     // 2. Проверяем права (только OWNER, ADMIN или MANAGER могут создавать проекты)
     // Для этого нужно проверить роль пользователя в организации
-    const member = await this.prisma.organizationMember.findUnique({
+    const member = await this.prisma.organizationMember.findFirst({
       where: {
-        organizationId_userId: {
-          organizationId: dto.organizationId,
-          userId: currentUserId,
-        },
+        organizationId: dto.organizationId,
+        userId: currentUserId,
+        is_current: true,
       },
     });
 
@@ -369,6 +374,7 @@ export class ProjectsService {
           some: {
             userId: currentUserId,
             status: MemberStatus.ACTIVE,
+            is_current: true,
           },
         },
       };
@@ -446,6 +452,7 @@ export class ProjectsService {
     projectId: string,
     dto: UpdateProjectDto,
     currentUserId: string,
+    client?: ClientInfo,
   ): Promise<ProjectResponseDto> {
     this.logger.log(`Updating project ${projectId} by user ${currentUserId}`);
 
@@ -497,6 +504,18 @@ export class ProjectsService {
         },
       });
 
+      await this.auditService.recordChange({
+        organizationId: project.organizationId,
+        actorId: currentUserId,
+        action: AuditAction.PROJECT_UPDATED,
+        entityType: "Project",
+        entityId: projectId,
+        before: project,
+        after: updatedProject,
+        fields: Object.keys(dto),
+        client,
+      });
+
       return this.mapToProjectResponse(updatedProject);
     } catch (error) {
       this.logger.error(
@@ -507,10 +526,14 @@ export class ProjectsService {
     }
   }
 
-  async deleteProject(projectId: string, currentUserId: string): Promise<void> {
+  async deleteProject(
+    projectId: string,
+    currentUserId: string,
+    client?: ClientInfo,
+  ): Promise<void> {
     this.logger.log(`Deleting project ${projectId} by user ${currentUserId}`);
 
-    await this.validateProjectExists(projectId);
+    const project = await this.validateProjectExists(projectId);
 
     await this.validateProjectAccess(projectId, currentUserId, [
       MemberRole.OWNER,
@@ -523,6 +546,22 @@ export class ProjectsService {
       });
 
       this.logger.log(`Project ${projectId} deleted successfully`);
+
+      await this.auditService.record({
+        organizationId: project.organizationId,
+        actorId: currentUserId,
+        action: AuditAction.PROJECT_DELETED,
+        entityType: "Project",
+        entityId: projectId,
+        before: {
+          name: project.name,
+          status: project.status,
+          billable: project.billable,
+          hourlyRate: project.hourlyRate,
+          clientId: project.clientId,
+        },
+        client,
+      });
     } catch (error) {
       this.logger.error(
         `Failed to delete project ${projectId}: ${error.message}`,
@@ -551,12 +590,11 @@ export class ProjectsService {
 
     await this.validateUserExists(dto.userId);
 
-    const organizationMember = await this.prisma.organizationMember.findUnique({
+    const organizationMember = await this.prisma.organizationMember.findFirst({
       where: {
-        organizationId_userId: {
-          organizationId: project.organizationId,
-          userId: dto.userId,
-        },
+        organizationId: project.organizationId,
+        userId: dto.userId,
+        is_current: true,
       },
 
       select: { status: true },
@@ -849,12 +887,11 @@ export class ProjectsService {
     organizationId: string,
     currentUserId: string,
   ): Promise<void> {
-    const member = await this.prisma.organizationMember.findUnique({
+    const member = await this.prisma.organizationMember.findFirst({
       where: {
-        organizationId_userId: {
-          organizationId,
-          userId: currentUserId,
-        },
+        organizationId,
+        userId: currentUserId,
+        is_current: true,
       },
       select: { status: true },
     });
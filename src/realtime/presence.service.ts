@@ -0,0 +1,68 @@
+// realtime/presence.service.ts
+import { Injectable } from "@nestjs/common";
+import { MemberStatus } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { PresenceEntry } from "./realtime.events";
+
+/**
+ * Список "кто сейчас работает" строится по открытым записям времени,
+ * поэтому он одинаков на всех инстансах API и переживает рестарты.
+ */
+@Injectable()
+export class PresenceService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getWorkingMembers(organizationId: string): Promise<PresenceEntry[]> {
+    const openEntries = await this.prisma.timeEntry.findMany({
+      where: {
+        endTime: null,
+        project: { organizationId },
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            avatar: true,
+          },
+        },
+        project: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { startTime: "asc" },
+    });
+
+    return openEntries.map((entry) => ({
+      userId: entry.user.id,
+      firstName: entry.user.firstName,
+      lastName: entry.user.lastName,
+      avatar: entry.user.avatar,
+      timeEntryId: entry.id,
+      projectId: entry.project.id,
+      projectName: entry.project.name,
+      taskId: entry.taskId,
+      startTime: entry.startTime,
+    }));
+  }
+
+  /**
+   * Организации, в комнаты которых подписывается пользователь
+   */
+  async getUserOrganizationIds(userId: string): Promise<string[]> {
+    const memberships = await this.prisma.organizationMember.findMany({
+      where: {
+        userId,
+        status: MemberStatus.ACTIVE,
+        is_current: true,
+      },
+      select: { organizationId: true },
+    });
+
+    return memberships.map((m) => m.organizationId);
+  }
+}
@@ -0,0 +1,58 @@
+// realtime/realtime.events.ts
+
+export const RealtimeEvent = {
+  TIMER_STARTED: "timer:started",
+  TIMER_STOPPED: "timer:stopped",
+  TIMER_SWITCHED: "timer:switched",
+  PRESENCE_LIST: "presence:list",
+  PRESENCE_UPDATED: "presence:updated",
+  PERIOD_LOCK_WARNING: "period:lock-warning",
+} as const;
+
+export type RealtimeEventName =
+  (typeof RealtimeEvent)[keyof typeof RealtimeEvent];
+
+export interface TimerEventPayload {
+  timeEntryId: string;
+  userId: string;
+  organizationId: string;
+  projectId: string;
+  taskId: string | null;
+  description: string | null;
+  startTime: Date;
+  endTime: Date | null;
+  duration: number | null;
+}
+
+export interface TimerSwitchedPayload {
+  previous: TimerEventPayload | null;
+  current: TimerEventPayload;
+}
+
+export interface PresenceEntry {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  avatar: string | null;
+  timeEntryId: string;
+  projectId: string;
+  projectName: string;
+  taskId: string | null;
+  startTime: Date;
+}
+
+export interface PresenceListPayload {
+  organizationId: string;
+  working: PresenceEntry[];
+}
+
+export interface PeriodLockWarningPayload {
+  organizationId: string;
+  ruleId: string;
+  startDate: Date;
+  endDate: Date;
+  lockAt: Date;
+}
+
+export const organizationRoom = (organizationId: string) =>
+  `org:${organizationId}`;
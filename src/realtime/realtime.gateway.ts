@@ -0,0 +1,212 @@
+// realtime/realtime.gateway.ts
+import { Logger } from "@nestjs/common";
+import { JwtService } from "@nestjs/jwt";
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+} from "@nestjs/websockets";
+import { Server, Socket } from "socket.io";
+import { PrismaService } from "../prisma/prisma.service";
+import { PresenceService } from "./presence.service";
+import {
+  PeriodLockWarningPayload,
+  PresenceListPayload,
+  RealtimeEvent,
+  TimerEventPayload,
+  TimerSwitchedPayload,
+  organizationRoom,
+} from "./realtime.events";
+
+interface SocketUser {
+  id: string;
+  organizationIds: string[];
+}
+
+@WebSocketGateway({
+  namespace: "/realtime",
+  cors: { origin: true, credentials: true },
+})
+export class RealtimeGateway
+  implements OnGatewayConnection, OnGatewayDisconnect
+{
+  private readonly logger = new Logger(RealtimeGateway.name);
+
+  @WebSocketServer()
+  server: Server;
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly prisma: PrismaService,
+    private readonly presenceService: PresenceService,
+  ) {}
+
+  // ==================== ПОДКЛЮЧЕНИЕ ====================
+
+  async handleConnection(client: Socket) {
+    try {
+      const token = this.extractToken(client);
+      if (!token) {
+        throw new Error("Missing token");
+      }
+
+      const payload = await this.jwtService.verifyAsync<{ sub: string }>(token);
+
+      const user = await this.prisma.user.findUnique({
+        where: { id: payload.sub },
+        select: { id: true, deletedAt: true },
+      });
+
+      if (!user || user.deletedAt) {
+        throw new Error("User not found");
+      }
+
+      const organizationIds = await this.presenceService.getUserOrganizationIds(
+        user.id,
+      );
+
+      client.data.user = { id: user.id, organizationIds } as SocketUser;
+      await client.join(organizationIds.map(organizationRoom));
+
+      // Сразу отдаем текущий список работающих по каждой организации
+      for (const organizationId of organizationIds) {
+        client.emit(
+          RealtimeEvent.PRESENCE_LIST,
+          await this.buildPresenceList(organizationId),
+        );
+      }
+
+      this.logger.log(
+        `Socket ${client.id} connected for user ${user.id} (${organizationIds.length} orgs)`,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Socket ${client.id} rejected: ${error.message ?? "unauthorized"}`,
+      );
+      client.emit("error", { message: "Unauthorized" });
+      client.disconnect(true);
+    }
+  }
+
+  handleDisconnect(client: Socket) {
+    const user = client.data.user as SocketUser | undefined;
+    if (user) {
+      this.logger.log(`Socket ${client.id} disconnected for user ${user.id}`);
+    }
+  }
+
+  @SubscribeMessage("presence:get")
+  async handlePresenceRequest(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { organizationId?: string },
+  ): Promise<PresenceListPayload | { error: string }> {
+    const user = client.data.user as SocketUser | undefined;
+    const organizationId = body?.organizationId;
+
+    if (!user || !organizationId) {
+      return { error: "organizationId is required" };
+    }
+
+    if (!user.organizationIds.includes(organizationId)) {
+      return { error: "You do not have access to this organization" };
+    }
+
+    return this.buildPresenceList(organizationId);
+  }
+
+  // ==================== РАССЫЛКА СОБЫТИЙ ====================
+
+  async emitTimerStarted(payload: TimerEventPayload) {
+    this.emitToOrganization(
+      payload.organizationId,
+      RealtimeEvent.TIMER_STARTED,
+      payload,
+    );
+    await this.emitPresenceUpdate(payload.organizationId);
+  }
+
+  async emitTimerStopped(payload: TimerEventPayload) {
+    this.emitToOrganization(
+      payload.organizationId,
+      RealtimeEvent.TIMER_STOPPED,
+      payload,
+    );
+    await this.emitPresenceUpdate(payload.organizationId);
+  }
+
+  async emitTimerSwitched(payload: TimerSwitchedPayload) {
+    const organizationIds = new Set([payload.current.organizationId]);
+    if (payload.previous) {
+      organizationIds.add(payload.previous.organizationId);
+    }
+
+    for (const organizationId of organizationIds) {
+      this.emitToOrganization(
+        organizationId,
+        RealtimeEvent.TIMER_SWITCHED,
+        payload,
+      );
+      await this.emitPresenceUpdate(organizationId);
+    }
+  }
+
+  /**
+   * Предупреждение участникам о скорой автоматической блокировке периода
+   */
+  emitPeriodLockWarning(payload: PeriodLockWarningPayload) {
+    this.emitToOrganization(
+      payload.organizationId,
+      RealtimeEvent.PERIOD_LOCK_WARNING,
+      payload,
+    );
+  }
+
+  // ==================== ПРИВАТНЫЕ МЕТОДЫ ====================
+
+  private async emitPresenceUpdate(organizationId: string) {
+    this.emitToOrganization(
+      organizationId,
+      RealtimeEvent.PRESENCE_UPDATED,
+      await this.buildPresenceList(organizationId),
+    );
+  }
+
+  private emitToOrganization(
+    organizationId: string,
+    event: string,
+    payload: unknown,
+  ) {
+    // Сервер может быть еще не инициализирован (например, в тестах)
+    if (!this.server) return;
+    this.server.to(organizationRoom(organizationId)).emit(event, payload);
+  }
+
+  private async buildPresenceList(
+    organizationId: string,
+  ): Promise<PresenceListPayload> {
+    return {
+      organizationId,
+      working: await this.presenceService.getWorkingMembers(organizationId),
+    };
+  }
+
+  private extractToken(client: Socket): string | undefined {
+    const authToken = client.handshake.auth?.token;
+    if (typeof authToken === "string" && authToken) {
+      return authToken.replace(/^Bearer\s+/i, "");
+    }
+
+    const header = client.handshake.headers?.authorization;
+    if (header?.startsWith("Bearer ")) {
+      return header.slice(7);
+    }
+
+    // Tauri-клиент не всегда может выставить заголовки
+    const queryToken = client.handshake.query?.token;
+    return typeof queryToken === "string" ? queryToken : undefined;
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from "@nestjs/common";
+import { AuthModule } from "../auth/auth.module";
+import { RealtimeGateway } from "./realtime.gateway";
+import { PresenceService } from "./presence.service";
+
+@Module({
+  imports: [AuthModule],
+  providers: [RealtimeGateway, PresenceService],
+  exports: [RealtimeGateway, PresenceService],
+})
+export class RealtimeModule {}
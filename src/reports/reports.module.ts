@@ -2,9 +2,10 @@ import { Module } from "@nestjs/common";
 import { ReportsService } from "./reports.service";
 import { ReportsController } from "./reports.controller";
 import { PrismaModule } from "@/prisma/prisma.module";
+import { OrganizationsModule } from "@/organizations/organizations.module";
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, OrganizationsModule],
   controllers: [ReportsController],
   providers: [ReportsService],
   exports: [ReportsService],
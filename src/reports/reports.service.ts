@@ -1,6 +1,11 @@
 // reports/reports.service.ts
 import { Injectable, Logger } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
 import { PrismaService } from "../prisma/prisma.service";
+import {
+  MemberRateLookup,
+  MemberRatesService,
+} from "../organizations/member-rates.service";
 import {
   TimecardFilterDto,
   TimecardGroupBy,
@@ -17,11 +22,19 @@ import {
   EntityNotFoundException,
 } from "../exceptions/business.exception";
 
+// Проект с бюджетами и завершенными записями для отчета по бюджетам
+type ProjectWithBudget = Prisma.ProjectGetPayload<{
+  include: { budgets: true; timeEntries: true };
+}>;
+
 @Injectable()
 export class ReportsService {
   private readonly logger = new Logger(ReportsService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly memberRatesService: MemberRatesService,
+  ) {}
 
   // ==================== TIMECARDS ====================
 
@@ -179,7 +192,7 @@ export class ReportsService {
     this.logger.log(`Generating budget report for user ${userId}`);
 
     // Определяем, какие проекты показывать
-    let projects: any[] = [];
+    let projects: ProjectWithBudget[] = [];
 
     if (filter.projectId) {
       // Один конкретный проект
@@ -235,7 +248,7 @@ export class ReportsService {
       // Все проекты, к которым есть доступ
       // Сначала находим организации, где пользователь участник
       const memberships = await this.prisma.organizationMember.findMany({
-        where: { userId, status: "ACTIVE" },
+        where: { userId, status: "ACTIVE", is_current: true },
         select: { organizationId: true },
       });
 
@@ -255,9 +268,15 @@ export class ReportsService {
       });
     }
 
+    // Стоимость считаем по ставке, действовавшей на дату каждой записи
+    const rateLookups = await this.getRateLookups(projects);
+
     // Рассчитываем бюджеты для каждого проекта
     const projectReports: ProjectBudgetReportDto[] = projects.map((project) =>
-      this.calculateProjectBudget(project),
+      this.calculateProjectBudget(
+        project,
+        rateLookups.get(project.organizationId),
+      ),
     );
 
     // Считаем общую статистику
@@ -288,14 +307,51 @@ export class ReportsService {
     };
   }
 
-  private calculateProjectBudget(project: any): ProjectBudgetReportDto {
+  private async getRateLookups(
+    projects: ProjectWithBudget[],
+  ): Promise<Map<string, MemberRateLookup>> {
+    const userIdsByOrg = new Map<string, Set<string>>();
+    for (const project of projects) {
+      const userIds = userIdsByOrg.get(project.organizationId) ?? new Set();
+      project.timeEntries.forEach((entry) => userIds.add(entry.userId));
+      userIdsByOrg.set(project.organizationId, userIds);
+    }
+
+    const lookups = new Map<string, MemberRateLookup>();
+    for (const [organizationId, userIds] of userIdsByOrg) {
+      lookups.set(
+        organizationId,
+        await this.memberRatesService.getRateLookup(
+          organizationId,
+          Array.from(userIds),
+        ),
+      );
+    }
+
+    return lookups;
+  }
+
+  private calculateProjectBudget(
+    project: ProjectWithBudget,
+    rateAt?: MemberRateLookup,
+  ): ProjectBudgetReportDto {
     const budget = project.budgets?.[0] || null;
 
     // Суммируем все время
     const hoursSpent = project.timeEntries.reduce(
-      (sum: number, entry: any) => sum + (entry.duration || 0) / 3600,
+      (sum, entry) => sum + (entry.duration || 0) / 3600,
       0,
     );
+    const costSpent = rateAt
+      ? project.timeEntries.reduce(
+          (sum, entry) =>
+            sum +
+            ((entry.duration || 0) / 3600) *
+              rateAt(entry.userId, entry.startTime),
+          0,
+        )
+      : 0;
+    const costLimit = budget?.costLimit || null;
 
     let hoursLimit = null;
     let hoursRemaining = null;
@@ -346,10 +402,13 @@ export class ReportsService {
       projectName: project.name,
       budgetType: budget?.budgetType || "NONE",
       hoursLimit,
-      costLimit: budget?.costLimit || null,
+      costLimit,
       hoursSpent,
       hoursRemaining,
       hoursPercentage,
+      costSpent,
+      costRemaining: costLimit ? Math.max(0, costLimit - costSpent) : null,
+      costPercentage: costLimit ? (costSpent / costLimit) * 100 : 0,
       status,
       timeEntriesCount: project.timeEntries.length,
       period: {
@@ -371,6 +430,7 @@ export class ReportsService {
         userId,
         role: { in: ["OWNER", "ADMIN"] },
         status: "ACTIVE",
+        is_current: true,
       },
       select: { organizationId: true },
     });
@@ -383,6 +443,7 @@ export class ReportsService {
       where: {
         userId: targetUserId,
         organizationId: { in: orgIds },
+        is_current: true,
       },
     });
 
@@ -418,12 +479,11 @@ export class ReportsService {
     organizationId: string,
     userId: string,
   ): Promise<void> {
-    const member = await this.prisma.organizationMember.findUnique({
+    const member = await this.prisma.organizationMember.findFirst({
       where: {
-        organizationId_userId: {
-          organizationId,
-          userId,
-        },
+        organizationId,
+        userId,
+        is_current: true,
       },
     });
 
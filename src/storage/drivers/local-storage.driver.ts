@@ -0,0 +1,98 @@
+// storage/drivers/local-storage.driver.ts
+import { createHmac, timingSafeEqual } from "crypto";
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import { dirname, join, resolve, sep } from "path";
+import { StorageDriver } from "../storage.interface";
+
+export interface LocalStorageOptions {
+  root: string;
+  publicBaseUrl: string;
+  signingSecret: string;
+}
+
+// Путь, по которому StorageController отдает локальные файлы
+export const LOCAL_FILES_ROUTE = "/api/v1/storage/files";
+
+export class LocalStorageDriver implements StorageDriver {
+  private readonly root: string;
+
+  constructor(private readonly options: LocalStorageOptions) {
+    this.root = resolve(process.cwd(), options.root);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.resolvePath(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return readFile(this.resolvePath(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolvePath(key));
+    } catch (error) {
+      // Файл уже удален — считаем операцию успешной
+      if (error.code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+
+  getObjectUrl(key: string): string {
+    return `${this.options.publicBaseUrl}${LOCAL_FILES_ROUTE}/${this.encodeKey(key)}`;
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const signature = this.sign(key, expires);
+    return `${this.getObjectUrl(key)}?expires=${expires}&signature=${signature}`;
+  }
+
+  /**
+   * Проверяет подпись ссылки и возвращает ключ объекта
+   */
+  verifySignedRequest(
+    encodedKey: string,
+    expires: number,
+    signature: string,
+  ): string | null {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+      return null;
+    }
+
+    const key = Buffer.from(encodedKey, "base64url").toString("utf8");
+    const expected = Buffer.from(this.sign(key, expires));
+    const actual = Buffer.from(signature ?? "");
+
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+
+    return key;
+  }
+
+  private sign(key: string, expires: number): string {
+    return createHmac("sha256", this.options.signingSecret)
+      .update(`${key}:${expires}`)
+      .digest("base64url");
+  }
+
+  private encodeKey(key: string): string {
+    return Buffer.from(key, "utf8").toString("base64url");
+  }
+
+  private resolvePath(key: string): string {
+    const path = resolve(join(this.root, key));
+    // Не даем выйти за пределы корня хранилища
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
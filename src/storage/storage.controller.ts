@@ -0,0 +1,68 @@
+// storage/storage.controller.ts
+import { Controller, Get, Param, Query, Res } from "@nestjs/common";
+import { ApiExcludeController } from "@nestjs/swagger";
+import { Response } from "express";
+import { extname } from "path";
+import { StorageService } from "./storage.service";
+import {
+  EntityNotFoundException,
+  PermissionDeniedException,
+} from "../exceptions/business.exception";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".bmp": "image/bmp",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+};
+
+/**
+ * Раздача файлов локального хранилища по подписанным ссылкам.
+ * Доступ проверяется подписью, поэтому JWT здесь не требуется.
+ */
+@ApiExcludeController()
+@Controller("storage")
+export class StorageController {
+  constructor(private readonly storageService: StorageService) {}
+
+  @Get("files/:encodedKey")
+  async getFile(
+    @Param("encodedKey") encodedKey: string,
+    @Query("expires") expires: string,
+    @Query("signature") signature: string,
+    @Res() res: Response,
+  ) {
+    const driver = this.storageService.getLocalDriver();
+    if (!driver) {
+      throw new EntityNotFoundException("File", encodedKey);
+    }
+
+    const key = driver.verifySignedRequest(
+      encodedKey,
+      parseInt(expires, 10),
+      signature,
+    );
+    if (!key) {
+      throw new PermissionDeniedException("Link is invalid or has expired");
+    }
+
+    let file: Buffer;
+    try {
+      file = await driver.read(key);
+    } catch {
+      throw new EntityNotFoundException("File", encodedKey);
+    }
+
+    res.setHeader(
+      "Content-Type",
+      CONTENT_TYPES[extname(key).toLowerCase()] ?? "application/octet-stream",
+    );
+    res.setHeader("Cache-Control", "private, max-age=300");
+    // Ссылки открываются с фронтенда на другом origin
+    res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
+    res.send(file);
+  }
+}
@@ -0,0 +1,15 @@
+// storage/storage.interface.ts
+export const STORAGE_DRIVER = Symbol("STORAGE_DRIVER");
+
+/**
+ * Драйвер хранилища файлов. Ключ — путь объекта внутри хранилища.
+ */
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  /** Постоянный адрес объекта (без подписи) */
+  getObjectUrl(key: string): string;
+  /** Временная ссылка на чтение */
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
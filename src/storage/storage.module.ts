@@ -0,0 +1,26 @@
+import { Module } from "@nestjs/common";
+import { ConfigModule, ConfigType } from "@nestjs/config";
+import storageConfig from "../config/storage.config";
+import { STORAGE_DRIVER } from "./storage.interface";
+import { LocalStorageDriver } from "./drivers/local-storage.driver";
+import { S3StorageDriver } from "./drivers/s3-storage.driver";
+import { StorageService } from "./storage.service";
+import { StorageController } from "./storage.controller";
+
+@Module({
+  imports: [ConfigModule.forFeature(storageConfig)],
+  controllers: [StorageController],
+  providers: [
+    {
+      provide: STORAGE_DRIVER,
+      inject: [storageConfig.KEY],
+      useFactory: (config: ConfigType<typeof storageConfig>) =>
+        config.driver === "s3"
+          ? new S3StorageDriver(config.s3)
+          : new LocalStorageDriver(config.local),
+    },
+    StorageService,
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
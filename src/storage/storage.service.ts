@@ -0,0 +1,56 @@
+// storage/storage.service.ts
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { ConfigType } from "@nestjs/config";
+import storageConfig from "../config/storage.config";
+import { STORAGE_DRIVER, StorageDriver } from "./storage.interface";
+import { LocalStorageDriver } from "./drivers/local-storage.driver";
+
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+
+  constructor(
+    @Inject(STORAGE_DRIVER) private readonly driver: StorageDriver,
+    @Inject(storageConfig.KEY)
+    private readonly config: ConfigType<typeof storageConfig>,
+  ) {}
+
+  /**
+   * Сохранить объект и вернуть его ключ и постоянный адрес
+   */
+  async upload(
+    key: string,
+    body: Buffer,
+    contentType: string,
+  ): Promise<{ key: string; url: string }> {
+    await this.driver.put(key, body, contentType);
+    this.logger.log(`Stored object ${key} (${body.length} bytes)`);
+    return { key, url: this.driver.getObjectUrl(key) };
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return this.driver.read(key);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.driver.delete(key);
+    this.logger.log(`Deleted object ${key}`);
+  }
+
+  /**
+   * Временная ссылка на чтение объекта
+   */
+  async getSignedUrl(key: string, expiresInSeconds?: number): Promise<string> {
+    return this.driver.getSignedUrl(
+      key,
+      expiresInSeconds ?? this.config.signedUrlTtl,
+    );
+  }
+
+  /**
+   * Локальный драйвер, если он выбран (для раздачи файлов по подписанным ссылкам)
+   */
+  getLocalDriver(): LocalStorageDriver | null {
+    return this.driver instanceof LocalStorageDriver ? this.driver : null;
+  }
+}
@@ -0,0 +1,126 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { ApproverRole, MemberRole, MemberStatus } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { ApprovalChainService } from "./approval-chain.service";
+import { PermissionDeniedException } from "../exceptions/business.exception";
+
+describe("ApprovalChainService", () => {
+  let service: ApprovalChainService;
+
+  const adminId = "admin-1";
+
+  const mockTx = {
+    approvalChain: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    approvalChainStep: {
+      deleteMany: jest.fn(),
+    },
+    timeEntryApproval: {
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockPrismaService = {
+    organization: {
+      findUnique: jest.fn(),
+    },
+    organizationMember: {
+      findFirst: jest.fn(),
+    },
+    $transaction: jest.fn((fn: (tx: typeof mockTx) => Promise<unknown>) =>
+      fn(mockTx),
+    ),
+  };
+
+  const savedChain = (stepCount: number) => ({
+    id: "chain-1",
+    organizationId: "org-1",
+    projectId: null,
+    updatedAt: new Date("2026-10-19T00:00:00Z"),
+    steps: Array.from({ length: stepCount }, (_, index) => ({
+      id: `step-${index + 1}`,
+      chainId: "chain-1",
+      position: index + 1,
+      approverRole: ApproverRole.ORG_MANAGER,
+      approverId: null,
+    })),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApprovalChainService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<ApprovalChainService>(ApprovalChainService);
+
+    jest.clearAllMocks();
+    mockPrismaService.organization.findUnique.mockResolvedValue({
+      ownerId: "owner-1",
+    });
+    mockPrismaService.organizationMember.findFirst.mockResolvedValue({
+      role: MemberRole.ADMIN,
+    });
+  });
+
+  describe("setChain", () => {
+    it("restarts pending entries when the chain is shortened", async () => {
+      mockTx.approvalChain.findFirst.mockResolvedValueOnce({ id: "chain-1" });
+      mockTx.approvalChain.update.mockResolvedValueOnce(savedChain(2));
+
+      const chain = await service.setChain("org-1", adminId, {
+        steps: [
+          { approverRole: ApproverRole.PROJECT_MANAGER },
+          { approverRole: ApproverRole.ORG_ADMIN },
+        ],
+      });
+
+      // Запись с двумя пройденными шагами из трех иначе не утвердится
+      expect(mockTx.timeEntryApproval.updateMany).toHaveBeenCalledWith({
+        where: {
+          chainId: "chain-1",
+          revokedAt: null,
+          timeEntry: { approved: false },
+        },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(chain.steps).toHaveLength(2);
+    });
+
+    it("does not let inactive admins change chains", async () => {
+      mockPrismaService.organizationMember.findFirst.mockResolvedValueOnce(
+        null,
+      );
+
+      await expect(
+        service.setChain("org-1", adminId, {
+          steps: [{ approverRole: ApproverRole.ORG_MANAGER }],
+        }),
+      ).rejects.toBeInstanceOf(PermissionDeniedException);
+      expect(
+        mockPrismaService.organizationMember.findFirst,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ status: MemberStatus.ACTIVE }),
+        }),
+      );
+      expect(mockTx.approvalChain.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("creates a new chain without touching recorded approvals", async () => {
+      mockTx.approvalChain.findFirst.mockResolvedValueOnce(null);
+      mockTx.approvalChain.create.mockResolvedValueOnce(savedChain(1));
+
+      await service.setChain("org-1", adminId, {
+        steps: [{ approverRole: ApproverRole.ORG_MANAGER }],
+      });
+
+      expect(mockTx.timeEntryApproval.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
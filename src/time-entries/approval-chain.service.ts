@@ -0,0 +1,299 @@
+// time-entries/approval-chain.service.ts
+import { Injectable, Logger } from "@nestjs/common";
+import {
+  ApprovalChainStep,
+  ApproverRole,
+  MemberRole,
+  MemberStatus,
+} from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import {
+  ApprovalChainResponseDto,
+  SetApprovalChainDto,
+} from "./dto/approval.dto";
+import {
+  EntityNotFoundException,
+  PermissionDeniedException,
+  ValidationException,
+} from "../exceptions/business.exception";
+
+const stepsInclude = {
+  steps: { orderBy: { position: "asc" } },
+} as const;
+
+/**
+ * Настройка цепочек утверждения времени и проверка прав на шаг
+ */
+@Injectable()
+export class ApprovalChainService {
+  private readonly logger = new Logger(ApprovalChainService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==================== НАСТРОЙКА ====================
+
+  async getChains(
+    organizationId: string,
+    userId: string,
+  ): Promise<ApprovalChainResponseDto[]> {
+    await this.validateOrgRole(organizationId, userId, [
+      MemberRole.ADMIN,
+      MemberRole.MANAGER,
+    ]);
+
+    const chains = await this.prisma.approvalChain.findMany({
+      where: { organizationId },
+      include: stepsInclude,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return chains.map((chain) => this.mapToResponse(chain));
+  }
+
+  /**
+   * Задать цепочку организации или проекта; шаги прежней цепочки заменяются
+   */
+  async setChain(
+    organizationId: string,
+    userId: string,
+    dto: SetApprovalChainDto,
+  ): Promise<ApprovalChainResponseDto> {
+    await this.validateOrgRole(organizationId, userId, [MemberRole.ADMIN]);
+
+    const projectId = dto.projectId ?? null;
+    if (projectId) {
+      const project = await this.prisma.project.findFirst({
+        where: { id: projectId, organizationId },
+        select: { id: true },
+      });
+      if (!project) {
+        throw new EntityNotFoundException("Project", projectId);
+      }
+    }
+
+    for (const step of dto.steps) {
+      if (Boolean(step.approverRole) === Boolean(step.approverId)) {
+        throw new ValidationException(
+          "Each step needs either approverRole or approverId",
+        );
+      }
+    }
+
+    const approverIds = dto.steps
+      .map((step) => step.approverId)
+      .filter((id): id is string => Boolean(id));
+    if (approverIds.length > 0) {
+      const members = await this.prisma.organizationMember.findMany({
+        where: {
+          organizationId,
+          userId: { in: approverIds },
+          is_current: true,
+          status: MemberStatus.ACTIVE,
+        },
+        select: { userId: true },
+      });
+      const memberIds = new Set(members.map((m) => m.userId));
+      const missing = approverIds.find((id) => !memberIds.has(id));
+      if (missing) {
+        throw new ValidationException(
+          `Approver ${missing} is not an active member of the organization`,
+        );
+      }
+    }
+
+    const steps = dto.steps.map((step, index) => ({
+      position: index + 1,
+      approverRole: step.approverRole ?? null,
+      approverId: step.approverId ?? null,
+    }));
+
+    const chain = await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.approvalChain.findFirst({
+        where: { organizationId, projectId },
+        select: { id: true },
+      });
+
+      if (!existing) {
+        return tx.approvalChain.create({
+          data: {
+            organizationId,
+            projectId,
+            createdById: userId,
+            steps: { create: steps },
+          },
+          include: stepsInclude,
+        });
+      }
+
+      await tx.approvalChainStep.deleteMany({
+        where: { chainId: existing.id },
+      });
+      // Неутвержденные записи проходят новую цепочку с первого шага: иначе
+      // запись, прошедшая больше шагов, чем осталось, не утвердится никогда
+      await tx.timeEntryApproval.updateMany({
+        where: {
+          chainId: existing.id,
+          revokedAt: null,
+          timeEntry: { approved: false },
+        },
+        data: { revokedAt: new Date() },
+      });
+      return tx.approvalChain.update({
+        where: { id: existing.id },
+        data: { steps: { create: steps } },
+        include: stepsInclude,
+      });
+    });
+
+    this.logger.log(
+      `Approval chain for ${projectId ? `project ${projectId}` : `organization ${organizationId}`} set to ${steps.length} step(s)`,
+    );
+
+    return this.mapToResponse(chain);
+  }
+
+  /**
+   * Удалить цепочку; уже пройденные шаги записей остаются в истории
+   */
+  async deleteChain(chainId: string, userId: string) {
+    const chain = await this.prisma.approvalChain.findUnique({
+      where: { id: chainId },
+      select: { organizationId: true },
+    });
+    if (!chain) {
+      throw new EntityNotFoundException("ApprovalChain", chainId);
+    }
+
+    await this.validateOrgRole(chain.organizationId, userId, [
+      MemberRole.ADMIN,
+    ]);
+
+    await this.prisma.approvalChain.delete({ where: { id: chainId } });
+
+    return { message: "Approval chain deleted successfully" };
+  }
+
+  // ==================== ПРИМЕНЕНИЕ ====================
+
+  /**
+   * Шаги, действующие для проекта: цепочка проекта, иначе цепочка
+   * организации. null — цепочка не настроена (утверждение в один шаг)
+   */
+  async resolveChain(organizationId: string, projectId: string) {
+    const chains = await this.prisma.approvalChain.findMany({
+      where: {
+        organizationId,
+        OR: [{ projectId }, { projectId: null }],
+      },
+      include: stepsInclude,
+    });
+
+    const chain =
+      chains.find((c) => c.projectId === projectId) ??
+      chains.find((c) => c.projectId === null);
+
+    return chain && chain.steps.length > 0 ? chain : null;
+  }
+
+  /**
+   * Может ли пользователь пройти шаг для записи проекта
+   */
+  async canActOnStep(
+    userId: string,
+    step: ApprovalChainStep,
+    entry: { projectId: string; organizationId: string; ownerId: string },
+  ): Promise<boolean> {
+    if (step.approverId) {
+      return step.approverId === userId;
+    }
+
+    // Владелец организации может пройти любой шаг по роли
+    if (entry.ownerId === userId) {
+      return true;
+    }
+
+    switch (step.approverRole) {
+      case ApproverRole.PROJECT_MANAGER: {
+        const projectMember = await this.prisma.projectMember.findUnique({
+          where: {
+            projectId_userId: { projectId: entry.projectId, userId },
+          },
+        });
+        return (
+          projectMember?.role === "ADMIN" || projectMember?.role === "MANAGER"
+        );
+      }
+      case ApproverRole.ORG_MANAGER:
+      case ApproverRole.ORG_ADMIN: {
+        const roles: MemberRole[] =
+          step.approverRole === ApproverRole.ORG_ADMIN
+            ? [MemberRole.ADMIN]
+            : [MemberRole.ADMIN, MemberRole.MANAGER];
+        const member = await this.prisma.organizationMember.findFirst({
+          where: {
+            organizationId: entry.organizationId,
+            userId,
+            is_current: true,
+            status: MemberStatus.ACTIVE,
+          },
+          select: { role: true },
+        });
+        return Boolean(member && roles.includes(member.role));
+      }
+      default:
+        return false;
+    }
+  }
+
+  // ==================== ПРИВАТНЫЕ МЕТОДЫ ====================
+
+  private async validateOrgRole(
+    organizationId: string,
+    userId: string,
+    roles: MemberRole[],
+  ) {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { ownerId: true },
+    });
+    if (!organization) {
+      throw new EntityNotFoundException("Organization", organizationId);
+    }
+    if (organization.ownerId === userId) return;
+
+    const member = await this.prisma.organizationMember.findFirst({
+      where: {
+        organizationId,
+        userId,
+        is_current: true,
+        status: MemberStatus.ACTIVE,
+      },
+      select: { role: true },
+    });
+    if (!member || !roles.includes(member.role)) {
+      throw new PermissionDeniedException(
+        "You are not allowed to manage approval chains",
+      );
+    }
+  }
+
+  private mapToResponse(chain: {
+    id: string;
+    organizationId: string;
+    projectId: string | null;
+    updatedAt: Date;
+    steps: ApprovalChainStep[];
+  }): ApprovalChainResponseDto {
+    return {
+      id: chain.id,
+      organizationId: chain.organizationId,
+      projectId: chain.projectId,
+      steps: chain.steps.map((step) => ({
+        position: step.position,
+        approverRole: step.approverRole,
+        approverId: step.approverId,
+      })),
+      updatedAt: chain.updatedAt,
+    };
+  }
+}
@@ -3,6 +3,9 @@ import {
   Controller,
   Post,
   Get,
+  Put,
+  Patch,
+  Delete,
   Param,
   Body,
   UseGuards,
@@ -19,20 +22,39 @@ import {
   ApiBearerAuth,
 } from "@nestjs/swagger";
 import { ApprovalService } from "./approval.service";
+import { ApprovalChainService } from "./approval-chain.service";
+import { AutoLockService } from "./auto-lock.service";
 import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
 import { GetUser } from "../auth/decorators/get-user.decorator";
+import {
+  ClientInfo,
+  GetClientInfo,
+} from "../audit/decorators/client-info.decorator";
 import {
   ApproveTimeEntryDto,
+  ApprovalChainResponseDto,
   LockPeriodDto,
+  SetApprovalChainDto,
   TimeEditLogDto,
+  TimeEntryApprovalDto,
 } from "./dto/approval.dto";
+import {
+  AutoLockRuleResponseDto,
+  CreateAutoLockRuleDto,
+  UpcomingPeriodLockDto,
+  UpdateAutoLockRuleDto,
+} from "./dto/auto-lock.dto";
 
 @ApiTags("time-entries/approval")
 @ApiBearerAuth()
 @Controller("time-entries")
 @UseGuards(JwtAuthGuard)
 export class ApprovalController {
-  constructor(private readonly approvalService: ApprovalService) {}
+  constructor(
+    private readonly approvalService: ApprovalService,
+    private readonly approvalChainService: ApprovalChainService,
+    private readonly autoLockService: AutoLockService,
+  ) {}
 
   @Post("approve")
   @ApiOperation({ summary: "Approve multiple time entries" })
@@ -52,8 +74,9 @@ export class ApprovalController {
     @Param("orgId", ParseUUIDPipe) organizationId: string,
     @GetUser("id") userId: string,
     @Body() dto: LockPeriodDto,
+    @GetClientInfo() client: ClientInfo,
   ) {
-    return this.approvalService.lockPeriod(organizationId, userId, dto);
+    return this.approvalService.lockPeriod(organizationId, userId, dto, client);
   }
 
   @Post("periods/:periodId/unlock")
@@ -61,9 +84,109 @@ export class ApprovalController {
   async unlockPeriod(
     @Param("periodId", ParseUUIDPipe) periodId: string,
     @GetUser("id") userId: string,
+    @GetClientInfo() client: ClientInfo,
     @Body("reason") reason?: string,
   ) {
-    return this.approvalService.unlockPeriod(periodId, userId, reason);
+    return this.approvalService.unlockPeriod(periodId, userId, reason, client);
+  }
+
+  @Get("organizations/:orgId/auto-lock-rules")
+  @ApiOperation({ summary: "List automatic period lock rules" })
+  @ApiResponse({ type: [AutoLockRuleResponseDto] })
+  async getAutoLockRules(
+    @Param("orgId", ParseUUIDPipe) organizationId: string,
+    @GetUser("id") userId: string,
+  ): Promise<AutoLockRuleResponseDto[]> {
+    return this.autoLockService.getRules(organizationId, userId);
+  }
+
+  @Post("organizations/:orgId/auto-lock-rules")
+  @ApiOperation({
+    summary: "Create a rule that locks the previous period on a schedule",
+  })
+  @ApiResponse({ status: 201, type: AutoLockRuleResponseDto })
+  async createAutoLockRule(
+    @Param("orgId", ParseUUIDPipe) organizationId: string,
+    @GetUser("id") userId: string,
+    @Body() dto: CreateAutoLockRuleDto,
+  ): Promise<AutoLockRuleResponseDto> {
+    return this.autoLockService.createRule(organizationId, userId, dto);
+  }
+
+  @Patch("auto-lock-rules/:ruleId")
+  @ApiOperation({ summary: "Update an automatic period lock rule" })
+  @ApiResponse({ type: AutoLockRuleResponseDto })
+  async updateAutoLockRule(
+    @Param("ruleId", ParseUUIDPipe) ruleId: string,
+    @GetUser("id") userId: string,
+    @Body() dto: UpdateAutoLockRuleDto,
+  ): Promise<AutoLockRuleResponseDto> {
+    return this.autoLockService.updateRule(ruleId, userId, dto);
+  }
+
+  @Delete("auto-lock-rules/:ruleId")
+  @ApiOperation({ summary: "Delete an automatic period lock rule" })
+  async deleteAutoLockRule(
+    @Param("ruleId", ParseUUIDPipe) ruleId: string,
+    @GetUser("id") userId: string,
+  ) {
+    return this.autoLockService.deleteRule(ruleId, userId);
+  }
+
+  @Get("organizations/:orgId/upcoming-locks")
+  @ApiOperation({
+    summary: "Periods that are about to be locked automatically",
+    description:
+      "The period:lock-warning Socket.IO event reaches only connected clients; clients call this on connect to catch up on warnings they missed",
+  })
+  @ApiResponse({ type: [UpcomingPeriodLockDto] })
+  async getUpcomingLocks(
+    @Param("orgId", ParseUUIDPipe) organizationId: string,
+    @GetUser("id") userId: string,
+  ): Promise<UpcomingPeriodLockDto[]> {
+    return this.autoLockService.getUpcomingLocks(organizationId, userId);
+  }
+
+  @Get("organizations/:orgId/approval-chains")
+  @ApiOperation({ summary: "List approval chains of an organization" })
+  @ApiResponse({ type: [ApprovalChainResponseDto] })
+  async getApprovalChains(
+    @Param("orgId", ParseUUIDPipe) organizationId: string,
+    @GetUser("id") userId: string,
+  ): Promise<ApprovalChainResponseDto[]> {
+    return this.approvalChainService.getChains(organizationId, userId);
+  }
+
+  @Put("organizations/:orgId/approval-chain")
+  @ApiOperation({
+    summary: "Set the approval chain of an organization or one of its projects",
+  })
+  @ApiResponse({ type: ApprovalChainResponseDto })
+  async setApprovalChain(
+    @Param("orgId", ParseUUIDPipe) organizationId: string,
+    @GetUser("id") userId: string,
+    @Body() dto: SetApprovalChainDto,
+  ): Promise<ApprovalChainResponseDto> {
+    return this.approvalChainService.setChain(organizationId, userId, dto);
+  }
+
+  @Delete("approval-chains/:chainId")
+  @ApiOperation({ summary: "Delete an approval chain" })
+  async deleteApprovalChain(
+    @Param("chainId", ParseUUIDPipe) chainId: string,
+    @GetUser("id") userId: string,
+  ) {
+    return this.approvalChainService.deleteChain(chainId, userId);
+  }
+
+  @Get(":timeEntryId/approvals")
+  @ApiOperation({ summary: "Get approval steps recorded for a time entry" })
+  @ApiResponse({ type: [TimeEntryApprovalDto] })
+  async getTimeEntryApprovals(
+    @Param("timeEntryId", ParseUUIDPipe) timeEntryId: string,
+    @GetUser("id") userId: string,
+  ): Promise<TimeEntryApprovalDto[]> {
+    return this.approvalService.getTimeEntryApprovals(timeEntryId, userId);
   }
 
   @Get(":timeEntryId/logs")
@@ -0,0 +1,297 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { ApproverRole } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { ApprovalService } from "./approval.service";
+import { ApprovalChainService } from "./approval-chain.service";
+import { AuditService } from "../audit/audit.service";
+import { PermissionDeniedException } from "../exceptions/business.exception";
+
+describe("ApprovalService", () => {
+  let service: ApprovalService;
+
+  const mockPrismaService = {
+    timeEntry: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    timeEntryApproval: {
+      createMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    timeEditLog: {
+      createMany: jest.fn(),
+    },
+    organizationMember: {
+      findFirst: jest.fn(),
+    },
+    projectMember: {
+      findUnique: jest.fn(),
+    },
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+  };
+
+  const mockApprovalChainService = {
+    resolveChain: jest.fn(),
+    canActOnStep: jest.fn(),
+  };
+
+  const chain = {
+    id: "chain-1",
+    organizationId: "org-1",
+    projectId: null,
+    steps: [
+      { id: "step-1", position: 1, approverRole: ApproverRole.PROJECT_MANAGER },
+      { id: "step-2", position: 2, approverId: "finance-1" },
+    ],
+  };
+
+  const entry = (overrides: Record<string, unknown> = {}) => ({
+    id: "entry-1",
+    projectId: "project-1",
+    userId: "user-1",
+    approved: false,
+    locked: false,
+    invoiceId: null,
+    project: {
+      organizationId: "org-1",
+      organization: { id: "org-1", ownerId: "owner-1" },
+    },
+    approvals: [],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApprovalService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ApprovalChainService, useValue: mockApprovalChainService },
+        { provide: AuditService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<ApprovalService>(ApprovalService);
+
+    jest.clearAllMocks();
+    mockApprovalChainService.resolveChain.mockResolvedValue(chain);
+    mockPrismaService.timeEntry.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe("chain progression", () => {
+    it("records the first step without approving the entry", async () => {
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([entry()]);
+      mockApprovalChainService.canActOnStep.mockResolvedValueOnce(true);
+
+      const result = await service.approveTimeEntries("pm-1", {
+        timeEntryIds: ["entry-1"],
+      });
+
+      expect(mockApprovalChainService.canActOnStep).toHaveBeenCalledWith(
+        "pm-1",
+        chain.steps[0],
+        { projectId: "project-1", organizationId: "org-1", ownerId: "owner-1" },
+      );
+      expect(
+        mockPrismaService.timeEntryApproval.createMany,
+      ).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            timeEntryId: "entry-1",
+            chainId: "chain-1",
+            position: 1,
+            approverId: "pm-1",
+          }),
+        ],
+      });
+      expect(mockPrismaService.timeEntry.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: { in: [] } } }),
+      );
+      expect(result).toMatchObject({ count: 0, pendingCount: 1 });
+    });
+
+    it("approves the entry on the last step", async () => {
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([
+        entry({
+          approvals: [{ chainId: "chain-1", position: 1, approverId: "pm-1" }],
+        }),
+      ]);
+      mockApprovalChainService.canActOnStep.mockResolvedValueOnce(true);
+
+      const result = await service.approveTimeEntries("finance-1", {
+        timeEntryIds: ["entry-1"],
+      });
+
+      expect(mockApprovalChainService.canActOnStep).toHaveBeenCalledWith(
+        "finance-1",
+        chain.steps[1],
+        expect.anything(),
+      );
+      expect(mockPrismaService.timeEntry.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: { in: ["entry-1"] } },
+          data: expect.objectContaining({
+            approved: true,
+            approvedById: "finance-1",
+          }),
+        }),
+      );
+      expect(result).toMatchObject({ count: 1, pendingCount: 0 });
+    });
+
+    it("does not let one person pass two steps", async () => {
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([
+        entry({
+          approvals: [{ chainId: "chain-1", position: 1, approverId: "pm-1" }],
+        }),
+      ]);
+
+      await expect(
+        service.approveTimeEntries("pm-1", { timeEntryIds: ["entry-1"] }),
+      ).rejects.toBeInstanceOf(PermissionDeniedException);
+      expect(
+        mockPrismaService.timeEntryApproval.createMany,
+      ).not.toHaveBeenCalled();
+    });
+
+    it("reports next steps per entry instead of failing the batch", async () => {
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([
+        entry(),
+        entry({
+          id: "entry-2",
+          approvals: [{ chainId: "chain-1", position: 1, approverId: "pm-1" }],
+        }),
+        entry({ id: "entry-3", approved: true }),
+      ]);
+      mockApprovalChainService.canActOnStep
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+
+      const steps = await service.getNextApprovalSteps("pm-2", [
+        "entry-1",
+        "entry-2",
+        "entry-3",
+      ]);
+
+      expect(steps).toEqual([
+        expect.objectContaining({
+          timeEntryId: "entry-1",
+          position: 1,
+          totalSteps: 2,
+          canAct: true,
+        }),
+        expect.objectContaining({
+          timeEntryId: "entry-2",
+          position: 2,
+          totalSteps: 2,
+          canAct: false,
+        }),
+      ]);
+    });
+  });
+
+  describe("changed chain", () => {
+    it("does not count steps passed under another chain", async () => {
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([
+        entry({
+          approvals: [
+            { chainId: "chain-old", position: 1, approverId: "pm-1" },
+            { chainId: "chain-old", position: 2, approverId: "finance-1" },
+          ],
+        }),
+      ]);
+      mockApprovalChainService.canActOnStep.mockResolvedValueOnce(true);
+
+      const steps = await service.getNextApprovalSteps("pm-1", ["entry-1"]);
+
+      expect(steps).toEqual([
+        expect.objectContaining({
+          timeEntryId: "entry-1",
+          chainId: "chain-1",
+          position: 1,
+          canAct: true,
+        }),
+      ]);
+    });
+  });
+
+  describe("revoke", () => {
+    it("revokes passed steps and unapproves the entry", async () => {
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([
+        entry({ approved: true }),
+      ]);
+
+      const result = await service.approveTimeEntries("owner-1", {
+        timeEntryIds: ["entry-1"],
+        approved: false,
+      });
+
+      expect(
+        mockPrismaService.timeEntryApproval.updateMany,
+      ).toHaveBeenCalledWith({
+        where: { timeEntryId: { in: ["entry-1"] }, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(mockPrismaService.timeEntry.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["entry-1"] } },
+        data: { approved: false, approvedById: null, approvedAt: null },
+      });
+      expect(result.count).toBe(1);
+    });
+
+    it("lets only managers revoke", async () => {
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([
+        entry({ approved: true }),
+      ]);
+      mockPrismaService.organizationMember.findFirst.mockResolvedValueOnce({
+        role: "USER",
+      });
+      mockPrismaService.projectMember.findUnique.mockResolvedValueOnce(null);
+
+      await expect(
+        service.approveTimeEntries("user-2", {
+          timeEntryIds: ["entry-1"],
+          approved: false,
+        }),
+      ).rejects.toBeInstanceOf(PermissionDeniedException);
+      expect(
+        mockPrismaService.timeEntryApproval.updateMany,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("reset on edit", () => {
+    it("revokes the passed steps of an edited entry", async () => {
+      await service.resetPendingApprovals("entry-1");
+
+      expect(
+        mockPrismaService.timeEntryApproval.updateMany,
+      ).toHaveBeenCalledWith({
+        where: { timeEntryId: "entry-1", revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it("starts the chain over after a reset", async () => {
+      // Снятые шаги не загружаются: запись снова ждет первого шага
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([entry()]);
+      mockApprovalChainService.canActOnStep.mockResolvedValueOnce(true);
+
+      await service.approveTimeEntries("pm-1", { timeEntryIds: ["entry-1"] });
+
+      expect(mockPrismaService.timeEntry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          include: expect.objectContaining({
+            approvals: expect.objectContaining({
+              where: { revokedAt: null },
+            }),
+          }),
+        }),
+      );
+      expect(
+        mockPrismaService.timeEntryApproval.createMany,
+      ).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ position: 1 })],
+      });
+    });
+  });
+});
@@ -1,10 +1,16 @@
 // time-entries/approval.service.ts
 import { Injectable, Logger, ForbiddenException } from "@nestjs/common";
+import { MemberStatus, Prisma, TimesheetStatus } from "@prisma/client";
 import { PrismaService } from "../prisma/prisma.service";
+import { ApprovalChainService } from "./approval-chain.service";
+import { AuditService } from "../audit/audit.service";
+import { AuditAction } from "../audit/audit-actions";
+import { ClientInfo } from "../audit/decorators/client-info.decorator";
 import {
   ApproveTimeEntryDto,
   LockPeriodDto,
   TimeEditLogDto,
+  TimeEntryApprovalDto,
 } from "./dto/approval.dto";
 import {
   PermissionDeniedException,
@@ -12,16 +18,46 @@ import {
   InvalidOperationException,
 } from "../exceptions/business.exception";
 
+const approvalEntryInclude = {
+  project: {
+    include: {
+      organization: true,
+    },
+  },
+  approvals: {
+    where: { revokedAt: null },
+    orderBy: { position: "asc" },
+  },
+} as const;
+
+export interface NextApprovalStep {
+  timeEntryId: string;
+  chainId: string | null;
+  // Номер очередного шага, с 1
+  position: number;
+  totalSteps: number;
+  // Может ли пользователь пройти этот шаг
+  canAct: boolean;
+  // Причина отказа, если не может
+  reason: string;
+}
+
 @Injectable()
 export class ApprovalService {
   private readonly logger = new Logger(ApprovalService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly approvalChainService: ApprovalChainService,
+    private readonly auditService: AuditService,
+  ) {}
 
   // ==================== УТВЕРЖДЕНИЕ ====================
 
   /**
-   * Утвердить записи времени (для менеджеров)
+   * Утвердить записи времени (для менеджеров). Если для проекта настроена
+   * цепочка, вызов проходит очередной шаг, а запись считается утвержденной
+   * только после последнего шага. approved: false снимает утверждение
    */
   async approveTimeEntries(
     userId: string,
@@ -30,31 +66,20 @@ export class ApprovalService {
     userAgent?: string,
   ) {
     this.logger.log(
-      `User ${userId} approving ${dto.timeEntryIds.length} time entries`,
+      `User ${userId} ${dto.approved === false ? "unapproving" : "approving"} ${dto.timeEntryIds.length} time entries`,
     );
 
     // 1. Проверяем, что все записи существуют и доступны
     const timeEntries = await this.prisma.timeEntry.findMany({
       where: { id: { in: dto.timeEntryIds } },
-      include: {
-        project: {
-          include: {
-            organization: true,
-          },
-        },
-      },
+      include: approvalEntryInclude,
     });
 
     if (timeEntries.length !== dto.timeEntryIds.length) {
       throw new EntityNotFoundException("Time entrie", "multiple");
     }
 
-    // 2. Проверяем права (пользователь должен быть менеджером в организации)
-    for (const entry of timeEntries) {
-      await this.canApproveTimeEntry(userId, entry);
-    }
-
-    // 3. Проверяем, что записи не заблокированы
+    // 2. Проверяем, что записи не заблокированы
     const lockedEntries = timeEntries.filter((e) => e.locked);
     if (lockedEntries.length > 0) {
       throw new InvalidOperationException(
@@ -62,43 +87,302 @@ export class ApprovalService {
       );
     }
 
-    // 4. Обновляем статус
-    const updated = await this.prisma.timeEntry.updateMany({
-      where: { id: { in: dto.timeEntryIds } },
-      data: {
-        approved: dto.approved ?? true,
-        approvedById: userId,
-        approvedAt: new Date(),
-      },
-    });
+    // Выставленную в счет запись нельзя ни переутвердить, ни править
+    const invoicedEntries = timeEntries.filter((e) => e.invoiceId);
+    if (invoicedEntries.length > 0) {
+      throw new InvalidOperationException(
+        `Time entries are already invoiced: ${invoicedEntries.map((e) => e.id).join(", ")}`,
+      );
+    }
 
-    // 5. Логируем действие
-    await this.prisma.timeEditLog.createMany({
-      data: dto.timeEntryIds.map((id) => ({
-        timeEntryId: id,
-        userId,
-        changedAt: new Date(),
-        oldValues: { approved: false },
-        newValues: { approved: true },
-        ipAddress,
-        userAgent,
-      })),
-    });
+    if (dto.approved === false) {
+      for (const entry of timeEntries) {
+        await this.canApproveTimeEntry(userId, entry);
+      }
+      return this.revokeApprovals(userId, timeEntries, ipAddress, userAgent);
+    }
 
-    this.logger.log(`Successfully approved ${updated.count} time entries`);
+    // 3. Определяем очередной шаг каждой записи и проверяем права на него
+    const steps = await this.resolveNextSteps(userId, timeEntries);
+    const denied = steps.find((step) => !step.canAct);
+    if (denied) {
+      throw new PermissionDeniedException(denied.reason);
+    }
+
+    const plan = steps.map((step) => ({
+      entryId: step.timeEntryId,
+      chainId: step.chainId,
+      position: step.position,
+      final: step.position === step.totalSteps,
+    }));
+
+    // 4. Записываем шаги; утверждаем записи, прошедшие последний шаг
+    const now = new Date();
+    const finalIds = plan.filter((p) => p.final).map((p) => p.entryId);
+
+    await this.prisma.$transaction([
+      this.prisma.timeEntryApproval.createMany({
+        data: plan.map((p) => ({
+          timeEntryId: p.entryId,
+          chainId: p.chainId,
+          position: p.position,
+          approverId: userId,
+          comment: dto.comment,
+          createdAt: now,
+        })),
+      }),
+      this.prisma.timeEntry.updateMany({
+        where: { id: { in: finalIds } },
+        data: {
+          approved: true,
+          approvedById: userId,
+          approvedAt: now,
+        },
+      }),
+      // 5. Логируем действие
+      this.prisma.timeEditLog.createMany({
+        data: plan.map((p) => ({
+          timeEntryId: p.entryId,
+          userId,
+          changedAt: now,
+          oldValues: { approved: false, approvalStep: p.position - 1 },
+          newValues: { approved: p.final, approvalStep: p.position },
+          reason: dto.comment,
+          ipAddress,
+          userAgent,
+        })),
+      }),
+    ]);
+
+    this.logger.log(
+      `Recorded ${plan.length} approval step(s), ${finalIds.length} time entries fully approved`,
+    );
 
     return {
       message: "Time entries approved successfully",
+      count: finalIds.length,
+      pendingCount: plan.length - finalIds.length,
+    };
+  }
+
+  /**
+   * Очередные шаги неутвержденных записей и может ли пользователь их пройти.
+   * По ним строится очередь табелей: каждый видит только свои шаги
+   */
+  async getNextApprovalSteps(
+    userId: string,
+    timeEntryIds: string[],
+  ): Promise<NextApprovalStep[]> {
+    const timeEntries = await this.prisma.timeEntry.findMany({
+      where: { id: { in: timeEntryIds } },
+      include: approvalEntryInclude,
+    });
+
+    return this.resolveNextSteps(userId, timeEntries);
+  }
+
+  /**
+   * Очередной шаг каждой записи: шаг цепочки проекта (организации) или,
+   * без цепочки, единственный шаг для руководителей. Утвержденные записи
+   * и записи с пройденной цепочкой пропускаются
+   */
+  private async resolveNextSteps(
+    userId: string,
+    timeEntries: Prisma.TimeEntryGetPayload<{
+      include: typeof approvalEntryInclude;
+    }>[],
+  ): Promise<NextApprovalStep[]> {
+    const chains = new Map<
+      string,
+      Awaited<ReturnType<ApprovalChainService["resolveChain"]>>
+    >();
+    const steps: NextApprovalStep[] = [];
+
+    for (const entry of timeEntries) {
+      if (entry.approved) continue;
+
+      if (!chains.has(entry.projectId)) {
+        chains.set(
+          entry.projectId,
+          await this.approvalChainService.resolveChain(
+            entry.project.organizationId,
+            entry.projectId,
+          ),
+        );
+      }
+      const chain = chains.get(entry.projectId);
+
+      if (!chain) {
+        steps.push({
+          timeEntryId: entry.id,
+          chainId: null,
+          position: 1,
+          totalSteps: 1,
+          canAct: await this.isApprover(userId, entry),
+          reason: "You are not allowed to approve these time entries",
+        });
+        continue;
+      }
+
+      // Шаги удаленной или замененной цепочки не засчитываются
+      const approvals = entry.approvals.filter((a) => a.chainId === chain.id);
+      const completed = approvals.length;
+      if (completed >= chain.steps.length) continue;
+
+      const step = {
+        timeEntryId: entry.id,
+        chainId: chain.id,
+        position: completed + 1,
+        totalSteps: chain.steps.length,
+      };
+
+      // Один человек проходит не больше одного шага записи
+      if (approvals.some((a) => a.approverId === userId)) {
+        steps.push({
+          ...step,
+          canAct: false,
+          reason: `You have already approved a previous step of time entry ${entry.id}`,
+        });
+        continue;
+      }
+
+      steps.push({
+        ...step,
+        canAct: await this.approvalChainService.canActOnStep(
+          userId,
+          chain.steps[completed],
+          {
+            projectId: entry.projectId,
+            organizationId: entry.project.organizationId,
+            ownerId: entry.project.organization.ownerId,
+          },
+        ),
+        reason: `You are not the approver for step ${completed + 1} of time entry ${entry.id}`,
+      });
+    }
+
+    return steps;
+  }
+
+  /**
+   * Снять утверждение: запись возвращается к первому шагу цепочки
+   */
+  private async revokeApprovals(
+    userId: string,
+    timeEntries: { id: string; approved: boolean }[],
+    ipAddress?: string,
+    userAgent?: string,
+  ) {
+    const ids = timeEntries.map((e) => e.id);
+    const now = new Date();
+
+    const [, updated] = await this.prisma.$transaction([
+      this.prisma.timeEntryApproval.updateMany({
+        where: { timeEntryId: { in: ids }, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+      this.prisma.timeEntry.updateMany({
+        where: { id: { in: ids } },
+        data: { approved: false, approvedById: null, approvedAt: null },
+      }),
+      this.prisma.timeEditLog.createMany({
+        data: timeEntries.map((entry) => ({
+          timeEntryId: entry.id,
+          userId,
+          changedAt: now,
+          oldValues: { approved: entry.approved },
+          newValues: { approved: false },
+          ipAddress,
+          userAgent,
+        })),
+      }),
+    ]);
+
+    return {
+      message: "Time entries unapproved successfully",
       count: updated.count,
     };
   }
 
+  /**
+   * Сбросить пройденные шаги еще не утвержденной записи
+   */
+  async resetPendingApprovals(timeEntryId: string) {
+    await this.prisma.timeEntryApproval.updateMany({
+      where: { timeEntryId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  /**
+   * Пройденные шаги утверждения записи (включая снятые)
+   */
+  async getTimeEntryApprovals(
+    timeEntryId: string,
+    userId: string,
+  ): Promise<TimeEntryApprovalDto[]> {
+    const timeEntry = await this.prisma.timeEntry.findUnique({
+      where: { id: timeEntryId },
+      include: {
+        project: {
+          include: { organization: true },
+        },
+      },
+    });
+
+    if (!timeEntry) {
+      throw new EntityNotFoundException("TimeEntry", timeEntryId);
+    }
+
+    const canView = await this.canViewLogs(userId, timeEntry);
+    if (!canView) {
+      throw new PermissionDeniedException(
+        "You cannot view approvals for this time entry",
+      );
+    }
+
+    return this.prisma.timeEntryApproval.findMany({
+      where: { timeEntryId },
+      include: {
+        approver: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
   /**
    * Проверка прав на утверждение
    */
   private async canApproveTimeEntry(
     userId: string,
     timeEntry: any,
+  ): Promise<boolean> {
+    if (await this.isApprover(userId, timeEntry)) {
+      return true;
+    }
+
+    throw new PermissionDeniedException(
+      "You are not allowed to approve these time entries",
+    );
+  }
+
+  /**
+   * Руководитель записи: владелец или ADMIN/MANAGER организации,
+   * ADMIN/MANAGER проекта
+   */
+  private async isApprover(
+    userId: string,
+    timeEntry: {
+      projectId: string;
+      project: { organization: { id: string; ownerId: string } };
+    },
   ): Promise<boolean> {
     // 1. Владелец организации
     if (timeEntry.project.organization.ownerId === userId) {
@@ -106,12 +390,12 @@ export class ApprovalService {
     }
 
     // 2. Админ организации
-    const orgMember = await this.prisma.organizationMember.findUnique({
+    const orgMember = await this.prisma.organizationMember.findFirst({
       where: {
-        organizationId_userId: {
-          organizationId: timeEntry.project.organization.id,
-          userId,
-        },
+        organizationId: timeEntry.project.organization.id,
+        userId,
+        is_current: true,
+        status: MemberStatus.ACTIVE,
       },
     });
 
@@ -129,13 +413,7 @@ export class ApprovalService {
       },
     });
 
-    if (projectMember?.role === "ADMIN" || projectMember?.role === "MANAGER") {
-      return true;
-    }
-
-    throw new PermissionDeniedException(
-      "You are not allowed to approve these time entries",
-    );
+    return projectMember?.role === "ADMIN" || projectMember?.role === "MANAGER";
   }
 
   // ==================== БЛОКИРОВКА ПЕРИОДОВ ====================
@@ -143,18 +421,22 @@ export class ApprovalService {
   /**
    * Заблокировать период (например, прошлую неделю)
    */
-  async lockPeriod(organizationId: string, userId: string, dto: LockPeriodDto) {
+  async lockPeriod(
+    organizationId: string,
+    userId: string,
+    dto: LockPeriodDto,
+    client?: ClientInfo,
+  ) {
     this.logger.log(
       `Locking period ${dto.startDate} - ${dto.endDate} for org ${organizationId}`,
     );
 
     // 1. Проверяем права (только OWNER или ADMIN)
-    const member = await this.prisma.organizationMember.findUnique({
+    const member = await this.prisma.organizationMember.findFirst({
       where: {
-        organizationId_userId: {
-          organizationId,
-          userId,
-        },
+        organizationId,
+        userId,
+        is_current: true,
       },
     });
 
@@ -168,9 +450,40 @@ export class ApprovalService {
       );
     }
 
-    // 2. Создаем запись о блокировке
-    const lockedPeriod = await this.prisma.lockedPeriod.create({
-      data: {
+    const lockedPeriod = await this.applyLock(organizationId, userId, dto);
+
+    await this.auditService.record({
+      organizationId,
+      actorId: userId,
+      action: AuditAction.PERIOD_LOCKED,
+      entityType: "LockedPeriod",
+      entityId: lockedPeriod.id,
+      after: {
+        startDate: lockedPeriod.startDate,
+        endDate: lockedPeriod.endDate,
+        reason: lockedPeriod.reason,
+      },
+      client,
+    });
+
+    return lockedPeriod;
+  }
+
+  /**
+   * Блокировка периода без проверки прав (для автоматических правил)
+   */
+  async applyLock(organizationId: string, userId: string, dto: LockPeriodDto) {
+    // 2. Создаем запись о блокировке (снятая ранее блокировка того же
+    // периода включается повторно)
+    const lockedPeriod = await this.prisma.lockedPeriod.upsert({
+      where: {
+        organizationId_startDate_endDate: {
+          organizationId,
+          startDate: dto.startDate,
+          endDate: dto.endDate,
+        },
+      },
+      create: {
         organizationId,
         startDate: dto.startDate,
         endDate: dto.endDate,
@@ -179,6 +492,14 @@ export class ApprovalService {
         lockedAt: new Date(),
         isActive: true,
       },
+      update: {
+        reason: dto.reason,
+        lockedById: userId,
+        lockedAt: new Date(),
+        isActive: true,
+        unlockedById: null,
+        unlockedAt: null,
+      },
     });
 
     // 3. Блокируем все записи в этом периоде
@@ -201,10 +522,47 @@ export class ApprovalService {
     return lockedPeriod;
   }
 
+  /**
+   * Найти активную блокировку, в которую попадает момент времени
+   * (записи блокируются по startTime, см. lockPeriod)
+   */
+  async findActiveLockedPeriod(organizationId: string, at: Date) {
+    return this.prisma.lockedPeriod.findFirst({
+      where: {
+        organizationId,
+        isActive: true,
+        startDate: { lte: at },
+        endDate: { gte: at },
+      },
+    });
+  }
+
+  /**
+   * Найти отправленный или утвержденный табель сотрудника, в неделю
+   * которого попадает момент времени. Записи такой недели не меняются,
+   * пока табель не отклонят
+   */
+  async findClosedTimesheet(userId: string, organizationId: string, at: Date) {
+    return this.prisma.timesheet.findFirst({
+      where: {
+        organizationId,
+        userId,
+        status: { in: [TimesheetStatus.SUBMITTED, TimesheetStatus.APPROVED] },
+        periodStart: { lte: at },
+        periodEnd: { gt: at },
+      },
+    });
+  }
+
   /**
    * Разблокировать период
    */
-  async unlockPeriod(periodId: string, userId: string, reason?: string) {
+  async unlockPeriod(
+    periodId: string,
+    userId: string,
+    reason?: string,
+    client?: ClientInfo,
+  ) {
     this.logger.log(`Unlocking period ${periodId}`);
 
     const period = await this.prisma.lockedPeriod.findUnique({
@@ -218,12 +576,11 @@ export class ApprovalService {
 
     // Проверяем права
     if (period.organization.ownerId !== userId) {
-      const member = await this.prisma.organizationMember.findUnique({
+      const member = await this.prisma.organizationMember.findFirst({
         where: {
-          organizationId_userId: {
-            organizationId: period.organizationId,
-            userId,
-          },
+          organizationId: period.organizationId,
+          userId,
+          is_current: true,
         },
       });
       if (member?.role !== "ADMIN") {
@@ -260,6 +617,21 @@ export class ApprovalService {
       },
     });
 
+    await this.auditService.record({
+      organizationId: period.organizationId,
+      actorId: userId,
+      action: AuditAction.PERIOD_UNLOCKED,
+      entityType: "LockedPeriod",
+      entityId: periodId,
+      before: {
+        startDate: period.startDate,
+        endDate: period.endDate,
+        isActive: period.isActive,
+      },
+      after: { isActive: false, reason: reason ?? null },
+      client,
+    });
+
     return { message: "Period unlocked successfully" };
   }
 
@@ -348,12 +720,11 @@ export class ApprovalService {
     if (timeEntry.project.organization.ownerId === userId) return true;
 
     // Админ/менеджер организации
-    const orgMember = await this.prisma.organizationMember.findUnique({
+    const orgMember = await this.prisma.organizationMember.findFirst({
       where: {
-        organizationId_userId: {
-          organizationId: timeEntry.project.organization.id,
-          userId,
-        },
+        organizationId: timeEntry.project.organization.id,
+        userId,
+        is_current: true,
       },
     });
 
@@ -0,0 +1,70 @@
+import { AutoLockFrequency } from "@prisma/client";
+import { getAutoLockRange, getNextAutoLockRun } from "./auto-lock.schedule";
+
+describe("auto-lock schedule", () => {
+  const weekly = {
+    frequency: AutoLockFrequency.WEEKLY,
+    dayOfWeek: 2,
+    dayOfMonth: null,
+    runTime: "09:00",
+  };
+
+  it("finds the next weekly run in the organization timezone", () => {
+    // Понедельник 19.10.2026 → вторник 20.10 09:00 по Берлину (UTC+2)
+    expect(
+      getNextAutoLockRun(
+        weekly,
+        new Date("2026-10-19T12:00:00Z"),
+        "Europe/Berlin",
+      ).toISOString(),
+    ).toBe("2026-10-20T07:00:00.000Z");
+
+    // Сразу после запуска — через неделю, уже по зимнему времени
+    expect(
+      getNextAutoLockRun(
+        weekly,
+        new Date("2026-10-20T07:00:00Z"),
+        "Europe/Berlin",
+      ).toISOString(),
+    ).toBe("2026-10-27T08:00:00.000Z");
+  });
+
+  it("finds the next monthly run across the year boundary", () => {
+    const monthly = {
+      frequency: AutoLockFrequency.MONTHLY,
+      dayOfWeek: null,
+      dayOfMonth: 1,
+      runTime: "06:30",
+    };
+
+    expect(
+      getNextAutoLockRun(
+        monthly,
+        new Date("2026-12-15T00:00:00Z"),
+        "UTC",
+      ).toISOString(),
+    ).toBe("2027-01-01T06:30:00.000Z");
+  });
+
+  it("locks the previous full week", () => {
+    const range = getAutoLockRange(
+      AutoLockFrequency.WEEKLY,
+      new Date("2026-10-20T07:00:00Z"),
+      "Europe/Berlin",
+    );
+
+    expect(range.startDate.toISOString()).toBe("2026-10-11T22:00:00.000Z");
+    expect(range.endDate.toISOString()).toBe("2026-10-18T21:59:59.999Z");
+  });
+
+  it("locks the previous month", () => {
+    const range = getAutoLockRange(
+      AutoLockFrequency.MONTHLY,
+      new Date("2027-01-01T06:30:00Z"),
+      "UTC",
+    );
+
+    expect(range.startDate.toISOString()).toBe("2026-12-01T00:00:00.000Z");
+    expect(range.endDate.toISOString()).toBe("2026-12-31T23:59:59.999Z");
+  });
+});
@@ -0,0 +1,83 @@
+// time-entries/auto-lock.schedule.ts
+import { AutoLockFrequency } from "@prisma/client";
+import {
+  addDaysToDateKey,
+  getDateKeyWeekday,
+  localTimeToDate,
+  startOfLocalDay,
+  toLocalDateKey,
+} from "../common/utils/timezone";
+
+export interface AutoLockSchedule {
+  frequency: AutoLockFrequency;
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  runTime: string;
+}
+
+/**
+ * Ближайший запуск правила строго после момента after
+ */
+export function getNextAutoLockRun(
+  schedule: AutoLockSchedule,
+  after: Date,
+  timezone: string,
+): Date {
+  const today = toLocalDateKey(after, timezone);
+  const candidates: string[] = [];
+
+  if (schedule.frequency === AutoLockFrequency.WEEKLY) {
+    for (let i = 0; i <= 7; i++) {
+      const dateKey = addDaysToDateKey(today, i);
+      if (getDateKeyWeekday(dateKey) === schedule.dayOfWeek) {
+        candidates.push(dateKey);
+      }
+    }
+  } else {
+    const [year, month] = today.split("-").map(Number);
+    for (let i = 0; i <= 1; i++) {
+      candidates.push(monthDateKey(year, month + i, schedule.dayOfMonth ?? 1));
+    }
+  }
+
+  for (const dateKey of candidates) {
+    const runAt = localTimeToDate(dateKey, schedule.runTime, timezone);
+    if (runAt > after) return runAt;
+  }
+
+  throw new Error("Auto-lock schedule has no upcoming run");
+}
+
+/**
+ * Период, который блокирует запуск в момент runAt: предыдущая полная неделя
+ * (пн–вс) или предыдущий месяц. endDate включительный, как в lockPeriod
+ */
+export function getAutoLockRange(
+  frequency: AutoLockFrequency,
+  runAt: Date,
+  timezone: string,
+): { startDate: Date; endDate: Date } {
+  const runDate = toLocalDateKey(runAt, timezone);
+
+  let startKey: string;
+  let endKey: string;
+  if (frequency === AutoLockFrequency.WEEKLY) {
+    const weekday = getDateKeyWeekday(runDate);
+    endKey = addDaysToDateKey(runDate, -((weekday + 6) % 7));
+    startKey = addDaysToDateKey(endKey, -7);
+  } else {
+    const [year, month] = runDate.split("-").map(Number);
+    endKey = monthDateKey(year, month, 1);
+    startKey = monthDateKey(year, month - 1, 1);
+  }
+
+  return {
+    startDate: startOfLocalDay(startKey, timezone),
+    endDate: new Date(startOfLocalDay(endKey, timezone).getTime() - 1),
+  };
+}
+
+// month — 1-based, может выходить за пределы года
+function monthDateKey(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().split("T")[0];
+}
@@ -0,0 +1,383 @@
+// time-entries/auto-lock.service.ts
+import { Injectable, Logger } from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import {
+  AutoLockFrequency,
+  AutoLockRule,
+  MemberRole,
+  MemberStatus,
+} from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { RealtimeGateway } from "../realtime/realtime.gateway";
+import { ApprovalService } from "./approval.service";
+import { AuditService } from "../audit/audit.service";
+import { AuditAction } from "../audit/audit-actions";
+import {
+  AutoLockSchedule,
+  getAutoLockRange,
+  getNextAutoLockRun,
+} from "./auto-lock.schedule";
+import {
+  AutoLockRuleResponseDto,
+  CreateAutoLockRuleDto,
+  UpcomingPeriodLockDto,
+  UpdateAutoLockRuleDto,
+} from "./dto/auto-lock.dto";
+import {
+  EntityNotFoundException,
+  PermissionDeniedException,
+  ValidationException,
+} from "../exceptions/business.exception";
+
+/**
+ * Автоматическая блокировка прошедших периодов по расписанию организации
+ * и предупреждение участников перед блокировкой
+ */
+@Injectable()
+export class AutoLockService {
+  private readonly logger = new Logger(AutoLockService.name);
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly approvalService: ApprovalService,
+    private readonly realtimeGateway: RealtimeGateway,
+    private readonly auditService: AuditService,
+  ) {}
+
+  // ==================== ПРАВИЛА ====================
+
+  async getRules(
+    organizationId: string,
+    userId: string,
+  ): Promise<AutoLockRuleResponseDto[]> {
+    await this.validateAdmin(organizationId, userId);
+
+    const rules = await this.prisma.autoLockRule.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return rules.map((rule) => this.mapToResponse(rule));
+  }
+
+  async createRule(
+    organizationId: string,
+    userId: string,
+    dto: CreateAutoLockRuleDto,
+  ): Promise<AutoLockRuleResponseDto> {
+    const timezone = await this.validateAdmin(organizationId, userId);
+
+    const schedule = this.buildSchedule(dto);
+    const warnMinutes = dto.warnMinutes ?? 1440;
+    const nextRunAt = getNextAutoLockRun(schedule, new Date(), timezone);
+
+    const rule = await this.prisma.autoLockRule.create({
+      data: {
+        organizationId,
+        ...schedule,
+        warnMinutes,
+        isActive: dto.isActive ?? true,
+        nextRunAt,
+        warnAt: this.getWarnAt(nextRunAt, warnMinutes),
+        createdById: userId,
+      },
+    });
+
+    this.logger.log(
+      `Auto-lock rule ${rule.id} created for organization ${organizationId}, next run ${nextRunAt.toISOString()}`,
+    );
+
+    return this.mapToResponse(rule);
+  }
+
+  /**
+   * Изменение правила пересчитывает ближайший запуск
+   */
+  async updateRule(
+    ruleId: string,
+    userId: string,
+    dto: UpdateAutoLockRuleDto,
+  ): Promise<AutoLockRuleResponseDto> {
+    const rule = await this.findRule(ruleId);
+    const timezone = await this.validateAdmin(rule.organizationId, userId);
+
+    const schedule = this.buildSchedule({
+      frequency: dto.frequency ?? rule.frequency,
+      dayOfWeek: dto.dayOfWeek ?? rule.dayOfWeek ?? undefined,
+      dayOfMonth: dto.dayOfMonth ?? rule.dayOfMonth ?? undefined,
+      runTime: dto.runTime ?? rule.runTime,
+    });
+    const warnMinutes = dto.warnMinutes ?? rule.warnMinutes;
+    const nextRunAt = getNextAutoLockRun(schedule, new Date(), timezone);
+
+    const updated = await this.prisma.autoLockRule.update({
+      where: { id: ruleId },
+      data: {
+        ...schedule,
+        warnMinutes,
+        isActive: dto.isActive,
+        nextRunAt,
+        warnAt: this.getWarnAt(nextRunAt, warnMinutes),
+      },
+    });
+
+    return this.mapToResponse(updated);
+  }
+
+  async deleteRule(ruleId: string, userId: string) {
+    const rule = await this.findRule(ruleId);
+    await this.validateAdmin(rule.organizationId, userId);
+
+    await this.prisma.autoLockRule.delete({ where: { id: ruleId } });
+
+    return { message: "Auto-lock rule deleted successfully" };
+  }
+
+  // ==================== ПЛАНИРОВЩИК ====================
+
+  @Cron(CronExpression.EVERY_MINUTE, { name: "auto-lock" })
+  async handleAutoLockCron() {
+    // Предыдущий запуск еще не закончился
+    if (this.running) return;
+
+    this.running = true;
+    try {
+      await this.processDueRules(new Date());
+    } catch (error) {
+      this.logger.error(
+        `Failed to process auto-lock rules: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // ==================== ПРЕДУПРЕЖДЕНИЯ ====================
+
+  /**
+   * Блокировки, о которых участников уже пора предупредить. Событие
+   * Socket.IO получают только подключенные клиенты, остальные узнают
+   * о блокировке отсюда при подключении
+   */
+  async getUpcomingLocks(
+    organizationId: string,
+    userId: string,
+    now = new Date(),
+  ): Promise<UpcomingPeriodLockDto[]> {
+    const timezone = await this.validateMember(organizationId, userId);
+
+    const rules = await this.prisma.autoLockRule.findMany({
+      where: { organizationId, isActive: true, warnMinutes: { gt: 0 } },
+      orderBy: { nextRunAt: "asc" },
+    });
+
+    return rules
+      .filter((rule) => {
+        const warnAt = this.getWarnAt(rule.nextRunAt, rule.warnMinutes);
+        return warnAt !== null && warnAt <= now;
+      })
+      .map((rule) => ({
+        ruleId: rule.id,
+        ...getAutoLockRange(rule.frequency, rule.nextRunAt, timezone),
+        lockAt: rule.nextRunAt,
+      }));
+  }
+
+  /**
+   * Отправить наступившие предупреждения и выполнить наступившие блокировки
+   */
+  async processDueRules(now: Date) {
+    const warnings = await this.prisma.autoLockRule.findMany({
+      where: { isActive: true, warnAt: { lte: now } },
+      include: { organization: { select: { timezone: true } } },
+    });
+
+    for (const rule of warnings) {
+      const range = getAutoLockRange(
+        rule.frequency,
+        rule.nextRunAt,
+        rule.organization.timezone,
+      );
+      this.realtimeGateway.emitPeriodLockWarning({
+        organizationId: rule.organizationId,
+        ruleId: rule.id,
+        startDate: range.startDate,
+        endDate: range.endDate,
+        lockAt: rule.nextRunAt,
+      });
+
+      await this.prisma.autoLockRule.update({
+        where: { id: rule.id },
+        data: { warnAt: null },
+      });
+    }
+
+    const dueRules = await this.prisma.autoLockRule.findMany({
+      where: { isActive: true, nextRunAt: { lte: now } },
+      include: { organization: { select: { timezone: true } } },
+    });
+
+    for (const rule of dueRules) {
+      try {
+        await this.runRule(rule, rule.organization.timezone, now);
+      } catch (error) {
+        // Правило повторится на следующем тике
+        this.logger.error(
+          `Auto-lock rule ${rule.id} failed: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+
+    return { warned: warnings.length, locked: dueRules.length };
+  }
+
+  // ==================== ПРИВАТНЫЕ МЕТОДЫ ====================
+
+  private async runRule(rule: AutoLockRule, timezone: string, now: Date) {
+    const range = getAutoLockRange(rule.frequency, rule.nextRunAt, timezone);
+
+    const lockedPeriod = await this.approvalService.applyLock(
+      rule.organizationId,
+      rule.createdById,
+      {
+        ...range,
+        reason: "Automatic lock",
+      },
+    );
+
+    await this.auditService.record({
+      organizationId: rule.organizationId,
+      actorId: null,
+      action: AuditAction.PERIOD_LOCKED,
+      entityType: "LockedPeriod",
+      entityId: lockedPeriod.id,
+      after: { ...range, reason: lockedPeriod.reason, autoLockRuleId: rule.id },
+    });
+
+    // Пропущенные запуски (например, при простое сервера) не догоняем
+    const nextRunAt = getNextAutoLockRun(rule, now, timezone);
+    await this.prisma.autoLockRule.update({
+      where: { id: rule.id },
+      data: {
+        lastRunAt: now,
+        nextRunAt,
+        warnAt: this.getWarnAt(nextRunAt, rule.warnMinutes),
+      },
+    });
+
+    this.logger.log(
+      `Auto-lock rule ${rule.id} locked ${range.startDate.toISOString()} - ${range.endDate.toISOString()} for organization ${rule.organizationId}`,
+    );
+  }
+
+  private buildSchedule(dto: CreateAutoLockRuleDto): AutoLockSchedule {
+    const frequency = dto.frequency ?? AutoLockFrequency.WEEKLY;
+
+    if (frequency === AutoLockFrequency.WEEKLY) {
+      if (dto.dayOfWeek === undefined) {
+        throw new ValidationException("dayOfWeek is required for weekly rules");
+      }
+      return {
+        frequency,
+        dayOfWeek: dto.dayOfWeek,
+        dayOfMonth: null,
+        runTime: dto.runTime,
+      };
+    }
+
+    if (dto.dayOfMonth === undefined) {
+      throw new ValidationException("dayOfMonth is required for monthly rules");
+    }
+    return {
+      frequency,
+      dayOfWeek: null,
+      dayOfMonth: dto.dayOfMonth,
+      runTime: dto.runTime,
+    };
+  }
+
+  private getWarnAt(nextRunAt: Date, warnMinutes: number): Date | null {
+    if (warnMinutes <= 0) return null;
+    return new Date(nextRunAt.getTime() - warnMinutes * 60 * 1000);
+  }
+
+  private async findRule(ruleId: string) {
+    const rule = await this.prisma.autoLockRule.findUnique({
+      where: { id: ruleId },
+    });
+    if (!rule) {
+      throw new EntityNotFoundException("AutoLockRule", ruleId);
+    }
+    return rule;
+  }
+
+  /**
+   * Правила настраивают владелец и админы; возвращает часовой пояс организации
+   */
+  private validateAdmin(organizationId: string, userId: string) {
+    return this.validateMember(organizationId, userId, [MemberRole.ADMIN]);
+  }
+
+  /**
+   * Владелец или активный участник с одной из ролей (любой, если роли
+   * не заданы); возвращает часовой пояс организации
+   */
+  private async validateMember(
+    organizationId: string,
+    userId: string,
+    roles: MemberRole[] = [],
+  ): Promise<string> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { ownerId: true, timezone: true },
+    });
+    if (!organization) {
+      throw new EntityNotFoundException("Organization", organizationId);
+    }
+    if (organization.ownerId === userId) {
+      return organization.timezone;
+    }
+
+    const member = await this.prisma.organizationMember.findFirst({
+      where: {
+        organizationId,
+        userId,
+        is_current: true,
+        status: MemberStatus.ACTIVE,
+      },
+      select: { role: true },
+    });
+    if (!member) {
+      throw new PermissionDeniedException(
+        "You are not a member of this organization",
+      );
+    }
+    if (roles.length > 0 && !roles.includes(member.role)) {
+      throw new PermissionDeniedException(
+        "Only owner or admin can manage auto-lock rules",
+      );
+    }
+
+    return organization.timezone;
+  }
+
+  private mapToResponse(rule: AutoLockRule): AutoLockRuleResponseDto {
+    return {
+      id: rule.id,
+      organizationId: rule.organizationId,
+      frequency: rule.frequency,
+      dayOfWeek: rule.dayOfWeek,
+      dayOfMonth: rule.dayOfMonth,
+      runTime: rule.runTime,
+      warnMinutes: rule.warnMinutes,
+      isActive: rule.isActive,
+      nextRunAt: rule.nextRunAt,
+      lastRunAt: rule.lastRunAt,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+}
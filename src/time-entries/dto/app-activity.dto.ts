@@ -8,6 +8,7 @@ import {
   IsEnum,
   IsDate,
 } from "class-validator";
+import { Type } from "class-transformer";
 
 export enum AppCategory {
   PRODUCTIVE = "productive",
@@ -50,6 +51,7 @@ export class AppActivityDto {
 
   @ApiProperty()
   @IsDate()
+  @Type(() => Date)
   trackedAt: Date;
 }
 
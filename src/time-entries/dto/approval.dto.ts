@@ -1,13 +1,22 @@
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { ApproverRole } from "@prisma/client";
 import {
   IsUUID,
   IsBoolean,
   IsOptional,
   IsDate,
   IsArray,
+  IsEnum,
+  IsString,
+  MaxLength,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
 } from "class-validator";
 import { Type } from "class-transformer";
 
+export const APPROVAL_CHAIN_MAX_STEPS = 10;
+
 export class ApproveTimeEntryDto {
   @ApiProperty({ type: [String] })
   @IsArray()
@@ -18,6 +27,12 @@ export class ApproveTimeEntryDto {
   @IsOptional()
   @IsBoolean()
   approved?: boolean = true;
+
+  @ApiPropertyOptional({ description: "Comment recorded with the step" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  comment?: string;
 }
 
 export class LockPeriodDto {
@@ -72,3 +87,100 @@ export class TimeEditLogDto {
     email: string;
   };
 }
+
+export class ApprovalChainStepDto {
+  @ApiPropertyOptional({ enum: ApproverRole })
+  @IsOptional()
+  @IsEnum(ApproverRole)
+  approverRole?: ApproverRole;
+
+  @ApiPropertyOptional({ description: "Specific approver instead of a role" })
+  @IsOptional()
+  @IsUUID()
+  approverId?: string;
+}
+
+export class SetApprovalChainDto {
+  @ApiPropertyOptional({
+    description: "Project to configure; omit for the organization default",
+  })
+  @IsOptional()
+  @IsUUID()
+  projectId?: string;
+
+  @ApiProperty({
+    type: [ApprovalChainStepDto],
+    description: "Steps in approval order",
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(APPROVAL_CHAIN_MAX_STEPS)
+  @ValidateNested({ each: true })
+  @Type(() => ApprovalChainStepDto)
+  steps: ApprovalChainStepDto[];
+}
+
+export class ApprovalChainResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  projectId: string | null;
+
+  @ApiProperty({
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        position: { type: "number" },
+        approverRole: { type: "string", enum: Object.values(ApproverRole) },
+        approverId: { type: "string" },
+      },
+    },
+  })
+  steps: {
+    position: number;
+    approverRole: ApproverRole | null;
+    approverId: string | null;
+  }[];
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class TimeEntryApprovalDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ description: "Step number, starting at 1" })
+  position: number;
+
+  @ApiPropertyOptional({ nullable: true })
+  chainId: string | null;
+
+  @ApiProperty()
+  approverId: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  comment: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: "Set when the approval was revoked",
+  })
+  revokedAt: Date | null;
+
+  @ApiPropertyOptional()
+  approver?: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+}
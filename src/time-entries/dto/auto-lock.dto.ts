@@ -0,0 +1,120 @@
+// time-entries/dto/auto-lock.dto.ts
+import { ApiProperty, ApiPropertyOptional, PartialType } from "@nestjs/swagger";
+import { AutoLockFrequency } from "@prisma/client";
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Matches,
+  Max,
+  Min,
+} from "class-validator";
+
+// Предупреждение не раньше чем за 2 недели
+export const AUTO_LOCK_MAX_WARN_MINUTES = 14 * 24 * 60;
+
+export class CreateAutoLockRuleDto {
+  @ApiPropertyOptional({
+    enum: AutoLockFrequency,
+    default: AutoLockFrequency.WEEKLY,
+  })
+  @IsOptional()
+  @IsEnum(AutoLockFrequency)
+  frequency?: AutoLockFrequency;
+
+  @ApiPropertyOptional({
+    description: "Weekly rules: 0 = Sunday … 6 = Saturday",
+    example: 2,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  dayOfWeek?: number;
+
+  @ApiPropertyOptional({ description: "Monthly rules: 1–28", example: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(28)
+  dayOfMonth?: number;
+
+  @ApiProperty({
+    description: "Local time in the organization timezone",
+    example: "09:00",
+  })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, {
+    message: "runTime must be in HH:mm format",
+  })
+  runTime: string;
+
+  @ApiPropertyOptional({
+    description: "Warn members this many minutes before the lock; 0 disables",
+    default: 1440,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(AUTO_LOCK_MAX_WARN_MINUTES)
+  warnMinutes?: number;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateAutoLockRuleDto extends PartialType(CreateAutoLockRuleDto) {}
+
+export class AutoLockRuleResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiProperty({ enum: AutoLockFrequency })
+  frequency: AutoLockFrequency;
+
+  @ApiPropertyOptional({ nullable: true })
+  dayOfWeek: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  dayOfMonth: number | null;
+
+  @ApiProperty()
+  runTime: string;
+
+  @ApiProperty()
+  warnMinutes: number;
+
+  @ApiProperty()
+  isActive: boolean;
+
+  @ApiProperty()
+  nextRunAt: Date;
+
+  @ApiPropertyOptional({ nullable: true })
+  lastRunAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class UpcomingPeriodLockDto {
+  @ApiProperty()
+  ruleId: string;
+
+  @ApiProperty({ description: "First moment of the period to be locked" })
+  startDate: Date;
+
+  @ApiProperty({ description: "Last moment of the period to be locked" })
+  endDate: Date;
+
+  @ApiProperty({ description: "When the period will be locked" })
+  lockAt: Date;
+}
@@ -174,6 +174,19 @@ export class TimeEntryResponseDto {
   @ApiPropertyOptional()
   taskId: string | null;
 
+  @ApiPropertyOptional({ description: "Client-generated ID for offline sync" })
+  clientId?: string | null;
+
+  @ApiPropertyOptional({
+    description: "Entry overlaps another one (ALLOW_AND_FLAG policy)",
+  })
+  hasOverlap?: boolean;
+
+  @ApiPropertyOptional({
+    description: "Discarded idle seconds already subtracted from duration",
+  })
+  idleSeconds?: number;
+
   @ApiProperty()
   createdAt: Date;
 
@@ -1,6 +1,14 @@
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
-import { IsDate, IsInt, IsOptional, IsString, Min } from "class-validator";
+import {
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Min,
+} from "class-validator";
 import { Type } from "class-transformer";
+import { IdleStatus } from "@prisma/client";
 
 export class IdlePeriodDto {
   @ApiProperty()
@@ -42,6 +50,23 @@ export class IdlePeriodResponseDto {
   @ApiPropertyOptional()
   reason: string | null;
 
+  @ApiProperty({ enum: IdleStatus })
+  status: IdleStatus;
+
+  @ApiPropertyOptional()
+  resolvedAt: Date | null;
+
   @ApiProperty()
   timeEntryId: string;
 }
+
+export enum IdleResolution {
+  KEEP = "keep",
+  DISCARD = "discard",
+}
+
+export class ResolveIdlePeriodDto {
+  @ApiProperty({ enum: IdleResolution })
+  @IsEnum(IdleResolution)
+  action: IdleResolution;
+}
@@ -0,0 +1,62 @@
+// time-entries/dto/overlap.dto.ts
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsDate, IsOptional, IsUUID } from "class-validator";
+import { Type } from "class-transformer";
+
+export class OverlapFilterDto {
+  @ApiPropertyOptional({
+    description:
+      "Organization to scan (requires OWNER/ADMIN/MANAGER). Without it only your own entries are checked",
+  })
+  @IsOptional()
+  @IsUUID("4")
+  organizationId?: string;
+
+  @ApiPropertyOptional({ description: "Limit the scan to one member" })
+  @IsOptional()
+  @IsUUID("4")
+  userId?: string;
+
+  @ApiPropertyOptional({ description: "Defaults to 30 days before toDate" })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  fromDate?: Date;
+
+  @ApiPropertyOptional({ description: "Defaults to now" })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  toDate?: Date;
+}
+
+export class OverlapEntryDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  projectId: string;
+
+  @ApiProperty()
+  startTime: Date;
+
+  @ApiProperty()
+  endTime: Date;
+
+  @ApiProperty()
+  hasOverlap: boolean;
+}
+
+export class TimeEntryOverlapDto {
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty({ type: OverlapEntryDto })
+  first: OverlapEntryDto;
+
+  @ApiProperty({ type: OverlapEntryDto })
+  second: OverlapEntryDto;
+
+  @ApiProperty({ description: "Overlapping time in seconds" })
+  overlapSeconds: number;
+}
@@ -1,5 +1,13 @@
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
-import { IsBoolean, IsOptional, IsUUID, IsInt, Min } from "class-validator";
+import {
+  IsBoolean,
+  IsOptional,
+  IsUUID,
+  IsInt,
+  Min,
+  IsString,
+  MaxLength,
+} from "class-validator";
 import { Transform } from "class-transformer";
 
 export class UploadScreenshotDto {
@@ -9,6 +17,15 @@ export class UploadScreenshotDto {
   @Transform(({ value }) => value === "true")
   isBlurred?: boolean;
 
+  @ApiPropertyOptional({
+    description:
+      "Client-generated ID. Attaches the file to screenshot metadata sent via sync",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  clientId?: string;
+
   @ApiPropertyOptional({
     description: "Activity data (mouse clicks, keyboard)",
     type: "object",
@@ -27,12 +44,41 @@ export class UploadScreenshotDto {
   };
 }
 
+export class DeleteScreenshotDto {
+  @ApiPropertyOptional({
+    description:
+      "Also remove the screenshot interval from the time entry (trims or splits it)",
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === true || value === "true")
+  withTime?: boolean;
+}
+
+export class ScreenshotThumbnailDto {
+  @ApiProperty({ example: 320 })
+  width: number;
+
+  @ApiProperty({ description: "Signed URL" })
+  url: string;
+}
+
 export class ScreenshotResponseDto {
   @ApiProperty()
   id: string;
 
-  @ApiProperty()
-  url: string;
+  @ApiPropertyOptional({
+    description:
+      "Signed full-size WebP URL. Null until the file of an offline screenshot is uploaded",
+  })
+  url: string | null;
+
+  @ApiPropertyOptional({ description: "Signed URL of the smallest thumbnail" })
+  thumbnailUrl: string | null;
+
+  @ApiProperty({ type: [ScreenshotThumbnailDto] })
+  thumbnails: ScreenshotThumbnailDto[];
 
   @ApiProperty()
   takenAt: Date;
@@ -43,6 +89,9 @@ export class ScreenshotResponseDto {
   @ApiProperty()
   timeEntryId: string;
 
+  @ApiPropertyOptional()
+  clientId?: string | null;
+
   @ApiPropertyOptional()
   timeEntry?: {
     id: string;
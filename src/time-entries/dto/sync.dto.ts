@@ -0,0 +1,245 @@
+// time-entries/dto/sync.dto.ts
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  IntersectionType,
+} from "@nestjs/swagger";
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { AppActivityDto } from "./app-activity.dto";
+import { IdlePeriodDto } from "./idle.dto";
+import { TimeEntryResponseDto } from "./create-time-entry.dto";
+
+export const SYNC_BATCH_MAX_ITEMS = 500;
+
+export enum SyncItemType {
+  TIME_ENTRY = "timeEntry",
+  IDLE_PERIOD = "idlePeriod",
+  APP_ACTIVITY = "appActivity",
+  SCREENSHOT = "screenshot",
+}
+
+export enum SyncItemStatus {
+  CREATED = "created",
+  DUPLICATE = "duplicate",
+  CONFLICT = "conflict",
+}
+
+export enum SyncConflictCode {
+  OVERLAP = "OVERLAP",
+  LOCKED_PERIOD = "LOCKED_PERIOD",
+  SUBMITTED_TIMESHEET = "SUBMITTED_TIMESHEET",
+  NOT_FOUND = "NOT_FOUND",
+  FORBIDDEN = "FORBIDDEN",
+  INVALID = "INVALID",
+}
+
+// ==================== PUSH ====================
+
+export class SyncTimeEntryDto {
+  @ApiProperty({ description: "Client-generated ID", maxLength: 100 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  clientId: string;
+
+  @ApiProperty()
+  @IsUUID("4", { message: "Project ID must be a valid UUID" })
+  projectId: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID("4", { message: "Task ID must be a valid UUID" })
+  taskId?: string;
+
+  @ApiProperty()
+  @IsDate()
+  @Type(() => Date)
+  startTime: Date;
+
+  @ApiProperty()
+  @IsDate()
+  @Type(() => Date)
+  endTime: Date;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  billable?: boolean;
+}
+
+/**
+ * Дочерние элементы ссылаются на запись либо по серверному ID,
+ * либо по clientId записи из этого или предыдущего батча
+ */
+export class SyncTimeEntryRefDto {
+  @ApiProperty({ description: "Client-generated ID", maxLength: 100 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  clientId: string;
+
+  @ApiPropertyOptional({ description: "Server time entry ID" })
+  @IsOptional()
+  @IsUUID("4")
+  timeEntryId?: string;
+
+  @ApiPropertyOptional({ description: "clientId of a synced time entry" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  timeEntryClientId?: string;
+}
+
+export class SyncIdlePeriodDto extends IntersectionType(
+  IdlePeriodDto,
+  SyncTimeEntryRefDto,
+) {}
+
+export class SyncAppActivityDto extends IntersectionType(
+  AppActivityDto,
+  SyncTimeEntryRefDto,
+) {}
+
+export class SyncScreenshotDto extends SyncTimeEntryRefDto {
+  @ApiProperty()
+  @IsDate()
+  @Type(() => Date)
+  takenAt: Date;
+
+  @ApiPropertyOptional({ default: false })
+  @IsOptional()
+  @IsBoolean()
+  isBlurred?: boolean;
+}
+
+export class SyncBatchDto {
+  @ApiPropertyOptional({ description: "Desktop device identifier" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceId?: string;
+
+  @ApiPropertyOptional({ type: [SyncTimeEntryDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(SYNC_BATCH_MAX_ITEMS)
+  @ValidateNested({ each: true })
+  @Type(() => SyncTimeEntryDto)
+  timeEntries?: SyncTimeEntryDto[];
+
+  @ApiPropertyOptional({ type: [SyncIdlePeriodDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(SYNC_BATCH_MAX_ITEMS)
+  @ValidateNested({ each: true })
+  @Type(() => SyncIdlePeriodDto)
+  idlePeriods?: SyncIdlePeriodDto[];
+
+  @ApiPropertyOptional({ type: [SyncAppActivityDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(SYNC_BATCH_MAX_ITEMS)
+  @ValidateNested({ each: true })
+  @Type(() => SyncAppActivityDto)
+  appActivities?: SyncAppActivityDto[];
+
+  @ApiPropertyOptional({
+    type: [SyncScreenshotDto],
+    description:
+      "Screenshot metadata; the file is attached later via upload with the same clientId",
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(SYNC_BATCH_MAX_ITEMS)
+  @ValidateNested({ each: true })
+  @Type(() => SyncScreenshotDto)
+  screenshots?: SyncScreenshotDto[];
+}
+
+export class SyncConflictDto {
+  @ApiProperty({ enum: SyncConflictCode })
+  code: SyncConflictCode;
+
+  @ApiProperty()
+  message: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  conflictingIds?: string[];
+}
+
+export class SyncItemResultDto {
+  @ApiProperty({ enum: SyncItemType })
+  type: SyncItemType;
+
+  @ApiProperty()
+  clientId: string;
+
+  @ApiProperty({ enum: SyncItemStatus })
+  status: SyncItemStatus;
+
+  @ApiPropertyOptional({ description: "Server ID of the stored record" })
+  serverId?: string;
+
+  @ApiPropertyOptional({ type: SyncConflictDto })
+  conflict?: SyncConflictDto;
+}
+
+export class SyncBatchResponseDto {
+  @ApiProperty({ type: [SyncItemResultDto] })
+  results: SyncItemResultDto[];
+
+  @ApiProperty({
+    description: "Pass to GET /time-entries/sync/changes to pull updates",
+  })
+  cursor: string;
+
+  @ApiProperty()
+  serverTime: Date;
+}
+
+// ==================== PULL ====================
+
+export class SyncPullFilterDto {
+  @ApiPropertyOptional({ description: "Cursor from a previous sync response" })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({ default: 200, maximum: SYNC_BATCH_MAX_ITEMS })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(SYNC_BATCH_MAX_ITEMS)
+  limit?: number = 200;
+}
+
+export class SyncPullResponseDto {
+  @ApiProperty({ type: [TimeEntryResponseDto] })
+  timeEntries: TimeEntryResponseDto[];
+
+  @ApiProperty()
+  cursor: string;
+
+  @ApiProperty()
+  hasMore: boolean;
+}
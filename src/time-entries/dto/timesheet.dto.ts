@@ -0,0 +1,155 @@
+// time-entries/dto/timesheet.dto.ts
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { TimesheetStatus } from "@prisma/client";
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+} from "class-validator";
+
+export class CreateTimesheetDto {
+  @ApiProperty()
+  @IsUUID()
+  organizationId: string;
+
+  @ApiProperty({
+    description: "Monday of the week in the organization timezone",
+    example: "2026-10-19",
+  })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: "weekStart must be a date in YYYY-MM-DD format",
+  })
+  weekStart: string;
+}
+
+export class TimesheetFilterDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+
+  @ApiPropertyOptional({ enum: TimesheetStatus })
+  @IsOptional()
+  @IsEnum(TimesheetStatus)
+  status?: TimesheetStatus;
+}
+
+export class ApproveTimesheetDto {
+  @ApiPropertyOptional({ description: "Comment recorded with the step" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  comment?: string;
+}
+
+export class RejectTimesheetDto {
+  @ApiProperty({ example: "Tuesday is missing the client meeting" })
+  @IsString()
+  @IsNotEmpty({ message: "A rejection comment is required" })
+  @MaxLength(1000)
+  comment: string;
+}
+
+export class TimesheetEntryDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  projectId: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  taskId: string | null;
+
+  @ApiProperty()
+  startTime: Date;
+
+  @ApiPropertyOptional({ nullable: true })
+  endTime: Date | null;
+
+  @ApiProperty({ description: "Seconds" })
+  duration: number;
+
+  @ApiPropertyOptional({ nullable: true })
+  description: string | null;
+
+  @ApiProperty()
+  approved: boolean;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: "Approval step the entry waits for, null when approved",
+  })
+  approvalStep?: number | null;
+}
+
+export class TimesheetResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiProperty()
+  userId: string;
+
+  @ApiPropertyOptional({
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      firstName: { type: "string" },
+      lastName: { type: "string" },
+      email: { type: "string" },
+    },
+  })
+  user?: { id: string; firstName: string; lastName: string; email: string };
+
+  @ApiProperty()
+  periodStart: Date;
+
+  @ApiProperty({ description: "Exclusive end of the week" })
+  periodEnd: Date;
+
+  @ApiProperty({ enum: TimesheetStatus })
+  status: TimesheetStatus;
+
+  @ApiProperty({ description: "Seconds tracked when last submitted" })
+  totalSeconds: number;
+
+  @ApiPropertyOptional({ nullable: true })
+  submittedAt: Date | null;
+
+  @ApiProperty()
+  submissionCount: number;
+
+  @ApiPropertyOptional({ nullable: true })
+  reviewedById: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  reviewedAt: Date | null;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: "Comment of the most recent rejection",
+  })
+  rejectionComment: string | null;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description:
+      "Lowest approval step the pending entries of the week wait for",
+  })
+  currentStep?: number | null;
+
+  @ApiPropertyOptional({ type: [TimesheetEntryDto] })
+  entries?: TimesheetEntryDto[];
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
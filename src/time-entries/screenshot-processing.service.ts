@@ -0,0 +1,63 @@
+// time-entries/screenshot-processing.service.ts
+import { Injectable, Logger } from "@nestjs/common";
+import sharp from "sharp";
+import { ValidationException } from "../exceptions/business.exception";
+
+// Ширины превью в пикселях (по возрастанию)
+export const SCREENSHOT_THUMBNAIL_WIDTHS = [320, 960];
+
+const FULL_QUALITY = 80;
+const THUMBNAIL_QUALITY = 70;
+// Достаточно, чтобы текст на экране нельзя было прочитать
+const BLUR_SIGMA = 20;
+
+export interface ProcessedScreenshot {
+  full: Buffer;
+  thumbnails: { width: number; data: Buffer }[];
+}
+
+@Injectable()
+export class ScreenshotProcessingService {
+  private readonly logger = new Logger(ScreenshotProcessingService.name);
+
+  /**
+   * Конвертирует скриншот в WebP, при необходимости размывает
+   * и строит превью всех размеров
+   */
+  async process(
+    input: Buffer,
+    options: { blur: boolean },
+  ): Promise<ProcessedScreenshot> {
+    try {
+      const image = sharp(input).rotate();
+      if (options.blur) {
+        image.blur(BLUR_SIGMA);
+      }
+
+      const full = await image
+        .clone()
+        .webp({ quality: FULL_QUALITY })
+        .toBuffer();
+
+      const thumbnails = await Promise.all(
+        SCREENSHOT_THUMBNAIL_WIDTHS.map(async (width) => ({
+          width,
+          data: await image
+            .clone()
+            .resize({ width, withoutEnlargement: true })
+            .webp({ quality: THUMBNAIL_QUALITY })
+            .toBuffer(),
+        })),
+      );
+
+      this.logger.debug(
+        `Screenshot processed: ${input.length} -> ${full.length} bytes`,
+      );
+
+      return { full, thumbnails };
+    } catch (error) {
+      this.logger.warn(`Failed to process screenshot: ${error.message}`);
+      throw new ValidationException("Uploaded file is not a valid image");
+    }
+  }
+}
@@ -0,0 +1,148 @@
+// time-entries/screenshot-retention.service.ts
+import { Injectable, Logger } from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { Prisma, ScreenshotPurgeLog } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { TimeEntriesService } from "./time-entries.service";
+
+const PURGE_BATCH_SIZE = 200;
+
+/**
+ * Удаление скриншотов старше срока хранения организации (GDPR).
+ * Скриншоты заблокированных записей и периодов не трогаем.
+ */
+@Injectable()
+export class ScreenshotRetentionService {
+  private readonly logger = new Logger(ScreenshotRetentionService.name);
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly timeEntriesService: TimeEntriesService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM, { name: "screenshot-retention" })
+  async handleRetentionCron() {
+    // Предыдущий запуск еще не закончился
+    if (this.running) return;
+
+    this.running = true;
+    try {
+      await this.purgeExpiredScreenshots();
+    } catch (error) {
+      this.logger.error(
+        `Failed to purge expired screenshots: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async purgeExpiredScreenshots(): Promise<ScreenshotPurgeLog[]> {
+    const organizations = await this.prisma.organization.findMany({
+      where: { screenshotRetentionDays: { not: null } },
+      select: { id: true, screenshotRetentionDays: true },
+    });
+
+    const logs: ScreenshotPurgeLog[] = [];
+    for (const organization of organizations) {
+      logs.push(
+        await this.purgeOrganization(
+          organization.id,
+          organization.screenshotRetentionDays,
+        ),
+      );
+    }
+
+    return logs;
+  }
+
+  /**
+   * Очистка одной организации; результат фиксируется в ScreenshotPurgeLog
+   */
+  async purgeOrganization(
+    organizationId: string,
+    retentionDays: number,
+  ): Promise<ScreenshotPurgeLog> {
+    const startedAt = new Date();
+    const cutoff = new Date(
+      startedAt.getTime() - retentionDays * 24 * 3600 * 1000,
+    );
+
+    const lockedPeriods = await this.prisma.lockedPeriod.findMany({
+      where: { organizationId, isActive: true, startDate: { lt: cutoff } },
+      select: { startDate: true, endDate: true },
+    });
+
+    const expired: Prisma.ScreenshotWhereInput = {
+      takenAt: { lt: cutoff },
+      timeEntry: { project: { organizationId } },
+    };
+    const locked: Prisma.ScreenshotWhereInput[] = [
+      { timeEntry: { locked: true } },
+      ...lockedPeriods.map((period) => ({
+        timeEntry: {
+          startTime: { gte: period.startDate, lte: period.endDate },
+        },
+      })),
+    ];
+
+    const skippedLocked = await this.prisma.screenshot.count({
+      where: { ...expired, OR: locked },
+    });
+
+    let deletedCount = 0;
+    const failedIds: string[] = [];
+
+    for (;;) {
+      const batch = await this.prisma.screenshot.findMany({
+        where: {
+          ...expired,
+          NOT: locked,
+          id: { notIn: failedIds },
+        },
+        select: { id: true, storageKey: true, thumbnailKeys: true },
+        take: PURGE_BATCH_SIZE,
+      });
+      if (batch.length === 0) break;
+
+      const removedIds: string[] = [];
+      for (const screenshot of batch) {
+        try {
+          await this.timeEntriesService.deleteScreenshotFiles(screenshot);
+          removedIds.push(screenshot.id);
+        } catch (error) {
+          // Запись оставляем, чтобы файл удалился при следующем запуске
+          this.logger.warn(
+            `Failed to delete files of screenshot ${screenshot.id}: ${error.message}`,
+          );
+          failedIds.push(screenshot.id);
+        }
+      }
+
+      const { count } = await this.prisma.screenshot.deleteMany({
+        where: { id: { in: removedIds } },
+      });
+      deletedCount += count;
+    }
+
+    const log = await this.prisma.screenshotPurgeLog.create({
+      data: {
+        organizationId,
+        retentionDays,
+        cutoff,
+        deletedCount,
+        skippedLocked,
+        failedCount: failedIds.length,
+        startedAt,
+      },
+    });
+
+    this.logger.log(
+      `Screenshot purge for organization ${organizationId}: deleted ${deletedCount}, skipped locked ${skippedLocked}, failed ${failedIds.length}`,
+    );
+
+    return log;
+  }
+}
@@ -23,12 +23,12 @@ import {
   ApiBearerAuth,
 } from "@nestjs/swagger";
 import { FileInterceptor } from "@nestjs/platform-express";
-import { diskStorage } from "multer";
-import { extname } from "path";
+import { memoryStorage } from "multer";
 import { TimeEntriesService } from "./time-entries.service";
 import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
 import { GetUser } from "../auth/decorators/get-user.decorator";
 import {
+  DeleteScreenshotDto,
   UploadScreenshotDto,
   ScreenshotResponseDto,
   ScreenshotFilterDto,
@@ -47,25 +47,12 @@ export class ScreenshotsController {
   @ApiConsumes("multipart/form-data")
   @UseInterceptors(
     FileInterceptor("file", {
-      storage: diskStorage({
-        destination: "./uploads/screenshots",
-        filename: (req, file, cb) => {
-          const timeEntryId = req.params.timeEntryId;
-          const randomName = Array(32)
-            .fill(null)
-            .map(() => Math.round(Math.random() * 16).toString(16))
-            .join("");
-          return cb(
-            null,
-            `${timeEntryId}_${randomName}${extname(file.originalname)}`,
-          );
-        },
-      }),
+      storage: memoryStorage(),
       limits: {
         fileSize: 10 * 1024 * 1024, // 10MB
       },
       fileFilter: (req, file, cb) => {
-        if (!file.originalname.match(/\.(jpg|jpeg|png|gif|bmp)$/)) {
+        if (!file.originalname.match(/\.(jpg|jpeg|png|gif|bmp|webp)$/i)) {
           return cb(new Error("Only image files are allowed!"), false);
         }
         cb(null, true);
@@ -138,7 +125,11 @@ export class ScreenshotsController {
   }
 
   @Delete(":screenshotId")
-  @ApiOperation({ summary: "Delete screenshot" })
+  @ApiOperation({
+    summary: "Delete screenshot",
+    description:
+      "With withTime=true the screenshot interval is also removed from the time entry",
+  })
   @ApiParam({ name: "timeEntryId", format: "uuid" })
   @ApiParam({ name: "screenshotId", format: "uuid" })
   @ApiResponse({
@@ -150,7 +141,12 @@ export class ScreenshotsController {
     @Param("timeEntryId", ParseUUIDPipe) timeEntryId: string,
     @Param("screenshotId", ParseUUIDPipe) screenshotId: string,
     @GetUser("id") userId: string,
+    @Query() options: DeleteScreenshotDto,
   ): Promise<void> {
-    await this.timeEntriesService.deleteScreenshot(screenshotId, userId);
+    await this.timeEntriesService.deleteScreenshot(
+      screenshotId,
+      userId,
+      options,
+    );
   }
 }
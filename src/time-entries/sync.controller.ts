@@ -0,0 +1,59 @@
+// time-entries/sync.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from "@nestjs/swagger";
+import { SyncService } from "./sync.service";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { GetUser } from "../auth/decorators/get-user.decorator";
+import {
+  SyncBatchDto,
+  SyncBatchResponseDto,
+  SyncPullFilterDto,
+  SyncPullResponseDto,
+} from "./dto/sync.dto";
+
+@ApiTags("time-entries")
+@ApiBearerAuth()
+@Controller("time-entries/sync")
+@UseGuards(JwtAuthGuard)
+export class SyncController {
+  constructor(private readonly syncService: SyncService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Push offline batch",
+    description:
+      "Idempotent by clientId. Items that cannot be applied are returned with status conflict.",
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: SyncBatchResponseDto })
+  async push(
+    @GetUser("id") userId: string,
+    @Body() dto: SyncBatchDto,
+  ): Promise<SyncBatchResponseDto> {
+    return this.syncService.pushBatch(userId, dto);
+  }
+
+  @Get("changes")
+  @ApiOperation({ summary: "Pull time entry changes since cursor" })
+  @ApiResponse({ status: HttpStatus.OK, type: SyncPullResponseDto })
+  async pull(
+    @GetUser("id") userId: string,
+    @Query() filter: SyncPullFilterDto,
+  ): Promise<SyncPullResponseDto> {
+    return this.syncService.pullChanges(userId, filter);
+  }
+}
@@ -0,0 +1,252 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { PrismaService } from "../prisma/prisma.service";
+import { SyncService } from "./sync.service";
+import { TimeEntriesService } from "./time-entries.service";
+import { ApprovalService } from "./approval.service";
+import {
+  SyncConflictCode,
+  SyncItemStatus,
+  SyncItemType,
+  SyncTimeEntryDto,
+} from "./dto/sync.dto";
+import { ValidationException } from "../exceptions/business.exception";
+
+describe("SyncService", () => {
+  let service: SyncService;
+
+  const userId = "user-1";
+
+  const mockPrismaService = {
+    timeEntry: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+
+  const mockTimeEntriesService = {
+    validateProjectAccess: jest.fn(),
+    resolveOverlap: jest.fn(),
+    flagOverlappingEntries: jest.fn(),
+    mapToResponse: jest.fn((entry: { id: string }) => ({ id: entry.id })),
+  };
+
+  const mockApprovalService = {
+    findActiveLockedPeriod: jest.fn(),
+    findClosedTimesheet: jest.fn(),
+  };
+
+  const item: SyncTimeEntryDto = {
+    clientId: "local-1",
+    projectId: "project-1",
+    startTime: new Date("2026-10-01T09:00:00Z"),
+    endTime: new Date("2026-10-01T10:00:00Z"),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SyncService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: TimeEntriesService, useValue: mockTimeEntriesService },
+        { provide: ApprovalService, useValue: mockApprovalService },
+      ],
+    }).compile();
+
+    service = module.get<SyncService>(SyncService);
+
+    jest.clearAllMocks();
+    mockTimeEntriesService.validateProjectAccess.mockResolvedValue({
+      id: "project-1",
+      organizationId: "org-1",
+    });
+    mockApprovalService.findActiveLockedPeriod.mockResolvedValue(null);
+    mockApprovalService.findClosedTimesheet.mockResolvedValue(null);
+    mockTimeEntriesService.resolveOverlap.mockResolvedValue({
+      startTime: item.startTime,
+      endTime: item.endTime,
+      hasOverlap: false,
+      overlappingIds: [],
+      rejected: false,
+    });
+  });
+
+  describe("pushBatch", () => {
+    it("creates a time entry once and reports a resend as duplicate", async () => {
+      mockPrismaService.timeEntry.findUnique.mockResolvedValueOnce(null);
+      mockPrismaService.timeEntry.create.mockResolvedValueOnce({
+        id: "entry-1",
+      });
+
+      const first = await service.pushBatch(userId, { timeEntries: [item] });
+      expect(first.results).toEqual([
+        {
+          type: SyncItemType.TIME_ENTRY,
+          clientId: "local-1",
+          status: SyncItemStatus.CREATED,
+          serverId: "entry-1",
+        },
+      ]);
+
+      mockPrismaService.timeEntry.findUnique.mockResolvedValueOnce({
+        id: "entry-1",
+      });
+
+      const second = await service.pushBatch(userId, { timeEntries: [item] });
+      expect(second.results[0]).toMatchObject({
+        status: SyncItemStatus.DUPLICATE,
+        serverId: "entry-1",
+      });
+      expect(mockPrismaService.timeEntry.create).toHaveBeenCalledTimes(1);
+    });
+
+    it("treats a concurrent insert with the same clientId as duplicate", async () => {
+      mockPrismaService.timeEntry.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: "entry-winner" });
+      mockPrismaService.timeEntry.create.mockRejectedValueOnce({
+        code: "P2002",
+      });
+
+      const response = await service.pushBatch(userId, {
+        timeEntries: [item],
+      });
+
+      expect(response.results[0]).toMatchObject({
+        status: SyncItemStatus.DUPLICATE,
+        serverId: "entry-winner",
+      });
+    });
+
+    it("reports overlapping and locked entries as conflicts per item", async () => {
+      const overlapping = { ...item, clientId: "local-2" };
+      const locked = { ...item, clientId: "local-3" };
+
+      mockPrismaService.timeEntry.findUnique.mockResolvedValue(null);
+      mockTimeEntriesService.resolveOverlap.mockResolvedValueOnce({
+        startTime: item.startTime,
+        endTime: item.endTime,
+        hasOverlap: true,
+        overlappingIds: ["entry-existing"],
+        rejected: true,
+      });
+      mockApprovalService.findActiveLockedPeriod
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: "lock-1" });
+
+      const response = await service.pushBatch(userId, {
+        timeEntries: [overlapping, locked],
+      });
+
+      expect(response.results).toEqual([
+        expect.objectContaining({
+          clientId: "local-2",
+          status: SyncItemStatus.CONFLICT,
+          conflict: expect.objectContaining({
+            code: SyncConflictCode.OVERLAP,
+            conflictingIds: ["entry-existing"],
+          }),
+        }),
+        expect.objectContaining({
+          clientId: "local-3",
+          status: SyncItemStatus.CONFLICT,
+          conflict: expect.objectContaining({
+            code: SyncConflictCode.LOCKED_PERIOD,
+            conflictingIds: ["lock-1"],
+          }),
+        }),
+      ]);
+      expect(mockPrismaService.timeEntry.create).not.toHaveBeenCalled();
+    });
+
+    it("rejects entries inside a submitted timesheet", async () => {
+      mockPrismaService.timeEntry.findUnique.mockResolvedValueOnce(null);
+      mockApprovalService.findClosedTimesheet.mockResolvedValueOnce({
+        id: "timesheet-1",
+        status: "SUBMITTED",
+      });
+
+      const response = await service.pushBatch(userId, {
+        timeEntries: [item],
+      });
+
+      expect(response.results[0]).toMatchObject({
+        status: SyncItemStatus.CONFLICT,
+        conflict: {
+          code: SyncConflictCode.SUBMITTED_TIMESHEET,
+          conflictingIds: ["timesheet-1"],
+        },
+      });
+      expect(mockApprovalService.findClosedTimesheet).toHaveBeenCalledWith(
+        userId,
+        "org-1",
+        item.startTime,
+      );
+      expect(mockPrismaService.timeEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("pullChanges", () => {
+    const entry = (id: string, updatedAt: string) => ({
+      id,
+      updatedAt: new Date(updatedAt),
+    });
+
+    it("pages by (updatedAt, id) and continues after the cursor", async () => {
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([
+        entry("a", "2026-10-01T10:00:00Z"),
+        entry("b", "2026-10-01T10:00:00Z"),
+        entry("c", "2026-10-01T11:00:00Z"),
+      ]);
+
+      const page = await service.pullChanges(userId, { limit: 2 });
+
+      expect(page.hasMore).toBe(true);
+      expect(page.timeEntries.map((e) => e.id)).toEqual(["a", "b"]);
+      expect(mockPrismaService.timeEntry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId }, take: 3 }),
+      );
+
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([
+        entry("c", "2026-10-01T11:00:00Z"),
+      ]);
+
+      const next = await service.pullChanges(userId, {
+        limit: 2,
+        cursor: page.cursor,
+      });
+
+      // Записи с тем же updatedAt, что и у последней, не теряются
+      expect(mockPrismaService.timeEntry.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: {
+            userId,
+            OR: [
+              { updatedAt: { gt: new Date("2026-10-01T10:00:00Z") } },
+              { updatedAt: new Date("2026-10-01T10:00:00Z"), id: { gt: "b" } },
+            ],
+          },
+        }),
+      );
+      expect(next.hasMore).toBe(false);
+      expect(next.timeEntries.map((e) => e.id)).toEqual(["c"]);
+    });
+
+    it("keeps the cursor when there are no changes", async () => {
+      const cursor = Buffer.from(
+        JSON.stringify({ t: "2026-10-01T10:00:00.000Z", id: "b" }),
+      ).toString("base64url");
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([]);
+
+      const page = await service.pullChanges(userId, { cursor });
+
+      expect(page).toEqual({ timeEntries: [], cursor, hasMore: false });
+    });
+
+    it("rejects a malformed cursor", async () => {
+      await expect(
+        service.pullChanges(userId, { cursor: "not-a-cursor" }),
+      ).rejects.toBeInstanceOf(ValidationException);
+    });
+  });
+});
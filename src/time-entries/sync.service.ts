@@ -0,0 +1,446 @@
+// time-entries/sync.service.ts
+import { Injectable, Logger } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { TimeEntriesService } from "./time-entries.service";
+import { ApprovalService } from "./approval.service";
+import {
+  SyncBatchDto,
+  SyncBatchResponseDto,
+  SyncConflictCode,
+  SyncItemResultDto,
+  SyncItemStatus,
+  SyncItemType,
+  SyncPullFilterDto,
+  SyncPullResponseDto,
+  SyncTimeEntryDto,
+  SyncTimeEntryRefDto,
+} from "./dto/sync.dto";
+import {
+  BusinessException,
+  EntityNotFoundException,
+  PermissionDeniedException,
+  ValidationException,
+} from "../exceptions/business.exception";
+
+/**
+ * Конфликт отдельного элемента батча — не прерывает синхронизацию остальных
+ */
+class SyncConflict extends Error {
+  constructor(
+    public readonly code: SyncConflictCode,
+    message: string,
+    public readonly conflictingIds?: string[],
+  ) {
+    super(message);
+  }
+}
+
+interface SyncCursor {
+  updatedAt: Date;
+  id: string;
+}
+
+@Injectable()
+export class SyncService {
+  private readonly logger = new Logger(SyncService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly timeEntriesService: TimeEntriesService,
+    private readonly approvalService: ApprovalService,
+  ) {}
+
+  // ==================== PUSH ====================
+
+  /**
+   * Применить накопленные офлайн данные. Каждый элемент идемпотентен
+   * по clientId: повторная отправка вернет статус duplicate.
+   */
+  async pushBatch(
+    userId: string,
+    dto: SyncBatchDto,
+  ): Promise<SyncBatchResponseDto> {
+    // Курсор берем до применения батча, чтобы pull вернул и эти изменения
+    const serverTime = new Date();
+    const results: SyncItemResultDto[] = [];
+
+    this.logger.log(
+      `User ${userId} syncing batch from device ${dto.deviceId ?? "unknown"}`,
+    );
+
+    // Сначала записи времени — на них ссылаются остальные элементы
+    for (const item of dto.timeEntries ?? []) {
+      results.push(
+        await this.applyItem(SyncItemType.TIME_ENTRY, item.clientId, () =>
+          this.applyTimeEntry(userId, item),
+        ),
+      );
+    }
+
+    for (const item of dto.idlePeriods ?? []) {
+      results.push(
+        await this.applyItem(SyncItemType.IDLE_PERIOD, item.clientId, () =>
+          this.applyChild(userId, item, async (timeEntryId) => {
+            const existing = await this.prisma.idlePeriod.findUnique({
+              where: {
+                timeEntryId_clientId: { timeEntryId, clientId: item.clientId },
+              },
+            });
+            if (existing) return { id: existing.id, created: false };
+
+            const created = await this.timeEntriesService.storeIdlePeriod(
+              timeEntryId,
+              item,
+              item.clientId,
+            );
+            return { id: created.id, created: true };
+          }),
+        ),
+      );
+    }
+
+    for (const item of dto.appActivities ?? []) {
+      results.push(
+        await this.applyItem(SyncItemType.APP_ACTIVITY, item.clientId, () =>
+          this.applyChild(userId, item, async (timeEntryId) => {
+            const existing = await this.prisma.appActivity.findUnique({
+              where: {
+                timeEntryId_clientId: { timeEntryId, clientId: item.clientId },
+              },
+            });
+            if (existing) return { id: existing.id, created: false };
+
+            const created = await this.prisma.appActivity.create({
+              data: {
+                appName: item.appName,
+                windowTitle: item.windowTitle,
+                url: item.url,
+                domain: item.domain,
+                category: this.timeEntriesService.resolveAppCategory(item),
+                durationSeconds: item.durationSeconds,
+                trackedAt: item.trackedAt,
+                clientId: item.clientId,
+                timeEntryId,
+              },
+            });
+            return { id: created.id, created: true };
+          }),
+        ),
+      );
+    }
+
+    for (const item of dto.screenshots ?? []) {
+      results.push(
+        await this.applyItem(SyncItemType.SCREENSHOT, item.clientId, () =>
+          this.applyChild(userId, item, async (timeEntryId) => {
+            const existing = await this.prisma.screenshot.findUnique({
+              where: {
+                timeEntryId_clientId: { timeEntryId, clientId: item.clientId },
+              },
+            });
+            if (existing) return { id: existing.id, created: false };
+
+            // Файл загружается позже через upload с тем же clientId
+            const created = await this.prisma.screenshot.create({
+              data: {
+                takenAt: item.takenAt,
+                isBlurred: item.isBlurred ?? false,
+                clientId: item.clientId,
+                timeEntryId,
+              },
+            });
+            return { id: created.id, created: true };
+          }),
+        ),
+      );
+    }
+
+    const conflicts = results.filter(
+      (r) => r.status === SyncItemStatus.CONFLICT,
+    ).length;
+    this.logger.log(
+      `Sync for user ${userId}: ${results.length} items, ${conflicts} conflicts`,
+    );
+
+    return {
+      results,
+      cursor: this.encodeCursor({ updatedAt: serverTime, id: "" }),
+      serverTime,
+    };
+  }
+
+  // ==================== PULL ====================
+
+  /**
+   * Изменения записей пользователя после курсора (по updatedAt, id)
+   */
+  async pullChanges(
+    userId: string,
+    filter: SyncPullFilterDto,
+  ): Promise<SyncPullResponseDto> {
+    const limit = filter.limit ?? 200;
+    const cursor = filter.cursor ? this.decodeCursor(filter.cursor) : null;
+
+    const where: Prisma.TimeEntryWhereInput = { userId };
+    if (cursor) {
+      where.OR = [
+        { updatedAt: { gt: cursor.updatedAt } },
+        { updatedAt: cursor.updatedAt, id: { gt: cursor.id } },
+      ];
+    }
+
+    const entries = await this.prisma.timeEntry.findMany({
+      where,
+      include: {
+        project: { select: { id: true, name: true } },
+        task: { select: { id: true, name: true } },
+      },
+      orderBy: [{ updatedAt: "asc" }, { id: "asc" }],
+      take: limit + 1,
+    });
+
+    const hasMore = entries.length > limit;
+    const page = hasMore ? entries.slice(0, limit) : entries;
+    const last = page[page.length - 1];
+
+    return {
+      timeEntries: page.map((entry) =>
+        this.timeEntriesService.mapToResponse(entry),
+      ),
+      cursor: last
+        ? this.encodeCursor({ updatedAt: last.updatedAt, id: last.id })
+        : (filter.cursor ??
+          this.encodeCursor({ updatedAt: new Date(0), id: "" })),
+      hasMore,
+    };
+  }
+
+  // ==================== ПРИВАТНЫЕ МЕТОДЫ ====================
+
+  private async applyItem(
+    type: SyncItemType,
+    clientId: string,
+    apply: () => Promise<{ id: string; created: boolean }>,
+  ): Promise<SyncItemResultDto> {
+    try {
+      const { id, created } = await apply();
+      return {
+        type,
+        clientId,
+        status: created ? SyncItemStatus.CREATED : SyncItemStatus.DUPLICATE,
+        serverId: id,
+      };
+    } catch (error) {
+      const conflict = this.toConflict(error);
+      if (!conflict) {
+        throw error;
+      }
+      return {
+        type,
+        clientId,
+        status: SyncItemStatus.CONFLICT,
+        conflict: {
+          code: conflict.code,
+          message: conflict.message,
+          conflictingIds: conflict.conflictingIds,
+        },
+      };
+    }
+  }
+
+  private toConflict(error: unknown): SyncConflict | null {
+    if (error instanceof SyncConflict) {
+      return error;
+    }
+    if (error instanceof EntityNotFoundException) {
+      return new SyncConflict(SyncConflictCode.NOT_FOUND, error.message);
+    }
+    if (error instanceof PermissionDeniedException) {
+      return new SyncConflict(SyncConflictCode.FORBIDDEN, error.message);
+    }
+    if (error instanceof BusinessException) {
+      return new SyncConflict(SyncConflictCode.INVALID, error.message);
+    }
+    return null;
+  }
+
+  private async applyTimeEntry(
+    userId: string,
+    item: SyncTimeEntryDto,
+  ): Promise<{ id: string; created: boolean }> {
+    const existing = await this.prisma.timeEntry.findUnique({
+      where: { userId_clientId: { userId, clientId: item.clientId } },
+      select: { id: true },
+    });
+    if (existing) {
+      return { id: existing.id, created: false };
+    }
+
+    if (item.startTime >= item.endTime) {
+      throw new ValidationException("Start time must be before end time");
+    }
+
+    const project = await this.timeEntriesService.validateProjectAccess(
+      item.projectId,
+      userId,
+    );
+
+    const lock = await this.approvalService.findActiveLockedPeriod(
+      project.organizationId,
+      item.startTime,
+    );
+    if (lock) {
+      throw new SyncConflict(
+        SyncConflictCode.LOCKED_PERIOD,
+        "Time entry falls into a locked period",
+        [lock.id],
+      );
+    }
+
+    const timesheet = await this.approvalService.findClosedTimesheet(
+      userId,
+      project.organizationId,
+      item.startTime,
+    );
+    if (timesheet) {
+      throw new SyncConflict(
+        SyncConflictCode.SUBMITTED_TIMESHEET,
+        `Time entry falls into a ${timesheet.status.toLowerCase()} timesheet`,
+        [timesheet.id],
+      );
+    }
+
+    const { startTime, endTime, hasOverlap, overlappingIds, rejected } =
+      await this.timeEntriesService.resolveOverlap(
+        userId,
+        project.organizationId,
+        item.startTime,
+        item.endTime,
+      );
+    if (rejected) {
+      throw new SyncConflict(
+        SyncConflictCode.OVERLAP,
+        "Time entry overlaps existing entries",
+        overlappingIds,
+      );
+    }
+
+    try {
+      const created = await this.prisma.timeEntry.create({
+        data: {
+          startTime,
+          endTime,
+          duration: Math.floor(
+            (endTime.getTime() - startTime.getTime()) / 1000,
+          ),
+          hasOverlap,
+          description: item.description,
+          billable: item.billable ?? true,
+          clientId: item.clientId,
+          userId,
+          projectId: item.projectId,
+          taskId: item.taskId,
+        },
+      });
+
+      if (hasOverlap) {
+        await this.timeEntriesService.flagOverlappingEntries(overlappingIds);
+      }
+
+      return { id: created.id, created: true };
+    } catch (error) {
+      // Параллельный запрос с тем же clientId успел раньше
+      if (error.code === "P2002") {
+        const winner = await this.prisma.timeEntry.findUnique({
+          where: { userId_clientId: { userId, clientId: item.clientId } },
+          select: { id: true },
+        });
+        if (winner) return { id: winner.id, created: false };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Находит запись-родителя, проверяет владельца и блокировку,
+   * затем создает дочерний элемент
+   */
+  private async applyChild(
+    userId: string,
+    ref: SyncTimeEntryRefDto,
+    create: (timeEntryId: string) => Promise<{ id: string; created: boolean }>,
+  ): Promise<{ id: string; created: boolean }> {
+    let timeEntry: { id: string; userId: string; locked: boolean } | null =
+      null;
+
+    if (ref.timeEntryId) {
+      timeEntry = await this.prisma.timeEntry.findUnique({
+        where: { id: ref.timeEntryId },
+        select: { id: true, userId: true, locked: true },
+      });
+    } else if (ref.timeEntryClientId) {
+      timeEntry = await this.prisma.timeEntry.findUnique({
+        where: {
+          userId_clientId: { userId, clientId: ref.timeEntryClientId },
+        },
+        select: { id: true, userId: true, locked: true },
+      });
+    } else {
+      throw new ValidationException(
+        "Either timeEntryId or timeEntryClientId is required",
+      );
+    }
+
+    if (!timeEntry) {
+      throw new EntityNotFoundException(
+        "TimeEntry",
+        ref.timeEntryId ?? ref.timeEntryClientId,
+      );
+    }
+
+    if (timeEntry.userId !== userId) {
+      throw new PermissionDeniedException(
+        "You do not have access to this time entry",
+      );
+    }
+
+    if (timeEntry.locked) {
+      throw new SyncConflict(
+        SyncConflictCode.LOCKED_PERIOD,
+        "Time entry is locked",
+        [timeEntry.id],
+      );
+    }
+
+    try {
+      return await create(timeEntry.id);
+    } catch (error) {
+      if (error.code === "P2002") {
+        return create(timeEntry.id);
+      }
+      throw error;
+    }
+  }
+
+  private encodeCursor(cursor: SyncCursor): string {
+    return Buffer.from(
+      JSON.stringify({ t: cursor.updatedAt.toISOString(), id: cursor.id }),
+    ).toString("base64url");
+  }
+
+  private decodeCursor(value: string): SyncCursor {
+    try {
+      const parsed = JSON.parse(
+        Buffer.from(value, "base64url").toString("utf8"),
+      );
+      const updatedAt = new Date(parsed.t);
+      if (isNaN(updatedAt.getTime()) || typeof parsed.id !== "string") {
+        throw new Error("Malformed cursor");
+      }
+      return { updatedAt, id: parsed.id };
+    } catch {
+      throw new ValidationException("Invalid sync cursor");
+    }
+  }
+}
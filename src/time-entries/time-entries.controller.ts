@@ -36,7 +36,12 @@ import {
   AppActivityResponseDto,
   AppActivityFilterDto,
 } from "./dto/app-activity.dto";
-import { IdlePeriodDto, IdlePeriodResponseDto } from "./dto/idle.dto";
+import {
+  IdlePeriodDto,
+  IdlePeriodResponseDto,
+  ResolveIdlePeriodDto,
+} from "./dto/idle.dto";
+import { OverlapFilterDto, TimeEntryOverlapDto } from "./dto/overlap.dto";
 
 @ApiTags("time-entries")
 @ApiBearerAuth()
@@ -55,7 +60,11 @@ export class TimeEntriesController {
     schema: {
       properties: {
         message: { type: "string", example: "Timer started successfully" },
-        timerId: { type: "string", example: "timer_1234567890_user123" },
+        timerId: {
+          type: "string",
+          format: "uuid",
+          description: "ID of the open time entry",
+        },
       },
     },
   })
@@ -72,10 +81,10 @@ export class TimeEntriesController {
   }
 
   @Post("stop")
-  @ApiOperation({ summary: "Stop timer and create time entry" })
+  @ApiOperation({ summary: "Stop timer and close time entry" })
   @ApiResponse({
     status: HttpStatus.CREATED,
-    description: "Timer stopped, time entry created",
+    description: "Timer stopped, time entry closed",
     type: TimeEntryResponseDto,
   })
   @ApiResponse({
@@ -90,6 +99,35 @@ export class TimeEntriesController {
     return this.timeEntriesService.stopTimer(userId, dto);
   }
 
+  @Post("switch")
+  @ApiOperation({
+    summary: "Switch running timer to another project or task",
+    description:
+      "Stops the current timer (if any) and starts a new one at the same instant",
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: "Timer switched",
+    schema: {
+      properties: {
+        message: { type: "string", example: "Timer switched successfully" },
+        timerId: { type: "string", format: "uuid" },
+        previousTimeEntryId: {
+          type: "string",
+          format: "uuid",
+          nullable: true,
+        },
+      },
+    },
+  })
+  @HttpCode(HttpStatus.CREATED)
+  async switchTimer(
+    @GetUser("id") userId: string,
+    @Body() dto: StartTimeEntryDto,
+  ) {
+    return this.timeEntriesService.switchTimer(userId, dto);
+  }
+
   @Get("active")
   @ApiOperation({ summary: "Get active timer status" })
   @ApiResponse({
@@ -98,6 +136,7 @@ export class TimeEntriesController {
     schema: {
       properties: {
         isActive: { type: "boolean" },
+        timeEntryId: { type: "string", format: "uuid" },
         startTime: { type: "string", format: "date-time" },
         data: {
           type: "object",
@@ -136,6 +175,26 @@ export class TimeEntriesController {
     return this.timeEntriesService.createManualEntry(userId, dto);
   }
 
+  // ==================== OVERLAPS ====================
+
+  @Get("overlaps")
+  @ApiOperation({
+    summary: "List overlapping time entries",
+    description:
+      "Own entries by default; pass organizationId to scan the organization (owner/admin/manager)",
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Pairs of overlapping entries",
+    type: [TimeEntryOverlapDto],
+  })
+  async getOverlaps(
+    @GetUser("id") userId: string,
+    @Query() filters: OverlapFilterDto,
+  ): Promise<TimeEntryOverlapDto[]> {
+    return this.timeEntriesService.getOverlaps(userId, filters);
+  }
+
   // ==================== CRUD TIME ENTRIES ====================
 
   @Get()
@@ -236,6 +295,34 @@ export class TimeEntriesController {
     return this.timeEntriesService.getIdlePeriods(timeEntryId, userId);
   }
 
+  @Post(":timeEntryId/idle/:idlePeriodId/resolve")
+  @ApiOperation({
+    summary: "Keep or discard a pending idle period",
+    description:
+      "Discarded idle time is subtracted from the time entry duration",
+  })
+  @ApiParam({ name: "timeEntryId", format: "uuid" })
+  @ApiParam({ name: "idlePeriodId", format: "uuid" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Idle period resolved",
+    type: IdlePeriodResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async resolveIdlePeriod(
+    @Param("timeEntryId", ParseUUIDPipe) timeEntryId: string,
+    @Param("idlePeriodId", ParseUUIDPipe) idlePeriodId: string,
+    @GetUser("id") userId: string,
+    @Body() dto: ResolveIdlePeriodDto,
+  ): Promise<IdlePeriodResponseDto> {
+    return this.timeEntriesService.resolveIdlePeriod(
+      timeEntryId,
+      idlePeriodId,
+      userId,
+      dto,
+    );
+  }
+
   @Post(":timeEntryId/app-activities")
   @ApiOperation({ summary: "Record app activity" })
   async recordAppActivity(
@@ -274,7 +361,7 @@ export class TimeEntriesController {
   async checkIdle(
     @GetUser("id") userId: string,
     @Body("lastActivityTimestamp") lastActivityTimestamp: Date,
-  ): Promise<{ isIdle: boolean; idleDuration?: number }> {
+  ) {
     return this.timeEntriesService.checkIdle(
       userId,
       new Date(lastActivityTimestamp),
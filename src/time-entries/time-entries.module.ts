@@ -4,22 +4,47 @@ import { ScreenshotsController } from "./screenshots.controller";
 import { TimeEntriesService } from "./time-entries.service";
 import { PrismaModule } from "../prisma/prisma.module";
 import { MulterModule } from "@nestjs/platform-express";
+import { memoryStorage } from "multer";
 import { ApprovalService } from "./approval.service";
+import { ApprovalChainService } from "./approval-chain.service";
+import { AutoLockService } from "./auto-lock.service";
 import { ApprovalController } from "./approval.controller";
+import { TimesheetService } from "./timesheet.service";
+import { TimesheetController } from "./timesheet.controller";
+import { RealtimeModule } from "../realtime/realtime.module";
+import { StorageModule } from "../storage/storage.module";
+import { SyncController } from "./sync.controller";
+import { SyncService } from "./sync.service";
+import { ScreenshotProcessingService } from "./screenshot-processing.service";
+import { ScreenshotRetentionService } from "./screenshot-retention.service";
 
 @Module({
   imports: [
     PrismaModule,
+    RealtimeModule,
+    StorageModule,
+    // Файлы держим в памяти и сами передаем в StorageService
     MulterModule.register({
-      dest: "./uploads",
+      storage: memoryStorage(),
     }),
   ],
   controllers: [
+    SyncController,
     TimeEntriesController,
     ScreenshotsController,
     ApprovalController,
+    TimesheetController,
+  ],
+  providers: [
+    TimeEntriesService,
+    ApprovalService,
+    ApprovalChainService,
+    AutoLockService,
+    TimesheetService,
+    SyncService,
+    ScreenshotProcessingService,
+    ScreenshotRetentionService,
   ],
-  providers: [TimeEntriesService, ApprovalService],
   exports: [TimeEntriesService, ApprovalService],
 })
 export class TimeEntriesModule {}
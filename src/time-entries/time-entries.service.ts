@@ -1,6 +1,8 @@
-import { Injectable, Logger } from "@nestjs/common";
+import { Injectable, Logger, OnApplicationBootstrap } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { randomUUID } from "crypto";
 import { PrismaService } from "../prisma/prisma.service";
-import { Prisma } from "@prisma/client";
+import { IdlePolicy, IdleStatus, OverlapPolicy, Prisma } from "@prisma/client";
 import {
   StartTimeEntryDto,
   StopTimeEntryDto,
@@ -13,8 +15,10 @@ import {
   EntityNotFoundException,
   PermissionDeniedException,
   InvalidOperationException,
+  ValidationException,
 } from "../exceptions/business.exception";
 import {
+  DeleteScreenshotDto,
   ScreenshotFilterDto,
   ScreenshotResponseDto,
   UploadScreenshotDto,
@@ -25,34 +29,100 @@ import {
   AppActivityFilterDto,
   AppCategory,
 } from "./dto/app-activity.dto";
-import { IdlePeriodDto, IdlePeriodResponseDto } from "./dto/idle.dto";
+import {
+  IdlePeriodDto,
+  IdlePeriodResponseDto,
+  IdleResolution,
+  ResolveIdlePeriodDto,
+} from "./dto/idle.dto";
+import { OverlapFilterDto, TimeEntryOverlapDto } from "./dto/overlap.dto";
 import { ApprovalService } from "./approval.service";
+import { RealtimeGateway } from "../realtime/realtime.gateway";
+import { TimerEventPayload } from "../realtime/realtime.events";
+import { StorageService } from "../storage/storage.service";
+import { ScreenshotProcessingService } from "./screenshot-processing.service";
+
+// Таймер, который не остановили дольше этого срока, считается брошенным
+const DEFAULT_TIMER_MAX_DURATION_HOURS = 24;
+
+// Длина интервала скриншота (слоты выровнены по часам, как в Hubstaff)
+const DEFAULT_SCREENSHOT_INTERVAL_MINUTES = 10;
+
+// Порог простоя, если организация не найдена
+const DEFAULT_IDLE_THRESHOLD_MINUTES = 5;
+
+// Период поиска пересечений по умолчанию
+const DEFAULT_OVERLAP_SCAN_DAYS = 30;
+
+export interface OverlapResolution {
+  startTime: Date;
+  endTime: Date;
+  hasOverlap: boolean;
+  overlappingIds: string[];
+  rejected: boolean;
+}
 
 @Injectable()
-export class TimeEntriesService {
+export class TimeEntriesService implements OnApplicationBootstrap {
   private readonly logger = new Logger(TimeEntriesService.name);
 
-  // Активные таймеры пользователей (в памяти)
-  private activeTimers: Map<
-    string,
-    { startTime: Date; data: StartTimeEntryDto }
-  > = new Map();
+  private readonly timeEntryInclude = {
+    user: {
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        avatar: true,
+      },
+    },
+    project: {
+      select: {
+        id: true,
+        name: true,
+      },
+    },
+    task: {
+      select: {
+        id: true,
+        name: true,
+      },
+    },
+  } as const;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly approvalService: ApprovalService,
+    private readonly configService: ConfigService,
+    private readonly realtimeGateway: RealtimeGateway,
+    private readonly storageService: StorageService,
+    private readonly screenshotProcessing: ScreenshotProcessingService,
   ) {}
 
+  /**
+   * При старте закрываем открытые записи, которые висят дольше допустимого
+   */
+  async onApplicationBootstrap() {
+    try {
+      await this.reconcileOpenTimers();
+    } catch (error) {
+      this.logger.error(
+        `Failed to reconcile open timers: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
   // ==================== ПРИВАТНЫЕ МЕТОДЫ ====================
 
-  private async validateProjectAccess(projectId: string, userId: string) {
+  async validateProjectAccess(projectId: string, userId: string) {
     const project = await this.prisma.project.findUnique({
       where: { id: projectId },
       include: {
         organization: {
           include: {
             members: {
-              where: { userId, status: "ACTIVE" },
+              where: { userId, status: "ACTIVE", is_current: true },
             },
           },
         },
@@ -107,10 +177,500 @@ export class TimeEntriesService {
     return timeEntry;
   }
 
+  private async findOpenTimeEntry(userId: string) {
+    return this.prisma.timeEntry.findFirst({
+      where: { userId, endTime: null },
+      include: { project: { select: { organizationId: true } } },
+      orderBy: { startTime: "desc" },
+    });
+  }
+
+  private toTimerEventPayload(
+    entry: {
+      id: string;
+      userId: string;
+      projectId: string;
+      taskId: string | null;
+      description: string | null;
+      startTime: Date;
+      endTime: Date | null;
+      duration: number | null;
+    },
+    organizationId: string,
+  ): TimerEventPayload {
+    return {
+      timeEntryId: entry.id,
+      userId: entry.userId,
+      organizationId,
+      projectId: entry.projectId,
+      taskId: entry.taskId,
+      description: entry.description,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      duration: entry.duration,
+    };
+  }
+
+  /**
+   * Рассылка в WebSocket не должна ломать основной запрос
+   */
+  private notifyRealtime(action: () => Promise<void>) {
+    action().catch((error) => {
+      this.logger.warn(`Failed to broadcast timer event: ${error.message}`);
+    });
+  }
+
+  private getTimerMaxDurationSeconds(): number {
+    const hours = Number(
+      this.configService.get("TIMER_MAX_DURATION_HOURS") ??
+        DEFAULT_TIMER_MAX_DURATION_HOURS,
+    );
+    return (
+      (Number.isFinite(hours) && hours > 0
+        ? hours
+        : DEFAULT_TIMER_MAX_DURATION_HOURS) * 3600
+    );
+  }
+
+  /**
+   * Закрывает брошенные таймеры (например, клиент потерял связь перед
+   * остановкой). Длительность обрезается до максимально допустимой.
+   */
+  async reconcileOpenTimers(): Promise<number> {
+    const maxSeconds = this.getTimerMaxDurationSeconds();
+    const staleBefore = new Date(Date.now() - maxSeconds * 1000);
+
+    const staleEntries = await this.prisma.timeEntry.findMany({
+      where: { endTime: null, startTime: { lt: staleBefore } },
+      select: { id: true, startTime: true },
+    });
+
+    for (const entry of staleEntries) {
+      const endTime = new Date(entry.startTime.getTime() + maxSeconds * 1000);
+      const idleSeconds = await this.getDiscardedIdleSeconds(
+        entry.id,
+        entry.startTime,
+        endTime,
+      );
+
+      await this.prisma.timeEntry.updateMany({
+        where: { id: entry.id, endTime: null },
+        data: {
+          endTime,
+          idleSeconds,
+          duration: Math.max(0, maxSeconds - idleSeconds),
+        },
+      });
+    }
+
+    const stillOpen = await this.prisma.timeEntry.count({
+      where: { endTime: null },
+    });
+
+    this.logger.log(
+      `Timer reconciliation: closed ${staleEntries.length} stale, ${stillOpen} still running`,
+    );
+
+    return staleEntries.length;
+  }
+
+  /**
+   * Записи пользователя, пересекающиеся с интервалом [startTime, endTime).
+   * Запущенный таймер считается идущим до текущего момента.
+   */
+  async findOverlappingEntries(
+    userId: string,
+    startTime: Date,
+    endTime: Date,
+    excludeId?: string,
+  ) {
+    return this.prisma.timeEntry.findMany({
+      where: {
+        userId,
+        ...(excludeId && { NOT: { id: excludeId } }),
+        startTime: { lt: endTime },
+        OR: [{ endTime: { gt: startTime } }, { endTime: null }],
+      },
+      select: { id: true, startTime: true, endTime: true, projectId: true },
+      orderBy: { startTime: "asc" },
+    });
+  }
+
+  /**
+   * Исключенный простой в пределах [startTime, endTime). Пересекающиеся
+   * периоды объединяются, чтобы не вычесть одно и то же время дважды.
+   */
+  private async getDiscardedIdleSeconds(
+    timeEntryId: string,
+    startTime: Date,
+    endTime: Date,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<number> {
+    const periods = await client.idlePeriod.findMany({
+      where: { timeEntryId, status: IdleStatus.DISCARDED },
+      select: { startTime: true, endTime: true, duration: true },
+      orderBy: { startTime: "asc" },
+    });
+
+    let total = 0;
+    let cursor = startTime.getTime();
+    for (const period of periods) {
+      const periodEnd =
+        period.endTime?.getTime() ??
+        (period.duration !== null
+          ? period.startTime.getTime() + period.duration * 1000
+          : null);
+      if (periodEnd === null) continue;
+
+      const from = Math.max(period.startTime.getTime(), cursor);
+      const to = Math.min(periodEnd, endTime.getTime());
+      if (to > from) {
+        total += to - from;
+        cursor = to;
+      }
+    }
+
+    return Math.floor(total / 1000);
+  }
+
+  /**
+   * Пересчитывает duration записи за вычетом исключенного простоя
+   */
+  async recalculateDuration(timeEntryId: string) {
+    const entry = await this.prisma.timeEntry.findUnique({
+      where: { id: timeEntryId },
+      select: { startTime: true, endTime: true },
+    });
+    if (!entry) {
+      throw new EntityNotFoundException("TimeEntry", timeEntryId);
+    }
+
+    // У запущенного таймера duration появится при остановке
+    const idleSeconds = await this.getDiscardedIdleSeconds(
+      timeEntryId,
+      entry.startTime,
+      entry.endTime ?? new Date(),
+    );
+
+    return this.prisma.timeEntry.update({
+      where: { id: timeEntryId },
+      data: {
+        idleSeconds,
+        duration: entry.endTime
+          ? Math.max(
+              0,
+              Math.floor(
+                (entry.endTime.getTime() - entry.startTime.getTime()) / 1000,
+              ) - idleSeconds,
+            )
+          : undefined,
+      },
+    });
+  }
+
+  private async getIdleSettings(organizationId: string) {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { idlePolicy: true, idleThresholdMinutes: true },
+    });
+
+    return {
+      policy: organization?.idlePolicy ?? IdlePolicy.KEEP,
+      thresholdSeconds:
+        (organization?.idleThresholdMinutes ?? DEFAULT_IDLE_THRESHOLD_MINUTES) *
+        60,
+    };
+  }
+
+  /**
+   * Сохраняет период бездействия, определяя его статус по политике организации.
+   * Периоды короче порога всегда засчитываются.
+   */
+  async storeIdlePeriod(
+    timeEntryId: string,
+    dto: IdlePeriodDto,
+    clientId?: string,
+  ) {
+    const timeEntry = await this.prisma.timeEntry.findUnique({
+      where: { id: timeEntryId },
+      select: { project: { select: { organizationId: true } } },
+    });
+    if (!timeEntry) {
+      throw new EntityNotFoundException("TimeEntry", timeEntryId);
+    }
+
+    // Если есть endTime, вычисляем duration
+    let duration = dto.duration;
+    if (dto.startTime && dto.endTime && !duration) {
+      duration = Math.floor(
+        (dto.endTime.getTime() - dto.startTime.getTime()) / 1000,
+      );
+    }
+
+    const { policy, thresholdSeconds } = await this.getIdleSettings(
+      timeEntry.project.organizationId,
+    );
+
+    let status: IdleStatus = IdleStatus.KEPT;
+    if (duration !== undefined && duration >= thresholdSeconds) {
+      if (policy === IdlePolicy.DISCARD) status = IdleStatus.DISCARDED;
+      if (policy === IdlePolicy.ASK) status = IdleStatus.PENDING;
+    }
+
+    const idlePeriod = await this.prisma.idlePeriod.create({
+      data: {
+        startTime: dto.startTime,
+        endTime: dto.endTime,
+        duration,
+        reason: dto.reason,
+        status,
+        resolvedAt: status === IdleStatus.DISCARDED ? new Date() : undefined,
+        clientId,
+        timeEntryId,
+      },
+    });
+
+    if (status === IdleStatus.DISCARDED) {
+      await this.recalculateDuration(timeEntryId);
+    }
+
+    return idlePeriod;
+  }
+
+  /**
+   * Применяет политику пересечений организации к интервалу записи.
+   * AUTO_TRIM сдвигает начало за пересекающиеся записи и обрезает конец
+   * до следующей; если ничего не остается — запись отклоняется.
+   */
+  async resolveOverlap(
+    userId: string,
+    organizationId: string,
+    startTime: Date,
+    endTime: Date,
+    excludeId?: string,
+  ): Promise<OverlapResolution> {
+    const overlapping = await this.findOverlappingEntries(
+      userId,
+      startTime,
+      endTime,
+      excludeId,
+    );
+
+    const resolution: OverlapResolution = {
+      startTime,
+      endTime,
+      hasOverlap: false,
+      overlappingIds: overlapping.map((entry) => entry.id),
+      rejected: false,
+    };
+
+    if (overlapping.length === 0) {
+      return resolution;
+    }
+
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { overlapPolicy: true },
+    });
+
+    switch (organization?.overlapPolicy ?? OverlapPolicy.REJECT) {
+      case OverlapPolicy.ALLOW_AND_FLAG:
+        return { ...resolution, hasOverlap: true };
+
+      case OverlapPolicy.AUTO_TRIM: {
+        let start = startTime;
+        let end = endTime;
+
+        for (const entry of overlapping) {
+          // Запущенный таймер занимает все время после своего начала
+          const entryEnd = entry.endTime ?? end;
+
+          if (entry.startTime <= start) {
+            if (entryEnd > start) start = entryEnd;
+          } else if (entry.startTime < end) {
+            end = entry.startTime;
+            break;
+          }
+        }
+
+        if (start >= end) {
+          return { ...resolution, rejected: true };
+        }
+
+        return { ...resolution, startTime: start, endTime: end };
+      }
+
+      default:
+        return { ...resolution, rejected: true };
+    }
+  }
+
+  /**
+   * Помечает записи как пересекающиеся (для политики ALLOW_AND_FLAG)
+   */
+  async flagOverlappingEntries(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.prisma.timeEntry.updateMany({
+      where: { id: { in: ids } },
+      data: { hasOverlap: true },
+    });
+  }
+
+  private async enforceOverlapPolicy(
+    userId: string,
+    organizationId: string,
+    startTime: Date,
+    endTime: Date,
+    excludeId?: string,
+  ): Promise<OverlapResolution> {
+    const resolution = await this.resolveOverlap(
+      userId,
+      organizationId,
+      startTime,
+      endTime,
+      excludeId,
+    );
+
+    if (resolution.rejected) {
+      throw new InvalidOperationException(
+        `Time entry overlaps existing entries: ${resolution.overlappingIds.join(", ")}`,
+      );
+    }
+
+    if (
+      resolution.startTime.getTime() !== startTime.getTime() ||
+      resolution.endTime.getTime() !== endTime.getTime()
+    ) {
+      this.logger.log(
+        `Time entry for user ${userId} trimmed to ${resolution.startTime.toISOString()} - ${resolution.endTime.toISOString()}`,
+      );
+    }
+
+    return resolution;
+  }
+
+  /**
+   * Интервал закрываемого таймера по политике пересечений.
+   * Закрытие не должно отказывать: иначе открытый таймер не закрыть
+   * и новый не запустить. Отклоненная политикой запись помечается
+   */
+  private async resolveTimerClose(
+    userId: string,
+    organizationId: string,
+    timer: { id: string; startTime: Date },
+    closedAt: Date,
+  ): Promise<OverlapResolution> {
+    const resolution = await this.resolveOverlap(
+      userId,
+      organizationId,
+      timer.startTime,
+      closedAt,
+      timer.id,
+    );
+
+    if (!resolution.rejected) {
+      return resolution;
+    }
+
+    this.logger.warn(
+      `Timer ${timer.id} overlaps entries ${resolution.overlappingIds.join(", ")}, flagged on close`,
+    );
+
+    return {
+      ...resolution,
+      startTime: timer.startTime,
+      endTime: closedAt,
+      hasOverlap: true,
+    };
+  }
+
+  /**
+   * Политика REJECT действует до запуска таймера: отсчет нельзя начать
+   * внутри существующей записи. Остальные политики применяются при остановке
+   */
+  private async assertTimerCanStart(
+    userId: string,
+    organizationId: string,
+    at: Date,
+    excludeId?: string,
+  ): Promise<void> {
+    const covering = await this.findOverlappingEntries(
+      userId,
+      at,
+      new Date(at.getTime() + 1),
+      excludeId,
+    );
+    if (covering.length === 0) return;
+
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { overlapPolicy: true },
+    });
+    if (
+      (organization?.overlapPolicy ?? OverlapPolicy.REJECT) ===
+      OverlapPolicy.REJECT
+    ) {
+      throw new InvalidOperationException(
+        `Timer would start inside existing entries: ${covering.map((entry) => entry.id).join(", ")}`,
+      );
+    }
+  }
+
+  /**
+   * Записи недели, табель которой отправлен или утвержден, не меняются,
+   * пока руководитель его не отклонит. Остановка таймера не проверяется:
+   * табель нельзя отправить с открытой записью
+   */
+  private async assertTimesheetOpen(
+    userId: string,
+    organizationId: string,
+    ...moments: Date[]
+  ): Promise<void> {
+    for (const at of moments) {
+      const timesheet = await this.approvalService.findClosedTimesheet(
+        userId,
+        organizationId,
+        at,
+      );
+      if (timesheet) {
+        throw new InvalidOperationException(
+          `Time entry falls into a ${timesheet.status.toLowerCase()} timesheet`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Пересчитывает флаг hasOverlap после изменения или удаления соседней записи
+   */
+  private async refreshOverlapFlags(userId: string, ids: string[]) {
+    for (const id of ids) {
+      const entry = await this.prisma.timeEntry.findUnique({
+        where: { id },
+        select: { startTime: true, endTime: true, hasOverlap: true },
+      });
+      if (!entry?.hasOverlap || !entry.endTime) continue;
+
+      const overlapping = await this.findOverlappingEntries(
+        userId,
+        entry.startTime,
+        entry.endTime,
+        id,
+      );
+      if (overlapping.length === 0) {
+        await this.prisma.timeEntry.update({
+          where: { id },
+          data: { hasOverlap: false },
+        });
+      }
+    }
+  }
+
   // ==================== ОСНОВНЫЕ МЕТОДЫ ====================
 
   /**
-   * Начать отсчет времени
+   * Начать отсчет времени (создает открытую запись без endTime)
    */
   async startTimer(
     userId: string,
@@ -121,30 +681,54 @@ export class TimeEntriesService {
     );
 
     // Проверяем, нет ли уже активного таймера
-    if (this.activeTimers.has(userId)) {
+    if (await this.findOpenTimeEntry(userId)) {
       throw new InvalidOperationException("You already have an active timer");
     }
 
     // Проверяем доступ к проекту
-    await this.validateProjectAccess(dto.projectId, userId);
+    const project = await this.validateProjectAccess(dto.projectId, userId);
 
-    // Сохраняем таймер в памяти
-    const timerId = `timer_${Date.now()}_${userId}`;
-    this.activeTimers.set(userId, {
-      startTime: new Date(),
-      data: dto,
-    });
+    const startTime = new Date();
+    await this.assertTimesheetOpen(userId, project.organizationId, startTime);
+    await this.assertTimerCanStart(userId, project.organizationId, startTime);
 
-    this.logger.log(`Timer started for user ${userId}`);
+    try {
+      // Уникальный частичный индекс по (userId) WHERE endTime IS NULL
+      // не дает создать второй открытый таймер при конкурентных запросах
+      const timeEntry = await this.prisma.timeEntry.create({
+        data: {
+          startTime,
+          description: dto.description,
+          billable: dto.billable ?? true,
+          userId,
+          projectId: dto.projectId,
+          taskId: dto.taskId,
+        },
+      });
 
-    return {
-      message: "Timer started successfully",
-      timerId,
-    };
+      this.logger.log(`Timer ${timeEntry.id} started for user ${userId}`);
+
+      this.notifyRealtime(() =>
+        this.realtimeGateway.emitTimerStarted(
+          this.toTimerEventPayload(timeEntry, project.organizationId),
+        ),
+      );
+
+      return {
+        message: "Timer started successfully",
+        timerId: timeEntry.id,
+      };
+    } catch (error) {
+      if (error.code === "P2002") {
+        throw new InvalidOperationException("You already have an active timer");
+      }
+      this.logger.error(`Failed to start timer: ${error.message}`, error.stack);
+      throw error;
+    }
   }
 
   /**
-   * Остановить отсчет времени и сохранить запись
+   * Остановить отсчет времени и закрыть запись
    */
   async stopTimer(
     userId: string,
@@ -153,64 +737,195 @@ export class TimeEntriesService {
     this.logger.log(`User ${userId} stopping timer`);
 
     // Проверяем, есть ли активный таймер
-    const activeTimer = this.activeTimers.get(userId);
+    const activeTimer = await this.findOpenTimeEntry(userId);
     if (!activeTimer) {
       throw new InvalidOperationException("No active timer found");
     }
 
-    const endTime = new Date();
-    const duration = Math.floor(
-      (endTime.getTime() - activeTimer.startTime.getTime()) / 1000,
+    const { startTime, endTime, hasOverlap, overlappingIds } =
+      await this.resolveTimerClose(
+        userId,
+        activeTimer.project.organizationId,
+        activeTimer,
+        new Date(),
+      );
+
+    const idleSeconds = await this.getDiscardedIdleSeconds(
+      activeTimer.id,
+      startTime,
+      endTime,
+    );
+    const duration = Math.max(
+      0,
+      Math.floor((endTime.getTime() - startTime.getTime()) / 1000) -
+        idleSeconds,
     );
 
     try {
-      // Создаем запись времени
-      const timeEntry = await this.prisma.timeEntry.create({
+      // Условие endTime: null защищает от двойной остановки
+      const { count } = await this.prisma.timeEntry.updateMany({
+        where: { id: activeTimer.id, endTime: null },
         data: {
-          startTime: activeTimer.startTime,
+          startTime,
           endTime,
           duration,
-          description: dto.description || activeTimer.data.description,
-          billable: activeTimer.data.billable ?? true,
-          userId,
-          projectId: activeTimer.data.projectId,
-          taskId: activeTimer.data.taskId,
+          idleSeconds,
+          hasOverlap,
+          description: dto.description || activeTimer.description,
         },
-        include: {
-          user: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-              avatar: true,
-            },
-          },
-          project: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-          task: {
-            select: {
-              id: true,
-              name: true,
+      });
+
+      if (count === 0) {
+        throw new InvalidOperationException("No active timer found");
+      }
+
+      if (hasOverlap) {
+        await this.flagOverlappingEntries(overlappingIds);
+      }
+
+      const timeEntry = await this.prisma.timeEntry.findUnique({
+        where: { id: activeTimer.id },
+        include: this.timeEntryInclude,
+      });
+
+      this.logger.log(`Timer stopped, time entry ${timeEntry.id} closed`);
+
+      this.notifyRealtime(() =>
+        this.realtimeGateway.emitTimerStopped(
+          this.toTimerEventPayload(
+            timeEntry,
+            activeTimer.project.organizationId,
+          ),
+        ),
+      );
+
+      return this.mapToResponse(timeEntry);
+    } catch (error) {
+      this.logger.error(`Failed to stop timer: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Переключить таймер на другой проект/задачу без паузы между записями
+   */
+  async switchTimer(
+    userId: string,
+    dto: StartTimeEntryDto,
+  ): Promise<{
+    message: string;
+    timerId: string;
+    previousTimeEntryId: string | null;
+  }> {
+    this.logger.log(
+      `User ${userId} switching timer to project ${dto.projectId}`,
+    );
+
+    const project = await this.validateProjectAccess(dto.projectId, userId);
+    const activeTimer = await this.findOpenTimeEntry(userId);
+    const switchedAt = new Date();
+
+    await this.assertTimesheetOpen(userId, project.organizationId, switchedAt);
+    await this.assertTimerCanStart(
+      userId,
+      project.organizationId,
+      switchedAt,
+      activeTimer?.id,
+    );
+
+    // Предыдущая запись закрывается по тем же правилам, что и при остановке
+    const closing = activeTimer
+      ? await this.resolveTimerClose(
+          userId,
+          activeTimer.project.organizationId,
+          activeTimer,
+          switchedAt,
+        )
+      : null;
+
+    try {
+      const { previous, current } = await this.prisma.$transaction(
+        async (tx) => {
+          let previous = null;
+
+          if (activeTimer) {
+            const { startTime, endTime, hasOverlap } = closing;
+            const idleSeconds = await this.getDiscardedIdleSeconds(
+              activeTimer.id,
+              startTime,
+              endTime,
+              tx,
+            );
+            const { count } = await tx.timeEntry.updateMany({
+              where: { id: activeTimer.id, endTime: null },
+              data: {
+                startTime,
+                endTime,
+                idleSeconds,
+                hasOverlap,
+                duration: Math.max(
+                  0,
+                  Math.floor((endTime.getTime() - startTime.getTime()) / 1000) -
+                    idleSeconds,
+                ),
+              },
+            });
+
+            if (count === 0) {
+              throw new InvalidOperationException(
+                "Active timer was changed by another request",
+              );
+            }
+
+            previous = await tx.timeEntry.findUnique({
+              where: { id: activeTimer.id },
+            });
+          }
+
+          const current = await tx.timeEntry.create({
+            data: {
+              startTime: switchedAt,
+              description: dto.description,
+              billable: dto.billable ?? true,
+              userId,
+              projectId: dto.projectId,
+              taskId: dto.taskId,
             },
-          },
+          });
+
+          return { previous, current };
         },
-      });
+      );
 
-      // Удаляем таймер из памяти
-      this.activeTimers.delete(userId);
+      if (closing?.hasOverlap) {
+        await this.flagOverlappingEntries(closing.overlappingIds);
+      }
 
-      this.logger.log(
-        `Timer stopped, time entry created with id ${timeEntry.id}`,
+      this.notifyRealtime(() =>
+        this.realtimeGateway.emitTimerSwitched({
+          previous: previous
+            ? this.toTimerEventPayload(
+                previous,
+                activeTimer.project.organizationId,
+              )
+            : null,
+          current: this.toTimerEventPayload(current, project.organizationId),
+        }),
       );
 
-      return this.mapToResponse(timeEntry);
+      return {
+        message: "Timer switched successfully",
+        timerId: current.id,
+        previousTimeEntryId: previous?.id ?? null,
+      };
     } catch (error) {
-      this.logger.error(`Failed to stop timer: ${error.message}`, error.stack);
+      if (error.code === "P2002") {
+        throw new InvalidOperationException("You already have an active timer");
+      }
+      this.logger.error(
+        `Failed to switch timer: ${error.message}`,
+        error.stack,
+      );
       throw error;
     }
   }
@@ -225,23 +940,38 @@ export class TimeEntriesService {
     this.logger.log(`User ${userId} creating manual time entry`);
 
     // Проверяем доступ к проекту
-    await this.validateProjectAccess(dto.projectId, userId);
+    const project = await this.validateProjectAccess(dto.projectId, userId);
 
     // Валидация: startTime должен быть меньше endTime
     if (dto.startTime >= dto.endTime) {
       throw new InvalidOperationException("Start time must be before end time");
     }
 
+    await this.assertTimesheetOpen(
+      userId,
+      project.organizationId,
+      dto.startTime,
+    );
+
+    const { startTime, endTime, hasOverlap, overlappingIds } =
+      await this.enforceOverlapPolicy(
+        userId,
+        project.organizationId,
+        dto.startTime,
+        dto.endTime,
+      );
+
     const duration = Math.floor(
-      (dto.endTime.getTime() - dto.startTime.getTime()) / 1000,
+      (endTime.getTime() - startTime.getTime()) / 1000,
     );
 
     try {
       const timeEntry = await this.prisma.timeEntry.create({
         data: {
-          startTime: dto.startTime,
-          endTime: dto.endTime,
+          startTime,
+          endTime,
           duration,
+          hasOverlap,
           description: dto.description,
           billable: dto.billable ?? true,
           userId,
@@ -273,6 +1003,10 @@ export class TimeEntriesService {
         },
       });
 
+      if (hasOverlap) {
+        await this.flagOverlappingEntries(overlappingIds);
+      }
+
       return this.mapToResponse(timeEntry);
     } catch (error) {
       this.logger.error(
@@ -440,6 +1174,14 @@ export class TimeEntriesService {
       throw new InvalidOperationException("Time entry is locked");
     }
 
+    // Запись не должна ни меняться внутри закрытой недели, ни переноситься в нее
+    await this.assertTimesheetOpen(
+      timeEntry.userId,
+      timeEntry.project.organizationId,
+      timeEntry.startTime,
+      ...(dto.startTime ? [dto.startTime] : []),
+    );
+
     if (timeEntry.approved) {
       const canEditApproved = await this.approvalService.approveTimeEntries(
         userId,
@@ -454,6 +1196,9 @@ export class TimeEntriesService {
           "You are not allowed to edit this time entry",
         );
       }
+    } else {
+      // Правка сбрасывает незавершенную цепочку утверждения
+      await this.approvalService.resetPendingApprovals(id);
     }
 
     const oldValues = {
@@ -464,41 +1209,60 @@ export class TimeEntriesService {
       taskId: timeEntry.taskId,
       approved: timeEntry.approved,
     };
-    const { reason, ...updateData } = dto;
-    // Обновляем
-    const updated = await this.prisma.timeEntry.update({
-      where: { id },
-      data: updateData,
-    });
 
     // Если обновляются времена, проверяем их
-    if (dto.startTime && dto.endTime && dto.startTime >= dto.endTime) {
+    const timesChanged = Boolean(dto.startTime || dto.endTime);
+    let startTime = dto.startTime ?? timeEntry.startTime;
+    let endTime = dto.endTime ?? timeEntry.endTime;
+
+    if (endTime && startTime >= endTime) {
       throw new InvalidOperationException("Start time must be before end time");
     }
 
-    // Вычисляем новую длительность, если обновляются времена
+    // Вычисляем новую длительность и проверяем пересечения
     let duration: number | undefined;
-    if (dto.startTime || dto.endTime) {
-      const entry = await this.prisma.timeEntry.findUnique({
-        where: { id },
-        select: { startTime: true, endTime: true },
-      });
-
-      const startTime = dto.startTime || entry?.startTime;
-      const endTime = dto.endTime || entry?.endTime;
-
-      if (startTime && endTime) {
-        duration = Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
+    let idleSeconds: number | undefined;
+    let hasOverlap: boolean | undefined;
+    let overlappingIds: string[] = [];
+    let previousOverlaps: string[] = [];
+    if (timesChanged && endTime) {
+      if (timeEntry.hasOverlap) {
+        previousOverlaps = (
+          await this.findOverlappingEntries(
+            timeEntry.userId,
+            timeEntry.startTime,
+            timeEntry.endTime ?? new Date(),
+            id,
+          )
+        ).map((entry) => entry.id);
       }
+
+      ({ startTime, endTime, hasOverlap, overlappingIds } =
+        await this.enforceOverlapPolicy(
+          timeEntry.userId,
+          timeEntry.project.organizationId,
+          startTime,
+          endTime,
+          id,
+        ));
+
+      idleSeconds = await this.getDiscardedIdleSeconds(id, startTime, endTime);
+      duration = Math.max(
+        0,
+        Math.floor((endTime.getTime() - startTime.getTime()) / 1000) -
+          idleSeconds,
+      );
     }
 
     try {
       const timeEntry = await this.prisma.timeEntry.update({
         where: { id },
         data: {
-          startTime: dto.startTime,
-          endTime: dto.endTime,
+          startTime: timesChanged ? startTime : undefined,
+          endTime: timesChanged ? endTime : undefined,
           duration,
+          idleSeconds,
+          hasOverlap,
           description: dto.description,
           billable: dto.billable,
           taskId: dto.taskId,
@@ -529,13 +1293,21 @@ export class TimeEntriesService {
         },
       });
 
+      if (hasOverlap) {
+        await this.flagOverlappingEntries(overlappingIds);
+      }
+      await this.refreshOverlapFlags(
+        timeEntry.userId,
+        previousOverlaps.filter((entryId) => !overlappingIds.includes(entryId)),
+      );
+
       await this.approvalService.logTimeEntryChange(
         id,
         userId,
         oldValues,
         {
-          startTime: dto.startTime,
-          endTime: dto.endTime,
+          startTime: timesChanged ? startTime : undefined,
+          endTime: timesChanged ? endTime : undefined,
           description: dto.description,
           billable: dto.billable,
           taskId: dto.taskId,
@@ -562,13 +1334,38 @@ export class TimeEntriesService {
     this.logger.log(`Deleting time entry ${id}`);
 
     // Проверяем доступ
-    await this.validateTimeEntryAccess(id, userId);
+    const timeEntry = await this.validateTimeEntryAccess(id, userId);
+
+    if (timeEntry.invoiceId) {
+      throw new InvalidOperationException("Time entry is already invoiced");
+    }
+
+    await this.assertTimesheetOpen(
+      timeEntry.userId,
+      timeEntry.project.organizationId,
+      timeEntry.startTime,
+    );
+
+    const previousOverlaps =
+      timeEntry.hasOverlap && timeEntry.endTime
+        ? await this.findOverlappingEntries(
+            timeEntry.userId,
+            timeEntry.startTime,
+            timeEntry.endTime,
+            id,
+          )
+        : [];
 
     try {
       await this.prisma.timeEntry.delete({
         where: { id },
       });
       this.logger.log(`Time entry ${id} deleted`);
+
+      await this.refreshOverlapFlags(
+        timeEntry.userId,
+        previousOverlaps.map((entry) => entry.id),
+      );
     } catch (error) {
       this.logger.error(
         `Failed to delete time entry: ${error.message}`,
@@ -581,20 +1378,137 @@ export class TimeEntriesService {
   /**
    * Получить активный таймер пользователя
    */
-  getActiveTimer(userId: string): {
+  async getActiveTimer(userId: string): Promise<{
     isActive: boolean;
+    timeEntryId?: string;
     startTime?: Date;
     data?: StartTimeEntryDto;
-  } {
-    const timer = this.activeTimers.get(userId);
+  }> {
+    const timer = await this.findOpenTimeEntry(userId);
     if (!timer) {
       return { isActive: false };
     }
     return {
       isActive: true,
+      timeEntryId: timer.id,
       startTime: timer.startTime,
-      data: timer.data,
+      data: {
+        projectId: timer.projectId,
+        taskId: timer.taskId ?? undefined,
+        description: timer.description ?? undefined,
+        billable: timer.billable,
+      },
+    };
+  }
+
+  // ==================== ПЕРЕСЕЧЕНИЯ ====================
+
+  /**
+   * Найти пересекающиеся пары записей пользователя или организации
+   */
+  async getOverlaps(
+    userId: string,
+    filters: OverlapFilterDto,
+  ): Promise<TimeEntryOverlapDto[]> {
+    const toDate = filters.toDate ?? new Date();
+    const fromDate =
+      filters.fromDate ??
+      new Date(toDate.getTime() - DEFAULT_OVERLAP_SCAN_DAYS * 24 * 3600 * 1000);
+
+    if (fromDate >= toDate) {
+      throw new InvalidOperationException("fromDate must be before toDate");
+    }
+
+    const where: Prisma.TimeEntryWhereInput = {
+      endTime: { not: null, gt: fromDate },
+      startTime: { lt: toDate },
     };
+
+    if (filters.organizationId) {
+      await this.validateOverlapViewAccess(filters.organizationId, userId);
+      where.project = { organizationId: filters.organizationId };
+      if (filters.userId) {
+        where.userId = filters.userId;
+      }
+    } else {
+      if (filters.userId && filters.userId !== userId) {
+        throw new PermissionDeniedException(
+          "organizationId is required to view other members' overlaps",
+        );
+      }
+      where.userId = userId;
+    }
+
+    const entries = await this.prisma.timeEntry.findMany({
+      where,
+      select: {
+        id: true,
+        userId: true,
+        projectId: true,
+        startTime: true,
+        endTime: true,
+        hasOverlap: true,
+      },
+      orderBy: [{ userId: "asc" }, { startTime: "asc" }],
+    });
+
+    // Записи отсортированы по началу: для каждой достаточно сравнить
+    // с последующими, пока они начинаются раньше ее конца
+    const overlaps: TimeEntryOverlapDto[] = [];
+    for (let i = 0; i < entries.length; i++) {
+      const first = entries[i];
+      for (let j = i + 1; j < entries.length; j++) {
+        const second = entries[j];
+        if (second.userId !== first.userId) break;
+        if (second.startTime >= first.endTime) break;
+
+        const overlapEnd =
+          first.endTime < second.endTime ? first.endTime : second.endTime;
+        overlaps.push({
+          userId: first.userId,
+          first,
+          second,
+          overlapSeconds: Math.floor(
+            (overlapEnd.getTime() - second.startTime.getTime()) / 1000,
+          ),
+        });
+      }
+    }
+
+    return overlaps;
+  }
+
+  private async validateOverlapViewAccess(
+    organizationId: string,
+    userId: string,
+  ) {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: {
+        ownerId: true,
+        members: {
+          where: { userId, status: "ACTIVE", is_current: true },
+          select: { role: true },
+        },
+      },
+    });
+
+    if (!organization) {
+      throw new EntityNotFoundException("Organization", organizationId);
+    }
+
+    const role = organization.members[0]?.role;
+    const canView =
+      organization.ownerId === userId ||
+      role === "OWNER" ||
+      role === "ADMIN" ||
+      role === "MANAGER";
+
+    if (!canView) {
+      throw new PermissionDeniedException(
+        "Only owners, admins and managers can view organization overlaps",
+      );
+    }
   }
 
   async uploadScreenshot(
@@ -608,19 +1522,49 @@ export class TimeEntriesService {
     // 1. Проверяем доступ к временной записи
     const timeEntry = await this.validateTimeEntryAccess(timeEntryId, userId);
 
-    // 2. Здесь должна быть загрузка в S3 / MinIO / локальное хранилище
-    // Пока сохраняем путь к файлу локально
-    const fileName = `screenshots/${timeEntryId}/${Date.now()}.png`;
-    const fileUrl = `/uploads/${fileName}`;
+    if (!file?.buffer) {
+      throw new ValidationException("Screenshot file is required");
+    }
+
+    // Файл для метаданных, пришедших через офлайн-синхронизацию
+    const pending = dto.clientId
+      ? await this.prisma.screenshot.findUnique({
+          where: {
+            timeEntryId_clientId: { timeEntryId, clientId: dto.clientId },
+          },
+        })
+      : null;
+
+    if (pending?.url) {
+      // Файл уже прикреплен — повторная загрузка не нужна
+      return this.mapToScreenshotResponse(pending);
+    }
 
-    // TODO: Реальная загрузка файла (сейчас просто симулируем)
+    // 2. Обрабатываем и загружаем файлы в хранилище (локальный диск или S3/MinIO).
+    // Размываем по настройке приватности организации или по запросу клиента
+    const isBlurred =
+      timeEntry.project.organization.blurScreenshots || dto.isBlurred === true;
+    const files = await this.storeScreenshotFiles(
+      timeEntryId,
+      file.buffer,
+      isBlurred,
+    );
 
     try {
+      if (pending) {
+        const attached = await this.prisma.screenshot.update({
+          where: { id: pending.id },
+          data: { ...files, isBlurred: isBlurred || pending.isBlurred },
+        });
+        return this.mapToScreenshotResponse(attached);
+      }
+
       const screenshot = await this.prisma.screenshot.create({
         data: {
-          url: fileUrl,
+          ...files,
           takenAt: new Date(),
-          isBlurred: dto.isBlurred ?? false,
+          isBlurred,
+          clientId: dto.clientId,
           timeEntryId,
         },
         include: {
@@ -658,10 +1602,64 @@ export class TimeEntriesService {
         `Failed to upload screenshot: ${error.message}`,
         error.stack,
       );
+      // Не оставляем в хранилище файлы без записи
+      await this.deleteScreenshotFiles(files).catch(() => undefined);
       throw error;
     }
   }
 
+  /**
+   * Сохраняет WebP-оригинал и превью, возвращает поля для записи Screenshot
+   */
+  private async storeScreenshotFiles(
+    timeEntryId: string,
+    input: Buffer,
+    blur: boolean,
+  ) {
+    const { full, thumbnails } = await this.screenshotProcessing.process(
+      input,
+      { blur },
+    );
+    const baseKey = `screenshots/${timeEntryId}/${randomUUID()}`;
+
+    const stored = await this.storageService.upload(
+      `${baseKey}.webp`,
+      full,
+      "image/webp",
+    );
+
+    const thumbnailKeys: Record<string, string> = {};
+    for (const thumbnail of thumbnails) {
+      const { key } = await this.storageService.upload(
+        `${baseKey}_w${thumbnail.width}.webp`,
+        thumbnail.data,
+        "image/webp",
+      );
+      thumbnailKeys[thumbnail.width] = key;
+    }
+
+    return { url: stored.url, storageKey: stored.key, thumbnailKeys };
+  }
+
+  /**
+   * Удаляет оригинал и все превью скриншота из хранилища
+   */
+  async deleteScreenshotFiles(screenshot: {
+    storageKey: string | null;
+    thumbnailKeys: Prisma.JsonValue;
+  }) {
+    const keys = [
+      screenshot.storageKey,
+      ...Object.values(
+        (screenshot.thumbnailKeys as Record<string, string> | null) ?? {},
+      ),
+    ].filter(Boolean);
+
+    for (const key of keys) {
+      await this.storageService.delete(key);
+    }
+  }
+
   async getScreenshots(
     timeEntryId: string,
     userId: string,
@@ -679,11 +1677,17 @@ export class TimeEntriesService {
       skip: filter.offset,
     });
 
-    return screenshots.map((s) => this.mapToScreenshotResponse(s));
+    return Promise.all(screenshots.map((s) => this.mapToScreenshotResponse(s)));
   }
 
-  async deleteScreenshot(screenshotId: string, userId: string): Promise<void> {
-    this.logger.log(`Deleting screenshot ${screenshotId}`);
+  async deleteScreenshot(
+    screenshotId: string,
+    userId: string,
+    options: DeleteScreenshotDto = {},
+  ): Promise<void> {
+    this.logger.log(
+      `Deleting screenshot ${screenshotId}${options.withTime ? " with time" : ""}`,
+    );
 
     // Находим скриншот
     const screenshot = await this.prisma.screenshot.findUnique({
@@ -695,10 +1699,15 @@ export class TimeEntriesService {
       throw new EntityNotFoundException("Screenshot", screenshotId);
     }
 
+    if (options.withTime) {
+      return this.deleteScreenshotWithTime(screenshot, userId);
+    }
+
     // Проверяем доступ (через временную запись)
     await this.validateTimeEntryAccess(screenshot.timeEntryId, userId);
 
-    // TODO: Удалить физический файл из хранилища
+    // Сначала удаляем объект: при ошибке запись останется и удаление можно повторить
+    await this.deleteScreenshotFiles(screenshot);
 
     await this.prisma.screenshot.delete({
       where: { id: screenshotId },
@@ -707,6 +1716,203 @@ export class TimeEntriesService {
     this.logger.log(`Screenshot ${screenshotId} deleted`);
   }
 
+  /**
+   * Удаляет скриншот вместе с его интервалом: запись обрезается с нужной
+   * стороны или разбивается на две, активность интервала удаляется
+   */
+  private async deleteScreenshotWithTime(
+    screenshot: { id: string; takenAt: Date; timeEntryId: string },
+    userId: string,
+  ): Promise<void> {
+    const timeEntry = await this.validateTimeEntryAccess(
+      screenshot.timeEntryId,
+      userId,
+    );
+
+    if (!timeEntry.endTime) {
+      throw new InvalidOperationException(
+        "Stop the timer before deleting time from this entry",
+      );
+    }
+
+    if (timeEntry.locked) {
+      throw new InvalidOperationException("Time entry is locked");
+    }
+
+    const lock = await this.approvalService.findActiveLockedPeriod(
+      timeEntry.project.organizationId,
+      timeEntry.startTime,
+    );
+    if (lock) {
+      throw new InvalidOperationException(
+        "Time entry falls into a locked period",
+      );
+    }
+
+    await this.assertTimesheetOpen(
+      timeEntry.userId,
+      timeEntry.project.organizationId,
+      timeEntry.startTime,
+    );
+
+    if (timeEntry.approved) {
+      // Снять утверждение может только менеджер — иначе будет PermissionDenied
+      await this.approvalService.approveTimeEntries(userId, {
+        timeEntryIds: [timeEntry.id],
+        approved: false,
+      });
+    }
+
+    const intervalMs = this.getScreenshotIntervalMinutes() * 60 * 1000;
+    const slotStart =
+      Math.floor(screenshot.takenAt.getTime() / intervalMs) * intervalMs;
+    const from = new Date(Math.max(slotStart, timeEntry.startTime.getTime()));
+    const to = new Date(
+      Math.min(slotStart + intervalMs, timeEntry.endTime.getTime()),
+    );
+
+    if (from >= to) {
+      throw new InvalidOperationException(
+        "Screenshot was taken outside of its time entry",
+      );
+    }
+
+    const trimStart = from.getTime() <= timeEntry.startTime.getTime();
+    const trimEnd = to.getTime() >= timeEntry.endTime.getTime();
+    if (trimStart && trimEnd) {
+      throw new InvalidOperationException(
+        "Screenshot interval covers the whole time entry; delete the time entry instead",
+      );
+    }
+
+    const oldValues = {
+      startTime: timeEntry.startTime,
+      endTime: timeEntry.endTime,
+      duration: timeEntry.duration,
+    };
+
+    const { removedScreenshots, splitEntryId } = await this.prisma.$transaction(
+      async (tx) => {
+        const inInterval = { gte: from, lt: to };
+
+        const removedScreenshots = await tx.screenshot.findMany({
+          where: {
+            timeEntryId: timeEntry.id,
+            OR: [{ id: screenshot.id }, { takenAt: inInterval }],
+          },
+          select: { id: true, storageKey: true, thumbnailKeys: true },
+        });
+        await tx.screenshot.deleteMany({
+          where: { id: { in: removedScreenshots.map((item) => item.id) } },
+        });
+        await tx.activity.deleteMany({
+          where: { timeEntryId: timeEntry.id, trackedDate: inInterval },
+        });
+        await tx.appActivity.deleteMany({
+          where: { timeEntryId: timeEntry.id, trackedAt: inInterval },
+        });
+        await tx.idlePeriod.deleteMany({
+          where: {
+            timeEntryId: timeEntry.id,
+            startTime: { gte: from },
+            endTime: { lte: to },
+          },
+        });
+
+        if (trimStart) {
+          await tx.timeEntry.update({
+            where: { id: timeEntry.id },
+            data: { startTime: to, approved: false },
+          });
+          return { removedScreenshots, splitEntryId: null };
+        }
+
+        await tx.timeEntry.update({
+          where: { id: timeEntry.id },
+          data: { endTime: from, approved: false },
+        });
+
+        if (trimEnd) {
+          return { removedScreenshots, splitEntryId: null };
+        }
+
+        // Интервал внутри записи — хвост становится отдельной записью
+        const tail = await tx.timeEntry.create({
+          data: {
+            startTime: to,
+            endTime: timeEntry.endTime,
+            description: timeEntry.description,
+            billable: timeEntry.billable,
+            userId: timeEntry.userId,
+            projectId: timeEntry.projectId,
+            taskId: timeEntry.taskId,
+          },
+        });
+
+        const afterInterval = { timeEntryId: timeEntry.id };
+        const moveTo = { timeEntryId: tail.id };
+        await tx.screenshot.updateMany({
+          where: { ...afterInterval, takenAt: { gte: to } },
+          data: moveTo,
+        });
+        await tx.activity.updateMany({
+          where: { ...afterInterval, trackedDate: { gte: to } },
+          data: moveTo,
+        });
+        await tx.appActivity.updateMany({
+          where: { ...afterInterval, trackedAt: { gte: to } },
+          data: moveTo,
+        });
+        await tx.idlePeriod.updateMany({
+          where: { ...afterInterval, startTime: { gte: to } },
+          data: moveTo,
+        });
+
+        return { removedScreenshots, splitEntryId: tail.id };
+      },
+    );
+
+    const updated = await this.recalculateDuration(timeEntry.id);
+    if (splitEntryId) {
+      await this.recalculateDuration(splitEntryId);
+    }
+
+    await this.approvalService.logTimeEntryChange(
+      timeEntry.id,
+      userId,
+      oldValues,
+      {
+        startTime: updated.startTime,
+        endTime: updated.endTime,
+        duration: updated.duration,
+        splitTimeEntryId: splitEntryId,
+      },
+      `Screenshot ${screenshot.id} deleted with time ${from.toISOString()} - ${to.toISOString()}`,
+    );
+
+    // Файлы удаляем после коммита: строки уже удалены, ошибку только логируем
+    for (const removed of removedScreenshots) {
+      await this.deleteScreenshotFiles(removed).catch((error) =>
+        this.logger.warn(
+          `Failed to delete files of screenshot ${removed.id}: ${error.message}`,
+        ),
+      );
+    }
+
+    this.logger.log(
+      `Screenshot ${screenshot.id} deleted with ${Math.floor((to.getTime() - from.getTime()) / 1000)}s of time entry ${timeEntry.id}`,
+    );
+  }
+
+  private getScreenshotIntervalMinutes(): number {
+    const minutes = Number(
+      this.configService.get("SCREENSHOT_INTERVAL_MINUTES"),
+    );
+    return Number.isFinite(minutes) && minutes > 0
+      ? minutes
+      : DEFAULT_SCREENSHOT_INTERVAL_MINUTES;
+  }
+
   async recordIdlePeriod(
     timeEntryId: string,
     userId: string,
@@ -715,30 +1921,75 @@ export class TimeEntriesService {
     this.logger.log(`Recording idle period for time entry ${timeEntryId}`);
 
     // Проверяем доступ
-    await this.validateTimeEntryAccess(timeEntryId, userId);
+    const timeEntry = await this.validateTimeEntryAccess(timeEntryId, userId);
 
-    // Если есть endTime, вычисляем duration
-    let duration = dto.duration;
-    if (dto.startTime && dto.endTime && !duration) {
-      duration = Math.floor(
-        (dto.endTime.getTime() - dto.startTime.getTime()) / 1000,
+    if (timeEntry.locked) {
+      throw new InvalidOperationException("Time entry is locked");
+    }
+
+    const idlePeriod = await this.storeIdlePeriod(timeEntryId, dto);
+
+    return this.mapToIdlePeriodResponse(idlePeriod);
+  }
+
+  /**
+   * Засчитать или исключить период бездействия, ожидающий решения
+   */
+  async resolveIdlePeriod(
+    timeEntryId: string,
+    idlePeriodId: string,
+    userId: string,
+    dto: ResolveIdlePeriodDto,
+  ): Promise<IdlePeriodResponseDto> {
+    const timeEntry = await this.validateTimeEntryAccess(timeEntryId, userId);
+
+    if (timeEntry.locked) {
+      throw new InvalidOperationException("Time entry is locked");
+    }
+
+    const idlePeriod = await this.prisma.idlePeriod.findFirst({
+      where: { id: idlePeriodId, timeEntryId },
+    });
+
+    if (!idlePeriod) {
+      throw new EntityNotFoundException("IdlePeriod", idlePeriodId);
+    }
+
+    if (idlePeriod.status !== IdleStatus.PENDING) {
+      throw new InvalidOperationException(
+        "Idle period has already been resolved",
       );
     }
 
-    const idlePeriod = await this.prisma.idlePeriod.create({
+    const discard = dto.action === IdleResolution.DISCARD;
+    const updated = await this.prisma.idlePeriod.update({
+      where: { id: idlePeriodId },
       data: {
-        startTime: dto.startTime,
-        endTime: dto.endTime,
-        duration,
-        reason: dto.reason,
-        timeEntryId,
+        status: discard ? IdleStatus.DISCARDED : IdleStatus.KEPT,
+        resolvedAt: new Date(),
       },
     });
 
-    // Если период бездействия закончился, обновляем общую длительность timeEntry?
-    // TODO: Вычитать idle время из общего времени?
+    if (discard) {
+      const recalculated = await this.recalculateDuration(timeEntryId);
 
-    return this.mapToIdlePeriodResponse(idlePeriod);
+      await this.approvalService.logTimeEntryChange(
+        timeEntryId,
+        userId,
+        { duration: timeEntry.duration, idleSeconds: timeEntry.idleSeconds },
+        {
+          duration: recalculated.duration,
+          idleSeconds: recalculated.idleSeconds,
+        },
+        `Idle period ${idlePeriodId} discarded`,
+      );
+    }
+
+    this.logger.log(
+      `Idle period ${idlePeriodId} ${discard ? "discarded" : "kept"} by user ${userId}`,
+    );
+
+    return this.mapToIdlePeriodResponse(updated);
   }
 
   /**
@@ -762,6 +2013,19 @@ export class TimeEntriesService {
 
   // ==================== APP/URL TRACKING ====================
 
+  /**
+   * Определяет категорию по домену, а если его нет — по приложению
+   */
+  resolveAppCategory(dto: AppActivityDto): AppCategory | undefined {
+    if (dto.domain) {
+      return this.categorizeDomain(dto.domain);
+    }
+    if (dto.appName) {
+      return this.categorizeApp(dto.appName);
+    }
+    return undefined;
+  }
+
   /**
    * Записать активность приложения
    */
@@ -774,14 +2038,7 @@ export class TimeEntriesService {
 
     await this.validateTimeEntryAccess(timeEntryId, userId);
 
-    let category: AppCategory | undefined;
-
-    // Определяем категорию, если не указана
-    if (!category && dto.domain) {
-      category = this.categorizeDomain(dto.domain);
-    } else if (!category && dto.appName) {
-      category = this.categorizeApp(dto.appName);
-    }
+    const category = this.resolveAppCategory(dto);
 
     const appActivity = await this.prisma.appActivity.create({
       data: {
@@ -894,26 +2151,40 @@ export class TimeEntriesService {
   async checkIdle(
     userId: string,
     lastActivityTimestamp: Date,
-  ): Promise<{ isIdle: boolean; idleDuration?: number }> {
-    const activeTimer = this.activeTimers.get(userId);
+  ): Promise<{
+    isIdle: boolean;
+    idleDuration?: number;
+    idleThreshold?: number;
+    idlePolicy?: IdlePolicy;
+  }> {
+    const activeTimer = await this.findOpenTimeEntry(userId);
 
     if (!activeTimer) {
       return { isIdle: false };
     }
 
+    // Порог и политика берутся из настроек организации
+    const { policy, thresholdSeconds } = await this.getIdleSettings(
+      activeTimer.project.organizationId,
+    );
     const now = new Date();
-    const idleThreshold = 5 * 60 * 1000; // 5 минут
     const timeSinceLastActivity =
       now.getTime() - lastActivityTimestamp.getTime();
 
-    if (timeSinceLastActivity > idleThreshold) {
+    if (timeSinceLastActivity > thresholdSeconds * 1000) {
       return {
         isIdle: true,
         idleDuration: Math.floor(timeSinceLastActivity / 1000),
+        idleThreshold: thresholdSeconds,
+        idlePolicy: policy,
       };
     }
 
-    return { isIdle: false };
+    return {
+      isIdle: false,
+      idleThreshold: thresholdSeconds,
+      idlePolicy: policy,
+    };
   }
 
   // ==================== PRIVATE HELPERS ====================
@@ -980,6 +2251,8 @@ export class TimeEntriesService {
       endTime: period.endTime,
       duration: period.duration,
       reason: period.reason,
+      status: period.status,
+      resolvedAt: period.resolvedAt,
       timeEntryId: period.timeEntryId,
     };
   }
@@ -1000,7 +2273,7 @@ export class TimeEntriesService {
 
   // ==================== МЕТОДЫ МАППИНГА ====================
 
-  private mapToResponse(entry: any): TimeEntryResponseDto {
+  mapToResponse(entry: any): TimeEntryResponseDto {
     return {
       id: entry.id,
       startTime: entry.startTime,
@@ -1012,6 +2285,9 @@ export class TimeEntriesService {
       userId: entry.userId,
       projectId: entry.projectId,
       taskId: entry.taskId,
+      clientId: entry.clientId,
+      hasOverlap: entry.hasOverlap,
+      idleSeconds: entry.idleSeconds,
       createdAt: entry.createdAt,
       updatedAt: entry.updatedAt,
       user: entry.user,
@@ -1020,13 +2296,35 @@ export class TimeEntriesService {
     };
   }
 
-  private mapToScreenshotResponse(screenshot: any): ScreenshotResponseDto {
+  private async mapToScreenshotResponse(
+    screenshot: any,
+  ): Promise<ScreenshotResponseDto> {
+    // Наружу отдаем только временные ссылки
+    const url = screenshot.storageKey
+      ? await this.storageService.getSignedUrl(screenshot.storageKey)
+      : screenshot.url;
+
+    const thumbnails = await Promise.all(
+      Object.entries(
+        (screenshot.thumbnailKeys as Record<string, string> | null) ?? {},
+      )
+        .map(([width, key]) => ({ width: Number(width), key }))
+        .sort((a, b) => a.width - b.width)
+        .map(async ({ width, key }) => ({
+          width,
+          url: await this.storageService.getSignedUrl(key),
+        })),
+    );
+
     return {
       id: screenshot.id,
-      url: screenshot.url,
+      url,
+      thumbnailUrl: thumbnails[0]?.url ?? url,
+      thumbnails,
       takenAt: screenshot.takenAt,
       isBlurred: screenshot.isBlurred,
       timeEntryId: screenshot.timeEntryId,
+      clientId: screenshot.clientId,
       timeEntry: screenshot.timeEntry,
     };
   }
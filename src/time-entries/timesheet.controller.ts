@@ -0,0 +1,128 @@
+// time-entries/timesheet.controller.ts
+import {
+  Controller,
+  Post,
+  Get,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  Ip,
+  Headers,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from "@nestjs/swagger";
+import { TimesheetService } from "./timesheet.service";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { GetUser } from "../auth/decorators/get-user.decorator";
+import {
+  ApproveTimesheetDto,
+  CreateTimesheetDto,
+  RejectTimesheetDto,
+  TimesheetFilterDto,
+  TimesheetResponseDto,
+} from "./dto/timesheet.dto";
+
+@ApiTags("timesheets")
+@ApiBearerAuth()
+@Controller("timesheets")
+@UseGuards(JwtAuthGuard)
+export class TimesheetController {
+  constructor(private readonly timesheetService: TimesheetService) {}
+
+  @Post()
+  @ApiOperation({ summary: "Create (or get) a weekly timesheet" })
+  @ApiResponse({ status: 201, type: TimesheetResponseDto })
+  async createTimesheet(
+    @GetUser("id") userId: string,
+    @Body() dto: CreateTimesheetDto,
+  ): Promise<TimesheetResponseDto> {
+    return this.timesheetService.createTimesheet(userId, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: "List my timesheets" })
+  @ApiResponse({ type: [TimesheetResponseDto] })
+  async getMyTimesheets(
+    @GetUser("id") userId: string,
+    @Query() filter: TimesheetFilterDto,
+  ): Promise<TimesheetResponseDto[]> {
+    return this.timesheetService.getMyTimesheets(userId, filter);
+  }
+
+  @Get("pending")
+  @ApiOperation({ summary: "Timesheets waiting for my approval" })
+  @ApiQuery({ name: "organizationId", required: false })
+  @ApiResponse({ type: [TimesheetResponseDto] })
+  async getPendingTimesheets(
+    @GetUser("id") userId: string,
+    @Query("organizationId", new ParseUUIDPipe({ optional: true }))
+    organizationId?: string,
+  ): Promise<TimesheetResponseDto[]> {
+    return this.timesheetService.getPendingTimesheets(userId, organizationId);
+  }
+
+  @Get(":id")
+  @ApiOperation({ summary: "Get a timesheet with its time entries" })
+  @ApiResponse({ type: TimesheetResponseDto })
+  async getTimesheet(
+    @Param("id", ParseUUIDPipe) id: string,
+    @GetUser("id") userId: string,
+  ): Promise<TimesheetResponseDto> {
+    return this.timesheetService.getTimesheet(userId, id);
+  }
+
+  @Post(":id/submit")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Submit (or resubmit) a timesheet for approval" })
+  @ApiResponse({ status: 200, type: TimesheetResponseDto })
+  async submitTimesheet(
+    @Param("id", ParseUUIDPipe) id: string,
+    @GetUser("id") userId: string,
+  ): Promise<TimesheetResponseDto> {
+    return this.timesheetService.submitTimesheet(userId, id);
+  }
+
+  @Post(":id/approve")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      "Approve a timesheet; with an approval chain this completes the current step",
+  })
+  @ApiResponse({ status: 200, type: TimesheetResponseDto })
+  async approveTimesheet(
+    @Param("id", ParseUUIDPipe) id: string,
+    @GetUser("id") userId: string,
+    @Body() dto: ApproveTimesheetDto,
+    @Ip() ip: string,
+    @Headers("user-agent") userAgent: string,
+  ): Promise<TimesheetResponseDto> {
+    return this.timesheetService.approveTimesheet(
+      userId,
+      id,
+      dto,
+      ip,
+      userAgent,
+    );
+  }
+
+  @Post(":id/reject")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Reject a timesheet with a comment" })
+  @ApiResponse({ status: 200, type: TimesheetResponseDto })
+  async rejectTimesheet(
+    @Param("id", ParseUUIDPipe) id: string,
+    @GetUser("id") userId: string,
+    @Body() dto: RejectTimesheetDto,
+  ): Promise<TimesheetResponseDto> {
+    return this.timesheetService.rejectTimesheet(userId, id, dto);
+  }
+}
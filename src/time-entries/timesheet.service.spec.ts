@@ -0,0 +1,359 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { TimesheetStatus } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { TimesheetService } from "./timesheet.service";
+import { ApprovalService } from "./approval.service";
+import {
+  InvalidOperationException,
+  PermissionDeniedException,
+  ValidationException,
+} from "../exceptions/business.exception";
+
+describe("TimesheetService", () => {
+  let service: TimesheetService;
+
+  const ownerId = "user-1";
+  const reviewerId = "manager-1";
+
+  const mockPrismaService = {
+    timesheet: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    timeEntry: {
+      findMany: jest.fn(),
+    },
+    organization: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    organizationMember: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockApprovalService = {
+    approveTimeEntries: jest.fn(),
+    getNextApprovalSteps: jest.fn(),
+  };
+
+  const timesheet = (status: TimesheetStatus) => ({
+    id: "timesheet-1",
+    organizationId: "org-1",
+    userId: ownerId,
+    periodStart: new Date("2026-10-05T00:00:00Z"),
+    periodEnd: new Date("2026-10-12T00:00:00Z"),
+    status,
+    totalSeconds: 0,
+    submittedAt: null,
+    submissionCount: 0,
+    reviewedById: null,
+    reviewedAt: null,
+    rejectionComment: null,
+    createdAt: new Date("2026-10-05T00:00:00Z"),
+    updatedAt: new Date("2026-10-05T00:00:00Z"),
+  });
+
+  const entry = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    startTime: new Date("2026-10-06T09:00:00Z"),
+    endTime: new Date("2026-10-06T11:00:00Z"),
+    duration: 7200,
+    approved: false,
+    ...overrides,
+  });
+
+  const step = (
+    timeEntryId: string,
+    position: number,
+    totalSteps: number,
+    canAct: boolean,
+  ) => ({
+    timeEntryId,
+    chainId: "chain-1",
+    position,
+    totalSteps,
+    canAct,
+    reason: "",
+  });
+
+  // update возвращает табель с примененными изменениями
+  const echoUpdate = (status: TimesheetStatus) =>
+    mockPrismaService.timesheet.update.mockImplementationOnce(({ data }) => ({
+      ...timesheet(status),
+      ...data,
+    }));
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TimesheetService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ApprovalService, useValue: mockApprovalService },
+      ],
+    }).compile();
+
+    service = module.get<TimesheetService>(TimesheetService);
+
+    jest.clearAllMocks();
+    mockPrismaService.organization.findUnique.mockResolvedValue({
+      ownerId: "owner-1",
+    });
+    mockPrismaService.organizationMember.findFirst.mockResolvedValue({
+      id: "member-1",
+    });
+  });
+
+  describe("submitTimesheet", () => {
+    it("fixes the total and moves the draft to SUBMITTED", async () => {
+      mockPrismaService.timesheet.findUnique.mockResolvedValueOnce(
+        timesheet(TimesheetStatus.DRAFT),
+      );
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([
+        entry("entry-1"),
+        entry("entry-2", { duration: 1800 }),
+      ]);
+      echoUpdate(TimesheetStatus.DRAFT);
+
+      const response = await service.submitTimesheet(ownerId, "timesheet-1");
+
+      expect(mockPrismaService.timesheet.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: TimesheetStatus.SUBMITTED,
+            totalSeconds: 9000,
+            submissionCount: { increment: 1 },
+          }),
+        }),
+      );
+      expect(response.status).toBe(TimesheetStatus.SUBMITTED);
+    });
+
+    it("refuses a week with a running timer", async () => {
+      mockPrismaService.timesheet.findUnique.mockResolvedValueOnce(
+        timesheet(TimesheetStatus.DRAFT),
+      );
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([
+        entry("entry-1", { endTime: null, duration: null }),
+      ]);
+
+      await expect(
+        service.submitTimesheet(ownerId, "timesheet-1"),
+      ).rejects.toBeInstanceOf(InvalidOperationException);
+      expect(mockPrismaService.timesheet.update).not.toHaveBeenCalled();
+    });
+
+    it("resubmits a rejected timesheet", async () => {
+      mockPrismaService.timesheet.findUnique.mockResolvedValueOnce({
+        ...timesheet(TimesheetStatus.REJECTED),
+        submissionCount: 1,
+        rejectionComment: "Missing Friday",
+      });
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([
+        entry("entry-1"),
+      ]);
+      echoUpdate(TimesheetStatus.REJECTED);
+
+      const response = await service.submitTimesheet(ownerId, "timesheet-1");
+
+      expect(response.status).toBe(TimesheetStatus.SUBMITTED);
+      expect(mockPrismaService.timesheet.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            reviewedById: null,
+            reviewedAt: null,
+          }),
+        }),
+      );
+    });
+
+    it("does not submit a timesheet twice", async () => {
+      mockPrismaService.timesheet.findUnique.mockResolvedValueOnce(
+        timesheet(TimesheetStatus.SUBMITTED),
+      );
+
+      await expect(
+        service.submitTimesheet(ownerId, "timesheet-1"),
+      ).rejects.toBeInstanceOf(InvalidOperationException);
+    });
+
+    it("lets only the owner submit", async () => {
+      mockPrismaService.timesheet.findUnique.mockResolvedValueOnce(
+        timesheet(TimesheetStatus.DRAFT),
+      );
+
+      await expect(
+        service.submitTimesheet(reviewerId, "timesheet-1"),
+      ).rejects.toBeInstanceOf(PermissionDeniedException);
+    });
+  });
+
+  describe("rejectTimesheet", () => {
+    it("requires a comment", async () => {
+      await expect(
+        service.rejectTimesheet(reviewerId, "timesheet-1", { comment: "  " }),
+      ).rejects.toBeInstanceOf(ValidationException);
+      expect(mockPrismaService.timesheet.update).not.toHaveBeenCalled();
+    });
+
+    it("stores the comment and returns the timesheet to the owner", async () => {
+      mockPrismaService.timesheet.findUnique.mockResolvedValueOnce(
+        timesheet(TimesheetStatus.SUBMITTED),
+      );
+      echoUpdate(TimesheetStatus.SUBMITTED);
+
+      const response = await service.rejectTimesheet(
+        reviewerId,
+        "timesheet-1",
+        { comment: " Missing Friday " },
+      );
+
+      expect(response).toMatchObject({
+        status: TimesheetStatus.REJECTED,
+        rejectionComment: "Missing Friday",
+        reviewedById: reviewerId,
+      });
+    });
+
+    it("does not let the owner review their own timesheet", async () => {
+      mockPrismaService.timesheet.findUnique.mockResolvedValueOnce(
+        timesheet(TimesheetStatus.SUBMITTED),
+      );
+
+      await expect(
+        service.rejectTimesheet(ownerId, "timesheet-1", { comment: "No" }),
+      ).rejects.toBeInstanceOf(PermissionDeniedException);
+    });
+  });
+
+  describe("approveTimesheet", () => {
+    it("approves the pending entries and the timesheet", async () => {
+      mockPrismaService.timesheet.findUnique.mockResolvedValueOnce(
+        timesheet(TimesheetStatus.SUBMITTED),
+      );
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([
+        entry("entry-1"),
+        entry("entry-2", { approved: true }),
+      ]);
+      mockApprovalService.getNextApprovalSteps.mockResolvedValueOnce([
+        step("entry-1", 1, 1, true),
+      ]);
+      echoUpdate(TimesheetStatus.SUBMITTED);
+
+      const response = await service.approveTimesheet(
+        reviewerId,
+        "timesheet-1",
+        {},
+      );
+
+      expect(mockApprovalService.getNextApprovalSteps).toHaveBeenCalledWith(
+        reviewerId,
+        ["entry-1"],
+      );
+      expect(mockApprovalService.approveTimeEntries).toHaveBeenCalledWith(
+        reviewerId,
+        expect.objectContaining({ timeEntryIds: ["entry-1"], approved: true }),
+        undefined,
+        undefined,
+      );
+      expect(response).toMatchObject({
+        status: TimesheetStatus.APPROVED,
+        currentStep: null,
+      });
+    });
+
+    it("passes only the steps of the caller and shows the next step", async () => {
+      mockPrismaService.timesheet.findUnique.mockResolvedValueOnce(
+        timesheet(TimesheetStatus.SUBMITTED),
+      );
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([
+        entry("entry-1"),
+        entry("entry-2"),
+      ]);
+      mockApprovalService.getNextApprovalSteps.mockResolvedValueOnce([
+        step("entry-1", 1, 2, true),
+        step("entry-2", 1, 2, false),
+      ]);
+      echoUpdate(TimesheetStatus.SUBMITTED);
+
+      const response = await service.approveTimesheet(
+        reviewerId,
+        "timesheet-1",
+        {},
+      );
+
+      expect(mockApprovalService.approveTimeEntries).toHaveBeenCalledWith(
+        reviewerId,
+        expect.objectContaining({ timeEntryIds: ["entry-1"] }),
+        undefined,
+        undefined,
+      );
+      expect(response).toMatchObject({
+        status: TimesheetStatus.SUBMITTED,
+        currentStep: 1,
+      });
+    });
+
+    it("refuses a caller who has no step in the timesheet", async () => {
+      mockPrismaService.timesheet.findUnique.mockResolvedValueOnce(
+        timesheet(TimesheetStatus.SUBMITTED),
+      );
+      mockPrismaService.timeEntry.findMany.mockResolvedValueOnce([
+        entry("entry-1"),
+      ]);
+      mockApprovalService.getNextApprovalSteps.mockResolvedValueOnce([
+        step("entry-1", 2, 2, false),
+      ]);
+
+      await expect(
+        service.approveTimesheet(reviewerId, "timesheet-1", {}),
+      ).rejects.toBeInstanceOf(PermissionDeniedException);
+      expect(mockApprovalService.approveTimeEntries).not.toHaveBeenCalled();
+    });
+
+    it("rejects approval of a draft", async () => {
+      mockPrismaService.timesheet.findUnique.mockResolvedValueOnce(
+        timesheet(TimesheetStatus.DRAFT),
+      );
+
+      await expect(
+        service.approveTimesheet(reviewerId, "timesheet-1", {}),
+      ).rejects.toBeInstanceOf(InvalidOperationException);
+      expect(mockApprovalService.approveTimeEntries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getPendingTimesheets", () => {
+    it("lists only timesheets whose next step belongs to the caller", async () => {
+      mockPrismaService.organization.findMany.mockResolvedValueOnce([]);
+      mockPrismaService.organizationMember.findMany.mockResolvedValueOnce([
+        { organizationId: "org-1" },
+      ]);
+      mockPrismaService.timesheet.findMany.mockResolvedValueOnce([
+        { ...timesheet(TimesheetStatus.SUBMITTED), id: "timesheet-1" },
+        { ...timesheet(TimesheetStatus.SUBMITTED), id: "timesheet-2" },
+      ]);
+      mockPrismaService.timeEntry.findMany
+        .mockResolvedValueOnce([entry("entry-1")])
+        .mockResolvedValueOnce([entry("entry-2")]);
+      mockApprovalService.getNextApprovalSteps
+        .mockResolvedValueOnce([step("entry-1", 2, 2, true)])
+        .mockResolvedValueOnce([step("entry-2", 1, 2, false)]);
+
+      const queue = await service.getPendingTimesheets(reviewerId);
+
+      expect(
+        mockPrismaService.organizationMember.findMany,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.not.objectContaining({ role: expect.anything() }),
+        }),
+      );
+      expect(queue).toEqual([
+        expect.objectContaining({ id: "timesheet-1", currentStep: 2 }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,507 @@
+// time-entries/timesheet.service.ts
+import { Injectable, Logger } from "@nestjs/common";
+import {
+  MemberRole,
+  MemberStatus,
+  Prisma,
+  Timesheet,
+  TimesheetStatus,
+} from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { ApprovalService, NextApprovalStep } from "./approval.service";
+import {
+  ApproveTimesheetDto,
+  CreateTimesheetDto,
+  RejectTimesheetDto,
+  TimesheetFilterDto,
+  TimesheetResponseDto,
+} from "./dto/timesheet.dto";
+import {
+  EntityNotFoundException,
+  InvalidOperationException,
+  PermissionDeniedException,
+  ValidationException,
+} from "../exceptions/business.exception";
+import {
+  addDaysToDateKey,
+  getDateKeyWeekday,
+  startOfLocalDay,
+} from "../common/utils/timezone";
+
+const REVIEWER_ROLES: MemberRole[] = [MemberRole.ADMIN, MemberRole.MANAGER];
+
+const userSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+} as const;
+
+/**
+ * Недельные табели: сотрудник отправляет неделю целиком, утверждающие
+ * очередного шага цепочки проходят его для своих записей недели,
+ * руководитель организации (владелец, ADMIN или MANAGER) может отклонить.
+ * Шаги записей проходятся через ApprovalService
+ */
+@Injectable()
+export class TimesheetService {
+  private readonly logger = new Logger(TimesheetService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly approvalService: ApprovalService,
+  ) {}
+
+  // ==================== ТАБЕЛИ СОТРУДНИКА ====================
+
+  /**
+   * Создать черновик табеля за неделю (или вернуть уже существующий)
+   */
+  async createTimesheet(
+    userId: string,
+    dto: CreateTimesheetDto,
+  ): Promise<TimesheetResponseDto> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: dto.organizationId },
+      select: { id: true, ownerId: true, timezone: true },
+    });
+    if (!organization) {
+      throw new EntityNotFoundException("Organization", dto.organizationId);
+    }
+
+    await this.validateMembership(userId, organization);
+
+    if (getDateKeyWeekday(dto.weekStart) !== 1) {
+      throw new ValidationException("weekStart must be a Monday");
+    }
+
+    const periodStart = startOfLocalDay(dto.weekStart, organization.timezone);
+    const periodEnd = startOfLocalDay(
+      addDaysToDateKey(dto.weekStart, 7),
+      organization.timezone,
+    );
+
+    const timesheet = await this.prisma.timesheet.upsert({
+      where: {
+        organizationId_userId_periodStart: {
+          organizationId: organization.id,
+          userId,
+          periodStart,
+        },
+      },
+      create: {
+        organizationId: organization.id,
+        userId,
+        periodStart,
+        periodEnd,
+      },
+      update: {},
+      include: { user: { select: userSelect } },
+    });
+
+    return this.mapToResponse(timesheet);
+  }
+
+  async getMyTimesheets(
+    userId: string,
+    filter: TimesheetFilterDto,
+  ): Promise<TimesheetResponseDto[]> {
+    const timesheets = await this.prisma.timesheet.findMany({
+      where: {
+        userId,
+        ...(filter.organizationId && { organizationId: filter.organizationId }),
+        ...(filter.status && { status: filter.status }),
+      },
+      orderBy: { periodStart: "desc" },
+    });
+
+    return timesheets.map((t) => this.mapToResponse(t));
+  }
+
+  /**
+   * Табель с записями времени (для автора и руководителей организации)
+   */
+  async getTimesheet(
+    userId: string,
+    timesheetId: string,
+  ): Promise<TimesheetResponseDto> {
+    const timesheet = await this.findTimesheet(timesheetId);
+
+    if (timesheet.userId !== userId) {
+      await this.validateReviewer(userId, timesheet);
+    }
+
+    const entries = await this.getEntries(timesheet);
+    const steps = await this.getNextSteps(userId, timesheet, entries);
+    const stepOf = new Map(steps.map((step) => [step.timeEntryId, step]));
+
+    return {
+      ...this.mapToResponse(timesheet, steps),
+      entries: entries.map((entry) => ({
+        id: entry.id,
+        projectId: entry.projectId,
+        taskId: entry.taskId,
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+        duration: entry.duration ?? 0,
+        description: entry.description,
+        approved: entry.approved,
+        approvalStep: stepOf.get(entry.id)?.position ?? null,
+      })),
+    };
+  }
+
+  /**
+   * Отправить табель на утверждение; отклоненный табель отправляется повторно
+   */
+  async submitTimesheet(
+    userId: string,
+    timesheetId: string,
+  ): Promise<TimesheetResponseDto> {
+    const timesheet = await this.findTimesheet(timesheetId);
+
+    if (timesheet.userId !== userId) {
+      throw new PermissionDeniedException(
+        "Only the owner can submit a timesheet",
+      );
+    }
+
+    const submittable: TimesheetStatus[] = [
+      TimesheetStatus.DRAFT,
+      TimesheetStatus.REJECTED,
+    ];
+    if (!submittable.includes(timesheet.status)) {
+      throw new InvalidOperationException(
+        `Timesheet in status ${timesheet.status} cannot be submitted`,
+      );
+    }
+
+    const entries = await this.getEntries(timesheet);
+    if (entries.some((entry) => entry.endTime === null)) {
+      throw new InvalidOperationException(
+        "Stop the running timer before submitting the timesheet",
+      );
+    }
+
+    const updated = await this.prisma.timesheet.update({
+      where: { id: timesheetId },
+      data: {
+        status: TimesheetStatus.SUBMITTED,
+        totalSeconds: entries.reduce((sum, e) => sum + (e.duration ?? 0), 0),
+        submittedAt: new Date(),
+        submissionCount: { increment: 1 },
+        reviewedById: null,
+        reviewedAt: null,
+      },
+      include: { user: { select: userSelect } },
+    });
+
+    this.logger.log(
+      `Timesheet ${timesheetId} submitted by ${userId} (${entries.length} entries)`,
+    );
+
+    return this.mapToResponse(updated);
+  }
+
+  // ==================== УТВЕРЖДЕНИЕ ====================
+
+  /**
+   * Очередь табелей, ожидающих утверждения текущим пользователем: табель
+   * попадает в нее, если пользователь может пройти очередной шаг хотя бы
+   * одной записи недели
+   */
+  async getPendingTimesheets(
+    userId: string,
+    organizationId?: string,
+  ): Promise<TimesheetResponseDto[]> {
+    // Утверждать могут и менеджеры проектов, и назначенные в цепочке
+    // сотрудники, поэтому берутся все организации пользователя
+    const [owned, memberships] = await Promise.all([
+      this.prisma.organization.findMany({
+        where: { ownerId: userId },
+        select: { id: true },
+      }),
+      this.prisma.organizationMember.findMany({
+        where: {
+          userId,
+          is_current: true,
+          status: MemberStatus.ACTIVE,
+        },
+        select: { organizationId: true },
+      }),
+    ]);
+
+    let organizationIds = [
+      ...owned.map((o) => o.id),
+      ...memberships.map((m) => m.organizationId),
+    ];
+    if (organizationId) {
+      organizationIds = organizationIds.filter((id) => id === organizationId);
+    }
+    if (organizationIds.length === 0) {
+      return [];
+    }
+
+    const timesheets = await this.prisma.timesheet.findMany({
+      where: {
+        organizationId: { in: organizationIds },
+        status: TimesheetStatus.SUBMITTED,
+        userId: { not: userId },
+      },
+      include: { user: { select: userSelect } },
+      orderBy: { submittedAt: "asc" },
+    });
+
+    const queue: TimesheetResponseDto[] = [];
+    for (const timesheet of timesheets) {
+      const steps = await this.getNextSteps(userId, timesheet);
+      if (steps.some((step) => step.canAct)) {
+        queue.push(this.mapToResponse(timesheet, steps));
+      }
+    }
+
+    return queue;
+  }
+
+  /**
+   * Утвердить табель: пользователь проходит очередной шаг тех записей недели,
+   * где этот шаг его. Табель утвержден, когда утверждены все его записи
+   */
+  async approveTimesheet(
+    userId: string,
+    timesheetId: string,
+    dto: ApproveTimesheetDto,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<TimesheetResponseDto> {
+    const timesheet = await this.findReviewableTimesheet(userId, timesheetId);
+
+    const entries = await this.getEntries(timesheet);
+    const steps = await this.getNextSteps(userId, timesheet, entries);
+    const actionable = steps.filter((step) => step.canAct);
+    if (steps.length > 0 && actionable.length === 0) {
+      throw new PermissionDeniedException(
+        "You are not the approver for the current step of this timesheet",
+      );
+    }
+
+    let fullyApproved: string[] = [];
+    if (actionable.length > 0) {
+      await this.approvalService.approveTimeEntries(
+        userId,
+        {
+          timeEntryIds: actionable.map((step) => step.timeEntryId),
+          approved: true,
+          comment: dto.comment,
+        },
+        ipAddress,
+        userAgent,
+      );
+      fullyApproved = actionable
+        .filter((step) => step.position === step.totalSteps)
+        .map((step) => step.timeEntryId);
+    }
+    const remaining = steps
+      .filter((step) => !fullyApproved.includes(step.timeEntryId))
+      .map((step) =>
+        actionable.includes(step)
+          ? { ...step, position: step.position + 1 }
+          : step,
+      );
+    const approved = remaining.length === 0;
+
+    const updated = await this.prisma.timesheet.update({
+      where: { id: timesheetId },
+      data: {
+        ...(approved && { status: TimesheetStatus.APPROVED }),
+        reviewedById: userId,
+        reviewedAt: new Date(),
+      },
+      include: { user: { select: userSelect } },
+    });
+
+    this.logger.log(
+      approved
+        ? `Timesheet ${timesheetId} approved by ${userId}`
+        : `Timesheet ${timesheetId} passed an approval step by ${userId}`,
+    );
+
+    return this.mapToResponse(updated, remaining);
+  }
+
+  async rejectTimesheet(
+    userId: string,
+    timesheetId: string,
+    dto: RejectTimesheetDto,
+  ): Promise<TimesheetResponseDto> {
+    const comment = dto.comment.trim();
+    if (!comment) {
+      throw new ValidationException("A rejection comment is required");
+    }
+
+    await this.findReviewableTimesheet(userId, timesheetId);
+
+    const updated = await this.prisma.timesheet.update({
+      where: { id: timesheetId },
+      data: {
+        status: TimesheetStatus.REJECTED,
+        reviewedById: userId,
+        reviewedAt: new Date(),
+        rejectionComment: comment,
+      },
+      include: { user: { select: userSelect } },
+    });
+
+    this.logger.log(`Timesheet ${timesheetId} rejected by ${userId}`);
+
+    return this.mapToResponse(updated);
+  }
+
+  // ==================== ПРИВАТНЫЕ МЕТОДЫ ====================
+
+  private async findTimesheet(timesheetId: string) {
+    const timesheet = await this.prisma.timesheet.findUnique({
+      where: { id: timesheetId },
+      include: { user: { select: userSelect } },
+    });
+    if (!timesheet) {
+      throw new EntityNotFoundException("Timesheet", timesheetId);
+    }
+    return timesheet;
+  }
+
+  private async findReviewableTimesheet(userId: string, timesheetId: string) {
+    const timesheet = await this.findTimesheet(timesheetId);
+
+    if (timesheet.userId === userId) {
+      throw new PermissionDeniedException(
+        "You cannot review your own timesheet",
+      );
+    }
+    await this.validateReviewer(userId, timesheet);
+
+    if (timesheet.status !== TimesheetStatus.SUBMITTED) {
+      throw new InvalidOperationException(
+        "Only a submitted timesheet can be reviewed",
+      );
+    }
+
+    return timesheet;
+  }
+
+  /**
+   * Записи сотрудника в проектах организации, начатые в пределах недели
+   */
+  private getEntries(timesheet: Timesheet) {
+    return this.prisma.timeEntry.findMany({
+      where: {
+        userId: timesheet.userId,
+        project: { organizationId: timesheet.organizationId },
+        startTime: { gte: timesheet.periodStart, lt: timesheet.periodEnd },
+      },
+      orderBy: { startTime: "asc" },
+    });
+  }
+
+  private async validateMembership(
+    userId: string,
+    organization: { id: string; ownerId: string },
+  ) {
+    if (organization.ownerId === userId) return;
+
+    const member = await this.prisma.organizationMember.findFirst({
+      where: {
+        organizationId: organization.id,
+        userId,
+        is_current: true,
+        status: MemberStatus.ACTIVE,
+      },
+      select: { id: true },
+    });
+    if (!member) {
+      throw new PermissionDeniedException(
+        "You are not a member of this organization",
+      );
+    }
+  }
+
+  private async validateReviewer(userId: string, timesheet: Timesheet) {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: timesheet.organizationId },
+      select: { ownerId: true },
+    });
+    if (organization?.ownerId === userId) return;
+
+    const member = await this.prisma.organizationMember.findFirst({
+      where: {
+        organizationId: timesheet.organizationId,
+        userId,
+        is_current: true,
+        status: MemberStatus.ACTIVE,
+        role: { in: REVIEWER_ROLES },
+      },
+      select: { id: true },
+    });
+    if (member) return;
+
+    // Менеджеры проектов и назначенные в цепочке сотрудники рассматривают
+    // табель, пока их шаг очередной
+    const steps = await this.getNextSteps(userId, timesheet);
+    if (!steps.some((step) => step.canAct)) {
+      throw new PermissionDeniedException(
+        "Only owner, admins, managers and approvers of the current step can review timesheets",
+      );
+    }
+  }
+
+  /**
+   * Очередные шаги утверждения неутвержденных записей недели
+   */
+  private async getNextSteps(
+    userId: string,
+    timesheet: Timesheet,
+    entries?: { id: string; approved: boolean }[],
+  ): Promise<NextApprovalStep[]> {
+    const pending = (entries ?? (await this.getEntries(timesheet))).filter(
+      (entry) => !entry.approved,
+    );
+    if (pending.length === 0) {
+      return [];
+    }
+
+    return this.approvalService.getNextApprovalSteps(
+      userId,
+      pending.map((entry) => entry.id),
+    );
+  }
+
+  private mapToResponse(
+    timesheet:
+      | Prisma.TimesheetGetPayload<{
+          include: { user: { select: typeof userSelect } };
+        }>
+      | Timesheet,
+    steps?: NextApprovalStep[],
+  ): TimesheetResponseDto {
+    return {
+      id: timesheet.id,
+      organizationId: timesheet.organizationId,
+      userId: timesheet.userId,
+      user: "user" in timesheet ? timesheet.user : undefined,
+      periodStart: timesheet.periodStart,
+      periodEnd: timesheet.periodEnd,
+      status: timesheet.status,
+      totalSeconds: timesheet.totalSeconds,
+      submittedAt: timesheet.submittedAt,
+      submissionCount: timesheet.submissionCount,
+      reviewedById: timesheet.reviewedById,
+      reviewedAt: timesheet.reviewedAt,
+      rejectionComment: timesheet.rejectionComment,
+      currentStep: steps?.length
+        ? Math.min(...steps.map((step) => step.position))
+        : null,
+      createdAt: timesheet.createdAt,
+      updatedAt: timesheet.updatedAt,
+    };
+  }
+}